@@ -23,7 +23,28 @@
     nextTierRequirement: null,
     roofHoldMs: 0,
     roofHoldTargetMs: 20000,
-    roofActive: false
+    roofActive: false,
+    hill: null,
+    scoreToWin: 0,
+    teams: null,
+    teamId: null,
+    flags: null,
+    carryingFlagTeamId: null,
+    wave: 0,
+    enemiesRemaining: 0,
+    score: 0,
+    downed: false,
+    reviveProgressPercent: 0,
+    captureProgressPercent: 0,
+    runTimeMs: null,
+    bestTimeMs: null,
+    bestTimes: null,
+    // Lobby only: current match rules, saved preset names and whether this player may edit them
+    rules: null,
+    rulePresets: [],
+    isHost: false,
+    // Match series progress from the last round splash; null outside a series
+    series: null
   };
 
   const FEED_MAX = 6;
@@ -222,6 +243,71 @@
       const mode = btn.getAttribute('data-mode');
       btn.classList.toggle('active', mode === currentMode);
     });
+
+    renderLobbyRules(panel);
+  }
+
+  function renderLobbyRules(panel) {
+    const note = document.getElementById('hud-lobby-rules-note');
+    if (note) note.textContent = state.isHost ? '' : '(host only)';
+
+    panel.querySelectorAll('.hud-lobby-rules input, .hud-lobby-rules select, .hud-lobby-rules-btn').forEach(function (el) {
+      el.disabled = !state.isHost;
+    });
+
+    const rules = state.rules;
+    if (rules) {
+      panel.querySelectorAll('[data-rule]').forEach(function (input) {
+        // Don't overwrite what the host is typing when another HUD update lands
+        if (input === document.activeElement) return;
+        const key = input.getAttribute('data-rule');
+        const index = input.getAttribute('data-index');
+        const value = index != null ? (rules[key] || [])[Number(index)] : rules[key];
+        if (input.type === 'checkbox') {
+          input.checked = value === true;
+        } else {
+          const scale = Number(input.getAttribute('data-scale') || 1);
+          input.value = value != null ? String(value / scale) : '';
+        }
+      });
+    }
+
+    const select = document.getElementById('hud-lobby-preset-select');
+    if (select && select !== document.activeElement) {
+      const selected = select.value;
+      select.innerHTML = '';
+      if (state.rulePresets.length === 0) {
+        const empty = document.createElement('option');
+        empty.value = '';
+        empty.textContent = 'No saved presets';
+        select.appendChild(empty);
+      }
+      state.rulePresets.forEach(function (name) {
+        const opt = document.createElement('option');
+        opt.value = name;
+        opt.textContent = name;
+        select.appendChild(opt);
+      });
+      if (state.rulePresets.indexOf(selected) >= 0) select.value = selected;
+    }
+  }
+
+  /** Read the rules form; the server validates and answers with a toast on bad values. */
+  function readLobbyRules(panel) {
+    const rules = { towerTierThresholds: [] };
+    panel.querySelectorAll('[data-rule]').forEach(function (input) {
+      const key = input.getAttribute('data-rule');
+      const index = input.getAttribute('data-index');
+      if (input.type === 'checkbox') {
+        rules[key] = input.checked;
+        return;
+      }
+      const scale = Number(input.getAttribute('data-scale') || 1);
+      const value = Math.round(Number(input.value) * scale);
+      if (index != null) rules[key][Number(index)] = value;
+      else rules[key] = value;
+    });
+    return rules;
   }
 
   function initLobbyPanel() {
@@ -248,6 +334,40 @@
         }
       } catch (_) {}
     });
+
+    function sendLobbyData(data) {
+      try {
+        if (window.hytopia && typeof window.hytopia.sendData === 'function') {
+          window.hytopia.sendData(data);
+        }
+      } catch (_) {}
+    }
+
+    const applyBtn = document.getElementById('hud-lobby-rules-apply');
+    if (applyBtn) {
+      applyBtn.addEventListener('click', function () {
+        sendLobbyData({ type: 'set_rules', rules: readLobbyRules(panel) });
+      });
+    }
+
+    const loadBtn = document.getElementById('hud-lobby-preset-load');
+    const presetSelect = document.getElementById('hud-lobby-preset-select');
+    if (loadBtn && presetSelect) {
+      loadBtn.addEventListener('click', function () {
+        if (presetSelect.value) sendLobbyData({ type: 'load_rules_preset', name: presetSelect.value });
+      });
+    }
+
+    const saveBtn = document.getElementById('hud-lobby-preset-save');
+    const presetName = document.getElementById('hud-lobby-preset-name');
+    if (saveBtn && presetName) {
+      saveBtn.addEventListener('click', function () {
+        const name = presetName.value.trim();
+        if (!name) return;
+        sendLobbyData({ type: 'save_rules_preset', name: name });
+        presetName.value = '';
+      });
+    }
   }
 
   // =========================================================
@@ -296,6 +416,27 @@
     if (!fillEl || !labelEl || !remainingEl) return;
 
     const isTower = state.mode === 'tower';
+    fillEl.classList.toggle('contested', state.mode === 'koth' && !!(state.hill && state.hill.contested));
+    if (state.mode === 'koth') {
+      renderHillProgress(fillEl, labelEl, remainingEl);
+      return;
+    }
+    if (state.teams) {
+      renderTeamProgress(fillEl, labelEl, remainingEl);
+      return;
+    }
+    if (state.mode === 'bot_ffa') {
+      renderKillProgress(fillEl, labelEl, remainingEl);
+      return;
+    }
+    if (state.mode === 'survival') {
+      renderSurvivalProgress(fillEl, labelEl, remainingEl);
+      return;
+    }
+    if (state.mode === 'timetrial') {
+      renderTimeTrialProgress(fillEl, labelEl, remainingEl);
+      return;
+    }
     const shards = state.shards || 0;
     const target = state.target || 0;
     const carried = state.carriedShards ?? 0;
@@ -338,6 +479,89 @@
     }
   }
 
+  /** KOTH: hill holder / contested, own points toward the win and when the hill moves. */
+  function renderHillProgress(fillEl, labelEl, remainingEl) {
+    const hill = state.hill;
+    const target = state.scoreToWin || 0;
+    const localId = getLocalPlayerId();
+    const mine = (state.scores || []).find(function (s) { return s.playerId === localId; });
+    const points = mine ? mine.score : 0;
+
+    if (!hill) {
+      labelEl.textContent = 'Hill';
+      remainingEl.textContent = points + ' / ' + target;
+    } else {
+      const who = hill.contested ? 'CONTESTED' : (hill.holderName ? hill.holderName + ' holds' : 'Empty');
+      labelEl.textContent = 'Hill ' + (hill.index + 1) + '/' + hill.count + ' \u2022 ' + who;
+      const movesIn = hill.movesAtMs != null ? Math.max(0, Math.ceil((hill.movesAtMs - Date.now()) / 1000)) : null;
+      remainingEl.textContent = points + ' / ' + target + (movesIn != null ? ' \u2022 moves in ' + movesIn + 's' : '');
+    }
+    const pct = target > 0 ? Math.max(0, Math.min(1, points / target)) * 100 : 0;
+    fillEl.style.width = pct + '%';
+  }
+
+  /** TDM / CTF: team totals, own team and its progress toward the target (CTF: flag you carry). */
+  function renderTeamProgress(fillEl, labelEl, remainingEl) {
+    const target = state.scoreToWin || 0;
+    labelEl.textContent = state.teams.map(function (t) { return t.name + ' ' + t.score; }).join(' \u2022 ');
+    const mine = state.teams.find(function (t) { return t.teamId === state.teamId; });
+    const carrying = state.carryingFlagTeamId != null
+      ? state.teams.find(function (t) { return t.teamId === state.carryingFlagTeamId; })
+      : null;
+    remainingEl.textContent = carrying
+      ? 'You have the ' + carrying.name + ' flag \u2022 bring it to your base'
+      : (mine ? 'You: ' + mine.name + ' \u2022 ' : '') + 'first to ' + target;
+    const pct = mine && target > 0 ? Math.max(0, Math.min(1, mine.score / target)) * 100 : 0;
+    fillEl.style.width = pct + '%';
+  }
+
+  /** Survival: wave and enemies left, party score; while downed the bar tracks the revive instead. */
+  function renderSurvivalProgress(fillEl, labelEl, remainingEl) {
+    labelEl.textContent = 'Wave ' + (state.wave || 0) + ' \u2022 ' + (state.enemiesRemaining || 0) + ' enemies left';
+    if (state.downed) {
+      const pct = Math.max(0, Math.min(100, state.reviveProgressPercent || 0));
+      remainingEl.textContent = pct > 0 ? 'Reviving\u2026 ' + pct + '%' : 'You are down \u2022 wait for a teammate';
+      fillEl.style.width = pct + '%';
+      return;
+    }
+    remainingEl.textContent = 'Party score ' + (state.score || 0);
+    fillEl.style.width = '0%';
+  }
+
+  /** Time trial: own capture progress; once finished, the run time against the seed record. */
+  function renderTimeTrialProgress(fillEl, labelEl, remainingEl) {
+    const pct = Math.max(0, Math.min(100, state.captureProgressPercent || 0));
+    const record = state.bestTimeMs != null ? 'Record ' + formatRunTime(state.bestTimeMs) : 'No record yet';
+    if (state.runTimeMs != null) {
+      labelEl.textContent = 'Finished ' + formatRunTime(state.runTimeMs);
+      remainingEl.textContent = record;
+    } else {
+      labelEl.textContent = 'Capture ' + pct + '%';
+      remainingEl.textContent = record + ' \u2022 hold the objective';
+    }
+    fillEl.style.width = pct + '%';
+  }
+
+  function formatRunTime(ms) {
+    return (ms / 1000).toFixed(2) + 's';
+  }
+
+  /** bot_ffa: own kills toward the target and who leads. */
+  function renderKillProgress(fillEl, labelEl, remainingEl) {
+    const target = state.scoreToWin || 0;
+    const scores = state.scores || [];
+    const localId = getLocalPlayerId();
+    const mine = scores.find(function (s) { return s.playerId === localId; });
+    const kills = mine ? mine.score : 0;
+    labelEl.textContent = 'Kills: ' + kills + ' / ' + target;
+    const leader = scores[0];
+    remainingEl.textContent = leader && leader.score > 0
+      ? (leader.playerId === localId ? 'You lead' : leader.name + ' leads with ' + leader.score)
+      : 'First to ' + target + ' wins';
+    const pct = target > 0 ? Math.max(0, Math.min(1, kills / target)) * 100 : 0;
+    fillEl.style.width = pct + '%';
+  }
+
   // =========================================================
   // SCOREBOARD
   // =========================================================
@@ -358,6 +582,8 @@
     const scores = state.scores || [];
     const localPlayerId = getLocalPlayerId();
 
+    renderTeamScoreboard();
+    renderBestTimes();
     listEl.innerHTML = '';
 
     if (scores.length === 0) {
@@ -373,7 +599,12 @@
       const name = entry.name ?? '—';
       const score = entry.score ?? 0;
 
-      li.textContent = name + ' — ' + score;
+      const shown = state.mode === 'timetrial'
+        ? (entry.timeMs != null ? formatRunTime(entry.timeMs) : score + '%')
+        : score;
+      li.textContent = name + ' — ' + shown + (entry.downed ? ' (down)' : '');
+      if (entry.teamId != null) li.classList.add('hud-team-' + entry.teamId);
+      if (entry.downed) li.classList.add('hud-scoreboard__player--downed');
 
       if (localPlayerId && entry.playerId === localPlayerId) {
         li.classList.add('hud-scoreboard__player--you');
@@ -383,6 +614,57 @@
     });
   }
 
+  function renderTeamScoreboard() {
+    const teamsEl = document.getElementById('hud-scoreboard-teams');
+    if (!teamsEl) return;
+    const teams = state.teams;
+    teamsEl.classList.toggle('hidden', !teams);
+    teamsEl.innerHTML = '';
+    if (!teams) return;
+    teams.forEach(function (t) {
+      const li = document.createElement('li');
+      li.className = 'hud-team-' + t.teamId;
+      if (t.teamId === state.teamId) li.classList.add('hud-scoreboard__team--you');
+      li.textContent = t.name + ' ' + t.score + ' (' + t.size + ')' + flagStatusText(t.teamId);
+      teamsEl.appendChild(li);
+    });
+  }
+
+  /** Time trial: the seed's persistent best times under the live leaderboard. */
+  function renderBestTimes() {
+    const bestEl = document.getElementById('hud-scoreboard-best');
+    const listEl = document.getElementById('hud-scoreboard-best-list');
+    if (!bestEl || !listEl) return;
+    const best = state.bestTimes;
+    bestEl.classList.toggle('hidden', !best);
+    listEl.innerHTML = '';
+    if (!best) return;
+    if (best.length === 0) {
+      const empty = document.createElement('li');
+      empty.className = 'hud-scoreboard__empty';
+      empty.textContent = 'No times on this seed yet';
+      listEl.appendChild(empty);
+      return;
+    }
+    best.forEach(function (b) {
+      const li = document.createElement('li');
+      li.textContent = b.name + ' — ' + formatRunTime(b.timeMs);
+      listEl.appendChild(li);
+    });
+  }
+
+  /** CTF: ' \u2022 flag <where>' for a team row; empty outside CTF. */
+  function flagStatusText(teamId) {
+    const flag = (state.flags || []).find(function (f) { return f.teamId === teamId; });
+    if (!flag) return '';
+    if (flag.status === 'carried') return ' \u2022 flag: ' + (flag.carrierName || 'carried');
+    if (flag.status === 'dropped') {
+      const returnsIn = flag.returnsAtMs != null ? Math.max(0, Math.ceil((flag.returnsAtMs - Date.now()) / 1000)) : null;
+      return ' \u2022 flag dropped' + (returnsIn != null ? ' (' + returnsIn + 's)' : '');
+    }
+    return ' \u2022 flag home';
+  }
+
   // =========================================================
   // END OVERLAY
   // =========================================================
@@ -394,7 +676,8 @@
 
     if (!overlay || !winnerEl || !listEl) return;
 
-    if (state.roundStatus === 'RESETTING') {
+    // Series rounds of survival / time trial end as ENDED and still get the standings between rounds
+    if (state.roundStatus === 'RESETTING' || (state.roundStatus === 'ENDED' && state.series)) {
       overlay.classList.remove('hidden');
       overlay.setAttribute('aria-hidden', 'false');
 
@@ -409,6 +692,8 @@
         li.textContent = (entry.name ?? '—') + ' — ' + (entry.score ?? 0);
         listEl.appendChild(li);
       });
+
+      renderSeriesStandings();
     } else {
       overlay.classList.add('hidden');
       overlay.setAttribute('aria-hidden', 'true');
@@ -417,6 +702,49 @@
     }
   }
 
+  function renderSeriesStandings() {
+    const box = document.getElementById('hud-end-series');
+    const titleEl = document.getElementById('hud-end-series-title');
+    const listEl = document.getElementById('hud-end-series-list');
+    if (!box || !titleEl || !listEl) return;
+
+    const series = state.series;
+    box.classList.toggle('hidden', !series);
+    if (!series) return;
+
+    titleEl.textContent = series.winnerName
+      ? 'Series winner: ' + series.winnerName
+      : 'Series — round ' + series.round + ' of ' + series.rounds + ' (' + series.winsNeeded + ' wins to clinch)';
+    listEl.innerHTML = '';
+    (series.standings || []).forEach(function (s) {
+      const li = document.createElement('li');
+      li.textContent = s.name + ' — ' + s.roundWins + (s.roundWins === 1 ? ' win' : ' wins') + ', ' + s.points + ' pts';
+      listEl.appendChild(li);
+    });
+  }
+
+  // =========================================================
+  // ROUND SPLASH
+  // =========================================================
+
+  function applyRoundSplash(data) {
+    if (data.v !== 1) return;
+    setState({ series: data.series ?? null });
+    // Between rounds the standings go on the end overlay; the banner marks the start of a series round
+    if (data.betweenRounds || !data.series) return;
+    showSplash('Series round ' + data.series.round + ' of ' + data.series.rounds);
+  }
+
+  function showSplash(text) {
+    if (!root) return;
+    const el = document.createElement('div');
+    el.className = 'hud-splash animate';
+    el.textContent = text;
+    root.appendChild(el);
+    // Also covers reduce motion, where the fade-out animation is off
+    setTimeout(function () { el.remove(); }, 1200);
+  }
+
   // =========================================================
   // SHARD ANIMATION
   // =========================================================
@@ -459,7 +787,29 @@
       nextTierRequirement: data.nextTierRequirement != null ? data.nextTierRequirement : state.nextTierRequirement,
       roofHoldMs: data.roofHoldMs ?? state.roofHoldMs,
       roofHoldTargetMs: data.roofHoldTargetMs ?? state.roofHoldTargetMs,
-      roofActive: data.roofActive ?? state.roofActive
+      roofActive: data.roofActive ?? state.roofActive,
+      // Sent in full with every KOTH update; absent means no hill (other modes)
+      hill: data.hill ?? null,
+      scoreToWin: data.scoreToWin ?? state.scoreToWin,
+      // Same for TDM teams: absent outside team modes
+      teams: Array.isArray(data.teams) ? data.teams : null,
+      teamId: data.teamId ?? null,
+      flags: Array.isArray(data.flags) ? data.flags : null,
+      carryingFlagTeamId: data.carryingFlagTeamId ?? null,
+      wave: data.wave ?? state.wave,
+      enemiesRemaining: data.enemiesRemaining ?? state.enemiesRemaining,
+      score: data.score ?? state.score,
+      // Per-player and only sent while down
+      downed: data.downed === true,
+      reviveProgressPercent: data.reviveProgressPercent ?? 0,
+      // Time trial fields are resent in full; absent outside the mode
+      captureProgressPercent: data.captureProgressPercent ?? 0,
+      runTimeMs: data.runTimeMs ?? null,
+      bestTimeMs: data.bestTimeMs ?? null,
+      bestTimes: Array.isArray(data.bestTimes) ? data.bestTimes : null,
+      rules: data.rules ?? state.rules,
+      rulePresets: Array.isArray(data.rulePresets) ? data.rulePresets : state.rulePresets,
+      isHost: data.isHost ?? state.isHost
     });
 
     if (fromShards !== toShards) {
@@ -596,6 +946,11 @@
           return;
         }
 
+        if (data.type === 'roundSplash') {
+          applyRoundSplash(data);
+          return;
+        }
+
         if (data.type === 'ping') {
           const el = document.getElementById('ping-debug');
           if (el) el.textContent = 'PING OK ' + (data.ts ?? '');
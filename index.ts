@@ -25,7 +25,6 @@
 
 import {
   startServer,
-  Audio,
   DefaultPlayerEntity,
   DefaultPlayerEntityController,
   PlayerEvent,
@@ -38,6 +37,7 @@ import worldMap from './assets/map.json';
 import { WorldState } from './src/server/state/WorldState.js';
 import { generateValidArena } from './src/server/procgen/generateValidArena.js';
 import { specHash } from './src/server/procgen/stableSpec.js';
+import { ARENA_LAYOUTS, isArenaLayout } from './src/server/procgen/generators/registry.js';
 
 function logMapBounds(map: any) {
   // Support array of blocks or object keyed by "x,y,z"
@@ -94,8 +94,18 @@ import { RoundManager } from './src/server/systems/RoundManager.js';
 import { BotManager } from './src/server/systems/BotManager.js';
 import { TowerSystem } from './src/server/systems/TowerSystem.js';
 import { DepositSystem } from './src/server/systems/DepositSystem.js';
+import { MapRotation } from './src/server/systems/MapRotation.js';
+import { HazardSystem } from './src/server/systems/HazardSystem.js';
+import { AtmosphereSystem } from './src/server/systems/AtmosphereSystem.js';
+import { EnemySystem } from './src/server/modes/survival/EnemySystem.js';
+import { ModeRegistry } from './src/server/modes/registry.js';
+import { DEFAULT_PLAYLIST_PATH, loadPlaylistFile } from './src/server/config/playlist.js';
+import { listHandMaps } from './src/server/config/handMaps.js';
 import { DEFAULT_MATCH_CONFIG } from './src/server/state/matchConfig.js';
-import { MELEE_DAMAGE, SPAWN_PROTECTION_MS } from './src/server/config/combat.js';
+import { loadRulePreset, parseMatchRules, saveRulePreset } from './src/server/config/matchRules.js';
+import { isDowned } from './src/server/state/survivalState.js';
+import { SERIES_MAX_ROUNDS, seriesStandings, seriesWinsNeeded } from './src/server/state/seriesState.js';
+import { DEFAULT_MAX_HEALTH, SPAWN_PROTECTION_MS } from './src/server/config/combat.js';
 
 startServer(async world => {
   // WorldState: single source of truth for this match (one per server run).
@@ -129,7 +139,9 @@ startServer(async world => {
     console.error('[map] loadMap() FAILED', err);
   }
 
-  const hud = new HudService(world, worldState);
+  // Filled by RoundController with every built-in GameModeDefinition
+  const modes = new ModeRegistry();
+  const hud = new HudService(world, worldState, modes);
   const scoreService = new ScoreService(worldState);
 
   const objectiveSystem = new ObjectiveSystem(world, worldState, hud, scoreService);
@@ -152,8 +164,33 @@ startServer(async world => {
     shardSystem,
     spawnSystem,
     hud,
-    onBotWin: (winnerBotId, winnerDisplayName) => {
-      roundController.endMatch(winnerBotId, winnerDisplayName);
+    modes,
+    onBotAttack: (botId, targetId) => {
+      combatService.tryBotMeleeAttack(botId, targetId);
+    },
+  });
+
+  // Map rotation: curated playlist of pinned seeds. PATTERNISLE_PLAYLIST overrides the default file.
+  const playlistPath = process.env.PATTERNISLE_PLAYLIST ?? DEFAULT_PLAYLIST_PATH;
+  const playlist = loadPlaylistFile(playlistPath);
+  const mapRotation = playlist ? new MapRotation(playlist, matchId) : undefined;
+  const hazardSystem = new HazardSystem(world);
+  const atmosphereSystem = new AtmosphereSystem(world);
+  if (playlist) {
+    console.log('[rotation] playlist=%s order=%s maps=%d (%s)', playlist.name, playlist.order, mapRotation!.size, playlistPath);
+  } else {
+    console.warn('[rotation] no playlist at %s; arenas derive from the match seed', playlistPath);
+  }
+
+  // Survival enemies: hits go through the combat pipeline, deaths feed the wave director
+  const enemySystem = new EnemySystem(world, worldState, {
+    onAttack: (enemyId, playerId, damage) => {
+      combatService.applyEnemyHit(enemyId, playerId, damage);
+    },
+    onKilled: (_enemyId, archetype, killerId) => {
+      roundController.onEnemyDeath(killerId);
+      hud.broadcastFeed(`${archetype.name} slain`);
+      hud.broadcastHud();
     },
   });
 
@@ -166,9 +203,14 @@ startServer(async world => {
     spawnSystem,
     hud,
     scoreService,
+    modes,
     botManager,
     towerSystem,
-    depositSystem
+    depositSystem,
+    mapRotation,
+    hazardSystem,
+    atmosphereSystem,
+    enemySystem
   );
 
   towerSystem.setOnWinCallback((winnerPlayerId) => {
@@ -183,7 +225,8 @@ startServer(async world => {
     scoreService,
     shardSystem,
     depositSystem,
-    botManager
+    botManager,
+    enemySystem
   );
 
   // =========================================================
@@ -266,6 +309,7 @@ startServer(async world => {
         worldState.resetPlayerShards(player.id);
       }
 
+      roundController.assignTeamOnJoin(player.id);
       roundController.respawnPlayer(player);
       hud.sendHud(player);
       hud.broadcastHud();
@@ -276,10 +320,43 @@ startServer(async world => {
     hud.sendHud(player);
   }
 
+  // =========================================================
+  // Lobby rules editor (host only): set_rules, save_rules_preset, load_rules_preset
+  // =========================================================
+  function handleRulesRequest(player: any, data: Record<string, unknown>) {
+    if (worldState.hostPlayerId !== player.id) {
+      hud.toast(player, 'bad', 'Only the host can change the rules');
+      return;
+    }
+    const config = worldState.matchConfig;
+    try {
+      if (data.type === 'set_rules') {
+        config.rules = parseMatchRules(data.rules, config.rules);
+        hud.broadcastFeed('The host updated the match rules');
+      } else if (data.type === 'save_rules_preset' && typeof data.name === 'string') {
+        saveRulePreset(data.name, config.rules);
+        hud.toast(player, 'good', `Saved preset "${data.name.trim()}"`);
+      } else if (data.type === 'load_rules_preset' && typeof data.name === 'string') {
+        const rules = loadRulePreset(data.name, config.rules);
+        if (!rules) {
+          hud.toast(player, 'bad', `No preset "${data.name}"`);
+          return;
+        }
+        config.rules = rules;
+        hud.broadcastFeed(`The host loaded the "${data.name.trim()}" rules`);
+      }
+    } catch (err) {
+      hud.toast(player, 'bad', err instanceof Error ? err.message : 'Invalid rules');
+      return;
+    }
+    hud.broadcastHud();
+  }
+
   // =========================================================
   // One authoritative tick: match lifecycle, power-ups, proximity pickups
   // =========================================================
 
+  const BASE_WALK_VELOCITY = 4;
   const BASE_RUN_VELOCITY = 8;
   const BASE_JUMP_VELOCITY = 10;
   const SPEED_BOOST_MULT = 1.5;
@@ -297,7 +374,16 @@ startServer(async world => {
       const effects = ps?.effects ?? [];
       const hasSpeed = effects.some((e: { kind: string }) => e.kind === 'SPEED');
       const hasJump = effects.some((e: { kind: string }) => e.kind === 'JUMP');
-      const movement = ctrl as { runVelocity: number; jumpVelocity: number };
+      const movement = ctrl as { walkVelocity: number; runVelocity: number; jumpVelocity: number };
+      // Downed survivors stay put so teammates can reach them
+      const surv = worldState.survivalState;
+      if (surv.status === 'RUNNING' && isDowned(surv, player.id)) {
+        movement.walkVelocity = 0;
+        movement.runVelocity = 0;
+        movement.jumpVelocity = 0;
+        continue;
+      }
+      movement.walkVelocity = BASE_WALK_VELOCITY;
       movement.runVelocity = hasSpeed
         ? BASE_RUN_VELOCITY * SPEED_BOOST_MULT
         : BASE_RUN_VELOCITY;
@@ -309,8 +395,10 @@ startServer(async world => {
 
   world.loop.on(WorldLoopEvent.TICK_START, ({ tickDeltaMs }) => {
     shardSystem.tick(tickDeltaMs);
+    botManager.tickMovement();
     roundController.tickMatchLifecycle();
     powerUpSystem.tick();
+    hazardSystem.tick(Date.now());
 
     // Proximity pickup checks (PowerUpSystem throttles internally)
     const players = PlayerManager.instance.getConnectedPlayersByWorld(world);
@@ -326,12 +414,11 @@ startServer(async world => {
   const VOID_Y = -20;
   const OBJECTIVE_TICK_MS = 100; // 10hz for survival/timetrial
   const BOUNDARY_DAMAGE_THROTTLE_MS = 1000;
-  let lastBoundaryDamageMs = 0;
+  const lastBoundaryDamageMsByPlayerId = new Map<string, number>();
 
   setInterval(() => {
     const now = Date.now();
     roundController.tickObjectiveAndModes(now);
-    roundController.tickTower(now);
 
     if (
       worldState.matchConfig.mode === 'timetrial' &&
@@ -340,13 +427,15 @@ startServer(async world => {
     ) {
       const connected = PlayerManager.instance.getConnectedPlayersByWorld(world);
       for (const player of connected) {
+        // Finished racers are out of the race; the shrinking boundary only chases those still running
+        if (worldState.timeTrialState.runs[player.id]?.timeMs != null) continue;
         const entities = world.entityManager.getPlayerEntitiesByPlayer(player);
         const entity = entities[0];
         if (!entity?.isSpawned) continue;
         const pos = entity.position;
         if (roundController.isOutsideTimeTrialSafeRadius(now, { x: pos.x, z: pos.z })) {
-          if (now - lastBoundaryDamageMs >= BOUNDARY_DAMAGE_THROTTLE_MS) {
-            lastBoundaryDamageMs = now;
+          if (now - (lastBoundaryDamageMsByPlayerId.get(player.id) ?? 0) >= BOUNDARY_DAMAGE_THROTTLE_MS) {
+            lastBoundaryDamageMsByPlayerId.set(player.id, now);
             combatService.damage(player.id, 15, { kind: 'hazard' });
           }
         }
@@ -357,21 +446,35 @@ startServer(async world => {
   setInterval(() => {
     objectiveSystem.tickRespawn();
 
-    // Fall recovery: respawn players who fell off the island (y < -20), with per-player cooldown
+    // Fall recovery: respawn players who fell off the island (y < -20), with per-player cooldown.
+    // Arena hazards (lava, jump pads) are checked here too; a fall through a void pit is a hazard KO instead.
     const now = Date.now();
     const connected = PlayerManager.instance.getConnectedPlayersByWorld(world);
 
     for (const player of connected) {
       const entities = world.entityManager.getPlayerEntitiesByPlayer(player);
       const entity = entities[0];
-      if (!entity?.isSpawned || entity.position.y >= VOID_Y) continue;
+      if (!entity?.isSpawned) continue;
+
+      const hazardDamage = hazardSystem.checkPlayer(player.id, entity, now);
+      if (hazardDamage > 0) combatService.damage(player.id, hazardDamage, { kind: 'hazard' });
+      if (entity.position.y >= VOID_Y) continue;
 
       const ps = worldState.getPlayer(player.id);
+      // KO'd and waiting for the respawn timer
+      if (ps?.health === 0) continue;
+      if (hazardSystem.fellIntoVoid(player.id)) {
+        hazardSystem.clearFall(player.id);
+        const result = combatService.damage(player.id, ps?.health ?? ps?.maxHealth ?? DEFAULT_MAX_HEALTH, { kind: 'hazard' });
+        if (result.killed) continue;
+      }
       if (
         ps?.lastFallRecoveryAtMs != null &&
         now - ps.lastFallRecoveryAtMs < FALL_RECOVERY_COOLDOWN_MS
       ) continue;
 
+      // A carried flag stays behind (it returns home on its timer) instead of riding the respawn to base
+      roundController.dropCarried(player.id);
       roundController.respawnPlayer(player);
       combatService.resetHealth(player.id);
       if (ps) ps.invulnerableUntilMs = Date.now() + SPAWN_PROTECTION_MS;
@@ -380,6 +483,25 @@ startServer(async world => {
       hud.toast(player, 'info', 'Recovered');
       if (ps) ps.lastFallRecoveryAtMs = now;
     }
+
+    // Bots are physics bodies too: same hazards, and a bot that falls out is KO'd or put back at a spawn
+    for (const bot of botManager.getBots()) {
+      const entity = botManager.getBotEntity(bot.botId);
+      if (!entity?.isSpawned) continue;
+
+      const hazardDamage = hazardSystem.checkPlayer(bot.botId, entity, now);
+      if (hazardDamage > 0) combatService.damage(bot.botId, hazardDamage, { kind: 'hazard' });
+      if (entity.position.y >= VOID_Y) continue;
+
+      const ps = worldState.getPlayer(bot.botId);
+      if (ps?.health === 0) continue;
+      if (hazardSystem.fellIntoVoid(bot.botId)) {
+        hazardSystem.clearFall(bot.botId);
+        const result = combatService.damage(bot.botId, ps?.health ?? ps?.maxHealth ?? DEFAULT_MAX_HEALTH, { kind: 'hazard' });
+        if (result.killed) continue;
+      }
+      botManager.respawnBot(bot.botId);
+    }
   }, OBJECTIVE_RESPAWN_INTERVAL_MS);
 
   /**
@@ -411,14 +533,16 @@ startServer(async world => {
       // Lobby: mode selection and start (only when round is in LOBBY)
       if (worldState.roundState.status === 'LOBBY') {
         if (data?.type === 'set_mode' && typeof data.mode === 'string') {
-          const mode = data.mode as import('./src/server/modes/types.js').GameMode;
-          const allowed: import('./src/server/modes/types.js').GameMode[] = ['MULTI', 'SOLO', 'survival', 'timetrial', 'tower'];
-          if (allowed.includes(mode)) {
-            worldState.matchConfig.mode = mode;
+          if (modes.has(data.mode)) {
+            worldState.matchConfig.mode = data.mode;
             hud.broadcastHud();
           }
           return;
         }
+        if (data?.type === 'set_rules' || data?.type === 'save_rules_preset' || data?.type === 'load_rules_preset') {
+          handleRulesRequest(player, data);
+          return;
+        }
         if (data?.type === 'start_match') {
           roundController.forceStart();
           return;
@@ -445,8 +569,12 @@ startServer(async world => {
    * Handle player leaving the game.
    */
   world.on(PlayerEvent.LEFT_WORLD, ({ player }) => {
+    const wasHost = worldState.hostPlayerId === player.id;
     worldState.disconnectPlayer(player.id);
+    roundController.onPlayerLeft(player.id);
+    if (wasHost && worldState.roundState.status === 'LOBBY') hud.broadcastHud();
     devCheatsEnabledPlayerIds.delete(player.id);
+    lastBoundaryDamageMsByPlayerId.delete(player.id);
     world.entityManager.getPlayerEntitiesByPlayer(player).forEach(entity => entity.despawn());
   });
 
@@ -485,7 +613,11 @@ startServer(async world => {
       return;
     }
     const seedStr = arg === 'random' ? `random_${Date.now()}_${Math.floor(Math.random() * 1e6)}` : `seed_${arg}`;
-    const { spec, usedSeed } = generateValidArena(seedStr, 16);
+    const { spec, usedSeed } = generateValidArena(seedStr, {
+      attempts: 16,
+      version: worldState.matchConfig.arenaVersion,
+      layout: worldState.matchConfig.arenaLayout,
+    });
 
     if (usedSeed.startsWith('fallback')) {
       console.error('[procgen] fallback used in live match', { seed: seedStr, usedSeed });
@@ -537,7 +669,79 @@ startServer(async world => {
     worldState.setMatchId(newId);
     shardSystem.regeneratePickups(worldState.seed);
     console.log('[Patternisle] setmatch: matchId=%s seed=%d', worldState.matchId, worldState.seed);
-    world.chatManager.sendPlayerMessage(player, `matchId=${worldState.matchId} seed=${worldState.seed}`);
+    const note = mapRotation ? ' (playlist rounds use the playlist seed)' : '';
+    world.chatManager.sendPlayerMessage(player, `matchId=${worldState.matchId} seed=${worldState.seed}${note}`);
+  });
+
+  world.chatManager.registerCommand('/layout', (player, args) => {
+    const arg = args[0]?.trim();
+    const options = ['auto', ...ARENA_LAYOUTS].join('|');
+    if (!arg) {
+      const current = worldState.mapSpec?.layout ?? 'rings';
+      world.chatManager.sendPlayerMessage(
+        player,
+        `layout=${worldState.matchConfig.arenaLayout} (current map: ${current}). Usage: /layout <${options}>`
+      );
+      return;
+    }
+    if (arg !== 'auto' && !isArenaLayout(arg)) {
+      world.chatManager.sendPlayerMessage(player, `Unknown layout. Usage: /layout <${options}>`);
+      return;
+    }
+    worldState.matchConfig.arenaLayout = arg;
+    const note = mapRotation
+      ? arg === 'auto'
+        ? ' (playlist rounds use the playlist layout)'
+        : ' (over the playlist layout; hand-map rounds keep their map)'
+      : '';
+    world.chatManager.sendPlayerMessage(player, `Arena layout set to ${arg}; applies from the next round${note}.`);
+  });
+
+  world.chatManager.registerCommand('/map', (player, args) => {
+    const arg = args[0]?.trim();
+    const maps = listHandMaps();
+    const options = ['procgen', ...maps].join('|');
+    if (!arg) {
+      const current = worldState.mapSpec?.handMap ?? 'procgen';
+      world.chatManager.sendPlayerMessage(
+        player,
+        `map=${worldState.matchConfig.arenaMap ?? 'procgen'} (current: ${current}). Usage: /map <${options}>`
+      );
+      return;
+    }
+    if (arg !== 'procgen' && !maps.includes(arg)) {
+      world.chatManager.sendPlayerMessage(player, `Unknown map. Usage: /map <${options}>`);
+      return;
+    }
+    worldState.matchConfig.arenaMap = arg === 'procgen' ? null : arg;
+    const note = mapRotation ? ' (playlist rounds use the playlist map)' : '';
+    world.chatManager.sendPlayerMessage(player, `Arena map set to ${arg}; applies from the next round${note}.`);
+  });
+
+  world.chatManager.registerCommand('/nextmap', (player, args) => {
+    if (!mapRotation) {
+      world.chatManager.sendPlayerMessage(player, 'No map rotation loaded.');
+      return;
+    }
+    const arg = args.join(' ').trim();
+    const candidates = mapRotation.getCandidates();
+    if (!arg) {
+      const now = worldState.playlistEntry?.name ?? 'none';
+      world.chatManager.sendPlayerMessage(player, `Now: ${now}. Vote with /nextmap <number|name>:`);
+      mapRotation.tally().forEach(({ entry, votes }, i) => {
+        world.chatManager.sendPlayerMessage(player, `  ${i + 1}. ${entry.name} (${votes} vote${votes === 1 ? '' : 's'})`);
+      });
+      return;
+    }
+    const byName = candidates.findIndex((e) => e.name.toLowerCase() === arg.toLowerCase());
+    const choice = byName >= 0 ? byName : Number(arg) - 1;
+    if (!mapRotation.vote(player.id, choice)) {
+      world.chatManager.sendPlayerMessage(player, `Unknown choice. Options: ${candidates.map((e, i) => `${i + 1}=${e.name}`).join(', ')}`);
+      return;
+    }
+    const picked = candidates[choice];
+    const votes = mapRotation.tally()[choice].votes;
+    hud.broadcastFeed(`${player.username ?? player.id} voted for ${picked.name} (${votes})`);
   });
 
   world.chatManager.registerCommand('/shards', player => {
@@ -583,13 +787,60 @@ startServer(async world => {
     }
   });
 
+  world.chatManager.registerCommand('/retry', player => {
+    const ok = roundController.handleRestartRequest({ sameSeed: true });
+    if (ok) {
+      world.chatManager.sendPlayerMessage(player, `Retrying seed ${worldState.usedSeed}...`);
+    } else {
+      world.chatManager.sendPlayerMessage(player, 'Can only retry once the round has ended (status=ENDED).');
+    }
+  });
+
+  world.chatManager.registerCommand('/series', (player, args) => {
+    const arg = args[0]?.trim().toLowerCase();
+    const series = worldState.seriesState;
+    if (!arg) {
+      if (series.status === 'IDLE') {
+        world.chatManager.sendPlayerMessage(player, `No series. Usage: /series <rounds 1-${SERIES_MAX_ROUNDS}> [mode,mode,...] | /series off`);
+        return;
+      }
+      const played = `${series.roundsPlayed}/${series.rounds} rounds played, ${seriesWinsNeeded(series)} wins to clinch`;
+      world.chatManager.sendPlayerMessage(player, `Series ${series.status.toLowerCase()}: ${played}`);
+      seriesStandings(series).forEach((s, i) => {
+        world.chatManager.sendPlayerMessage(player, `  ${i + 1}. ${s.name}: ${s.roundWins} wins, ${s.points} pts`);
+      });
+      return;
+    }
+    if (worldState.hostPlayerId !== player.id) {
+      world.chatManager.sendPlayerMessage(player, 'Only the host can start or stop a series.');
+      return;
+    }
+    if (arg === 'off') {
+      const cancelled = roundController.cancelSeries();
+      if (!cancelled) world.chatManager.sendPlayerMessage(player, 'No series running.');
+      return;
+    }
+    const rounds = Number(arg);
+    if (!Number.isInteger(rounds) || rounds < 1 || rounds > SERIES_MAX_ROUNDS) {
+      world.chatManager.sendPlayerMessage(player, `Rounds must be a whole number from 1 to ${SERIES_MAX_ROUNDS}.`);
+      return;
+    }
+    const seriesModes = (args[1] ?? '').split(',').map((m) => m.trim()).filter(Boolean);
+    const unknown = seriesModes.find((m) => !modes.has(m));
+    if (unknown) {
+      world.chatManager.sendPlayerMessage(player, `Unknown mode "${unknown}". Modes: ${modes.all().map((d) => d.id).join(', ')}`);
+      return;
+    }
+    roundController.startSeries(rounds, seriesModes.filter((m) => modes.has(m)));
+  });
+
   world.chatManager.registerCommand('/killenemy', player => {
     if (worldState.matchConfig.mode !== 'survival') {
       world.chatManager.sendPlayerMessage(player, 'Only in survival mode.');
       return;
     }
-    (roundController as { onEnemyDeath?: () => void }).onEnemyDeath?.();
-    world.chatManager.sendPlayerMessage(player, 'Enemy killed (test).');
+    const killed = enemySystem.killOne();
+    world.chatManager.sendPlayerMessage(player, killed ? 'Enemy killed (test).' : 'No enemies alive.');
   });
 
   world.chatManager.registerCommand('/round', player => {
@@ -597,7 +848,7 @@ startServer(async world => {
     const winner = r.winnerPlayerId ?? 'none';
     world.chatManager.sendPlayerMessage(
       player,
-      `roundId=${r.roundId} status=${r.status} target=${TARGET_SHARDS} winner=${winner}`
+      `roundId=${r.roundId} status=${r.status} target=${worldState.matchConfig.rules.targetShards} winner=${winner}`
     );
   });
 
@@ -676,7 +927,7 @@ startServer(async world => {
     world.chatManager.sendPlayerMessage(player, `Teleported to arena center (shard drop zone).`, '00FF00');
   });
 
-  /** Dev: add shards so you have enough for the next tier (or TARGET_SHARDS in non-tower). */
+  /** Dev: add shards so you have enough for the next tier (or rules.targetShards in non-tower). */
   world.chatManager.registerCommand('/moreshards', player => {
     if (!canUseDevCheats(player.id)) {
       world.chatManager.sendPlayerMessage(player, 'Refused: use /devcheats first to enable cheat commands.');
@@ -687,12 +938,11 @@ startServer(async world => {
       world.chatManager.sendPlayerMessage(player, 'Not registered.');
       return;
     }
-    const mode = worldState.matchConfig.mode;
-    const tierThresholds = [8, 18, 30];
+    const { mode, rules } = worldState.matchConfig;
     let need = 0;
     if (mode === 'tower' && worldState.towerState) {
       const ts = worldState.towerState;
-      const next = tierThresholds[ts.unlockedTier];
+      const next = rules.towerTierThresholds[ts.unlockedTier];
       if (next != null) {
         const current = (p.bankedShards ?? 0) + (p.carriedShards ?? 0);
         need = Math.max(0, next - current);
@@ -701,7 +951,7 @@ startServer(async world => {
     }
     if (need <= 0) {
       const current = p.shards ?? 0;
-      need = Math.max(0, TARGET_SHARDS - current);
+      need = Math.max(0, rules.targetShards - current);
       if (need > 0) p.shards = current + need;
     }
     if (need > 0) {
@@ -792,7 +1042,7 @@ startServer(async world => {
       );
       return;
     }
-    combatService.damage(closest.id, MELEE_DAMAGE, { kind: 'melee', attackerId });
+    combatService.damage(closest.id, worldState.matchConfig.rules.meleeDamage, { kind: 'melee', attackerId });
     combatService.applyKnockback(closest.id, attackerId);
     const ps = worldState.getPlayer(attackerId);
     if (ps) ps.lastAttackAtMs = Date.now();
@@ -800,11 +1050,7 @@ startServer(async world => {
   });
 
   /**
-   * Play some peaceful ambient music to set the mood!
+   * Play some peaceful ambient music to set the mood! Each round then switches to its theme's track.
    */
-  new Audio({
-    uri: 'audio/music/hytopia-main-theme.mp3',
-    loop: true,
-    volume: 0.1,
-  }).play(world);
+  atmosphereSystem.playMusic('audio/music/hytopia-main-theme.mp3', 0.1);
 });
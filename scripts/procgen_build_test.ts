@@ -1,13 +1,72 @@
+import { existsSync } from "node:fs";
 import { mkdir, writeFile, readFile } from "node:fs/promises";
 import { join } from "node:path";
-import { generateValidArena } from "../src/server/procgen/generateValidArena";
+import { fallbackArena, generateValidArena } from "../src/server/procgen/generateValidArena";
 import { validateConnectivity } from "../src/server/procgen/validateConnectivity";
 import { validateSpec } from "../src/server/procgen/validateSpec";
-import { bakeGridFromSpec, toCell } from "../src/server/procgen/gridBake";
-import type { MapSpecV1 } from "../src/server/procgen/spec";
+import { bakeGridFromSpec, toCell, type BakedGrid } from "../src/server/procgen/gridBake";
+import type { MapSpec, Vec2 } from "../src/server/procgen/spec";
+import { floorHeightAt, isV2 } from "../src/server/procgen/elevation";
+import { hazardAt } from "../src/server/procgen/hazards";
+import { ARENA_LAYOUTS } from "../src/server/procgen/generators/registry";
+import { analyzeArena, DEFAULT_FAIRNESS_TOLERANCE } from "../src/server/procgen/analyzeArena";
+import { DEFAULT_PLAYLIST_PATH, loadPlaylistFile } from "../src/server/config/playlist";
+import { HAND_MAPS_DIR, isHandMap, listHandMaps, loadHandMap } from "../src/server/config/handMaps";
+import { sampleRingPosition } from "../src/server/procgen/ringSpawnPositions";
+import { Rng } from "../src/shared/rng/Rng";
+import { specDecorations, specToChunkedMap, specToMap } from "../src/server/procgen/specToMap";
+import { BLOCK_CATALOG, DECORATION_MODELS, THEMES } from "../src/server/procgen/themes";
+import { buildHillZones } from "../src/server/modes/koth/hills";
+import { rotateQuarter } from "../src/server/procgen/generators/shared";
+import { buildFlowField, isWalkableCell, UNREACHABLE } from "../src/server/modes/survival/flowField";
+import { buildFlagBases } from "../src/server/modes/ctf/flagBases";
+import {
+  DEFAULT_RATING,
+  botCountForRating,
+  expectedScore,
+  recordRound,
+  tierMixForRating,
+  type RatedRound,
+} from "../src/server/systems/bots/BotRating";
+import type { BotSkillState } from "../src/server/systems/bots/types";
+import { BotNavigator } from "../src/server/systems/bots/BotNavigator";
+import { LEADERBOARD_SIZE, mergeRun, type BestTime, type SeedRecords } from "../src/server/modes/timetrial/records";
+import {
+  INITIAL_SURVIVAL_STATE,
+  REVIVE_RADIUS,
+  allDown,
+  downSurvivor,
+  leaveSurvival,
+  startSurvival,
+  tickRevives,
+  type SurvivalState,
+} from "../src/server/state/survivalState";
+import { parseMatchRules } from "../src/server/config/matchRules";
+import { DEFAULT_MATCH_RULES } from "../src/server/state/matchConfig";
+import {
+  createSeries,
+  recordSeriesRound,
+  seriesModeForNextRound,
+  seriesStandings,
+  seriesWinsNeeded,
+} from "../src/server/state/seriesState";
+import {
+  chunkedFromMap,
+  chunkedToMap,
+  countChunkedBlocks,
+  createChunkedMap,
+  diffChunkedMaps,
+  forEachChunkChange,
+  getChunkedBlock,
+  setChunkedBlock,
+} from "../src/server/procgen/chunkedMap";
 
 const OUT_DIR = join(process.cwd(), "dist", "procgen_test", "maps");
+const VERSIONS = [1, 2] as const;
+const CASES = ARENA_LAYOUTS.flatMap((layout) => VERSIONS.map((version) => ({ layout, version })));
 const FIXED_SEEDS = Array.from({ length: 20 }, (_, i) => `match_${i + 1}`);
+/** Below the default size of 250, down to the smallest size a playlist entry accepts. */
+const SMALL_SIZES = [64, 100, 140];
 
 function fsSafeSeed(seed: string): string {
   return seed.replace(/:/g, "_");
@@ -19,9 +78,29 @@ function fail(seed: string, reason: string, extra?: Record<string, unknown>): ne
   process.exit(1);
 }
 
+/**
+ * Walk a bot from `from` to `to` (spec coordinates) the way BotManager steers it, a quarter cell per step along
+ * BotNavigator's direction. Returns why it failed (no path, stepped onto a wall or hazard, never got there) or
+ * null once it's within a cell of `to`.
+ */
+function walkBot(nav: BotNavigator, spec: MapSpec, g: BakedGrid, from: Vec2, to: Vec2): string | null {
+  const pos = { x: from.x - spec.center.x, y: 0, z: from.y - spec.center.y };
+  const goal = { x: to.x - spec.center.x, y: 0, z: to.y - spec.center.y };
+  for (let step = 0; step < g.size * 16; step++) {
+    if (Math.hypot(goal.x - pos.x, goal.z - pos.z) <= 1) return null;
+    const dir = nav.directionToward(pos, goal);
+    if (!dir) return `no path at ${pos.x.toFixed(2)},${pos.z.toFixed(2)}`;
+    pos.x += dir.x * 0.25;
+    pos.z += dir.z * 0.25;
+    const c = toCell(g, { x: pos.x + spec.center.x, y: pos.z + spec.center.y });
+    if (!isWalkableCell(g, c.y * g.size + c.x)) return `stepped onto a wall or hazard at ${pos.x.toFixed(2)},${pos.z.toFixed(2)}`;
+  }
+  return "never arrived";
+}
+
 /** Map sanity checks on re-loaded spec (same checks the game would care about). */
-function mapSanityChecks(spec: MapSpecV1, seed: string): void {
-  if (spec.v !== 1) fail(seed, "spec.v must be 1");
+function mapSanityChecks(spec: MapSpec, seed: string, version: 1 | 2): void {
+  if (spec.v !== version) fail(seed, `spec.v must be ${version}`);
   if (spec.size <= 0) fail(seed, "spec.size must be > 0");
   if (![3, 4, 5].includes(spec.rings)) fail(seed, "spec.rings must be 3, 4, or 5");
   if (!spec.ringRadii || spec.ringRadii.length !== spec.rings) fail(seed, "spec.ringRadii length must match spec.rings");
@@ -79,6 +158,27 @@ function mapSanityChecks(spec: MapSpecV1, seed: string): void {
   if (oc.x < 0 || oc.y < 0 || oc.x >= g.size || oc.y >= g.size) {
     fail(seed, "objective center out of grid bounds", cropInfo);
   }
+
+  // V2: spawns and objective stay on the base floor; at least one platform was placed
+  if (isV2(spec)) {
+    if (spec.platforms.length === 0) fail(seed, "v2 spec has no platforms");
+    if (spec.ramps.length < spec.platforms.length) fail(seed, "every platform needs a ramp or stairs");
+    for (const s of spec.spawnZones) {
+      if (floorHeightAt(spec, s.rect.x + s.rect.w / 2, s.rect.y + s.rect.h / 2) !== 0) {
+        fail(seed, `team ${s.teamId} spawn is not on the base floor`);
+      }
+    }
+    if (floorHeightAt(spec, spec.center.x, spec.center.y) !== 0) fail(seed, "objective is not on the base floor");
+
+    // Hazards: never under a spawn pad or the objective; every void pit has a mover across it
+    for (const s of spec.spawnZones) {
+      if (hazardAt(spec, s.rect.x + s.rect.w / 2, s.rect.y + s.rect.h / 2)) fail(seed, `team ${s.teamId} spawn is on a hazard`);
+    }
+    if (hazardAt(spec, spec.center.x, spec.center.y)) fail(seed, "objective is on a hazard");
+    const voids = spec.hazards.filter((h) => h.kind === "void").length;
+    const movers = spec.hazards.filter((h) => h.kind === "mover").length;
+    if (movers !== voids) fail(seed, `expected one mover per void pit (${voids} voids, ${movers} movers)`);
+  }
 }
 
 async function main() {
@@ -89,30 +189,368 @@ async function main() {
 
   await mkdir(OUT_DIR, { recursive: true });
 
-  for (const seed of seeds) {
-    const { spec, usedSeed } = generateValidArena(seed, 16);
-    if (usedSeed.startsWith("fallback")) {
-      fail(seed, "fallback used; build test expects valid spec");
+  for (const { layout, version } of CASES) {
+    for (const seed of seeds) {
+      const { spec, usedSeed } = generateValidArena(seed, { attempts: 16, version, layout });
+      if (usedSeed.startsWith("fallback")) {
+        fail(seed, `fallback used (${layout} v${version}); build test expects valid spec`);
+      }
+      if ((spec.layout ?? "rings") !== layout) fail(seed, `expected layout ${layout}, got ${spec.layout}`);
+
+      const v = validateSpec(spec);
+      if (!v.ok) fail(seed, `validateSpec failed: ${v.errors.join("; ")}`);
+
+      const c = validateConnectivity(spec);
+      if (!c.ok) fail(seed, `validateConnectivity failed: ${c.errors.join("; ")}`);
+
+      const metrics = analyzeArena(spec);
+      if (metrics.spawnDistanceSpread > DEFAULT_FAIRNESS_TOLERANCE) {
+        fail(seed, `unfair spawns (${layout} v${version})`, { spawnDistances: metrics.spawnDistances });
+      }
+
+      const dir = join(OUT_DIR, `${layout}_v${version}`, fsSafeSeed(usedSeed));
+      await mkdir(dir, { recursive: true });
+      const mapPath = join(dir, "map.json");
+      const json = JSON.stringify(spec, null, 2);
+      await writeFile(mapPath, json, "utf8");
+      await writeFile(join(dir, "metrics.json"), JSON.stringify(metrics, null, 2), "utf8");
+
+      const raw = await readFile(mapPath, "utf8");
+      const loaded = JSON.parse(raw) as MapSpec;
+      mapSanityChecks(loaded, seed, version);
+    }
+  }
+
+  console.log(`OK: emitted and re-validated ${seeds.length * CASES.length} maps under ${OUT_DIR}`);
+
+  // Smaller arenas (playlist entries may ask for size >= 64): every layout still generates without falling back.
+  // Platforms aren't required here; a 64-cell arena may have no room for them beside four spawn pads.
+  for (const size of SMALL_SIZES) {
+    for (const { layout, version } of CASES) {
+      for (const seed of FIXED_SEEDS.slice(0, 4)) {
+        const { spec, usedSeed } = generateValidArena(seed, { attempts: 16, version, layout, size });
+        if (usedSeed.startsWith("fallback")) fail(seed, `fallback used (${layout} v${version} size ${size})`);
+        const v = validateSpec(spec);
+        if (!v.ok) fail(seed, `validateSpec failed at size ${size}: ${v.errors.join("; ")}`);
+        const c = validateConnectivity(spec);
+        if (!c.ok) fail(seed, `validateConnectivity failed at size ${size}: ${c.errors.join("; ")}`);
+      }
+    }
+  }
+  console.log(`OK: ${CASES.length} layout/version cases at sizes ${SMALL_SIZES.join(", ")}`);
+
+  // Some rings fallback variant has to pass the same checks as a generated arena, fairness included
+  for (const size of [250, ...SMALL_SIZES]) {
+    for (const version of [1, 2] as const) {
+      const { usedSeed, rejected } = fallbackArena(version, size);
+      if (rejected) fail(usedSeed, `fallback arena fails ${rejected.check}: ${rejected.detail}`);
+    }
+  }
+  console.log(`OK: fallback arenas pass at sizes 250, ${SMALL_SIZES.join(", ")}`);
+
+  // Chunked maps: same blocks as the keyed record, and replaying a round-to-round diff reproduces the next map
+  const chunkSeeds = ["match_1", "match_2", "match_3"];
+  let prevChunked = createChunkedMap();
+  for (const seed of chunkSeeds) {
+    const { spec } = generateValidArena(seed, { attempts: 16, version: 2 });
+    const record = specToMap(spec);
+    const chunked = specToChunkedMap(spec);
+    const blocks = Object.entries(record.blocks);
+    if (countChunkedBlocks(chunked) !== blocks.length) fail(seed, "chunked map block count differs from specToMap");
+    for (const [key, id] of blocks) {
+      const [x, y, z] = key.split(",").map(Number);
+      if (getChunkedBlock(chunked, x, y, z) !== id) fail(seed, `chunked map differs at ${key}`);
+    }
+    const replay = chunkedFromMap(chunkedToMap(prevChunked));
+    for (const key of diffChunkedMaps(prevChunked, chunked)) {
+      forEachChunkChange(prevChunked, chunked, key, (x, y, z, id) => setChunkedBlock(replay, x, y, z, id));
+    }
+    if (diffChunkedMaps(replay, chunked).length > 0) fail(seed, "applying the chunk diff did not reproduce the map");
+    prevChunked = chunked;
+  }
+  console.log(`OK: chunked map round-trip and diff replay for ${chunkSeeds.length} seeds`);
+
+  // Biome themes: every referenced asset ships in assets/, banner blocks are in the catalog, and scatter
+  // stands on open floor of the map it was placed for
+  const missingAsset = (uri: string) => !existsSync(join(process.cwd(), "assets", uri));
+  for (const uri of Object.values(DECORATION_MODELS)) if (missingAsset(uri)) fail(uri, "decoration model missing");
+  const { spec: themeSpec } = generateValidArena("match_1", { attempts: 16, version: 2 });
+  for (const t of THEMES) {
+    if (missingAsset(t.skyboxUri)) fail(t.id, `skybox ${t.skyboxUri} missing`);
+    if (missingAsset(t.musicUri)) fail(t.id, `music ${t.musicUri} missing`);
+    if (t.decor.bannerId != null && !BLOCK_CATALOG.some((b) => b.id === t.decor.bannerId)) fail(t.id, "banner block not in catalog");
+    const themed = specToChunkedMap(themeSpec, t);
+    for (const d of specDecorations(themeSpec, t)) {
+      if (getChunkedBlock(themed, d.x, d.y - 1, d.z) === 0) fail(t.id, `${d.kind} floating at ${d.x},${d.y},${d.z}`);
+      if (getChunkedBlock(themed, d.x, d.y, d.z) !== 0) fail(t.id, `${d.kind} buried at ${d.x},${d.y},${d.z}`);
+    }
+  }
+  console.log(`OK: ${THEMES.length} biome themes`);
+
+  // KOTH: every layout yields the objective plus a hill per quarter, each centred on open floor
+  for (const layout of ARENA_LAYOUTS) {
+    const { spec, usedSeed } = generateValidArena(`koth_${layout}`, { attempts: 16, version: 2, layout });
+    const hills = buildHillZones(spec, usedSeed);
+    if (hills.length !== 5) fail(usedSeed, `${layout}: expected 5 hills, got ${hills.length}`);
+    const g = bakeGridFromSpec(spec, 1);
+    for (const h of hills) {
+      const c = toCell(g, { x: h.x + spec.center.x, y: h.z + spec.center.y });
+      if (g.blocked[c.y * g.size + c.x] !== 0) fail(usedSeed, `${layout}: hill centre blocked`, h);
+    }
+    // Rotationally symmetric layouts get one point turned through the quarters, so every spawn sees the same hill
+    if (layout !== "caves") {
+      const [first] = hills.slice(1);
+      hills.slice(1).forEach((h, q) => {
+        const r = rotateQuarter({ x: 0, y: 0 }, { x: first.x, y: first.z }, q);
+        if (Math.abs(h.x - r.x) > 1e-6 || Math.abs(h.z - r.y) > 1e-6) fail(usedSeed, `${layout}: hill ${q + 1} is not the first rotated`, { hills });
+      });
     }
+  }
+  console.log(`OK: KOTH hills for ${ARENA_LAYOUTS.length} layouts`);
 
-    const v = validateSpec(spec);
-    if (!v.ok) fail(seed, `validateSpec failed: ${v.errors.join("; ")}`);
+  // Survival: enemies spawned in any zone can walk the objective flow field to the objective
+  for (const layout of ARENA_LAYOUTS) {
+    const { spec, usedSeed } = generateValidArena(`survival_${layout}`, { attempts: 16, version: 2, layout });
+    const g = bakeGridFromSpec(spec, 1);
+    const field = buildFlowField(g, [spec.objective.center]);
+    for (const z of spec.spawnZones) {
+      const c = toCell(g, { x: z.rect.x + z.rect.w / 2, y: z.rect.y + z.rect.h / 2 });
+      if (field[c.y * g.size + c.x] === UNREACHABLE) fail(usedSeed, `${layout}: objective unreachable from spawn zone`, z);
+    }
+  }
+  console.log(`OK: survival flow fields for ${ARENA_LAYOUTS.length} layouts`);
 
-    const c = validateConnectivity(spec);
-    if (!c.ok) fail(seed, `validateConnectivity failed: ${c.errors.join("; ")}`);
+  // Bots: from every spawn zone, following BotNavigator reaches the objective without touching a wall or hazard;
+  // across a wall, the first step heads for a way round rather than straight at the target
+  let wallCases = 0;
+  for (const layout of ARENA_LAYOUTS) {
+    const { spec, usedSeed } = generateValidArena(`bots_${layout}`, { attempts: 16, version: 2, layout });
+    const g = bakeGridFromSpec(spec, 1);
+    const nav = new BotNavigator(spec);
+    const walkable = (p: Vec2) => {
+      const c = toCell(g, p);
+      return isWalkableCell(g, c.y * g.size + c.x);
+    };
+    for (const z of spec.spawnZones) {
+      const from = { x: z.rect.x + z.rect.w / 2, y: z.rect.y + z.rect.h / 2 };
+      const why = walkBot(nav, spec, g, from, spec.objective.center);
+      if (why) fail(usedSeed, `${layout}: bot from spawn zone to objective ${why}`, z);
+    }
+    for (const w of spec.wallSegments) {
+      const len = Math.hypot(w.b.x - w.a.x, w.b.y - w.a.y);
+      if (len < 4) continue;
+      const n = { x: -(w.b.y - w.a.y) / len, y: (w.b.x - w.a.x) / len };
+      const mid = { x: (w.a.x + w.b.x) / 2, y: (w.a.y + w.b.y) / 2 };
+      const off = w.thickness / 2 + 2;
+      const a = { x: Math.round(mid.x + n.x * off), y: Math.round(mid.y + n.y * off) };
+      const b = { x: Math.round(mid.x - n.x * off), y: Math.round(mid.y - n.y * off) };
+      if (walkable(mid) || !walkable(a) || !walkable(b)) continue;
+      const dir = nav.directionToward(
+        { x: a.x - spec.center.x, y: 0, z: a.y - spec.center.y },
+        { x: b.x - spec.center.x, y: 0, z: b.y - spec.center.y }
+      );
+      if (!dir) continue; // walled-off pocket: no route is the right answer
+      const ab = Math.hypot(b.x - a.x, b.y - a.y);
+      if ((dir.x * (b.x - a.x) + dir.z * (b.y - a.y)) / ab > 0.99) fail(usedSeed, `${layout}: bot heads straight into a wall`, { a, b });
+      const why = walkBot(nav, spec, g, a, b);
+      if (why) fail(usedSeed, `${layout}: bot around a wall ${why}`, { a, b });
+      wallCases++;
+    }
+  }
+  if (wallCases === 0) fail("bots", "no wall crossing found to test bot navigation against");
+  console.log(`OK: bot navigation for ${ARENA_LAYOUTS.length} layouts (${wallCases} wall crossings)`);
 
-    const dir = join(OUT_DIR, fsSafeSeed(usedSeed));
-    await mkdir(dir, { recursive: true });
-    const mapPath = join(dir, "map.json");
-    const json = JSON.stringify(spec, null, 2);
-    await writeFile(mapPath, json, "utf8");
+  // CTF: one flag base per team on open floor, never two teams sharing a pad
+  for (const layout of ARENA_LAYOUTS) {
+    const { spec, usedSeed } = generateValidArena(`ctf_${layout}`, { attempts: 16, version: 2, layout });
+    const g = bakeGridFromSpec(spec, 1);
+    for (const teamCount of [2, 3, 4]) {
+      const bases = buildFlagBases(spec, teamCount);
+      if (bases.length !== teamCount) fail(usedSeed, `${layout}: expected ${teamCount} flag bases, got ${bases.length}`);
+      const keys = new Set(bases.map((b) => `${b.x},${b.z}`));
+      if (keys.size !== bases.length) fail(usedSeed, `${layout}: flag bases overlap`, { bases });
+      for (const b of bases) {
+        const c = toCell(g, { x: b.x + spec.center.x, y: b.z + spec.center.y });
+        if (g.blocked[c.y * g.size + c.x] !== 0) fail(usedSeed, `${layout}: flag base blocked`, b);
+      }
+    }
+  }
+  console.log(`OK: CTF flag bases for ${ARENA_LAYOUTS.length} layouts`);
+
+  // Curated rotation maps must stay good: every active entry generates without falling back
+  const playlist = loadPlaylistFile(DEFAULT_PLAYLIST_PATH);
+  if (!playlist) fail(DEFAULT_PLAYLIST_PATH, "default playlist missing");
+  const active = playlist.entries.filter((e) => !e.retired);
+  for (const e of active) {
+    if (e.map) {
+      if (!isHandMap(e.map)) fail(e.seed, `playlist entry "${e.name}" names unknown map "${e.map}"`);
+      continue;
+    }
+    const { spec, usedSeed } = generateValidArena(e.seed, { size: e.size, version: e.version ?? 2, layout: e.layout });
+    if (usedSeed.startsWith("fallback")) fail(e.seed, `playlist entry "${e.name}" fell back`);
+    mapSanityChecks(spec, e.seed, e.version ?? 2);
+  }
+  console.log(`OK: ${active.length} playlist maps in ${DEFAULT_PLAYLIST_PATH}`);
 
-    const raw = await readFile(mapPath, "utf8");
-    const loaded = JSON.parse(raw) as MapSpecV1;
-    mapSanityChecks(loaded, seed);
+  // Hand-authored maps: sidecar parses, anchors sit on floor inside the radius, shards sample inside it
+  const handMaps = listHandMaps();
+  for (const id of handMaps) {
+    const { spec } = loadHandMap(id, `hand_${id}`);
+    if (spec.spawnZones.length !== 4) fail(id, "hand map must have exactly 4 spawnZones");
+    const rng = new Rng(`hand_${id}`);
+    for (let i = 0; i < 50; i++) {
+      const p = sampleRingPosition(spec, () => rng.float());
+      if (Math.hypot(p.x, p.z) > spec.ringRadii[0]) fail(id, "shard sample outside hand map radius", p);
+    }
   }
+  console.log(`OK: ${handMaps.length} hand-authored maps in ${HAND_MAPS_DIR}`);
 
-  console.log(`OK: emitted and re-validated ${seeds.length} maps under ${OUT_DIR}`);
+  // Bot skill ratings: Elo against the round's bot tiers, then bot count and tiers from the rating
+  const rated = (players: BotSkillState["players"], round: Omit<RatedRound, "nowMs">) => {
+    const state: BotSkillState = { players: structuredClone(players), recentBotWins: [] };
+    recordRound(state, { ...round, nowMs: 1 }, 3);
+    return state;
+  };
+  const expectRating = (label: string, got: number, want: number) => {
+    if (got !== want) fail("bot_rating", `${label}: expected ${want}, got ${got}`);
+  };
+  if (expectedScore(DEFAULT_RATING, DEFAULT_RATING) !== 0.5) fail("bot_rating", "even ratings should expect 0.5");
+  const veteran = { v: { rating: DEFAULT_RATING, games: 10, updatedAtMs: 0 } };
+  const medium = ["MEDIUM", "MEDIUM"] as const;
+  let round = rated({}, { humanIds: ["a", "b"], botTiers: [...medium], winnerPlayerId: "a", winnerIsBot: false });
+  expectRating("provisional win", round.players.a.rating, 1032);
+  expectRating("draw against the bots", round.players.b.rating, 1000);
+  round = rated({}, { humanIds: ["a"], botTiers: [...medium], winnerPlayerId: "bot-1-0", winnerIsBot: true });
+  expectRating("provisional loss", round.players.a.rating, 968);
+  round = rated(veteran, { humanIds: ["v"], botTiers: [...medium], winnerPlayerId: "v", winnerIsBot: false });
+  expectRating("win after the provisional rounds", round.players.v.rating, 1016);
+  round = rated(veteran, { humanIds: ["v"], botTiers: ["NIGHTMARE"], winnerPlayerId: "bot-1-0", winnerIsBot: true });
+  expectRating("loss to a stronger field", round.players.v.rating, 997);
+  for (const skipped of [
+    { humanIds: ["v"], botTiers: [], winnerPlayerId: "v", winnerIsBot: false },
+    { humanIds: ["v"], botTiers: [...medium], winnerIsBot: false },
+  ]) {
+    const state: BotSkillState = { players: structuredClone(veteran), recentBotWins: [] };
+    if (recordRound(state, { ...skipped, nowMs: 1 }, 3) || state.players.v.games !== 10) {
+      fail("bot_rating", "rounds without bots or a winner must not be rated", skipped);
+    }
+  }
+  const history: BotSkillState = { players: {}, recentBotWins: [] };
+  for (let i = 0; i < 5; i++) {
+    recordRound(history, { humanIds: ["a"], botTiers: ["EASY"], winnerPlayerId: "a", winnerIsBot: i === 4, nowMs: i }, 3);
+  }
+  if (JSON.stringify(history.recentBotWins) !== "[false,false,true]") fail("bot_rating", "recent outcomes not capped", { history });
+  for (const [base, rating, want] of [[4, 1000, 4], [4, 1150, 5], [4, 3000, 6], [4, 0, 2], [1, 0, 1], [0, 3000, 0]]) {
+    expectRating(`bot count for base ${base} at ${rating}`, botCountForRating(base, rating), want);
+  }
+  for (const [rating, want] of [
+    [1000, "MEDIUM,EASY,HARD,MEDIUM"],
+    [1120, "HARD,MEDIUM,NIGHTMARE,HARD"],
+    [0, "EASY,EASY,MEDIUM,EASY"],
+    [2000, "NIGHTMARE,HARD,NIGHTMARE,NIGHTMARE"],
+  ] as const) {
+    const mix = tierMixForRating(4, rating).join(",");
+    if (mix !== want) fail("bot_rating", `tier mix at ${rating}: expected ${want}, got ${mix}`);
+  }
+  console.log("OK: bot skill ratings");
+
+  // Time trial leaderboard: one best per player, trimmed to the board size, ghost only on a new seed record
+  const runOf = (playerId: string, timeMs: number, atMs = timeMs): BestTime => ({ playerId, name: playerId, timeMs, atMs });
+  const board: SeedRecords = { best: [], ghost: null };
+  let merged = mergeRun(board, runOf("a", 5000), [[0, 0, 0, 0]]);
+  if (merged.rank !== 1 || !merged.seedRecord || board.ghost?.timeMs !== 5000) fail("timetrial", "first run should set the record", merged);
+  merged = mergeRun(board, runOf("a", 6000), [[0, 1, 1, 1]]);
+  if (merged.personalBest || merged.seedRecord || board.best.filter((e) => e.playerId === "a").length !== 1 || board.best[0].timeMs !== 5000) {
+    fail("timetrial", "a slower run must not replace the player's best", merged);
+  }
+  merged = mergeRun(board, runOf("b", 5500), [[0, 2, 2, 2]]);
+  if (merged.rank !== 2 || merged.seedRecord || board.ghost?.timeMs !== 5000) fail("timetrial", "second place must keep the ghost", merged);
+  merged = mergeRun(board, runOf("b", 4000), [[0, 3, 3, 3]]);
+  if (merged.rank !== 1 || !merged.seedRecord || board.ghost?.track[0][1] !== 3 || board.best.filter((e) => e.playerId === "b").length !== 1) {
+    fail("timetrial", "a new record should replace the ghost and the player's old time", merged);
+  }
+  for (let i = 0; i < LEADERBOARD_SIZE; i++) mergeRun(board, runOf(`p${i}`, 1000 + i), []);
+  if (board.best.length !== LEADERBOARD_SIZE) fail("timetrial", `board not trimmed to ${LEADERBOARD_SIZE}`, { size: board.best.length });
+  merged = mergeRun(board, runOf("slow", 9000), []);
+  if (merged.rank !== null || !merged.personalBest) fail("timetrial", "a time off the board should have no rank", merged);
+  if (board.best.some((e) => e.playerId === "slow")) fail("timetrial", "a time off the board must not be kept");
+  console.log("OK: time trial records");
+
+  // Survival: the run ends only when every connected survivor is down; a standing teammate nearby revives
+  const survival: SurvivalState = structuredClone(INITIAL_SURVIVAL_STATE);
+  startSurvival(survival, 0, [{ id: "a", name: "A" }, { id: "b", name: "B" }, { id: "c", name: "C" }]);
+  downSurvivor(survival, "a");
+  downSurvivor(survival, "b");
+  if (allDown(survival)) fail("survival", "one survivor still standing");
+  leaveSurvival(survival, "c");
+  if (!allDown(survival)) fail("survival", "everyone left in the world is down");
+  const progress = (id: string) => survival.survivors[id].reviveMs;
+  const nearby = { a: { x: 0, z: 0 }, b: { x: 10, z: 10 }, c: { x: REVIVE_RADIUS - 0.1, z: 0 } };
+  if (tickRevives(survival, nearby, 1000, 2000).length !== 0) fail("survival", "a disconnected teammate must not revive");
+  survival.survivors.c.connected = true;
+  let revived = tickRevives(survival, nearby, 1000, 2000);
+  if (revived.length !== 0 || progress("a") !== 1000) fail("survival", "revive should take reviveMs", { revived });
+  if (progress("b") !== 0) fail("survival", "a downed survivor out of range gained progress");
+  tickRevives(survival, { ...nearby, c: { x: REVIVE_RADIUS + 0.1, z: 0 } }, 500, 2000);
+  if (progress("a") !== 0) fail("survival", "stepping away should reset revive progress");
+  tickRevives(survival, nearby, 1000, 2000);
+  revived = tickRevives(survival, nearby, 1000, 2000);
+  if (revived.join() !== "a" || survival.survivors.a.downed || survival.survivors.c.revives !== 1) {
+    fail("survival", "survivor a should be revived and c credited", { revived });
+  }
+  console.log("OK: survival downs and revives");
+
+  // Match rules: partial objects merge over the base, bad fields are rejected with a message
+  const throws = (raw: unknown) => {
+    try {
+      parseMatchRules(raw, DEFAULT_MATCH_RULES);
+      return false;
+    } catch {
+      return true;
+    }
+  };
+  const rules = parseMatchRules({ targetShards: 50, friendlyFire: true, towerTierThresholds: [2, 4, 6], bogus: 1 }, DEFAULT_MATCH_RULES);
+  if (rules.targetShards !== 50 || !rules.friendlyFire || rules.meleeDamage !== DEFAULT_MATCH_RULES.meleeDamage) {
+    fail("rules", "partial rules should merge over the base", { rules });
+  }
+  if (rules.towerTierThresholds === DEFAULT_MATCH_RULES.towerTierThresholds) fail("rules", "parsed rules share the base tiers array");
+  for (const bad of [
+    null,
+    "rules",
+    { targetShards: 0 },
+    { targetShards: 1.5 },
+    { roundResetDelayMs: 60_001 },
+    { friendlyFire: "yes" },
+    { powerUpCount: -1 },
+    { towerTierThresholds: [1, 2] },
+    { towerTierThresholds: [5, 5, 6] },
+  ]) {
+    if (!throws(bad)) fail("rules", "bad rules were accepted", { bad });
+  }
+  console.log("OK: match rules validation");
+
+  // Match series: majority of round wins clinches early, otherwise standings after the last round decide it
+  const series = createSeries(3, ["MULTI", "survival"]);
+  if (seriesWinsNeeded(series) !== 2 || seriesModeForNextRound(series) !== "MULTI") fail("series", "best-of-3 setup");
+  const placings = [{ playerId: "a", name: "A" }, { playerId: "b", name: "B" }, { playerId: "c", name: "C" }];
+  if (recordSeriesRound(series, { placings, winnerIds: ["a"] })) fail("series", "a pending series must not record rounds");
+  series.status = "RUNNING";
+  if (recordSeriesRound(series, { placings, winnerIds: ["a"] })) fail("series", "one win must not decide a best-of-3");
+  if (seriesModeForNextRound(series) !== "survival") fail("series", "modes should rotate per round");
+  if (!recordSeriesRound(series, { placings, winnerIds: ["a"] }) || seriesModeForNextRound(series) !== null || series.winnerPlayerId !== "a") {
+    fail("series", "two wins should clinch a best-of-3", { series });
+  }
+  if (seriesStandings(series).map((s) => `${s.playerId}:${s.points}`).join() !== "a:20,b:14,c:10") {
+    fail("series", "placement points", { standings: seriesStandings(series) });
+  }
+  const undecided = createSeries(2, []);
+  undecided.status = "RUNNING";
+  recordSeriesRound(undecided, { placings, winnerIds: ["a"] });
+  if (!recordSeriesRound(undecided, { placings: [...placings].reverse(), winnerIds: [] }) || undecided.winnerPlayerId !== "a") {
+    fail("series", "the leader after the last round should take an unclinched series", { undecided });
+  }
+  if (seriesModeForNextRound(undecided) !== null) fail("series", "a finished series picks no mode");
+  console.log("OK: match series standings");
 }
 
 main().catch((err) => {
@@ -0,0 +1,77 @@
+/**
+ * Golden corpus check: regenerate the corpus seeds and diff against the committed seed → specHash table.
+ *
+ *   npm run test:procgen:golden                   # fail (exit 1) with a per-seed diff if any arena changed
+ *   npm run procgen:golden:update                 # rewrite scripts/procgen_golden.json after an intended change
+ *   tsx scripts/procgen_golden.ts --against a.json --file b.json   # diff two saved corpora, no generation
+ *
+ * Commit the updated golden file together with the generator change so reviewers see the diff.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  GOLDEN_FORMAT,
+  buildGoldenCorpus,
+  diffGoldenCorpus,
+  formatGoldenDiff,
+  isGoldenClean,
+  type GoldenCorpus,
+} from "../src/server/procgen/goldenCorpus";
+
+const DEFAULT_FILE = join(__dirname, "procgen_golden.json");
+const SEEDS = Array.from({ length: 50 }, (_, i) => `match_${i + 1}`);
+const VERSIONS = [1, 2] as const;
+const SIZE = 250;
+
+function readCorpus(path: string): GoldenCorpus {
+  const corpus = JSON.parse(readFileSync(path, "utf8")) as GoldenCorpus;
+  if (corpus.format !== GOLDEN_FORMAT) {
+    console.error(`[golden] ${path}: format ${corpus.format}, expected ${GOLDEN_FORMAT} — regenerate with --update`);
+    process.exit(1);
+  }
+  return corpus;
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      update: { type: "boolean", default: false },
+      file: { type: "string", default: DEFAULT_FILE },
+      against: { type: "string" },
+    },
+  });
+  const file = values.file!;
+
+  let current: GoldenCorpus;
+  if (values.against) {
+    current = readCorpus(file);
+  } else {
+    // Record fallbacks in the corpus instead of hard-failing on the first one (dev mode exits)
+    process.env.NODE_ENV = "production";
+    current = buildGoldenCorpus(SEEDS, VERSIONS, SIZE);
+  }
+
+  if (values.update) {
+    writeFileSync(file, JSON.stringify(current, null, 2) + "\n");
+    console.log(`Wrote ${current.entries.length} entries to ${file}`);
+    return;
+  }
+
+  const baselinePath = values.against ?? file;
+  if (!existsSync(baselinePath)) {
+    console.error(`[golden] no golden file at ${baselinePath}; run with --update to create it`);
+    process.exit(1);
+  }
+  const diff = diffGoldenCorpus(readCorpus(baselinePath), current);
+  for (const line of formatGoldenDiff(diff)) console.log(line);
+
+  if (!isGoldenClean(diff)) {
+    console.error("Golden corpus differs. If the change is intended, run `npm run procgen:golden:update` and commit the file.");
+    process.exit(1);
+  }
+  console.log("OK: golden corpus matches.");
+}
+
+main();
@@ -0,0 +1,100 @@
+/**
+ * Render top-down previews for a range of seeds plus a contact sheet, for level review without the server.
+ *
+ *   npm run procgen:preview -- --prefix match_ --from 1 --to 12 --layout caves --version 2
+ *
+ * Writes <seed>.svg / <seed>.png (and <seed>.grid.png with --grid) and contact_sheet.svg / .png to --out.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import { generateValidArena } from "../src/server/procgen/generateValidArena";
+import { bakeGridFromSpec } from "../src/server/procgen/gridBake";
+import { pickTheme } from "../src/server/procgen/themes";
+import { isArenaLayout } from "../src/server/procgen/generators/registry";
+import type { ArenaLayout } from "../src/server/procgen/spec";
+import { encodePng, type Raster } from "../src/server/procgen/preview/png";
+import {
+  contactSheetPng,
+  contactSheetSvg,
+  rasterizeGrid,
+  rasterizeSpec,
+  renderSpecSvg,
+  type ContactTile,
+} from "../src/server/procgen/preview/renderPreview";
+
+function fsSafeSeed(seed: string): string {
+  return seed.replace(/:/g, "_");
+}
+
+function usage(msg: string): never {
+  console.error(msg);
+  console.error(
+    "Usage: tsx scripts/procgen_preview.ts [--prefix match_] [--from 1] [--to 12] [--seed s ...] " +
+      "[--layout auto|rings|caves|bsp|lanes] [--version 1|2] [--size 250] [--scale 2] [--cols 4] [--grid] [--out dir]"
+  );
+  process.exit(1);
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      prefix: { type: "string", default: "match_" },
+      from: { type: "string", default: "1" },
+      to: { type: "string", default: "12" },
+      seed: { type: "string", multiple: true },
+      layout: { type: "string", default: "auto" },
+      version: { type: "string", default: "2" },
+      size: { type: "string", default: "250" },
+      scale: { type: "string", default: "2" },
+      cols: { type: "string", default: "4" },
+      grid: { type: "boolean", default: false },
+      out: { type: "string", default: join(process.cwd(), "dist", "procgen_preview") },
+    },
+  });
+
+  const from = Number(values.from);
+  const to = Number(values.to);
+  if (!Number.isInteger(from) || !Number.isInteger(to) || to < from) usage("--from/--to must be integers with to >= from");
+  const seeds = values.seed?.length ? values.seed : Array.from({ length: to - from + 1 }, (_, i) => `${values.prefix}${from + i}`);
+
+  const layout = values.layout!;
+  if (layout !== "auto" && !isArenaLayout(layout)) usage(`unknown layout: ${layout}`);
+  const version = Number(values.version);
+  if (version !== 1 && version !== 2) usage("--version must be 1 or 2");
+  const size = Number(values.size);
+  const scale = Number(values.scale);
+  const cols = Math.max(1, Number(values.cols));
+  const outDir = values.out!;
+  await mkdir(outDir, { recursive: true });
+
+  const tiles: ContactTile[] = [];
+  const thumbs: Raster[] = [];
+  for (const seed of seeds) {
+    const { spec, usedSeed } = generateValidArena(seed, { size, version, layout: layout as ArenaLayout | "auto" });
+    // Same theme the round would get (RoundController themes by the requested round seed)
+    const theme = pickTheme(seed);
+    const label = `${usedSeed} ${spec.layout ?? "rings"} v${spec.v}`;
+    const name = fsSafeSeed(seed);
+
+    await writeFile(join(outDir, `${name}.svg`), renderSpecSvg(spec, { theme, scale, label }), "utf8");
+    await writeFile(join(outDir, `${name}.png`), encodePng(rasterizeSpec(spec, { theme, scale })));
+    if (values.grid) {
+      await writeFile(join(outDir, `${name}.grid.png`), encodePng(rasterizeGrid(bakeGridFromSpec(spec, 1), { theme, scale })));
+    }
+
+    tiles.push({ spec, label, theme });
+    thumbs.push(rasterizeSpec(spec, { theme, scale: 1 }));
+    console.log(`[preview] ${label} -> ${name}.svg/.png`);
+  }
+
+  await writeFile(join(outDir, "contact_sheet.svg"), contactSheetSvg(tiles, cols), "utf8");
+  await writeFile(join(outDir, "contact_sheet.png"), encodePng(contactSheetPng(thumbs, cols)));
+  console.log(`OK: ${seeds.length} previews + contact sheet under ${outDir}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,9 +1,9 @@
 import { createHash } from "node:crypto";
 import { generateValidArena } from "../src/server/procgen/generateValidArena";
 import { generateArenaSpec } from "../src/server/procgen/generateArenaSpec";
-import type { MapSpecV1 } from "../src/server/procgen/spec";
+import type { MapSpec } from "../src/server/procgen/spec";
 
-/** Stable JSON: sort object keys so serialization is deterministic. No timestamp stripping needed for MapSpecV1. */
+/** Stable JSON: sort object keys so serialization is deterministic. No timestamp stripping needed for MapSpec. */
 function stableStringify(obj: unknown): string {
   if (obj === null || typeof obj !== "object") {
     return JSON.stringify(obj);
@@ -16,7 +16,7 @@ function stableStringify(obj: unknown): string {
   return "{" + pairs.join(",") + "}";
 }
 
-function specHash(spec: MapSpecV1): string {
+function specHash(spec: MapSpec): string {
   return createHash("sha256").update(stableStringify(spec), "utf8").digest("hex");
 }
 
@@ -24,27 +24,38 @@ function main() {
   let fallbackCount = 0;
   const seeds = Array.from({ length: 50 }, (_, i) => `match_${i + 1}`);
 
-  for (const seed of seeds) {
-    const { spec, attempt, usedSeed } = generateValidArena(seed, 16);
-    if (usedSeed.startsWith("fallback")) fallbackCount++;
-
-    // Determinism: generate same seed again with same opts (rings from first spec)
-    const spec2 = generateArenaSpec(usedSeed, { size: 250, rings: spec.rings, teams: 4 });
-    const hash1 = specHash(spec);
-    const hash2 = specHash(spec2);
-    if (hash1 !== hash2) {
-      console.error(`[FAIL] seed=${seed} usedSeed=${usedSeed} determinism: hashes differ`);
-      console.error(`  hash1=${hash1}`);
-      console.error(`  hash2=${hash2}`);
-      process.exit(1);
-    }
+  const versions = [1, 2] as const;
+
+  for (const version of versions) {
+    for (const seed of seeds) {
+      const { spec, attempt, usedSeed } = generateValidArena(seed, { attempts: 16, version });
+      if (usedSeed.startsWith("fallback")) fallbackCount++;
 
-    console.log(
-      `[${seed}] usedSeed=${usedSeed} attempts=${attempt} rings=${spec.rings} segments=${spec.segments} spokes=${spec.spokes} hash=${hash1.slice(0, 8)}`
-    );
+      // Determinism: generate same seed again with same opts (rings from first spec)
+      const spec2 = generateArenaSpec(usedSeed, {
+        size: 250,
+        rings: spec.rings,
+        teams: 4,
+        version,
+        layout: spec.layout ?? "rings",
+      });
+      const hash1 = specHash(spec);
+      const hash2 = specHash(spec2);
+      if (hash1 !== hash2) {
+        console.error(`[FAIL] seed=${seed} v=${version} usedSeed=${usedSeed} determinism: hashes differ`);
+        console.error(`  hash1=${hash1}`);
+        console.error(`  hash2=${hash2}`);
+        process.exit(1);
+      }
+
+      const elevation = spec.v === 2 ? ` platforms=${spec.platforms.length} pits=${spec.pits.length} hazards=${spec.hazards.length}` : "";
+      console.log(
+        `[${seed}] v=${version} layout=${spec.layout ?? "rings"} usedSeed=${usedSeed} attempts=${attempt} rings=${spec.rings} segments=${spec.segments} spokes=${spec.spokes}${elevation} hash=${hash1.slice(0, 8)}`
+      );
+    }
   }
 
-  console.log(`Fallback used: ${fallbackCount}/${seeds.length}`);
+  console.log(`Fallback used: ${fallbackCount}/${seeds.length * versions.length}`);
 
   if (fallbackCount > 0) {
     console.error("Regression: CI must see 0 fallbacks (maxAttempts remains <= 16)");
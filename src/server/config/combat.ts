@@ -3,6 +3,7 @@
  */
 
 export const DEFAULT_MAX_HEALTH = 100;
+/** Default for MatchRules.meleeDamage; the lobby host can change it per match. */
 export const MELEE_DAMAGE = 20;
 export const MELEE_RANGE = 3.0;
 export const ATTACK_COOLDOWN_MS = 450;
@@ -10,6 +11,7 @@ export const RESPAWN_DELAY_MS = 1200;
 export const SPAWN_PROTECTION_MS = 1500;
 export const KNOCKBACK_STRENGTH = 8;
 export const KNOCKBACK_Y = 3;
+/** Default for MatchRules.friendlyFire. */
 export const FRIENDLY_FIRE = true;
 
 /** When true, log combat actions (cooldown, hit, damage, KO). Avoid per-tick spam. */
@@ -0,0 +1,71 @@
+/**
+ * Registry of hand-authored arenas: every assets/maps/<id>.meta.json sidecar registers map <id>.
+ * Loading re-centres the map, builds its spec and refuses maps whose anchors would break the systems.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import type { MapSpecV1 } from '../procgen/spec.js';
+import {
+  checkHandMap,
+  handMapToSpec,
+  parseHandMapMeta,
+  recenterMap,
+  type HandMapData,
+  type HandMapMeta,
+} from '../procgen/handMap.js';
+
+/** Sidecar directory, relative to the server's working directory. */
+export const HAND_MAPS_DIR = 'assets/maps';
+
+const META_SUFFIX = '.meta.json';
+
+export type HandMap = {
+  id: string;
+  meta: HandMapMeta;
+  /** Re-centred map, ready for world.loadMap. */
+  map: HandMapData;
+  spec: MapSpecV1;
+};
+
+function readJson(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new Error(`[handMap] ${path}: ${(err as Error).message}`);
+  }
+}
+
+/** Ids of every registered hand-authored map, sorted. */
+export function listHandMaps(dir = HAND_MAPS_DIR): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => f.endsWith(META_SUFFIX))
+    .map((f) => f.slice(0, -META_SUFFIX.length))
+    .sort();
+}
+
+export function isHandMap(id: string, dir = HAND_MAPS_DIR): boolean {
+  return existsSync(join(dir, `${id}${META_SUFFIX}`));
+}
+
+/**
+ * Load map `id` for a round. `seed` feeds the spec (shard/power-up placement and waves stay seeded).
+ * Throws on a missing or invalid map so a bad showcase map fails at round start, not mid-match.
+ */
+export function loadHandMap(id: string, seed: string, dir = HAND_MAPS_DIR): HandMap {
+  const metaPath = join(dir, `${id}${META_SUFFIX}`);
+  if (!existsSync(metaPath)) throw new Error(`[handMap] unknown map "${id}" (no ${metaPath})`);
+  const meta = parseHandMapMeta(readJson(metaPath), metaPath);
+  const mapPath = join(dirname(metaPath), meta.map ?? `${id}.json`);
+  const raw = readJson(mapPath) as HandMapData;
+  if (!raw || typeof raw !== 'object' || !raw.blocks || !Array.isArray(raw.blockTypes)) {
+    throw new Error(`[handMap] ${mapPath}: expected a Hytopia map with blockTypes and blocks`);
+  }
+
+  const map = recenterMap(raw, meta.center);
+  const spec = handMapToSpec(id, meta, seed);
+  const errors = checkHandMap(spec, map);
+  if (errors.length) throw new Error(`[handMap] ${metaPath}: ${errors.join('; ')}`);
+  return { id, meta, map, spec };
+}
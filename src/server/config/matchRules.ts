@@ -0,0 +1,93 @@
+/**
+ * Match rules from the lobby rules editor: validation against fixed limits, and named presets the host can
+ * save and load. Presets persist in the local store (persistence/localStore.ts) so private events can reuse them.
+ */
+
+import type { MatchRules } from '../modes/types.js';
+import { readStore, writeStore } from '../persistence/localStore.js';
+
+/** Inclusive bounds for each numeric rule (mirrored by the min/max of the lobby panel inputs). */
+export const RULE_LIMITS = {
+  targetShards: { min: 1, max: 200 },
+  roundResetDelayMs: { min: 2000, max: 60_000 },
+  meleeDamage: { min: 1, max: 100 },
+  powerUpCount: { min: 0, max: 120 },
+  towerTierThreshold: { min: 1, max: 200 },
+} as const;
+
+const PRESETS_KEY = 'rules/presets';
+const PRESET_NAME = /^[\w -]{1,24}$/;
+const MAX_PRESETS = 20;
+
+/** Messages are shown to the host as-is. */
+function fail(msg: string): never {
+  throw new Error(msg);
+}
+
+function intInRange(value: unknown, field: string, limits: { min: number; max: number }): number {
+  if (!Number.isInteger(value) || (value as number) < limits.min || (value as number) > limits.max) {
+    fail(`${field} must be a whole number from ${limits.min} to ${limits.max}`);
+  }
+  return value as number;
+}
+
+/**
+ * Validate a (possibly partial) rules object from the UI or a preset file over `base`. Throws with the first
+ * bad field; unknown fields are ignored.
+ */
+export function parseMatchRules(raw: unknown, base: MatchRules): MatchRules {
+  if (!raw || typeof raw !== 'object') fail('expected an object');
+  const r = raw as Record<string, unknown>;
+  const rules: MatchRules = { ...base, towerTierThresholds: [...base.towerTierThresholds] };
+
+  if (r.targetShards !== undefined) rules.targetShards = intInRange(r.targetShards, 'targetShards', RULE_LIMITS.targetShards);
+  if (r.roundResetDelayMs !== undefined) {
+    rules.roundResetDelayMs = intInRange(r.roundResetDelayMs, 'roundResetDelayMs', RULE_LIMITS.roundResetDelayMs);
+  }
+  if (r.meleeDamage !== undefined) rules.meleeDamage = intInRange(r.meleeDamage, 'meleeDamage', RULE_LIMITS.meleeDamage);
+  if (r.friendlyFire !== undefined) {
+    if (typeof r.friendlyFire !== 'boolean') fail('friendlyFire must be true or false');
+    rules.friendlyFire = r.friendlyFire;
+  }
+  if (r.powerUpCount !== undefined) rules.powerUpCount = intInRange(r.powerUpCount, 'powerUpCount', RULE_LIMITS.powerUpCount);
+  if (r.towerTierThresholds !== undefined) {
+    const t = r.towerTierThresholds;
+    if (!Array.isArray(t) || t.length !== 3) fail('towerTierThresholds must list 3 tiers');
+    const tiers = t.map((v, i) => intInRange(v, `towerTierThresholds[${i}]`, RULE_LIMITS.towerTierThreshold));
+    if (!(tiers[0] < tiers[1] && tiers[1] < tiers[2])) fail('towerTierThresholds must be ascending');
+    rules.towerTierThresholds = [tiers[0], tiers[1], tiers[2]];
+  }
+  return rules;
+}
+
+let presetCache: Record<string, MatchRules> | null = null;
+
+/** Prototype-free, so names like `__proto__` or `constructor` are plain keys. */
+function presets(): Record<string, MatchRules> {
+  presetCache ??= Object.assign(
+    Object.create(null) as Record<string, MatchRules>,
+    readStore<Record<string, MatchRules>>(PRESETS_KEY, {})
+  );
+  return presetCache;
+}
+
+/** Saved preset names, alphabetical. */
+export function listRulePresets(): string[] {
+  return Object.keys(presets()).sort((a, b) => a.localeCompare(b));
+}
+
+/** Save (or overwrite) a preset. Throws on a bad name or when the preset list is full. */
+export function saveRulePreset(name: string, rules: MatchRules): void {
+  const trimmed = name.trim();
+  if (!PRESET_NAME.test(trimmed)) fail('preset names are 1-24 letters, digits, spaces, - or _');
+  const all = presets();
+  if (!Object.hasOwn(all, trimmed) && Object.keys(all).length >= MAX_PRESETS) fail(`at most ${MAX_PRESETS} presets`);
+  all[trimmed] = rules;
+  writeStore(PRESETS_KEY, all);
+}
+
+/** A saved preset re-validated over `base` (the file may predate a rule or have been edited by hand); null when missing. */
+export function loadRulePreset(name: string, base: MatchRules): MatchRules | null {
+  const saved = presets()[name.trim()];
+  return saved ? parseMatchRules(saved, base) : null;
+}
@@ -0,0 +1,113 @@
+/**
+ * Map playlists: curated, pinned arena seeds for the map rotation (see systems/MapRotation.ts).
+ * Loaded from JSON at startup; a bad file fails loudly instead of silently rotating random arenas.
+ */
+
+import { readFileSync } from 'node:fs';
+import { GAME_MODES, type GameMode } from '../modes/types.js';
+import type { ArenaLayout } from '../procgen/spec.js';
+import { isArenaLayout } from '../procgen/generators/registry.js';
+import { getThemeById } from '../procgen/themes.js';
+
+export type RotationOrder = 'sequential' | 'shuffle' | 'weighted';
+
+export type PlaylistEntry = {
+  /** Shown in chat and the /nextmap vote. Unique within a playlist. */
+  name: string;
+  /** Arena seed, used as-is (no per-round suffix) so the same map comes back every time. */
+  seed: string;
+  /** Hand-authored map id (assets/maps/<id>.meta.json); the seed then only drives shards, power-ups and waves. */
+  map?: string;
+  size?: number;
+  /** Overrides MatchConfig.mode while this map is up. */
+  mode?: GameMode;
+  /** Preset id from THEMES; omitted = theme derived from the seed as usual. */
+  theme?: string;
+  layout?: ArenaLayout | 'auto';
+  version?: 1 | 2;
+  /** Relative pick weight for 'weighted' rotation. Default 1. */
+  weight?: number;
+  /** Kept in the file for the record but never played. */
+  retired?: boolean;
+};
+
+export type Playlist = {
+  name: string;
+  order: RotationOrder;
+  entries: PlaylistEntry[];
+};
+
+const ORDERS: RotationOrder[] = ['sequential', 'shuffle', 'weighted'];
+
+/** Default location of the curated playlist, relative to the server's working directory. */
+export const DEFAULT_PLAYLIST_PATH = 'assets/playlists/default.json';
+
+function fail(where: string, msg: string): never {
+  throw new Error(`[playlist] ${where}: ${msg}`);
+}
+
+/** Validate raw JSON into a Playlist. Throws with the offending entry on bad input. */
+export function parsePlaylist(raw: unknown, source = 'playlist'): Playlist {
+  if (!raw || typeof raw !== 'object') fail(source, 'expected an object');
+  const obj = raw as Record<string, unknown>;
+  const order = obj.order ?? 'sequential';
+  if (!ORDERS.includes(order as RotationOrder)) fail(source, `order must be one of ${ORDERS.join('|')}`);
+  if (!Array.isArray(obj.entries) || obj.entries.length === 0) fail(source, 'entries must be a non-empty array');
+
+  const names = new Set<string>();
+  const entries = obj.entries.map((e: unknown, i: number): PlaylistEntry => {
+    const where = `${source} entries[${i}]`;
+    if (!e || typeof e !== 'object') fail(where, 'expected an object');
+    const r = e as Record<string, unknown>;
+    if (typeof r.seed !== 'string' || !r.seed) fail(where, 'seed must be a non-empty string');
+    const name = typeof r.name === 'string' && r.name ? r.name : r.seed;
+    if (names.has(name)) fail(where, `duplicate name "${name}"`);
+    names.add(name);
+    if (r.map !== undefined && (typeof r.map !== 'string' || !r.map)) fail(where, 'map must be a non-empty string');
+    if (r.size !== undefined && (!Number.isInteger(r.size) || (r.size as number) < 64)) fail(where, 'size must be an integer >= 64');
+    if (r.mode !== undefined && !GAME_MODES.includes(r.mode as GameMode)) fail(where, `unknown mode "${r.mode}"`);
+    if (r.theme !== undefined && !getThemeById(r.theme as string)) fail(where, `unknown theme "${r.theme}"`);
+    if (r.layout !== undefined && r.layout !== 'auto' && !(typeof r.layout === 'string' && isArenaLayout(r.layout))) {
+      fail(where, `unknown layout "${r.layout}"`);
+    }
+    if (r.version !== undefined && r.version !== 1 && r.version !== 2) fail(where, 'version must be 1 or 2');
+    if (r.weight !== undefined && !(typeof r.weight === 'number' && r.weight > 0)) fail(where, 'weight must be > 0');
+    return {
+      name,
+      seed: r.seed,
+      ...(r.map !== undefined ? { map: r.map as string } : {}),
+      ...(r.size !== undefined ? { size: r.size as number } : {}),
+      ...(r.mode !== undefined ? { mode: r.mode as GameMode } : {}),
+      ...(r.theme !== undefined ? { theme: r.theme as string } : {}),
+      ...(r.layout !== undefined ? { layout: r.layout as ArenaLayout | 'auto' } : {}),
+      ...(r.version !== undefined ? { version: r.version as 1 | 2 } : {}),
+      ...(r.weight !== undefined ? { weight: r.weight as number } : {}),
+      ...(r.retired === true ? { retired: true } : {}),
+    };
+  });
+
+  if (!entries.some((e) => !e.retired)) fail(source, 'every entry is retired');
+  return {
+    name: typeof obj.name === 'string' && obj.name ? obj.name : source,
+    order: order as RotationOrder,
+    entries,
+  };
+}
+
+/** Read and parse a playlist file; null if the file does not exist. */
+export function loadPlaylistFile(path: string): Playlist | null {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw err;
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    fail(path, `invalid JSON (${(err as Error).message})`);
+  }
+  return parsePlaylist(raw, path);
+}
@@ -1,2 +1,2 @@
-/** Shards required to win a round. */
+/** Shards required to win a round (default for MatchRules.targetShards). */
 export const TARGET_SHARDS = 25;
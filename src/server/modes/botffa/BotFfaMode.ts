@@ -0,0 +1,32 @@
+/**
+ * Bot brawl: bots fight humans and each other through the combat pipeline; every kill scores and the first
+ * to botFfa.killsToWin wins (the timer otherwise picks the leader).
+ */
+
+import type { GameModeDefinition, MatchConfig, ModeContext, ModeWin } from '../types.js';
+import type { HudMessage } from '../../schema/hudMessages.js';
+
+export class BotFfaMode implements GameModeDefinition {
+  readonly id = 'bot_ffa';
+  readonly endsOnTimer = true;
+  readonly spawnsObjective = false;
+  readonly scoresKills = true;
+  readonly bots = { count: (config: MatchConfig) => config.botFfa.botCount, fight: true };
+
+  constructor(private readonly ctx: ModeContext) {}
+
+  onRoundStart(): void {}
+
+  checkWin(): ModeWin | null {
+    const playerId = this.ctx.scoreService.playerReaching(this.ctx.worldState.matchConfig.botFfa.killsToWin);
+    return playerId ? { playerId } : null;
+  }
+
+  contributeHud(msg: HudMessage): void {
+    msg.scoreToWin = this.ctx.worldState.matchConfig.botFfa.killsToWin;
+  }
+
+  leaderboardScore(playerId: string): number {
+    return this.ctx.worldState.score.scoresByPlayerId[playerId]?.score ?? 0;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Capture the Flag: each team defends a flag on its base and scores by carrying an enemy flag home. Captures
+ * score the carrier and their team; the first team to ctf.capturesToWin wins (the timer otherwise picks the
+ * leading team).
+ */
+
+import type { GameModeDefinition, MatchConfig, ModeContext, ModeKo, ModeWin } from '../types.js';
+import type { HudMessage } from '../../schema/hudMessages.js';
+import { BOT_DEFAULT_COUNT } from '../../systems/bots/types.js';
+import { INITIAL_CTF_STATE, dropFlag, flagCarriedBy, startCtf, tickCtf, type CtfEvent } from '../../state/ctfState.js';
+import { TEAM_NAMES, teamOf, type TeamId } from '../../state/teamState.js';
+import { buildFlagBases } from './flagBases.js';
+import { FlagMarker } from './FlagMarker.js';
+
+type Vec3 = { x: number; y: number; z: number };
+
+export class CtfMode implements GameModeDefinition {
+  readonly id = 'ctf';
+  readonly endsOnTimer = true;
+  readonly spawnsObjective = false;
+  readonly scoresKills = false;
+  readonly teamScoreUnit = 'captures';
+  readonly bots = { count: () => BOT_DEFAULT_COUNT, fight: false };
+  private readonly flagMarker: FlagMarker;
+
+  constructor(private readonly ctx: ModeContext) {
+    this.flagMarker = new FlagMarker(ctx.world);
+  }
+
+  teamCount(config: MatchConfig): number {
+    return config.ctf.teamCount;
+  }
+
+  onRoundStart(): void {
+    const { worldState } = this.ctx;
+    const spec = worldState.mapSpec;
+    const bases = spec ? buildFlagBases(spec, worldState.matchConfig.ctf.teamCount) : [];
+    startCtf(
+      worldState.ctfState,
+      bases.map((b) => ({ ...b, y: this.ctx.groundYAt(b.x, b.z) }))
+    );
+    this.flagMarker.sync(worldState.ctfState.flags);
+  }
+
+  onTick(nowMs: number): void {
+    const { worldState, hud } = this.ctx;
+    const ctf = worldState.ctfState;
+    if (ctf.status !== 'RUNNING') return;
+
+    const combatants: Array<{ playerId: string; teamId: TeamId; position: Vec3 }> = [];
+    for (const c of this.ctx.liveCombatantPositions()) {
+      const teamId = teamOf(worldState.teamState, c.playerId);
+      if (teamId != null) combatants.push({ ...c, teamId });
+    }
+    const events = tickCtf(ctf, combatants, nowMs, worldState.matchConfig.ctf);
+    this.flagMarker.sync(ctf.flags);
+
+    for (const event of events) {
+      this.announce(event);
+      if (event.kind !== 'captured') continue;
+      this.ctx.scoreService.addPoint(event.playerId, this.ctx.nameOf(event.playerId), 1, 'objective');
+      this.ctx.scoreService.addTeamPoint(event.teamId, 1);
+    }
+    if (events.length > 0) hud.broadcastHud();
+  }
+
+  onRoundEnd(): void {
+    if (this.ctx.worldState.ctfState.status === 'RUNNING') this.ctx.worldState.ctfState.status = 'ENDED';
+    this.flagMarker.hide();
+  }
+
+  clear(): void {
+    this.ctx.worldState.ctfState = { ...INITIAL_CTF_STATE };
+    this.flagMarker.hide();
+  }
+
+  onPlayerKO(ko: ModeKo): void {
+    this.dropCarried(ko.victimId, ko.position);
+  }
+
+  /** A KO'd or departing carrier leaves the flag at `pos` (default: where it was last seen). */
+  dropCarried(playerId: string, pos?: Vec3): void {
+    const ctf = this.ctx.worldState.ctfState;
+    const carried = ctf.flags.find((f) => f.status === 'carried' && f.carrierId === playerId);
+    if (ctf.status !== 'RUNNING' || !carried) return;
+    const flag = dropFlag(ctf, playerId, pos ?? carried.position, Date.now());
+    if (!flag) return;
+    this.flagMarker.sync(ctf.flags);
+    this.ctx.hud.broadcastFeed(`${this.ctx.nameOf(playerId)} dropped the ${TEAM_NAMES[flag.teamId]} flag`);
+    this.ctx.hud.broadcastHud();
+  }
+
+  onPlayerLeft(playerId: string): void {
+    this.dropCarried(playerId);
+  }
+
+  checkWin(): ModeWin | null {
+    const teamId = this.ctx.scoreService.teamReaching(this.ctx.worldState.matchConfig.ctf.capturesToWin);
+    return teamId != null ? { teamId } : null;
+  }
+
+  contributeHud(msg: HudMessage, playerId: string): void {
+    const config = this.ctx.worldState.matchConfig.ctf;
+    const ctf = this.ctx.worldState.ctfState;
+    msg.flags = ctf.flags.map((f) => ({
+      teamId: f.teamId,
+      status: f.status,
+      ...(f.carrierId != null && { carrierName: this.ctx.nameOf(f.carrierId) }),
+      ...(f.status === 'dropped' && { returnsAtMs: f.droppedAtMs + config.flagReturnMs }),
+    }));
+    const carried = flagCarriedBy(ctf, playerId);
+    if (carried) msg.carryingFlagTeamId = carried.teamId;
+    msg.scoreToWin = config.capturesToWin;
+  }
+
+  leaderboardScore(playerId: string): number {
+    return this.ctx.worldState.score.scoresByPlayerId[playerId]?.score ?? 0;
+  }
+
+  private announce(event: CtfEvent): void {
+    const { hud } = this.ctx;
+    const flag = `${TEAM_NAMES[event.flagTeamId]} flag`;
+    if (event.kind === 'reset') {
+      hud.broadcastFeed(`The ${flag} returned to base`);
+      return;
+    }
+    const name = this.ctx.nameOf(event.playerId);
+    if (event.kind === 'taken') {
+      hud.broadcastToast('info', `${name} has the ${flag}`);
+      hud.broadcastFeed(`${name} took the ${flag}`);
+    } else if (event.kind === 'returned') {
+      hud.broadcastFeed(`${name} returned the ${flag}`);
+    } else {
+      hud.broadcastToast('good', `${name} captured the ${flag}`);
+      hud.broadcastFeed(`${name} captured the ${flag} for ${TEAM_NAMES[event.teamId]}`);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * World markers for CTF flags: a team-coloured glowing pole per flag that sits on its base, lies where it
+ * was dropped, or rides above its carrier's head. Cosmetic only (no colliders).
+ */
+
+import type { World } from 'hytopia';
+import { Entity, RigidBodyType } from 'hytopia';
+import type { FlagState } from '../../state/ctfState.js';
+
+const POLE_HALF_EXTENTS = { x: 0.15, y: 1.2, z: 0.15 };
+/** Carried flags float above the carrier so teammates can spot them across the arena. */
+const CARRIED_OFFSET_Y = 2;
+/** Matches the .hud-team-N colours in hud.css. */
+const TEAM_COLORS = [
+  { r: 255, g: 90, b: 74 },
+  { r: 74, g: 157, b: 255 },
+  { r: 74, g: 214, b: 109 },
+  { r: 255, g: 200, b: 61 },
+];
+
+export class FlagMarker {
+  private readonly poles = new Map<number, Entity>();
+
+  constructor(private readonly world: World) {}
+
+  /** Spawn or move a pole for every flag; `flags` positions are at floor level (standing height for carried). */
+  sync(flags: FlagState[]): void {
+    for (const flag of flags) {
+      const y = flag.position.y + POLE_HALF_EXTENTS.y + (flag.status === 'carried' ? CARRIED_OFFSET_Y : 0);
+      const position = { x: flag.position.x, y, z: flag.position.z };
+      const existing = this.poles.get(flag.teamId);
+      if (existing?.isSpawned) {
+        existing.setPosition(position);
+        continue;
+      }
+      const pole = new Entity({
+        name: 'CtfFlag',
+        isEnvironmental: true,
+        blockTextureUri: 'blocks/sand.png',
+        blockHalfExtents: POLE_HALF_EXTENTS,
+        emissiveColor: TEAM_COLORS[flag.teamId],
+        emissiveIntensity: 2,
+        tintColor: TEAM_COLORS[flag.teamId],
+        rigidBodyOptions: { type: RigidBodyType.KINEMATIC_POSITION, colliders: [] },
+      });
+      pole.spawn(this.world, position);
+      this.poles.set(flag.teamId, pole);
+    }
+  }
+
+  hide(): void {
+    for (const pole of this.poles.values()) {
+      if (pole.isSpawned) pole.despawn();
+    }
+    this.poles.clear();
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * CTF flag bases from the round's spec: each team's flag stands at the centre of the first spawn zone it
+ * owns (see teamSpawnZones), so a team defends the pad it spawns on.
+ */
+
+import type { MapSpec } from '../../procgen/spec.js';
+import { teamSpawnZones, type TeamId } from '../../state/teamState.js';
+
+/** Flag base in world space (arena centre = origin). */
+export type FlagBase = { teamId: TeamId; x: number; z: number };
+
+export function buildFlagBases(spec: MapSpec, teamCount: number): FlagBase[] {
+  const bases: FlagBase[] = [];
+  for (let team = 0; team < teamCount; team++) {
+    const zoneId = teamSpawnZones(team as TeamId, teamCount)[0];
+    const zone = spec.spawnZones.find((z) => z.teamId === zoneId);
+    if (!zone) continue;
+    bases.push({
+      teamId: team as TeamId,
+      x: zone.rect.x + zone.rect.w / 2 - spec.center.x,
+      z: zone.rect.y + zone.rect.h / 2 - spec.center.y,
+    });
+  }
+  return bases;
+}
@@ -0,0 +1,51 @@
+/**
+ * World marker for the active KOTH hill: a glowing beacon column at the hill centre, visible across the
+ * arena, plus a light on the floor. Cosmetic only (no colliders).
+ */
+
+import type { World } from 'hytopia';
+import { Entity, Light, LightType, RigidBodyType } from 'hytopia';
+import type { HillZone } from './hills.js';
+
+const BEACON_HALF_EXTENTS = { x: 0.25, y: 8, z: 0.25 };
+const BEACON_COLOR = { r: 255, g: 200, b: 40 };
+
+export class HillMarker {
+  private beacon: Entity | null = null;
+  private light: Light | null = null;
+
+  constructor(private readonly world: World) {}
+
+  /** Move the marker to `hill`; `groundY` is the floor top at its centre. */
+  show(hill: HillZone, groundY: number): void {
+    this.hide();
+    const beacon = new Entity({
+      name: 'HillBeacon',
+      isEnvironmental: true,
+      blockTextureUri: 'blocks/sand.png',
+      blockHalfExtents: BEACON_HALF_EXTENTS,
+      emissiveColor: BEACON_COLOR,
+      emissiveIntensity: 2,
+      rigidBodyOptions: { type: RigidBodyType.FIXED, colliders: [] },
+    });
+    beacon.spawn(this.world, { x: hill.x, y: groundY + BEACON_HALF_EXTENTS.y, z: hill.z });
+    this.beacon = beacon;
+
+    const light = new Light({
+      type: LightType.POINTLIGHT,
+      color: BEACON_COLOR,
+      intensity: 6,
+      distance: hill.radius * 2,
+      position: { x: hill.x, y: groundY + 2, z: hill.z },
+    });
+    light.spawn(this.world);
+    this.light = light;
+  }
+
+  hide(): void {
+    if (this.beacon?.isSpawned) this.beacon.despawn();
+    if (this.light?.isSpawned) this.light.despawn();
+    this.beacon = null;
+    this.light = null;
+  }
+}
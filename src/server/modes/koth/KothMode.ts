@@ -0,0 +1,114 @@
+/**
+ * King of the Hill: a lone live player on the current hill earns a point per koth.pointIntervalMs; the hill
+ * rotates through the round's zones. Kills score nothing; the first to koth.scoreToWin wins.
+ */
+
+import type { GameModeDefinition, ModeContext, ModeWin } from '../types.js';
+import type { HudMessage } from '../../schema/hudMessages.js';
+import { BOT_DEFAULT_COUNT, type BotObjective } from '../../systems/bots/types.js';
+import { INITIAL_KOTH_STATE, currentHill, startKoth, tickKoth } from '../../state/kothState.js';
+import { isInsideZone } from '../objectiveZone.js';
+import { buildHillZones } from './hills.js';
+import { HillMarker } from './HillMarker.js';
+
+export class KothMode implements GameModeDefinition {
+  readonly id = 'koth';
+  readonly endsOnTimer = true;
+  readonly spawnsObjective = false;
+  readonly scoresKills = false;
+  readonly bots = { count: () => BOT_DEFAULT_COUNT, fight: false, objective: () => this.botObjective() };
+  private readonly hillMarker: HillMarker;
+
+  constructor(private readonly ctx: ModeContext) {
+    this.hillMarker = new HillMarker(ctx.world);
+  }
+
+  onRoundStart(nowMs: number): void {
+    const { worldState } = this.ctx;
+    const spec = worldState.mapSpec;
+    const hills = spec ? buildHillZones(spec, worldState.usedSeed) : [];
+    startKoth(worldState.kothState, hills, nowMs, worldState.matchConfig.koth.hillDurationMs);
+    this.showCurrentHill();
+  }
+
+  onTick(nowMs: number, deltaMs: number): void {
+    const { worldState, hud } = this.ctx;
+    const koth = worldState.kothState;
+    if (koth.status !== 'RUNNING') return;
+    const config = worldState.matchConfig.koth;
+
+    const hill = currentHill(koth);
+    const occupants = this.ctx
+      .liveCombatantPositions()
+      .filter((c) => isInsideZone(hill, c.position))
+      .map((c) => c.playerId);
+    const result = tickKoth(koth, occupants, deltaMs, nowMs, config);
+
+    if (result.moved) {
+      this.showCurrentHill();
+      hud.broadcastToast('info', 'The hill moved');
+      hud.broadcastFeed(`Hill ${koth.hillIndex + 1}/${koth.hills.length} is open`);
+    } else if (result.changed) {
+      if (koth.contested) hud.broadcastFeed('The hill is contested');
+      else if (koth.holderId) hud.broadcastFeed(`${this.ctx.nameOf(koth.holderId)} holds the hill`);
+    }
+
+    if (result.points > 0 && koth.holderId) {
+      this.ctx.scoreService.addPoint(koth.holderId, this.ctx.nameOf(koth.holderId), result.points, 'objective');
+    }
+    if (result.changed || result.points > 0) hud.broadcastHud();
+  }
+
+  onRoundEnd(): void {
+    if (this.ctx.worldState.kothState.status === 'RUNNING') this.ctx.worldState.kothState.status = 'ENDED';
+    this.hillMarker.hide();
+  }
+
+  clear(): void {
+    this.ctx.worldState.kothState = { ...INITIAL_KOTH_STATE };
+    this.hillMarker.hide();
+  }
+
+  checkWin(): ModeWin | null {
+    const playerId = this.ctx.scoreService.playerReaching(this.ctx.worldState.matchConfig.koth.scoreToWin);
+    return playerId ? { playerId } : null;
+  }
+
+  contributeHud(msg: HudMessage): void {
+    const koth = this.ctx.worldState.kothState;
+    const hill = currentHill(koth);
+    if (hill) {
+      msg.hill = {
+        x: hill.x,
+        z: hill.z,
+        radius: hill.radius,
+        index: koth.hillIndex,
+        count: koth.hills.length,
+        contested: koth.contested,
+        ...(koth.holderId != null && { holderName: this.ctx.nameOf(koth.holderId) }),
+        ...(koth.hills.length > 1 && { movesAtMs: koth.hillMovesAtMs }),
+      };
+    }
+    msg.scoreToWin = this.ctx.worldState.matchConfig.koth.scoreToWin;
+  }
+
+  leaderboardScore(playerId: string): number {
+    return this.ctx.worldState.score.scoresByPlayerId[playerId]?.score ?? 0;
+  }
+
+  /** Bots make for the current hill and sit on it, contesting whoever holds it. */
+  private botObjective(): BotObjective | null {
+    const hill = currentHill(this.ctx.worldState.kothState);
+    return hill ? { kind: 'zone', x: hill.x, z: hill.z, radius: hill.radius } : null;
+  }
+
+  /** Beacon on the current hill, standing on the floor under its centre. */
+  private showCurrentHill(): void {
+    const hill = currentHill(this.ctx.worldState.kothState);
+    if (!hill) {
+      this.hillMarker.hide();
+      return;
+    }
+    this.hillMarker.show(hill, this.ctx.groundYAt(hill.x, hill.z));
+  }
+}
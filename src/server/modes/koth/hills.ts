@@ -0,0 +1,81 @@
+/**
+ * King of the Hill zones from the round's procgen spec. The hill opens on the objective, then visits one
+ * seeded point rotated through all four quarters so every spawn gets a nearby hill once per cycle
+ * (asymmetric layouts get a separately placed point per quarter).
+ * No Math.random; uses Rng(usedSeed + ':koth').
+ */
+
+import type { MapSpec, Vec2 } from '../../procgen/spec.js';
+import { bakeGridFromSpec, type BakedGrid } from '../../procgen/gridBake.js';
+import { isHazardCell } from '../../procgen/hazards.js';
+import { canReach } from '../../procgen/validateConnectivity.js';
+import { clamp, polar, rotateQuarter } from '../../procgen/generators/shared.js';
+import { Rng } from '../../../shared/rng/Rng.js';
+
+/** Hill in world space (arena centre = origin). */
+export type HillZone = { x: number; z: number; radius: number };
+
+const MIN_HILL_RADIUS = 5;
+const MAX_HILL_RADIUS = 8;
+/** Share of a hill's disk that must be open floor (not wall, lava or void). */
+const MIN_OPEN_FRACTION = 0.6;
+const PLACEMENT_TRIES = 60;
+
+function openFraction(g: BakedGrid, p: Vec2, radius: number): number {
+  const ox = g.originX ?? 0;
+  const oy = g.originY ?? 0;
+  let open = 0;
+  let total = 0;
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if (dx * dx + dy * dy > radius * radius) continue;
+      total++;
+      const lx = Math.round(p.x) + dx - ox;
+      const ly = Math.round(p.y) + dy - oy;
+      if (lx < 0 || ly < 0 || lx >= g.size || ly >= g.size) continue;
+      const i = ly * g.size + lx;
+      if (g.blocked[i] === 0 && !isHazardCell(g.hazards, i)) open++;
+    }
+  }
+  return total > 0 ? open / total : 0;
+}
+
+/** Hill rotation for a round: objective first, then the seeded point in each quarter (deterministic). */
+export function buildHillZones(spec: MapSpec, usedSeed: string): HillZone[] {
+  const radius = clamp(spec.objective.radius, MIN_HILL_RADIUS, MAX_HILL_RADIUS);
+  const toWorld = (p: Vec2): HillZone => ({ x: p.x - spec.center.x, z: p.y - spec.center.y, radius });
+  const hills = [toWorld(spec.objective.center)];
+
+  const g = bakeGridFromSpec(spec, 1);
+  const rng = new Rng(`${usedSeed}:koth`);
+  // Hand-authored maps declare their playable band; procgen keeps clear of the objective and the perimeter
+  const minR = spec.shardRegion ? spec.shardRegion.minRadius : spec.objective.radius + radius + 6;
+  const maxR = spec.shardRegion ? spec.shardRegion.maxRadius : spec.ringRadii[0] * 0.65;
+  if (maxR <= minR) return hills;
+
+  const fits = (c: Vec2) =>
+    openFraction(g, c, 0) === 1 &&
+    openFraction(g, c, radius) >= MIN_OPEN_FRACTION &&
+    canReach(spec, spec.objective.center, c, g);
+  const sample = (minDeg: number) => {
+    const p = polar(spec.center, rng.int(Math.ceil(minR), Math.floor(maxR)), minDeg + rng.int(0, 89));
+    return { x: Math.round(p.x), y: Math.round(p.y) };
+  };
+
+  for (let i = 0; i < PLACEMENT_TRIES; i++) {
+    const p = sample(0);
+    const quarters = [0, 1, 2, 3].map((q) => rotateQuarter(spec.center, p, q));
+    if (quarters.every(fits)) return [...hills, ...quarters.map(toWorld)];
+  }
+
+  // Layouts without rotational symmetry (caves): still one hill per quarter, each placed on its own
+  for (let q = 0; q < 4; q++) {
+    for (let i = 0; i < PLACEMENT_TRIES; i++) {
+      const c = sample(q * 90);
+      if (!fits(c)) continue;
+      hills.push(toWorld(c));
+      break;
+    }
+  }
+  return hills;
+}
@@ -1,18 +1,27 @@
 /**
  * Objective zone check using mapSpec.objective (deterministic).
- * Spec uses 2D plane: center.x = world X, center.y = world Z.
+ * Spec uses 2D plane: center.x = world X, center.y = world Z, offset by spec.center (arena centre = world origin).
  */
 
-import type { MapSpecV1 } from '../procgen/spec.js';
+import type { MapSpec } from '../procgen/spec.js';
 
 export function isInsideObjective(
-  mapSpec: MapSpecV1 | null,
+  mapSpec: MapSpec | null,
   playerPos: { x: number; y: number; z: number }
 ): boolean {
   if (!mapSpec) return false;
   const obj = mapSpec.objective;
-  const dx = playerPos.x - obj.center.x;
-  const dz = playerPos.z - obj.center.y;
-  const distSq = dx * dx + dz * dz;
-  return distSq <= obj.radius * obj.radius;
+  const zone = { x: obj.center.x - mapSpec.center.x, z: obj.center.y - mapSpec.center.y, radius: obj.radius };
+  return isInsideZone(zone, playerPos);
+}
+
+/** Same check against a world-space circle (e.g. a KOTH hill). */
+export function isInsideZone(
+  zone: { x: number; z: number; radius: number } | null,
+  playerPos: { x: number; y: number; z: number }
+): boolean {
+  if (!zone) return false;
+  const dx = playerPos.x - zone.x;
+  const dz = playerPos.z - zone.z;
+  return dx * dx + dz * dz <= zone.radius * zone.radius;
 }
@@ -0,0 +1,29 @@
+/**
+ * Registered game modes by id. RoundController registers the built-in modes in its constructor; a new mode
+ * is one GameModeDefinition plus a register call there (and its id in GameMode / GAME_MODES).
+ */
+
+import type { GameMode, GameModeDefinition } from './types.js';
+
+export class ModeRegistry {
+  private readonly modes = new Map<GameMode, GameModeDefinition>();
+
+  register(def: GameModeDefinition): void {
+    if (this.modes.has(def.id)) throw new Error(`mode "${def.id}" is already registered`);
+    this.modes.set(def.id, def);
+  }
+
+  has(id: string): id is GameMode {
+    return this.modes.has(id as GameMode);
+  }
+
+  get(id: GameMode): GameModeDefinition {
+    const def = this.modes.get(id);
+    if (!def) throw new Error(`mode "${id}" is not registered`);
+    return def;
+  }
+
+  all(): GameModeDefinition[] {
+    return [...this.modes.values()];
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Shard race (MULTI / SOLO): collect rules.targetShards shards. Arena v1 plays it as a timed match where a full
+ * set scores a point; otherwise the first full set wins the round.
+ */
+
+import type { GameModeDefinition, ModeContext, ModeWin } from '../types.js';
+import type { PlayerState } from '../../state/types.js';
+import { ARENA_V1_TIMED_MATCH_ONLY } from '../../config/arenaMode.js';
+import { BOT_DEFAULT_COUNT } from '../../systems/bots/types.js';
+
+export class ShardRaceMode implements GameModeDefinition {
+  readonly endsOnTimer = true;
+  readonly spawnsObjective = true;
+  readonly scoresKills = true;
+  readonly bots = { count: () => BOT_DEFAULT_COUNT, fight: false };
+
+  constructor(
+    readonly id: 'MULTI' | 'SOLO',
+    private readonly ctx: ModeContext
+  ) {}
+
+  onRoundStart(): void {}
+
+  onShardCollected(playerId: string): void {
+    if (!ARENA_V1_TIMED_MATCH_ONLY) return;
+    const p = this.ctx.worldState.getPlayer(playerId);
+    if (!p || p.shards < this.ctx.worldState.matchConfig.rules.targetShards) return;
+    const name = this.ctx.nameOf(playerId);
+    this.ctx.scoreService.addPoint(playerId, name, 1, 'objective');
+    this.ctx.hud.broadcastToast('good', `${name} collected all shards! +1`);
+    this.ctx.hud.broadcastFeed(`${name} completed the objective`);
+    this.ctx.hud.broadcastHud();
+  }
+
+  checkWin(): ModeWin | null {
+    if (ARENA_V1_TIMED_MATCH_ONLY) return null;
+    const target = this.ctx.worldState.matchConfig.rules.targetShards;
+    for (const [playerId, p] of this.ctx.worldState.players) {
+      if (p.shards >= target) return { playerId };
+    }
+    return null;
+  }
+
+  leaderboardScore(_playerId: string, p: PlayerState | undefined): number {
+    return p?.shards ?? 0;
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Survival enemies: spawns the WaveDirector's spawn plan as goblin entities, walks them along flow fields
+ * (toward a live player inside their aggro radius, otherwise onto the objective) and melees players through
+ * onAttack. Enemy health lives here, not in WorldState.players, so enemies stay off the leaderboard.
+ */
+
+import type { World } from 'hytopia';
+import { Collider, Entity, EntityModelAnimationLoopMode, PlayerManager, RigidBodyType } from 'hytopia';
+import type { WorldState } from '../../state/WorldState.js';
+import type { MapSpec, Vec2 } from '../../procgen/spec.js';
+import { bakeGridFromSpec, type BakedGrid } from '../../procgen/gridBake.js';
+import { buildFlowField, floorHeightOnGrid, nextWaypoint, type FlowField } from './flowField.js';
+import { ENEMY_ARCHETYPES, enemyHealthForWave, type EnemyArchetype } from './enemyArchetypes.js';
+import type { EnemySpawn } from './WaveDirector.js';
+
+const ENEMY_MODEL_URI = 'models/goblin-shaman.gltf';
+const ENEMY_ANIM_IDLE = 'animation.goblin_shaman.idle';
+const ENEMY_ANIM_WALK = 'animation.goblin_shaman.walk';
+/** Players move, so their field is rebuilt on this cadence rather than every tick. */
+const PLAYER_FIELD_REFRESH_MS = 500;
+/** Entity origin sits this far above the floor top (same as bots). */
+const BODY_OFFSET_Y = 1;
+/** Once the field runs out (same cell as the target), close in directly to this fraction of attack range. */
+const CLOSE_IN_FRACTION = 0.8;
+
+export interface EnemySystemOptions {
+  /** Enemy lands a hit on a player; route through CombatService.damage. */
+  onAttack: (enemyId: string, playerId: string, damage: number) => void;
+  /** Enemy health reached 0 (already despawned). `killerId` is absent for /killenemy. */
+  onKilled: (enemyId: string, archetype: EnemyArchetype, killerId?: string) => void;
+}
+
+interface Enemy {
+  id: string;
+  archetype: EnemyArchetype;
+  health: number;
+  maxHealth: number;
+  position: { x: number; y: number; z: number };
+  lastAttackAtMs: number;
+  entity: Entity;
+  moving: boolean;
+}
+
+export class EnemySystem {
+  private readonly enemies = new Map<string, Enemy>();
+  private grid: BakedGrid | null = null;
+  private spec: MapSpec | null = null;
+  private objectiveField: FlowField | null = null;
+  private playerField: FlowField | null = null;
+  private playerFieldBuiltAtMs = 0;
+  private nextEnemyIndex = 0;
+
+  constructor(
+    private readonly world: World,
+    private readonly worldState: WorldState,
+    private readonly options: EnemySystemOptions
+  ) {}
+
+  /** Round start (survival): drop last round's enemies and bake this arena's grid and objective field. */
+  resetForRound(spec: MapSpec | null): void {
+    this.clear();
+    this.spec = spec;
+    this.grid = spec ? bakeGridFromSpec(spec, 1) : null;
+    this.objectiveField = this.grid && spec ? buildFlowField(this.grid, [spec.objective.center]) : null;
+    this.playerField = null;
+    this.playerFieldBuiltAtMs = 0;
+    this.nextEnemyIndex = 0;
+  }
+
+  /** Despawn every enemy (round end or a non-survival round). */
+  clear(): void {
+    for (const enemy of this.enemies.values()) {
+      if (enemy.entity.isSpawned) enemy.entity.despawn();
+    }
+    this.enemies.clear();
+  }
+
+  spawnWave(wave: number, spawns: EnemySpawn[]): void {
+    for (const spawn of spawns) {
+      const archetype = ENEMY_ARCHETYPES[spawn.kind];
+      const id = `enemy-${this.worldState.roundState.roundId}-${this.nextEnemyIndex++}`;
+      const health = enemyHealthForWave(archetype, wave);
+      const position = { x: spawn.x, y: this.groundY(spawn.x, spawn.z), z: spawn.z };
+      const entity = new Entity({
+        name: archetype.name,
+        isEnvironmental: false,
+        modelUri: ENEMY_MODEL_URI,
+        modelScale: archetype.modelScale,
+        tintColor: archetype.tint,
+        modelAnimations: [
+          { name: ENEMY_ANIM_IDLE, loopMode: EntityModelAnimationLoopMode.LOOP, play: true },
+          { name: ENEMY_ANIM_WALK, loopMode: EntityModelAnimationLoopMode.LOOP, play: false },
+        ],
+        rigidBodyOptions: {
+          type: RigidBodyType.KINEMATIC_POSITION,
+          colliders: [Collider.optionsFromModelUri(ENEMY_MODEL_URI, archetype.modelScale)],
+        },
+      });
+      entity.spawn(this.world, position);
+      this.enemies.set(id, {
+        id,
+        archetype,
+        health,
+        maxHealth: health,
+        position,
+        lastAttackAtMs: 0,
+        entity,
+        moving: false,
+      });
+    }
+  }
+
+  /** Move and attack; call from the survival tick. */
+  tick(nowMs: number, deltaMs: number): void {
+    if (this.enemies.size === 0 || !this.grid || !this.spec) return;
+    const targets = this.getLivePlayerTargets();
+
+    if (nowMs - this.playerFieldBuiltAtMs >= PLAYER_FIELD_REFRESH_MS) {
+      this.playerFieldBuiltAtMs = nowMs;
+      this.playerField =
+        targets.length > 0 ? buildFlowField(this.grid, targets.map((t) => this.toSpec(t.position))) : null;
+    }
+
+    for (const enemy of [...this.enemies.values()]) {
+      const a = enemy.archetype;
+      const target = this.nearestTarget(enemy, targets);
+      const dist = target ? this.horizontalDistance(enemy.position, target.position) : Infinity;
+
+      let moved = false;
+      if (target && dist <= a.aggroRadius) {
+        if (dist > a.attackRange * CLOSE_IN_FRACTION) {
+          const waypoint = this.playerField ? nextWaypoint(this.grid, this.playerField, this.toSpec(enemy.position)) : null;
+          moved = this.stepToward(enemy, waypoint ? this.toWorld(waypoint) : target.position, deltaMs);
+        }
+        if (dist <= a.attackRange && nowMs - enemy.lastAttackAtMs >= a.attackCooldownMs) {
+          enemy.lastAttackAtMs = nowMs;
+          this.options.onAttack(enemy.id, target.playerId, a.damage);
+          // The hit may have ended the run (survival death), which clears the enemies
+          if (!this.enemies.has(enemy.id)) return;
+        }
+      } else if (this.objectiveField) {
+        const waypoint = nextWaypoint(this.grid, this.objectiveField, this.toSpec(enemy.position));
+        if (waypoint) moved = this.stepToward(enemy, this.toWorld(waypoint), deltaMs);
+      }
+
+      if (enemy.entity.isSpawned) {
+        enemy.entity.setPosition(enemy.position);
+        if (moved !== enemy.moving) {
+          enemy.moving = moved;
+          const idle = enemy.entity.getModelAnimation(ENEMY_ANIM_IDLE);
+          const walk = enemy.entity.getModelAnimation(ENEMY_ANIM_WALK);
+          if (moved) {
+            walk?.play();
+            idle?.pause();
+          } else {
+            idle?.play();
+            walk?.pause();
+          }
+        }
+      }
+    }
+  }
+
+  isEnemy(id: string): boolean {
+    return this.enemies.has(id);
+  }
+
+  getEnemyPositions(): Array<{ enemyId: string; position: { x: number; y: number; z: number } }> {
+    return [...this.enemies.values()].map((e) => ({ enemyId: e.id, position: { ...e.position } }));
+  }
+
+  getEnemyPosition(id: string): { x: number; y: number; z: number } | undefined {
+    const enemy = this.enemies.get(id);
+    return enemy ? { ...enemy.position } : undefined;
+  }
+
+  getEnemyName(id: string): string | undefined {
+    return this.enemies.get(id)?.archetype.name;
+  }
+
+  /** Apply damage; on 0 health the enemy despawns and onKilled fires. Returns whether it died. */
+  damage(id: string, amount: number, attackerId?: string): boolean {
+    const enemy = this.enemies.get(id);
+    if (!enemy) return false;
+    enemy.health = Math.max(0, enemy.health - amount);
+    if (enemy.health > 0) return false;
+
+    if (enemy.entity.isSpawned) enemy.entity.despawn();
+    this.enemies.delete(id);
+    this.options.onKilled(id, enemy.archetype, attackerId);
+    return true;
+  }
+
+  /** Dev /killenemy: kill an arbitrary live enemy. Returns false when none are alive. */
+  killOne(): boolean {
+    const first = this.enemies.values().next();
+    if (first.done) return false;
+    return this.damage(first.value.id, first.value.health);
+  }
+
+  /** Move up to speed·dt toward `goal` (x/z), snapping y to the floor. Returns whether it moved. */
+  private stepToward(enemy: Enemy, goal: { x: number; z: number }, deltaMs: number): boolean {
+    const dx = goal.x - enemy.position.x;
+    const dz = goal.z - enemy.position.z;
+    const len = Math.sqrt(dx * dx + dz * dz);
+    if (len < 0.01) return false;
+    const step = Math.min(len, (enemy.archetype.speed * deltaMs) / 1000);
+    enemy.position.x += (dx / len) * step;
+    enemy.position.z += (dz / len) * step;
+    enemy.position.y = this.groundY(enemy.position.x, enemy.position.z);
+    return true;
+  }
+
+  private groundY(x: number, z: number): number {
+    const h = this.grid ? floorHeightOnGrid(this.grid, this.toSpec({ x, z })) : 0;
+    return h + 1 + BODY_OFFSET_Y;
+  }
+
+  /** Connected players with a spawned entity and health left. */
+  private getLivePlayerTargets(): Array<{ playerId: string; position: { x: number; y: number; z: number } }> {
+    const out: Array<{ playerId: string; position: { x: number; y: number; z: number } }> = [];
+    for (const player of PlayerManager.instance.getConnectedPlayersByWorld(this.world)) {
+      const entity = this.world.entityManager.getPlayerEntitiesByPlayer(player)[0];
+      if (!entity?.isSpawned) continue;
+      if ((this.worldState.getPlayer(player.id)?.health ?? 0) <= 0) continue;
+      const p = entity.position;
+      out.push({ playerId: player.id, position: { x: p.x, y: p.y, z: p.z } });
+    }
+    return out;
+  }
+
+  private nearestTarget(
+    enemy: Enemy,
+    targets: Array<{ playerId: string; position: { x: number; y: number; z: number } }>
+  ): { playerId: string; position: { x: number; y: number; z: number } } | null {
+    let best: { playerId: string; position: { x: number; y: number; z: number } } | null = null;
+    let bestDist = Infinity;
+    for (const t of targets) {
+      const d = this.horizontalDistance(enemy.position, t.position);
+      if (d < bestDist) {
+        best = t;
+        bestDist = d;
+      }
+    }
+    return best;
+  }
+
+  private horizontalDistance(a: { x: number; z: number }, b: { x: number; z: number }): number {
+    const dx = a.x - b.x;
+    const dz = a.z - b.z;
+    return Math.sqrt(dx * dx + dz * dz);
+  }
+
+  private toSpec(p: { x: number; z: number }): Vec2 {
+    const c = this.spec?.center ?? { x: 0, y: 0 };
+    return { x: p.x + c.x, y: p.z + c.y };
+  }
+
+  private toWorld(p: Vec2): { x: number; z: number } {
+    const c = this.spec?.center ?? { x: 0, y: 0 };
+    return { x: p.x - c.x, z: p.y - c.y };
+  }
+}
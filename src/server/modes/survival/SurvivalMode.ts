@@ -0,0 +1,232 @@
+/**
+ * Co-op survival: survivors hold out against WaveDirector's waves until survival.winWaves or
+ * survival.winSeconds. A KO downs a survivor until a teammate revives them; the run is lost when everyone is
+ * down. Ends on its own (not the round timer) and waits for /restart.
+ */
+
+import { PlayerManager } from 'hytopia';
+import type { GameModeDefinition, MatchConfig, ModeContext, ModeKo } from '../types.js';
+import type { HudMessage, HudScoreEntry } from '../../schema/hudMessages.js';
+import { SPAWN_PROTECTION_MS } from '../../config/combat.js';
+import {
+  INITIAL_SURVIVAL_STATE,
+  allDown,
+  computeScore,
+  creditKill,
+  downSurvivor,
+  endSurvival,
+  joinSurvival,
+  leaveSurvival,
+  partySize,
+  startSurvival,
+  tickRevives,
+} from '../../state/survivalState.js';
+import { isInsideObjective } from '../objectiveZone.js';
+import { WaveDirector } from './WaveDirector.js';
+
+type Vec3 = { x: number; y: number; z: number };
+
+export class SurvivalMode implements GameModeDefinition {
+  readonly id = 'survival';
+  readonly endsOnTimer = false;
+  readonly spawnsObjective = true;
+  readonly scoresKills = true;
+  private waveDirector: WaveDirector | null = null;
+  private lastHeartbeatSec = 0;
+
+  constructor(private readonly ctx: ModeContext) {}
+
+  matchDurationMs(config: MatchConfig): number {
+    return config.survival.winSeconds * 1000;
+  }
+
+  onRoundStart(nowMs: number): void {
+    const { worldState, enemySystem } = this.ctx;
+    const survivors = PlayerManager.instance
+      .getConnectedPlayersByWorld(this.ctx.world)
+      .map((p) => ({ id: p.id, name: this.ctx.nameOf(p.id) }));
+    startSurvival(worldState.survivalState, nowMs, survivors);
+    enemySystem?.resetForRound(worldState.mapSpec);
+    this.lastHeartbeatSec = 0;
+    this.waveDirector = new WaveDirector(
+      worldState.mapSpec,
+      worldState.usedSeed,
+      worldState.matchConfig.survival.interWaveDelayMs,
+      () => this.onWaveCleared(),
+      (wave) => this.onWaveStart(wave),
+      (wave, spawns) => enemySystem?.spawnWave(wave, spawns)
+    );
+    this.waveDirector.setPartySize(survivors.length);
+    this.waveDirector.start(nowMs);
+  }
+
+  onTick(nowMs: number, deltaMs: number): void {
+    const surv = this.ctx.worldState.survivalState;
+    const config = this.ctx.worldState.matchConfig.survival;
+    if (surv.status !== 'RUNNING') return;
+    surv.elapsedMs = nowMs - surv.startedAtMs;
+    surv.lastTickMs = nowMs;
+
+    this.tickSurvivors(deltaMs);
+    if (surv.status !== 'RUNNING') return;
+
+    this.waveDirector?.setPartySize(partySize(surv));
+    this.waveDirector?.update(nowMs);
+    this.ctx.enemySystem?.tick(nowMs, deltaMs);
+    if (surv.status !== 'RUNNING') return;
+    surv.wave = this.waveDirector?.currentWave ?? surv.wave;
+    surv.enemiesRemaining = this.waveDirector?.liveEnemies ?? 0;
+
+    const winByWaves = surv.wave >= config.winWaves;
+    const winByTime = surv.elapsedMs >= config.winSeconds * 1000;
+    if (winByWaves || winByTime) {
+      this.endRun(true);
+      return;
+    }
+
+    const sec = Math.floor(surv.elapsedMs / 1000);
+    if (sec > this.lastHeartbeatSec) {
+      this.lastHeartbeatSec = sec;
+      this.ctx.hud.broadcastHud();
+    }
+  }
+
+  clear(): void {
+    this.waveDirector = null;
+    this.ctx.enemySystem?.clear();
+    this.ctx.worldState.survivalState = { ...INITIAL_SURVIVAL_STATE, survivors: {} };
+  }
+
+  /** The victim goes down until revived (no respawn timer); the run ends when everyone is down. */
+  onPlayerKO(ko: ModeKo): 'downed' {
+    const surv = this.ctx.worldState.survivalState;
+    if (surv.status !== 'RUNNING') return 'downed';
+    downSurvivor(surv, ko.victimId);
+    if (allDown(surv)) {
+      this.endRun(false);
+      return 'downed';
+    }
+    const name = this.ctx.nameOf(ko.victimId);
+    this.ctx.hud.broadcastToast('bad', `${name} is down. Stand close to revive them`);
+    this.ctx.hud.broadcastFeed(`${name} is down`);
+    this.ctx.hud.broadcastHud();
+    return 'downed';
+  }
+
+  /** Call when an enemy dies (EnemySystem.onKilled). Credits the kill and counts it toward the wave. */
+  onEnemyDeath(killerId?: string): void {
+    creditKill(this.ctx.worldState.survivalState, killerId);
+    this.waveDirector?.onEnemyDeath();
+  }
+
+  contributeHud(msg: HudMessage, playerId: string): void {
+    const surv = this.ctx.worldState.survivalState;
+    msg.timerMs = surv.status === 'RUNNING' ? surv.elapsedMs : 0;
+    msg.score = surv.status === 'ENDED' ? surv.score : computeScore(surv).total;
+    msg.wave = surv.wave;
+    msg.enemiesRemaining = surv.enemiesRemaining;
+    const me = surv.survivors[playerId];
+    if (me?.downed) {
+      msg.downed = true;
+      msg.reviveProgressPercent = Math.min(
+        100,
+        Math.floor((me.reviveMs / this.ctx.worldState.matchConfig.survival.reviveMs) * 100)
+      );
+    }
+  }
+
+  /** Each survivor's own points. */
+  leaderboardScore(playerId: string): number {
+    return computeScore(this.ctx.worldState.survivalState).byPlayerId[playerId]?.points ?? 0;
+  }
+
+  leaderboardExtras(playerId: string): Partial<HudScoreEntry> {
+    return this.ctx.worldState.survivalState.survivors[playerId]?.downed ? { downed: true } : {};
+  }
+
+  private onWaveCleared(): void {
+    const surv = this.ctx.worldState.survivalState;
+    surv.wave = this.waveDirector?.currentWave ?? surv.wave;
+    this.ctx.hud.broadcastToast('good', `Wave ${surv.wave} cleared`);
+    this.ctx.hud.broadcastFeed(`Wave ${surv.wave} cleared`);
+    this.ctx.hud.broadcastHud();
+  }
+
+  private onWaveStart(wave: number): void {
+    this.ctx.worldState.survivalState.wave = wave;
+    this.ctx.hud.broadcastToast('info', `Wave ${wave}`);
+    this.ctx.hud.broadcastHud();
+  }
+
+  /**
+   * 10hz: follow joins and leaves, bank each standing survivor's objective time (the shared objective time
+   * counts while anyone is inside) and progress revives. Ends the run if nobody is left up.
+   */
+  private tickSurvivors(deltaMs: number): void {
+    const surv = this.ctx.worldState.survivalState;
+    const connected = PlayerManager.instance.getConnectedPlayersByWorld(this.ctx.world);
+    const connectedIds = new Set(connected.map((p) => p.id));
+    for (const p of connected) {
+      if (!surv.survivors[p.id]?.connected) joinSurvival(surv, p.id, this.ctx.nameOf(p.id));
+    }
+    for (const [id, s] of Object.entries(surv.survivors)) {
+      if (s.connected && !connectedIds.has(id)) leaveSurvival(surv, id);
+    }
+
+    const positions: Record<string, Vec3> = {};
+    for (const { playerId, position } of this.ctx.playerPositions()) positions[playerId] = position;
+
+    let anyInside = false;
+    for (const [id, s] of Object.entries(surv.survivors)) {
+      if (s.downed || !positions[id] || !isInsideObjective(this.ctx.worldState.mapSpec, positions[id])) continue;
+      s.inObjectiveMs += deltaMs;
+      anyInside = true;
+    }
+    if (anyInside) surv.inObjectiveMs += deltaMs;
+
+    for (const id of tickRevives(surv, positions, deltaMs, this.ctx.worldState.matchConfig.survival.reviveMs)) {
+      this.revive(id);
+    }
+
+    if (allDown(surv)) this.endRun(false);
+  }
+
+  /** Back up at half health with spawn protection, where they fell. */
+  private revive(playerId: string): void {
+    const ps = this.ctx.worldState.getPlayer(playerId);
+    if (ps) {
+      const max = ps.maxHealth ?? 100;
+      ps.health = Math.ceil(max / 2);
+      ps.invulnerableUntilMs = Date.now() + SPAWN_PROTECTION_MS;
+      ps.lastKillerId = undefined;
+    }
+    const name = this.ctx.nameOf(playerId);
+    this.ctx.hud.broadcastToast('good', `${name} is back up`);
+    this.ctx.hud.broadcastFeed(`${name} was revived`);
+    this.ctx.hud.broadcastHud();
+  }
+
+  private endRun(won: boolean): void {
+    const { hud } = this.ctx;
+    const surv = this.ctx.worldState.survivalState;
+    endSurvival(surv, Date.now());
+    this.waveDirector = null;
+    this.ctx.enemySystem?.clear();
+
+    const score = computeScore(surv);
+    const total = score.total;
+    hud.broadcastToast(won ? 'good' : 'bad', won ? `You win! Score: ${total}` : `Everyone is down. Score: ${total}`);
+    hud.broadcastFeed(won ? `Survival win! Score: ${total}` : `Survival ended. Score: ${total}`);
+    hud.broadcastFeed(
+      `Time ${score.time} + waves ${score.waves} + kills ${score.kills} + objective ${score.objective} + revives ${score.revives}`
+    );
+    const ranked = Object.values(score.byPlayerId).sort((a, b) => b.points - a.points);
+    if (ranked.length > 1) {
+      for (const s of ranked) {
+        hud.broadcastFeed(`${s.name}: ${s.points} (${s.kills} kills, ${s.revives} revives, ${s.objectiveSec}s on objective)`);
+      }
+    }
+    hud.broadcastHud();
+    this.ctx.finishRound();
+  }
+}
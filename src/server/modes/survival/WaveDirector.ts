@@ -1,28 +1,34 @@
 /**
- * Wave director for Solo Survival: deterministic wave count and spawn zone selection.
+ * Wave director for co-op Survival: deterministic wave size (scaled by party size), spawn zone selection and enemy mix.
  * No Math.random; uses Rng(usedSeed + ':wave:' + waveNumber).
- * When NPCs exist, they should call onEnemyDeath() when an enemy entity dies.
+ * The enemy system spawns what onSpawnWave hands it and calls onEnemyDeath() when an enemy dies.
  */
 
-import type { MapSpecV1 } from '../../procgen/spec.js';
+import type { MapSpec } from '../../procgen/spec.js';
 import { Rng } from '../../../shared/rng/Rng.js';
+import { pickEnemyKind, type EnemyKind } from './enemyArchetypes.js';
 
 export type WaveClearedCallback = () => void;
 export type WaveStartCallback = (wave: number) => void;
+/** One enemy to spawn, in world space (arena centre = origin). */
+export type EnemySpawn = { kind: EnemyKind; x: number; z: number };
+export type WaveSpawnCallback = (wave: number, spawns: EnemySpawn[]) => void;
 
 export class WaveDirector {
   private _currentWave = 0;
   private _liveEnemies = 0;
   private _nextWaveAtMs = 0;
+  private _partySize = 1;
   private onWaveCleared: WaveClearedCallback;
   private onWaveStart: WaveStartCallback;
 
   constructor(
-    private readonly mapSpec: MapSpecV1 | null,
+    private readonly mapSpec: MapSpec | null,
     private readonly usedSeed: string,
     private readonly interWaveDelayMs: number,
     onWaveCleared: WaveClearedCallback,
-    onWaveStart: WaveStartCallback
+    onWaveStart: WaveStartCallback,
+    private readonly onSpawnWave: WaveSpawnCallback = () => {}
   ) {
     this.onWaveCleared = onWaveCleared;
     this.onWaveStart = onWaveStart;
@@ -40,6 +46,11 @@ export class WaveDirector {
     return this._nextWaveAtMs;
   }
 
+  /** Co-op: survivors in the world; read when the next wave spawns. */
+  setPartySize(size: number): void {
+    this._partySize = Math.max(1, size);
+  }
+
   /** Start wave 1 at nowMs. */
   start(nowMs: number): void {
     this._currentWave = 1;
@@ -65,12 +76,16 @@ export class WaveDirector {
     }
   }
 
-  /** Enemy count for wave n: wave 1 = 3, wave n = 3 + (n-1)*2. */
+  /** Enemy count for wave n: wave 1 = 3, wave n = 3 + (n-1)*2; each extra survivor adds half again. */
   private enemyCountForWave(wave: number): number {
-    return 3 + (wave - 1) * 2;
+    const solo = 3 + (wave - 1) * 2;
+    return Math.round(solo * (1 + 0.5 * (this._partySize - 1)));
   }
 
-  /** Choose 2–3 spawn zones per wave using seeded Rng. Deterministic. */
+  /**
+   * Choose 2–3 spawn zones per wave using seeded Rng, deal the enemies round-robin across them at
+   * random points inside each zone and pick each one's archetype. Deterministic.
+   */
   private spawnWave(nowMs: number): void {
     const count = this.enemyCountForWave(this._currentWave);
     this._liveEnemies = count;
@@ -78,14 +93,25 @@ export class WaveDirector {
     const seed = `${this.usedSeed}:wave:${this._currentWave}`;
     const rng = new Rng(seed);
     const numZones = rng.int(2, 3);
+    const spawns: EnemySpawn[] = [];
     if (this.mapSpec && this.mapSpec.spawnZones.length > 0) {
-      const zones = this.mapSpec.spawnZones;
+      const spec = this.mapSpec;
+      const zones = spec.spawnZones;
       const indices = new Set<number>();
       while (indices.size < Math.min(numZones, zones.length)) {
         indices.add(rng.int(0, zones.length - 1));
       }
-      // Zones selected deterministically; actual entity spawn would use these zones.
+      const chosen = [...indices].map((i) => zones[i].rect);
+      for (let i = 0; i < count; i++) {
+        const rect = chosen[i % chosen.length];
+        spawns.push({
+          kind: pickEnemyKind(this._currentWave, rng.float()),
+          x: rect.x + rng.float() * rect.w - spec.center.x,
+          z: rect.y + rng.float() * rect.h - spec.center.y,
+        });
+      }
     }
+    this.onSpawnWave(this._currentWave, spawns);
 
     this._nextWaveAtMs = nowMs + this.interWaveDelayMs;
   }
@@ -0,0 +1,90 @@
+/**
+ * Survival enemy archetypes and how waves scale them. Pure data + deterministic picks (the caller
+ * passes rolls from the wave's Rng).
+ */
+
+export type EnemyKind = 'grunt' | 'runner' | 'brute';
+
+export interface EnemyArchetype {
+  kind: EnemyKind;
+  name: string;
+  /** Health on wave 1; see enemyHealthForWave. */
+  baseHealth: number;
+  /** Movement speed in blocks per second. */
+  speed: number;
+  /** Damage per hit, dealt through CombatService.damage. */
+  damage: number;
+  attackCooldownMs: number;
+  /** Reach from the enemy's centre to the player's. */
+  attackRange: number;
+  /** Chases a player closer than this; otherwise marches on the objective. */
+  aggroRadius: number;
+  /** First wave the archetype can appear in. */
+  minWave: number;
+  /** Relative pick weight once unlocked. */
+  weight: number;
+  modelScale: number;
+  tint: { r: number; g: number; b: number };
+}
+
+export const ENEMY_ARCHETYPES: Record<EnemyKind, EnemyArchetype> = {
+  grunt: {
+    kind: 'grunt',
+    name: 'Goblin',
+    baseHealth: 40,
+    speed: 3.5,
+    damage: 10,
+    attackCooldownMs: 1000,
+    attackRange: 1.8,
+    aggroRadius: 18,
+    minWave: 1,
+    weight: 6,
+    modelScale: 1,
+    tint: { r: 255, g: 255, b: 255 },
+  },
+  runner: {
+    kind: 'runner',
+    name: 'Skulker',
+    baseHealth: 25,
+    speed: 6,
+    damage: 6,
+    attackCooldownMs: 700,
+    attackRange: 1.6,
+    aggroRadius: 28,
+    minWave: 2,
+    weight: 3,
+    modelScale: 0.75,
+    tint: { r: 140, g: 200, b: 255 },
+  },
+  brute: {
+    kind: 'brute',
+    name: 'Brute',
+    baseHealth: 120,
+    speed: 2.2,
+    damage: 25,
+    attackCooldownMs: 1600,
+    attackRange: 2.4,
+    aggroRadius: 14,
+    minWave: 4,
+    weight: 1,
+    modelScale: 1.6,
+    tint: { r: 255, g: 120, b: 110 },
+  },
+};
+
+/** +12% health per wave after the first. */
+export function enemyHealthForWave(archetype: EnemyArchetype, wave: number): number {
+  return Math.round(archetype.baseHealth * (1 + 0.12 * Math.max(0, wave - 1)));
+}
+
+/** Weighted pick among archetypes unlocked by `wave`; `roll` in [0, 1). */
+export function pickEnemyKind(wave: number, roll: number): EnemyKind {
+  const unlocked = Object.values(ENEMY_ARCHETYPES).filter((a) => wave >= a.minWave);
+  const total = unlocked.reduce((sum, a) => sum + a.weight, 0);
+  let r = roll * total;
+  for (const a of unlocked) {
+    r -= a.weight;
+    if (r < 0) return a.kind;
+  }
+  return unlocked[unlocked.length - 1].kind;
+}
@@ -0,0 +1,113 @@
+/**
+ * Flow fields for survival enemies: one reverse BFS from the goal cell(s) gives every walkable cell its
+ * step distance, so any number of enemies can path by walking downhill. Same walkability rules as
+ * connectivity (walls, lava/void, MAX_CLIMB step-ups); enemies don't use jump pads. Bots navigate on the same
+ * fields (systems/bots/BotNavigator.ts).
+ */
+
+import type { Vec2 } from '../../procgen/spec.js';
+import { toCell, type BakedGrid } from '../../procgen/gridBake.js';
+import { MAX_CLIMB } from '../../procgen/elevation.js';
+import { isHazardCell } from '../../procgen/hazards.js';
+
+/** Step distance per cell to the nearest goal; UNREACHABLE where no walkable route exists. */
+export type FlowField = Int32Array;
+
+export const UNREACHABLE = -1;
+
+const NEIGHBORS_4 = [
+  { x: 1, y: 0 }, { x: -1, y: 0 },
+  { x: 0, y: 1 }, { x: 0, y: -1 },
+];
+const NEIGHBORS_8 = [
+  ...NEIGHBORS_4,
+  { x: 1, y: 1 }, { x: 1, y: -1 },
+  { x: -1, y: 1 }, { x: -1, y: -1 },
+];
+
+export function isWalkableCell(g: BakedGrid, i: number): boolean {
+  return g.blocked[i] === 0 && !isHazardCell(g.hazards, i);
+}
+
+/** Walking from cell `from` into `to` is allowed: drops are free, step-ups up to MAX_CLIMB. */
+export function canStep(g: BakedGrid, from: number, to: number): boolean {
+  if (!g.heights) return true;
+  return g.heights[to] - g.heights[from] <= MAX_CLIMB;
+}
+
+/** Distance field toward the nearest of `goals` (spec coordinates). */
+export function buildFlowField(g: BakedGrid, goals: Vec2[]): FlowField {
+  const n = g.size;
+  const dist = new Int32Array(n * n).fill(UNREACHABLE);
+  const queue = new Int32Array(n * n);
+  let qh = 0;
+  let qt = 0;
+
+  for (const goal of goals) {
+    const c = toCell(g, goal);
+    const i = c.y * n + c.x;
+    if (dist[i] !== UNREACHABLE || !isWalkableCell(g, i)) continue;
+    dist[i] = 0;
+    queue[qt++] = i;
+  }
+
+  // Reverse search: a neighbour gets a distance when walking from it into the current cell is legal
+  while (qh < qt) {
+    const i = queue[qh++];
+    const x = i % n;
+    const y = (i - x) / n;
+    for (const d of NEIGHBORS_4) {
+      const nx = x + d.x;
+      const ny = y + d.y;
+      if (nx < 0 || ny < 0 || nx >= n || ny >= n) continue;
+      const j = ny * n + nx;
+      if (dist[j] !== UNREACHABLE || !isWalkableCell(g, j) || !canStep(g, j, i)) continue;
+      dist[j] = dist[i] + 1;
+      queue[qt++] = j;
+    }
+  }
+  return dist;
+}
+
+/**
+ * Spec-space point to walk toward from `pos`: the centre of the lowest-distance neighbour (diagonals
+ * only when both side cells are open, so enemies don't clip wall corners). Null at the goal or when
+ * `pos` is off the field.
+ */
+export function nextWaypoint(g: BakedGrid, field: FlowField, pos: Vec2): Vec2 | null {
+  const n = g.size;
+  const c = toCell(g, pos);
+  const here = field[c.y * n + c.x];
+  if (here === UNREACHABLE || here === 0) return null;
+
+  let best = -1;
+  let bestDist = here;
+  for (const d of NEIGHBORS_8) {
+    const nx = c.x + d.x;
+    const ny = c.y + d.y;
+    if (nx < 0 || ny < 0 || nx >= n || ny >= n) continue;
+    const j = ny * n + nx;
+    const dj = field[j];
+    if (dj === UNREACHABLE || dj >= bestDist) continue;
+    if (d.x !== 0 && d.y !== 0) {
+      if (field[c.y * n + nx] === UNREACHABLE || field[ny * n + c.x] === UNREACHABLE) continue;
+    }
+    best = j;
+    bestDist = dj;
+  }
+  if (best < 0) return null;
+
+  const bx = best % n;
+  const by = (best - bx) / n;
+  return {
+    x: (bx + (g.originX ?? 0) + 0.5) * g.cellSize,
+    y: (by + (g.originY ?? 0) + 0.5) * g.cellSize,
+  };
+}
+
+/** Floor height (blocks above base floor) under `pos`; 0 on flat specs. */
+export function floorHeightOnGrid(g: BakedGrid, pos: Vec2): number {
+  if (!g.heights) return 0;
+  const c = toCell(g, pos);
+  return g.heights[c.y * g.size + c.x];
+}
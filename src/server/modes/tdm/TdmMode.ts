@@ -0,0 +1,49 @@
+/**
+ * Team deathmatch: each kill scores the attacker and their team; the first team to tdm.killsToWin wins (the
+ * timer otherwise picks the leading team). Teams and team spawns are set up by RoundController.
+ */
+
+import type { GameModeDefinition, MatchConfig, ModeContext, ModeKo, ModeWin } from '../types.js';
+import type { HudMessage } from '../../schema/hudMessages.js';
+import { BOT_DEFAULT_COUNT } from '../../systems/bots/types.js';
+import { teamOf } from '../../state/teamState.js';
+
+export class TdmMode implements GameModeDefinition {
+  readonly id = 'tdm';
+  readonly endsOnTimer = true;
+  readonly spawnsObjective = false;
+  readonly scoresKills = true;
+  readonly teamScoreUnit = 'kills';
+  readonly bots = { count: () => BOT_DEFAULT_COUNT, fight: false };
+
+  constructor(private readonly ctx: ModeContext) {}
+
+  teamCount(config: MatchConfig): number {
+    return config.tdm.teamCount;
+  }
+
+  friendlyFire(config: MatchConfig): boolean {
+    return config.tdm.friendlyFire;
+  }
+
+  onRoundStart(): void {}
+
+  onPlayerKO(ko: ModeKo): void {
+    if (!ko.killScored || !ko.attackerId || this.ctx.worldState.roundState.status !== 'RUNNING') return;
+    const team = teamOf(this.ctx.worldState.teamState, ko.attackerId);
+    if (team != null) this.ctx.scoreService.addTeamPoint(team, 1);
+  }
+
+  checkWin(): ModeWin | null {
+    const teamId = this.ctx.scoreService.teamReaching(this.ctx.worldState.matchConfig.tdm.killsToWin);
+    return teamId != null ? { teamId } : null;
+  }
+
+  contributeHud(msg: HudMessage): void {
+    msg.scoreToWin = this.ctx.worldState.matchConfig.tdm.killsToWin;
+  }
+
+  leaderboardScore(playerId: string): number {
+    return this.ctx.worldState.score.scoresByPlayerId[playerId]?.score ?? 0;
+  }
+}
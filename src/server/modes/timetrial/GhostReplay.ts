@@ -0,0 +1,98 @@
+/**
+ * Time trial ghost: a translucent player model that replays the seed record's position track from round
+ * start, so racers can see the line they have to beat. Cosmetic only (no colliders).
+ */
+
+import type { World } from 'hytopia';
+import { Entity, EntityModelAnimationLoopMode, RigidBodyType } from 'hytopia';
+import type { GhostSample } from './records.js';
+
+const GHOST_MODEL_URI = 'models/players/player.gltf';
+const GHOST_OPACITY = 0.4;
+const GHOST_TINT = { r: 150, g: 210, b: 255 };
+/** Below this speed (blocks/s) between samples the ghost idles instead of running. */
+const RUN_SPEED = 1;
+
+export class GhostReplay {
+  private entity: Entity | null = null;
+  private track: GhostSample[] = [];
+  private cursor = 0;
+  private running = false;
+
+  constructor(private readonly world: World) {}
+
+  /** Spawn the ghost at the track's first sample. An empty track just clears any previous ghost. */
+  start(name: string, track: GhostSample[]): void {
+    this.stop();
+    if (track.length === 0) return;
+    this.track = track;
+    this.cursor = 0;
+    this.running = false;
+    const [, x, y, z] = track[0];
+    const entity = new Entity({
+      name: `${name} (ghost)`,
+      isEnvironmental: true,
+      modelUri: GHOST_MODEL_URI,
+      modelScale: 0.5,
+      opacity: GHOST_OPACITY,
+      tintColor: GHOST_TINT,
+      modelAnimations: [
+        { name: 'idle-upper', loopMode: EntityModelAnimationLoopMode.LOOP, play: true },
+        { name: 'idle-lower', loopMode: EntityModelAnimationLoopMode.LOOP, play: true },
+        { name: 'run-upper', loopMode: EntityModelAnimationLoopMode.LOOP, play: false },
+        { name: 'run-lower', loopMode: EntityModelAnimationLoopMode.LOOP, play: false },
+      ],
+      rigidBodyOptions: { type: RigidBodyType.KINEMATIC_POSITION, colliders: [] },
+    });
+    entity.spawn(this.world, { x, y, z });
+    this.entity = entity;
+  }
+
+  /** Move to the interpolated position `elapsedMs` into the run; the ghost stands at the finish afterwards. */
+  tick(elapsedMs: number): void {
+    const entity = this.entity;
+    if (!entity?.isSpawned) return;
+    const track = this.track;
+    while (this.cursor < track.length - 1 && track[this.cursor + 1][0] <= elapsedMs) this.cursor++;
+
+    const a = track[this.cursor];
+    const b = track[Math.min(this.cursor + 1, track.length - 1)];
+    const span = b[0] - a[0];
+    const t = span > 0 ? Math.max(0, Math.min(1, (elapsedMs - a[0]) / span)) : 0;
+    const dx = b[1] - a[1];
+    const dz = b[3] - a[3];
+    entity.setPosition({ x: a[1] + dx * t, y: a[2] + (b[2] - a[2]) * t, z: a[3] + dz * t });
+
+    const speed = span > 0 && t < 1 ? (Math.sqrt(dx * dx + dz * dz) * 1000) / span : 0;
+    if (Math.abs(dx) + Math.abs(dz) > 0.01) entity.setRotation(yawQuaternion(Math.atan2(dx, dz)));
+    this.setRunning(speed >= RUN_SPEED);
+  }
+
+  stop(): void {
+    if (this.entity?.isSpawned) this.entity.despawn();
+    this.entity = null;
+    this.track = [];
+  }
+
+  private setRunning(running: boolean): void {
+    if (running === this.running || !this.entity) return;
+    this.running = running;
+    for (const part of ['upper', 'lower']) {
+      const run = this.entity.getModelAnimation(`run-${part}`);
+      const idle = this.entity.getModelAnimation(`idle-${part}`);
+      if (running) {
+        run?.play();
+        idle?.pause();
+      } else {
+        idle?.play();
+        run?.pause();
+      }
+    }
+  }
+}
+
+/** Rotation about +y facing the (dx, dz) heading; models face -z, hence the half turn. */
+function yawQuaternion(yaw: number): { x: number; y: number; z: number; w: number } {
+  const half = (yaw + Math.PI) / 2;
+  return { x: 0, y: Math.sin(half), z: 0, w: Math.cos(half) };
+}
@@ -0,0 +1,240 @@
+/**
+ * Time trial: every racer banks their own capture time inside the objective under a shrinking safe radius.
+ * Finished runs go to the seed's persistent records and the fastest run replays as a ghost. Bots race for the
+ * capture too, but their runs stay out of the records. Ends once every human racer has finished or the clock
+ * runs out, then waits for /retry or /restart.
+ */
+
+import { PlayerManager } from 'hytopia';
+import type { GameModeDefinition, ModeContext } from '../types.js';
+import { BOT_DEFAULT_COUNT, type BotObjective } from '../../systems/bots/types.js';
+import type { HudMessage, HudScoreEntry } from '../../schema/hudMessages.js';
+import {
+  INITIAL_TIME_TRIAL_STATE,
+  allFinished,
+  joinTimeTrial,
+  runScore,
+  tickCapture,
+} from '../../state/timeTrialState.js';
+import { isInsideObjective } from '../objectiveZone.js';
+import { GhostReplay } from './GhostReplay.js';
+import { loadSeedRecords, submitRun, type GhostSample } from './records.js';
+
+/** Track sampling for ghosts; the ghost interpolates between samples. */
+const TRACK_SAMPLE_MS = 200;
+/** Rows of the seed leaderboard sent to the HUD. */
+const BEST_TIMES_SHOWN = 5;
+
+function formatRunTime(ms: number): string {
+  return `${(ms / 1000).toFixed(2)}s`;
+}
+
+export class TimeTrialMode implements GameModeDefinition {
+  readonly id = 'timetrial';
+  readonly endsOnTimer = false;
+  readonly spawnsObjective = true;
+  readonly scoresKills = true;
+  readonly bots = { count: () => BOT_DEFAULT_COUNT, fight: false, objective: () => this.botObjective() };
+  private readonly ghostReplay: GhostReplay;
+  /** Each unfinished racer's position track this round. */
+  private readonly trackByPlayerId = new Map<string, GhostSample[]>();
+  private lastTrackSampleMs = 0;
+  private lastHeartbeatSec = 0;
+
+  constructor(private readonly ctx: ModeContext) {
+    this.ghostReplay = new GhostReplay(ctx.world);
+  }
+
+  matchDurationMs(): number {
+    return 600000;
+  }
+
+  /** Fresh runs on this round's seed; the seed's records seed the HUD leaderboard and its ghost. */
+  onRoundStart(nowMs: number): void {
+    const { worldState, hud } = this.ctx;
+    const seed = worldState.usedSeed;
+    const records = loadSeedRecords(seed);
+    worldState.timeTrialState = {
+      ...INITIAL_TIME_TRIAL_STATE,
+      status: 'RUNNING',
+      startedAtMs: nowMs,
+      requiredCaptureMs: worldState.matchConfig.timetrial.requiredCaptureMs,
+      seed,
+      bestTimeMs: records.best[0]?.timeMs,
+      bestTimes: records.best.map((b) => ({ name: b.name, timeMs: b.timeMs })),
+      runs: {},
+    };
+    for (const p of PlayerManager.instance.getConnectedPlayersByWorld(this.ctx.world)) {
+      joinTimeTrial(worldState.timeTrialState, p.id, this.ctx.nameOf(p.id));
+    }
+    this.trackByPlayerId.clear();
+    this.lastTrackSampleMs = 0;
+    this.lastHeartbeatSec = 0;
+    if (records.ghost) {
+      this.ghostReplay.start(records.ghost.name, records.ghost.track);
+      hud.broadcastFeed(`Ghost: ${records.ghost.name} (${formatRunTime(records.ghost.timeMs)})`);
+    } else {
+      this.ghostReplay.stop();
+    }
+  }
+
+  /** 10hz: bank each racer's own capture time, record unfinished racers' tracks and move the ghost. */
+  onTick(nowMs: number, deltaMs: number): void {
+    const { worldState } = this.ctx;
+    const tt = worldState.timeTrialState;
+    if (tt.status !== 'RUNNING') return;
+    const elapsedMs = nowMs - tt.startedAtMs;
+    const sample = nowMs - this.lastTrackSampleMs >= TRACK_SAMPLE_MS;
+    if (sample) this.lastTrackSampleMs = nowMs;
+
+    for (const { playerId, position } of this.ctx.playerPositions()) {
+      const run = joinTimeTrial(tt, playerId, this.ctx.nameOf(playerId));
+      if (run.timeMs != null) continue;
+      const inside = isInsideObjective(worldState.mapSpec, position);
+      const finished = inside && tickCapture(tt, playerId, deltaMs, nowMs);
+      if (sample || finished) this.recordTrackSample(playerId, elapsedMs, position);
+      if (finished) this.onFinish(playerId);
+    }
+    for (const { playerId, position } of this.ctx.botPositions()) {
+      const run = joinTimeTrial(tt, playerId, this.ctx.nameOf(playerId));
+      if (run.timeMs != null || !isInsideObjective(worldState.mapSpec, position)) continue;
+      if (tickCapture(tt, playerId, deltaMs, nowMs)) {
+        this.ctx.hud.broadcastFeed(`${run.name} finished in ${formatRunTime(nowMs - tt.startedAtMs)}`);
+        this.ctx.hud.broadcastHud();
+      }
+    }
+    this.ghostReplay.tick(elapsedMs);
+
+    const connectedIds = PlayerManager.instance.getConnectedPlayersByWorld(this.ctx.world).map((p) => p.id);
+    const timeUp = nowMs >= (worldState.roundState.matchEndsAtMs ?? Infinity);
+    if (timeUp || allFinished(tt, connectedIds)) {
+      this.endTrial();
+      return;
+    }
+
+    const sec = Math.floor(elapsedMs / 1000);
+    if (sec > this.lastHeartbeatSec) {
+      this.lastHeartbeatSec = sec;
+      this.ctx.hud.broadcastHud();
+    }
+  }
+
+  clear(): void {
+    this.ghostReplay.stop();
+    this.trackByPlayerId.clear();
+    this.ctx.worldState.timeTrialState = { ...INITIAL_TIME_TRIAL_STATE, bestTimes: [], runs: {} };
+  }
+
+  contributeHud(msg: HudMessage, playerId: string): void {
+    const tt = this.ctx.worldState.timeTrialState;
+    const run = tt.runs[playerId];
+    msg.timerMs = run?.timeMs ?? (tt.status === 'RUNNING' ? Date.now() - tt.startedAtMs : 0);
+    msg.captureProgressPercent = this.captureProgressPercent(playerId);
+    if (run?.timeMs != null) {
+      msg.runTimeMs = run.timeMs;
+      msg.score = runScore(run.timeMs);
+    }
+    if (tt.bestTimeMs != null) msg.bestTimeMs = tt.bestTimeMs;
+    msg.bestTimes = tt.bestTimes.slice(0, BEST_TIMES_SHOWN);
+  }
+
+  /** Capture percent; finished racers also carry their run time. */
+  leaderboardScore(playerId: string): number {
+    return this.captureProgressPercent(playerId);
+  }
+
+  leaderboardExtras(playerId: string): Partial<HudScoreEntry> {
+    const timeMs = this.ctx.worldState.timeTrialState.runs[playerId]?.timeMs;
+    return timeMs != null ? { timeMs } : {};
+  }
+
+  /** Bots stand in the objective to bank capture time. */
+  private botObjective(): BotObjective | null {
+    const spec = this.ctx.worldState.mapSpec;
+    if (!spec) return null;
+    const obj = spec.objective;
+    return { kind: 'zone', x: obj.center.x - spec.center.x, z: obj.center.y - spec.center.y, radius: obj.radius };
+  }
+
+  /** A racer's capture progress 0–100 (0 before they join the run). */
+  private captureProgressPercent(playerId: string): number {
+    const tt = this.ctx.worldState.timeTrialState;
+    const captureMs = tt.runs[playerId]?.captureMs ?? 0;
+    return tt.requiredCaptureMs > 0 ? Math.min(100, Math.floor((captureMs / tt.requiredCaptureMs) * 100)) : 0;
+  }
+
+  private recordTrackSample(playerId: string, elapsedMs: number, p: { x: number; y: number; z: number }): void {
+    let track = this.trackByPlayerId.get(playerId);
+    if (!track) {
+      track = [];
+      this.trackByPlayerId.set(playerId, track);
+    }
+    const round2 = (v: number) => Math.round(v * 100) / 100;
+    track.push([elapsedMs, round2(p.x), round2(p.y), round2(p.z)]);
+  }
+
+  /** Persist a finished run and announce it: seed records to everyone, personal bests to the racer. */
+  private onFinish(playerId: string): void {
+    const { hud } = this.ctx;
+    const tt = this.ctx.worldState.timeTrialState;
+    const run = tt.runs[playerId];
+    if (run?.timeMs == null) return;
+    const track = this.trackByPlayerId.get(playerId) ?? [];
+    this.trackByPlayerId.delete(playerId);
+
+    const result = submitRun(tt.seed, { playerId, name: run.name, timeMs: run.timeMs, atMs: Date.now() }, track);
+    tt.bestTimes = result.best.map((b) => ({ name: b.name, timeMs: b.timeMs }));
+    tt.bestTimeMs = tt.bestTimes[0]?.timeMs;
+
+    const time = formatRunTime(run.timeMs);
+    const rank = result.rank != null ? ` (#${result.rank} on this seed)` : '';
+    hud.broadcastFeed(`${run.name} finished in ${time}${rank}`);
+    if (result.seedRecord) {
+      hud.broadcastToast('good', `New seed record: ${run.name} ${time}`);
+    } else {
+      const player = PlayerManager.instance.getConnectedPlayersByWorld(this.ctx.world).find((p) => p.id === playerId);
+      if (player && result.personalBest) hud.toast(player, 'good', `Personal best! ${time}`);
+      else if (player) hud.toast(player, 'info', `Finished in ${time}`);
+    }
+    hud.broadcastHud();
+  }
+
+  private endTrial(): void {
+    const { hud } = this.ctx;
+    const tt = this.ctx.worldState.timeTrialState;
+    tt.status = 'ENDED';
+    this.ghostReplay.stop();
+    this.trackByPlayerId.clear();
+
+    const runs = Object.entries(tt.runs);
+    const finished = runs
+      .flatMap(([id, run]) => (run.timeMs != null ? [{ id, name: run.name, timeMs: run.timeMs }] : []))
+      .sort((a, b) => a.timeMs - b.timeMs);
+    if (finished.length === 0) {
+      hud.broadcastToast('bad', 'Time is up. Nobody finished');
+      hud.broadcastFeed('Time Trial ended with no finishers');
+    } else {
+      const first = finished[0];
+      this.ctx.worldState.roundState.winnerPlayerId = first.id;
+      hud.broadcastToast(
+        'good',
+        runs.length === 1
+          ? `Time Trial complete! Score: ${runScore(first.timeMs)}`
+          : `${first.name} wins in ${formatRunTime(first.timeMs)}`
+      );
+      finished.forEach((f, i) => {
+        hud.broadcastFeed(`${i + 1}. ${f.name} ${formatRunTime(f.timeMs)} (score ${runScore(f.timeMs)})`);
+      });
+    }
+    for (const [, run] of runs) {
+      if (run.timeMs != null) continue;
+      const pct = Math.floor((run.captureMs / tt.requiredCaptureMs) * 100);
+      hud.broadcastFeed(`${run.name}: did not finish (${pct}% captured)`);
+    }
+    const record = tt.bestTimes[0];
+    if (record) hud.broadcastFeed(`Seed record: ${record.name} ${formatRunTime(record.timeMs)}`);
+    hud.broadcastFeed('/retry races this seed again, /restart rolls a new one');
+    hud.broadcastHud();
+    this.ctx.finishRound();
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Persistent time trial records, one file per arena seed: the best-times leaderboard and the position
+ * track of the fastest run, replayed as a ghost on later attempts at the same seed.
+ */
+
+import { readStore, writeStore } from '../../persistence/localStore.js';
+
+/** [ms since run start, x, y, z]; tuples keep long tracks compact on disk. */
+export type GhostSample = [number, number, number, number];
+
+export interface BestTime {
+  playerId: string;
+  name: string;
+  timeMs: number;
+  /** When the run finished (ms since epoch). */
+  atMs: number;
+}
+
+export interface SeedRecords {
+  /** Fastest first, one entry per player (their personal best). */
+  best: BestTime[];
+  /** Track of best[0]'s run. */
+  ghost: { name: string; timeMs: number; track: GhostSample[] } | null;
+}
+
+export const LEADERBOARD_SIZE = 10;
+
+function storeKey(seed: string): string {
+  return `timetrial/${seed}`;
+}
+
+export function loadSeedRecords(seed: string): SeedRecords {
+  return readStore<SeedRecords>(storeKey(seed), { best: [], ghost: null });
+}
+
+export type SubmitResult = {
+  /** 1-based leaderboard place, or null when the time didn't make the board. */
+  rank: number | null;
+  personalBest: boolean;
+  /** New seed record (the ghost was replaced). */
+  seedRecord: boolean;
+  /** The seed's leaderboard after the merge. */
+  best: BestTime[];
+};
+
+/**
+ * Merge a finished run into the seed's records: keeps each player's best only, trims to LEADERBOARD_SIZE
+ * and swaps in the run's track as the ghost when it beats the record. Pure; the caller saves.
+ */
+export function mergeRun(records: SeedRecords, run: BestTime, track: GhostSample[]): SubmitResult {
+  const previous = records.best.find((b) => b.playerId === run.playerId);
+  const personalBest = !previous || run.timeMs < previous.timeMs;
+  const seedRecord = records.best.length === 0 || run.timeMs < records.best[0].timeMs;
+
+  if (personalBest) {
+    records.best = records.best.filter((b) => b.playerId !== run.playerId);
+    records.best.push(run);
+    records.best.sort((a, b) => a.timeMs - b.timeMs || a.atMs - b.atMs);
+    records.best = records.best.slice(0, LEADERBOARD_SIZE);
+  }
+  if (seedRecord) records.ghost = { name: run.name, timeMs: run.timeMs, track };
+
+  const index = records.best.findIndex((b) => b.playerId === run.playerId && b.timeMs === run.timeMs);
+  return { rank: index >= 0 ? index + 1 : null, personalBest, seedRecord, best: records.best };
+}
+
+export function submitRun(seed: string, run: BestTime, track: GhostSample[]): SubmitResult {
+  const records = loadSeedRecords(seed);
+  const result = mergeRun(records, run, track);
+  if (result.personalBest || result.seedRecord) writeStore(storeKey(seed), records);
+  return result;
+}
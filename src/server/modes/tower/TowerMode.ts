@@ -0,0 +1,96 @@
+/**
+ * Tower: carry shards to the deposit console to bank them and unlock tower tiers, then hold the roof. The
+ * roof hold win goes through TowerSystem's win callback; the timer otherwise picks the leader.
+ */
+
+import type { GameModeDefinition, ModeContext, ModeKo } from '../types.js';
+import type { HudMessage } from '../../schema/hudMessages.js';
+import type { PlayerState } from '../../state/types.js';
+import { BOT_DEFAULT_COUNT, type BotObjective } from '../../systems/bots/types.js';
+import { ROOF_ZONE_RADIUS } from '../../systems/TowerSystem.js';
+
+const ROOF_HOLD_TARGET_MS = 20000;
+
+export class TowerMode implements GameModeDefinition {
+  readonly id = 'tower';
+  readonly endsOnTimer = true;
+  readonly spawnsObjective = true;
+  readonly scoresKills = true;
+  readonly bots = { count: () => BOT_DEFAULT_COUNT, fight: false, objective: () => this.botObjective() };
+
+  constructor(private readonly ctx: ModeContext) {}
+
+  /** Fresh tower for the round, with the deposit console standing on the floor beside its first ring. */
+  onRoundStart(): void {
+    const { worldState, towerSystem, depositSystem } = this.ctx;
+    worldState.towerState = {
+      unlockedTier: 0,
+      roofHoldMs: 0,
+      roofActive: false,
+    };
+    const roundId = worldState.roundState.roundId;
+    const roundSeedStr = worldState.matchConfig.seed + (roundId === 1 ? '' : `_r${roundId}`);
+    towerSystem?.initRound(roundId, roundSeedStr);
+    const radius1 = towerSystem?.getSpec()?.radius1 ?? 6;
+    const towerCenter = towerSystem?.getTowerCenter() ?? { x: 0, z: 0 };
+    const depositX = towerCenter.x + radius1 + 2;
+    const depositZ = towerCenter.z;
+    const groundY = this.ctx.groundYAt(depositX, depositZ);
+    depositSystem?.setConsoleY(groundY);
+    depositSystem?.setConsolePosition(depositX, groundY, depositZ);
+    depositSystem?.spawnZoneMarker();
+  }
+
+  onTick(nowMs: number): void {
+    const combatants = this.ctx.liveCombatantPositions();
+    this.ctx.depositSystem?.tick(nowMs, combatants);
+    this.ctx.towerSystem?.tickRoofHold(nowMs, combatants);
+  }
+
+  clear(): void {
+    this.ctx.worldState.towerState = null;
+    this.ctx.depositSystem?.clearConsolePosition();
+    this.ctx.depositSystem?.despawnZoneMarker();
+  }
+
+  /** Shards not yet banked land where the victim fell. */
+  onPlayerKO(ko: ModeKo): void {
+    const victim = this.ctx.worldState.getPlayer(ko.victimId);
+    const carried = victim?.carriedShards ?? 0;
+    if (carried > 0) this.ctx.shardSystem.spawnDroppedShards(ko.position, carried);
+    if (victim) victim.carriedShards = 0;
+    this.ctx.depositSystem?.cancelDeposit(ko.victimId);
+  }
+
+  contributeHud(msg: HudMessage, playerId: string): void {
+    const p = this.ctx.worldState.getPlayer(playerId);
+    msg.carriedShards = p?.carriedShards ?? 0;
+    msg.bankedShards = p?.bankedShards ?? 0;
+    const ts = this.ctx.worldState.towerState;
+    if (ts) {
+      msg.nextTierRequirement = this.ctx.worldState.matchConfig.rules.towerTierThresholds[ts.unlockedTier];
+      msg.roofHoldMs = ts.roofHoldMs;
+      msg.roofHoldTargetMs = ROOF_HOLD_TARGET_MS;
+      msg.roofActive = ts.roofActive;
+    }
+  }
+
+  /** Bots bank at the console like players; once the roof is active they go up and hold it. */
+  private botObjective(): BotObjective | null {
+    const { worldState, depositSystem, towerSystem } = this.ctx;
+    if (!depositSystem) return null;
+    const carriedById = new Map<string, number>();
+    for (const [id, p] of worldState.players) carriedById.set(id, p.carriedShards ?? 0);
+    return {
+      kind: 'deposit',
+      console: depositSystem.getConsolePosition(),
+      roof: worldState.towerState?.roofActive && towerSystem ? towerSystem.getRoofZoneCenter() : null,
+      roofRadius: ROOF_ZONE_RADIUS,
+      carriedById,
+    };
+  }
+
+  leaderboardScore(_playerId: string, p: PlayerState | undefined): number {
+    return (p?.bankedShards ?? 0) + (p?.carriedShards ?? 0);
+  }
+}
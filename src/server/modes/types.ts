@@ -1,19 +1,183 @@
 /**
- * Game mode contract: only one mode is active per match.
+ * Game mode contract: only one mode is active per match. Each mode registers a GameModeDefinition
+ * (modes/registry.ts); RoundController, CombatService, HudService and BotManager call its hooks instead of
+ * branching on the mode id.
  */
 
-export type GameMode = 'survival' | 'timetrial' | 'tower' | 'bot_ffa' | 'koth' | 'tdm' | 'MULTI' | 'SOLO';
+import type { World } from 'hytopia';
+import type { ArenaLayout } from '../procgen/spec.js';
+import type { WorldState } from '../state/WorldState.js';
+import type { PlayerState } from '../state/types.js';
+import type { TeamId } from '../state/teamState.js';
+import type { HudMessage, HudScoreEntry } from '../schema/hudMessages.js';
+import type { HudService } from '../services/HudService.js';
+import type { ScoreService } from '../services/ScoreService.js';
+import type { ShardSystem } from '../systems/ShardSystem.js';
+import type { TowerSystem } from '../systems/TowerSystem.js';
+import type { DepositSystem } from '../systems/DepositSystem.js';
+import type { EnemySystem } from './survival/EnemySystem.js';
+import type { BotObjective } from '../systems/bots/types.js';
+
+export type GameMode = 'survival' | 'timetrial' | 'tower' | 'bot_ffa' | 'koth' | 'tdm' | 'ctf' | 'MULTI' | 'SOLO';
+
+/** Every mode id, for validating config files that load before the registry exists. */
+export const GAME_MODES: readonly GameMode[] = ['survival', 'timetrial', 'tower', 'bot_ffa', 'koth', 'tdm', 'ctf', 'MULTI', 'SOLO'];
+
+/** Match-wide tuning the lobby host can edit (config/matchRules.ts validates it); read at use, so edits apply next round. */
+export interface MatchRules {
+  /** Shards for a full set in shard races (TARGET_SHARDS by default). */
+  targetShards: number;
+  /** Pause between a round ending and the next one starting. */
+  roundResetDelayMs: number;
+  /** Player melee damage per hit. */
+  meleeDamage: number;
+  /** Whether teammates can hurt each other; TDM uses tdm.friendlyFire instead. */
+  friendlyFire: boolean;
+  /** Power-ups scattered per round. */
+  powerUpCount: number;
+  /** Tower: banked shards needed for tiers 1–3, ascending. */
+  towerTierThresholds: [number, number, number];
+}
 
 export interface MatchConfig {
   seed: string;
   mode: GameMode;
   size: number;
+  /** Procgen spec version: 1 = flat arena, 2 = adds platforms, ramps/stairs and pits. */
+  arenaVersion: 1 | 2;
+  /** Arena layout generator; 'auto' picks one from the round seed. */
+  arenaLayout: ArenaLayout | 'auto';
+  /** Max relative spread of spawn-to-objective path lengths before a generated arena is rejected. */
+  arenaFairnessTolerance: number;
+  /** Hand-authored map id (assets/maps/<id>.meta.json) to play instead of procgen; null = generate. */
+  arenaMap: string | null;
   survival: {
     winWaves: number;
     winSeconds: number;
     interWaveDelayMs: number;
+    /** Co-op: how long a teammate must stand next to a downed survivor to revive them. */
+    reviveMs: number;
   };
   timetrial: {
     requiredCaptureMs: number;
   };
+  koth: {
+    /** Points to win outright (timer end otherwise picks the leader). */
+    scoreToWin: number;
+    /** How long each hill stays before moving to the next zone. */
+    hillDurationMs: number;
+    /** Uncontested hold time per point. */
+    pointIntervalMs: number;
+  };
+  tdm: {
+    /** Teams per round (2–4); the spec's four spawn zones are split between them (see teamSpawnZones). */
+    teamCount: 2 | 3 | 4;
+    /** Team kills to win outright (timer end otherwise picks the leading team). */
+    killsToWin: number;
+    /** Whether teammates can damage each other. */
+    friendlyFire: boolean;
+  };
+  ctf: {
+    /** Teams per round (2–4); each team's flag stands on its first spawn zone (see buildFlagBases). */
+    teamCount: 2 | 3 | 4;
+    /** Captures to win outright (timer end otherwise picks the leading team). */
+    capturesToWin: number;
+    /** A dropped flag nobody touches goes home after this long. */
+    flagReturnMs: number;
+  };
+  botFfa: {
+    /** Bots spawned per round before skill-rating scaling (BOT_DEFAULT_COUNT is for shard races). */
+    botCount: number;
+    /** Kills to win outright (timer end otherwise picks the leader). */
+    killsToWin: number;
+  };
+  rules: MatchRules;
+}
+
+type Vec3 = { x: number; y: number; z: number };
+
+export type CombatantPosition = { playerId: string; position: Vec3 };
+
+/** Services and round controls a mode works through; built once by RoundController. */
+export interface ModeContext {
+  readonly world: World;
+  readonly worldState: WorldState;
+  readonly hud: HudService;
+  readonly scoreService: ScoreService;
+  readonly shardSystem: ShardSystem;
+  readonly enemySystem?: EnemySystem;
+  readonly towerSystem?: TowerSystem;
+  readonly depositSystem?: DepositSystem;
+  /** Display name for a human or bot. */
+  nameOf(playerId: string): string;
+  /** Connected humans with a spawned entity. */
+  playerPositions(): CombatantPosition[];
+  /** Humans and bots with health left. */
+  liveCombatantPositions(): CombatantPosition[];
+  /** This round's bots, KO'd ones included. */
+  botPositions(): CombatantPosition[];
+  /** Floor top under (x, z). */
+  groundYAt(x: number, z: number): number;
+  /** End the round and wait for /restart instead of the reset countdown (survival, time trial). */
+  finishRound(): void;
+}
+
+/** How a round was won: a player, a team, or a draw between teams (teamId null). */
+export type ModeWin = { playerId: string } | { teamId: TeamId | null };
+
+export interface ModeKo {
+  victimId: string;
+  /** Absent for hazards and enemies. */
+  attackerId?: string;
+  /** The attacker earned a kill point (scoresKills, not a team kill or self/hazard KO). */
+  killScored: boolean;
+  /** Where the victim fell. */
+  position: Vec3;
+}
+
+export interface GameModeDefinition {
+  readonly id: GameMode;
+  /** Whether the round clock running out ends the match; survival and time trial finish on their own. */
+  readonly endsOnTimer: boolean;
+  /** Whether the Golden Apple objective spawns; modes that score elsewhere leave it off. */
+  readonly spawnsObjective: boolean;
+  /** Whether a kill scores the attacker a point. */
+  readonly scoresKills: boolean;
+  /** Team scores in the end feed are counted in these (team modes only). */
+  readonly teamScoreUnit?: string;
+  /**
+   * Bots this round: how many before skill-rating scaling, whether they fight instead of racing shards, and the
+   * mode objective they work toward (read every AI tick; null or omitted races for shards).
+   */
+  readonly bots?: { count(config: MatchConfig): number; fight: boolean; objective?(): BotObjective | null };
+  /** Round length; omit to keep the previous round's duration. */
+  matchDurationMs?(config: MatchConfig): number;
+  /** Teams this round; 0 (or omitted) is free-for-all. */
+  teamCount?(config: MatchConfig): number;
+  /** Whether teammates can hurt each other; omitted uses rules.friendlyFire. */
+  friendlyFire?(config: MatchConfig): boolean;
+
+  /** Fresh round: teams are set, players not yet spawned. */
+  onRoundStart(nowMs: number): void;
+  /** 10hz while the round is RUNNING. */
+  onTick?(nowMs: number, deltaMs: number): void;
+  /** The round ended by timer or a win (endMatch / endTeamMatch). */
+  onRoundEnd?(): void;
+  /** Drop this mode's state and world markers: another mode's round is starting, or a restart. */
+  clear?(): void;
+  /** A human or bot was KO'd. Return 'downed' to skip the respawn (the mode owns the victim until revived). */
+  onPlayerKO?(ko: ModeKo): 'downed' | void;
+  /** A player's shard count changed (pickup). */
+  onShardCollected?(playerId: string): void;
+  /** Falling off the island (fall recovery): drop whatever the player carries at `pos`, default where they were. */
+  dropCarried?(playerId: string, pos?: Vec3): void;
+  onPlayerLeft?(playerId: string): void;
+  /** Checked after ticks, KOs and pickups; a result ends the round. */
+  checkWin?(): ModeWin | null;
+  /** Mode fields for one player's HUD message. */
+  contributeHud?(msg: HudMessage, playerId: string): void;
+  /** Leaderboard score for a human or bot. */
+  leaderboardScore(playerId: string, p: PlayerState | undefined): number;
+  /** Extra leaderboard entry fields (downed flag, run time). */
+  leaderboardExtras?(playerId: string): Partial<HudScoreEntry>;
 }
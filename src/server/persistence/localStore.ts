@@ -0,0 +1,41 @@
+/**
+ * Local JSON store for data that should outlive a server run (time trial records and ghosts, rules presets, bot
+ * skill ratings). One file per key under PATTERNISLE_DATA_DIR (default ./data). Writes go to a temp file and are
+ * renamed into place, so a crash mid-write never leaves a half-written record behind.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+
+export const DATA_DIR = process.env.PATTERNISLE_DATA_DIR ?? 'data';
+
+/** Key → file path; `/` in a key makes a subdirectory, anything else unsafe is escaped. */
+function pathForKey(key: string): string {
+  const parts = key.split('/').map((p) => encodeURIComponent(p));
+  return join(DATA_DIR, ...parts) + '.json';
+}
+
+/** Stored value for `key`, or `fallback` when missing. A corrupt file is logged and treated as missing. */
+export function readStore<T>(key: string, fallback: T): T {
+  const path = pathForKey(key);
+  if (!existsSync(path)) return fallback;
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as T;
+  } catch (err) {
+    console.error('[store] unreadable %s; ignoring', path, err);
+    return fallback;
+  }
+}
+
+/** Save `value` under `key`. A failed write (read-only or full data dir) is logged and dropped; play carries on. */
+export function writeStore(key: string, value: unknown): void {
+  const path = pathForKey(key);
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    const tmp = `${path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(value));
+    renameSync(tmp, path);
+  } catch (err) {
+    console.error('[store] could not write %s; not saved', path, err);
+  }
+}
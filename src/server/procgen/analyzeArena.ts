@@ -0,0 +1,196 @@
+/**
+ * Arena quality metrics over a baked grid: per-spawn path distance to the objective (fairness),
+ * chokepoints, dead ends, cover density and open area. Reachability alone is validateConnectivity's job;
+ * this answers "is the map fair and does it play well".
+ */
+
+import type { MapSpec } from "./spec";
+import { bakeGridFromSpec, toCell, type BakedGrid } from "./gridBake";
+import { MAX_CLIMB } from "./elevation";
+import { isHazardCell } from "./hazards";
+
+/** Default max allowed spread between the nearest and farthest spawn (0.15 = farthest may be 15% longer). */
+export const DEFAULT_FAIRNESS_TOLERANCE = 0.15;
+
+/** A floor cell is part of a chokepoint when the passage through it is at most this many blocks wide. */
+const CHOKE_MAX_WIDTH = 4;
+
+/** A floor cell is in a dead end when 3+ of its 4 axis rays hit a wall within this many blocks. */
+const DEAD_END_PROBE = 8;
+
+export type ArenaMetrics = {
+  /** Shortest walkable path (blocks) from each spawn zone to the objective, indexed like spec.spawnZones. Infinity if unreachable. */
+  spawnDistances: number[];
+  /** (farthest - nearest) / nearest spawn distance; 0 is perfectly fair. */
+  spawnDistanceSpread: number;
+  /** Connected groups of narrow-passage cells (doorways, gates, tight tunnels). */
+  chokepoints: number;
+  /** Share of floor cells boxed in on three sides (0..1). */
+  deadEndRatio: number;
+  /** Floor cells covered by cover obstacles / floor cells (0..1). */
+  coverDensity: number;
+  /** Floor cells as a percentage of the cells inside the arena radius (0..100). */
+  openAreaPct: number;
+};
+
+function idx(x: number, y: number, n: number) {
+  return y * n + x;
+}
+
+/**
+ * BFS outward from the objective. Walking the path in reverse, stepping from `a` to `b` means a player
+ * goes b -> a, so the climb limit applies to heights[a] - heights[b].
+ */
+function distancesFromObjective(spec: MapSpec, g: BakedGrid): Int32Array {
+  const n = g.size;
+  const dist = new Int32Array(n * n).fill(-1);
+  const t = toCell(g, spec.objective.center);
+  const start = idx(t.x, t.y, n);
+  if (g.blocked[start]) return dist;
+  const queue = new Int32Array(n * n);
+  let qh = 0, qt = 0;
+  dist[start] = 0;
+  queue[qt++] = start;
+  while (qh < qt) {
+    const a = queue[qh++];
+    const x = a % n;
+    const y = (a - x) / n;
+    for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+      if (nx < 0 || ny < 0 || nx >= n || ny >= n) continue;
+      const b = idx(nx, ny, n);
+      if (dist[b] >= 0 || g.blocked[b] || isHazardCell(g.hazards, b)) continue;
+      if (g.heights && g.heights[a] - g.heights[b] > MAX_CLIMB) continue;
+      dist[b] = dist[a] + 1;
+      queue[qt++] = b;
+    }
+  }
+  return dist;
+}
+
+/** Nearest reached cell in the 3x3 around the spawn centre (same tolerance as validateConnectivity). */
+function spawnDistance(g: BakedGrid, dist: Int32Array, p: { x: number; y: number }): number {
+  const sc = toCell(g, p);
+  let best = Infinity;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const nx = sc.x + dx;
+      const ny = sc.y + dy;
+      if (nx < 0 || ny < 0 || nx >= g.size || ny >= g.size) continue;
+      const d = dist[idx(nx, ny, g.size)];
+      if (d >= 0) best = Math.min(best, d);
+    }
+  }
+  return best * g.cellSize;
+}
+
+/** Open cells from (x, y) stepping (dx, dy) before hitting a wall or the grid edge, capped at `max`. */
+function ray(g: BakedGrid, x: number, y: number, dx: number, dy: number, max: number): number {
+  let k = 0;
+  while (k < max) {
+    const nx = x + dx * (k + 1);
+    const ny = y + dy * (k + 1);
+    if (nx < 0 || ny < 0 || nx >= g.size || ny >= g.size || g.blocked[idx(nx, ny, g.size)]) break;
+    k++;
+  }
+  return k;
+}
+
+function countComponents(mask: Uint8Array, n: number): number {
+  const seen = new Uint8Array(mask.length);
+  const stack: number[] = [];
+  let count = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i] || seen[i]) continue;
+    count++;
+    seen[i] = 1;
+    stack.push(i);
+    while (stack.length) {
+      const c = stack.pop()!;
+      const x = c % n;
+      const y = (c - x) / n;
+      for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+        if (nx < 0 || ny < 0 || nx >= n || ny >= n) continue;
+        const j = idx(nx, ny, n);
+        if (mask[j] && !seen[j]) {
+          seen[j] = 1;
+          stack.push(j);
+        }
+      }
+    }
+  }
+  return count;
+}
+
+/**
+ * Compute quality metrics for a spec. Pass a grid already baked at cellSize=1 to skip the re-bake;
+ * coarser grids work but alias narrow passages (fewer chokepoints, more dead ends).
+ */
+export function analyzeArena(spec: MapSpec, grid?: BakedGrid): ArenaMetrics {
+  const g = grid ?? bakeGridFromSpec(spec, 1);
+  const n = g.size;
+  const cs = g.cellSize;
+  const ox = g.originX ?? 0;
+  const oy = g.originY ?? 0;
+
+  const dist = distancesFromObjective(spec, g);
+  const spawnDistances = spec.spawnZones.map((s) =>
+    spawnDistance(g, dist, { x: s.rect.x + s.rect.w / 2, y: s.rect.y + s.rect.h / 2 })
+  );
+  const nearest = Math.min(...spawnDistances);
+  const farthest = Math.max(...spawnDistances);
+  const spawnDistanceSpread = nearest > 0 && Number.isFinite(farthest) ? (farthest - nearest) / nearest : Infinity;
+
+  const chokeWidth = Math.max(1, Math.floor(CHOKE_MAX_WIDTH / cs));
+  const probe = Math.max(1, Math.ceil(DEAD_END_PROBE / cs));
+  const choke = new Uint8Array(n * n);
+  let floor = 0;
+  let deadEnds = 0;
+  let arenaCells = 0;
+  const outer = spec.ringRadii[0];
+
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      const wx = (ox + x + 0.5) * cs - spec.center.x;
+      const wy = (oy + y + 0.5) * cs - spec.center.y;
+      if (wx * wx + wy * wy <= outer * outer) arenaCells++;
+      const i = idx(x, y, n);
+      if (g.blocked[i]) continue;
+      floor++;
+
+      const left = ray(g, x, y, -1, 0, chokeWidth);
+      const right = ray(g, x, y, 1, 0, chokeWidth);
+      const up = ray(g, x, y, 0, -1, chokeWidth);
+      const down = ray(g, x, y, 0, 1, chokeWidth);
+      if (left + right + 1 <= chokeWidth || up + down + 1 <= chokeWidth) choke[i] = 1;
+
+      let closed = 0;
+      for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+        if (ray(g, x, y, dx, dy, probe) < probe) closed++;
+      }
+      if (closed >= 3) deadEnds++;
+    }
+  }
+
+  // Cover footprint uses the same disc rule as specToMap; only cells that are floor count
+  const covered = new Set<number>();
+  for (const c of spec.cover) {
+    const r = c.radius;
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        if (dx * dx + dy * dy > r * r + 0.5) continue;
+        const cell = toCell(g, { x: c.center.x + dx, y: c.center.y + dy });
+        const i = idx(cell.x, cell.y, n);
+        if (!g.blocked[i]) covered.add(i);
+      }
+    }
+  }
+
+  return {
+    spawnDistances,
+    spawnDistanceSpread,
+    chokepoints: countComponents(choke, n),
+    deadEndRatio: floor ? deadEnds / floor : 0,
+    coverDensity: floor ? covered.size / floor : 0,
+    openAreaPct: arenaCells ? (floor / arenaCells) * 100 : 0,
+  };
+}
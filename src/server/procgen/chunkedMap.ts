@@ -0,0 +1,158 @@
+/**
+ * Chunked block storage for arena maps: one Uint8Array of block ids per 16³ chunk (0 = air, all-air
+ * chunks omitted). Far smaller than a "x,y,z" keyed record, and two maps diff chunk by chunk so a round
+ * transition only rewrites what changed.
+ */
+
+import type { HytopiaMap } from "./specToMap";
+
+/** Matches the Hytopia chunk edge so a changed chunk maps onto one engine chunk. */
+export const CHUNK_SIZE = 16;
+
+const CHUNK_VOLUME = CHUNK_SIZE * CHUNK_SIZE * CHUNK_SIZE;
+
+/** Block ids fit a byte (Hytopia ids are 1..255). */
+const MAX_BLOCK_ID = 255;
+
+export type ChunkedMap = {
+  blockTypes: HytopiaMap["blockTypes"];
+  /** Keyed by chunk coordinate "cx,cy,cz"; cell index is (y * 16 + z) * 16 + x within the chunk. */
+  chunks: Map<string, Uint8Array>;
+};
+
+export type Vec3 = { x: number; y: number; z: number };
+
+export function createChunkedMap(blockTypes: HytopiaMap["blockTypes"] = []): ChunkedMap {
+  return { blockTypes, chunks: new Map() };
+}
+
+export function chunkKey(x: number, y: number, z: number): string {
+  return `${Math.floor(x / CHUNK_SIZE)},${Math.floor(y / CHUNK_SIZE)},${Math.floor(z / CHUNK_SIZE)}`;
+}
+
+function cellIndex(x: number, y: number, z: number): number {
+  const lx = x - Math.floor(x / CHUNK_SIZE) * CHUNK_SIZE;
+  const ly = y - Math.floor(y / CHUNK_SIZE) * CHUNK_SIZE;
+  const lz = z - Math.floor(z / CHUNK_SIZE) * CHUNK_SIZE;
+  return (ly * CHUNK_SIZE + lz) * CHUNK_SIZE + lx;
+}
+
+/** World coordinate of a chunk's min corner. */
+export function chunkOrigin(key: string): Vec3 {
+  const [cx, cy, cz] = key.split(",").map(Number);
+  return { x: cx * CHUNK_SIZE, y: cy * CHUNK_SIZE, z: cz * CHUNK_SIZE };
+}
+
+export function setChunkedBlock(map: ChunkedMap, x: number, y: number, z: number, id: number): void {
+  if (!Number.isInteger(id) || id < 0 || id > MAX_BLOCK_ID) throw new Error(`[chunkedMap] block id ${id} out of range`);
+  const key = chunkKey(x, y, z);
+  let chunk = map.chunks.get(key);
+  if (!chunk) {
+    if (id === 0) return;
+    chunk = new Uint8Array(CHUNK_VOLUME);
+    map.chunks.set(key, chunk);
+  }
+  chunk[cellIndex(x, y, z)] = id;
+}
+
+export function getChunkedBlock(map: ChunkedMap, x: number, y: number, z: number): number {
+  return map.chunks.get(chunkKey(x, y, z))?.[cellIndex(x, y, z)] ?? 0;
+}
+
+/** Visit every solid block of one chunk (or of the whole map when `key` is omitted). */
+export function forEachChunkedBlock(
+  map: ChunkedMap,
+  visit: (x: number, y: number, z: number, id: number) => void,
+  key?: string
+): void {
+  const keys = key !== undefined ? [key] : [...map.chunks.keys()];
+  for (const k of keys) {
+    const chunk = map.chunks.get(k);
+    if (!chunk) continue;
+    const o = chunkOrigin(k);
+    for (let i = 0; i < CHUNK_VOLUME; i++) {
+      if (chunk[i] === 0) continue;
+      const lx = i % CHUNK_SIZE;
+      const lz = Math.floor(i / CHUNK_SIZE) % CHUNK_SIZE;
+      const ly = Math.floor(i / (CHUNK_SIZE * CHUNK_SIZE));
+      visit(o.x + lx, o.y + ly, o.z + lz, chunk[i]);
+    }
+  }
+}
+
+export function countChunkedBlocks(map: ChunkedMap): number {
+  let n = 0;
+  for (const chunk of map.chunks.values()) for (let i = 0; i < CHUNK_VOLUME; i++) if (chunk[i] !== 0) n++;
+  return n;
+}
+
+export function chunkedFromMap(map: HytopiaMap): ChunkedMap {
+  const out = createChunkedMap(map.blockTypes);
+  for (const [key, id] of Object.entries(map.blocks)) {
+    const [x, y, z] = key.split(",").map(Number);
+    setChunkedBlock(out, x, y, z, id);
+  }
+  return out;
+}
+
+/** Expand back to the keyed record world.loadMap takes (full loads only). */
+export function chunkedToMap(map: ChunkedMap): HytopiaMap {
+  const blocks: Record<string, number> = {};
+  forEachChunkedBlock(map, (x, y, z, id) => {
+    blocks[`${x},${y},${z}`] = id;
+  });
+  return { blockTypes: map.blockTypes, blocks };
+}
+
+/** Keys of the chunks touching the inclusive box `min`..`max`. */
+export function chunksInBox(min: Vec3, max: Vec3): string[] {
+  const keys: string[] = [];
+  const lo = (v: number) => Math.floor(v / CHUNK_SIZE);
+  for (let cx = lo(min.x); cx <= lo(max.x); cx++) {
+    for (let cy = lo(min.y); cy <= lo(max.y); cy++) {
+      for (let cz = lo(min.z); cz <= lo(max.z); cz++) keys.push(`${cx},${cy},${cz}`);
+    }
+  }
+  return keys;
+}
+
+/** Keys of chunks whose contents differ between `prev` and `next` (missing = all air). */
+export function diffChunkedMaps(prev: ChunkedMap, next: ChunkedMap): string[] {
+  const changed: string[] = [];
+  for (const [key, chunk] of next.chunks) {
+    if (!sameChunk(prev.chunks.get(key), chunk)) changed.push(key);
+  }
+  for (const [key, chunk] of prev.chunks) {
+    if (!next.chunks.has(key) && !sameChunk(chunk, undefined)) changed.push(key);
+  }
+  return changed;
+}
+
+/** Cell-wise equality; a missing chunk reads as all air (a chunk cleared by writes may still be stored). */
+function sameChunk(a: Uint8Array | undefined, b: Uint8Array | undefined): boolean {
+  for (let i = 0; i < CHUNK_VOLUME; i++) if ((a ? a[i] : 0) !== (b ? b[i] : 0)) return false;
+  return true;
+}
+
+/**
+ * Visit the cells of chunk `key` that must be written to turn `prev` into `next` (id 0 = clear).
+ * With `prev` null the world's contents are unknown, so every cell is visited.
+ */
+export function forEachChunkChange(
+  prev: ChunkedMap | null,
+  next: ChunkedMap,
+  key: string,
+  visit: (x: number, y: number, z: number, id: number) => void
+): void {
+  const before = prev ? prev.chunks.get(key) : undefined;
+  const after = next.chunks.get(key);
+  const o = chunkOrigin(key);
+  for (let i = 0; i < CHUNK_VOLUME; i++) {
+    const id = after ? after[i] : 0;
+    if (prev && (before ? before[i] : 0) === id) continue;
+    const lx = i % CHUNK_SIZE;
+    const lz = Math.floor(i / CHUNK_SIZE) % CHUNK_SIZE;
+    const ly = Math.floor(i / (CHUNK_SIZE * CHUNK_SIZE));
+    visit(o.x + lx, o.y + ly, o.z + lz, id);
+  }
+}
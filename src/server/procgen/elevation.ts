@@ -0,0 +1,85 @@
+/**
+ * Floor height for MapSpecV2 (platforms, ramps/stairs, pits).
+ * Heights are whole blocks relative to the base floor (y=0 in world); V1 specs are flat everywhere.
+ */
+
+import type { MapSpec, MapSpecV2, Pit, Platform, Ramp, Rect } from "./spec";
+
+/** Highest step a player can walk up between adjacent cells without jumping. */
+export const MAX_CLIMB = 1;
+
+/** Platform heights the generator may use (and validateSpec accepts). */
+export const MIN_PLATFORM_HEIGHT = 2;
+export const MAX_PLATFORM_HEIGHT = 4;
+
+/** Deepest pit the generator may carve (and validateSpec accepts). */
+export const MAX_PIT_DEPTH = 3;
+
+export function isV2(spec: MapSpec): spec is MapSpecV2 {
+  return spec.v === 2;
+}
+
+function inRect(r: Rect, x: number, y: number): boolean {
+  return x >= r.x && x < r.x + r.w && y >= r.y && y < r.y + r.h;
+}
+
+/** Length of a ramp along its ascent axis. */
+export function rampLength(ramp: Ramp): number {
+  return ramp.dir === "+x" || ramp.dir === "-x" ? ramp.rect.w : ramp.rect.h;
+}
+
+/** Cells needed along the ascent axis so no step exceeds MAX_CLIMB (stairs) or half of it (ramp). */
+export function requiredRampLength(kind: Ramp["kind"], rise: number): number {
+  const steps = Math.ceil(Math.abs(rise) / MAX_CLIMB);
+  return kind === "ramp" ? steps * 2 : steps;
+}
+
+/**
+ * Height of a ramp cell. Index 0 is the low end (one step above fromHeight); the step between
+ * neighbouring cells never exceeds MAX_CLIMB as long as the ramp is at least requiredRampLength long.
+ */
+function rampHeightAt(ramp: Ramp, x: number, y: number): number {
+  const len = rampLength(ramp);
+  let i: number;
+  switch (ramp.dir) {
+    case "+x": i = x - ramp.rect.x; break;
+    case "-x": i = ramp.rect.x + ramp.rect.w - 1 - x; break;
+    case "+y": i = y - ramp.rect.y; break;
+    case "-y": i = ramp.rect.y + ramp.rect.h - 1 - y; break;
+  }
+  const rise = ramp.toHeight - ramp.fromHeight;
+  return ramp.fromHeight + Math.ceil(((i + 1) * rise) / (len + 1));
+}
+
+function pitHeightAt(pit: Pit, x: number, y: number): number | null {
+  const dx = x + 0.5 - pit.center.x;
+  const dy = y + 0.5 - pit.center.y;
+  const d = Math.sqrt(dx * dx + dy * dy);
+  if (d > pit.radius) return null;
+  return -Math.min(pit.depth, Math.ceil(pit.radius - d));
+}
+
+function platformHeightAt(p: Platform, x: number, y: number): number | null {
+  return inRect(p.rect, x, y) ? p.height : null;
+}
+
+/**
+ * Floor height at block (x, y) in spec space. Later features win: platforms, then ramps, then pits.
+ * Always 0 for V1 specs.
+ */
+export function floorHeightAt(spec: MapSpec, x: number, y: number): number {
+  if (!isV2(spec)) return 0;
+  let h = 0;
+  for (const p of spec.platforms) {
+    const ph = platformHeightAt(p, x, y);
+    if (ph != null) h = Math.max(h, ph);
+  }
+  for (const r of spec.ramps) {
+    if (inRect(r.rect, x, y)) h = rampHeightAt(r, x, y);
+  }
+  for (const pit of spec.pits) {
+    const ph = pitHeightAt(pit, x, y);
+    if (ph != null) h = ph;
+  }
+  return h;
+}
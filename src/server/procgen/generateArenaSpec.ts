@@ -1,278 +1,276 @@
 import { Rng } from "../../shared/rng/Rng";
-import { Cover, MapSpecV1, Rect, SpawnZone, Vec2, WallSegment } from "./spec";
+import type { ArenaLayout, Hazard, MapSpec, MapSpecV1, MapSpecV2, Pit, Platform, Ramp, Rect, Vec2 } from "./spec";
+import { bakeGridFromSpec, toCell, type BakedGrid } from "./gridBake";
+import { MAX_PIT_DEPTH, MAX_PLATFORM_HEIGHT, MIN_PLATFORM_HEIGHT, floorHeightAt, requiredRampLength } from "./elevation";
+import { JUMP_PAD_MAX_RISE, MAX_JUMP_PAD_SPEED, MAX_LAVA_DPS, MIN_JUMP_PAD_SPEED, MIN_LAVA_DPS } from "./hazards";
+import { getArenaGenerator } from "./generators/registry";
+import { dist, expandRect, polar, rectDist, rectsOverlap, rotateRectQuarter } from "./generators/shared";
 
 type Opts = {
   size?: number;     // default 250
-  rings?: 3 | 4 | 5; // 4–5 for tighter center maze
+  rings?: 3 | 4 | 5; // 4–5 for tighter center maze (rings layout only)
   teams?: 4;         // locked to 4
+  version?: 1 | 2;   // 2 = add platforms, ramps/stairs, pits and hazards on top of the v1 layout
+  layout?: ArenaLayout; // default "rings"; see generators/registry.ts
 };
 
-function clamp(n: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, n));
+export function generateArenaSpec(seed: string, opts: Opts = {}): MapSpec {
+  const generator = getArenaGenerator(opts.layout ?? "rings");
+  const base = generator.generate(seed, { size: opts.size ?? 250, rings: opts.rings });
+  return opts.version === 2 ? addHazards(addElevation(base)) : base;
 }
 
-function degToRad(d: number) {
-  return (d * Math.PI) / 180;
-}
-
-function polar(center: Vec2, radius: number, deg: number): Vec2 {
-  const a = degToRad(deg);
-  return { x: center.x + Math.cos(a) * radius, y: center.y + Math.sin(a) * radius };
-}
-
-// Approximate circular arc with chords
-function addRing(
-  segs: WallSegment[],
-  center: Vec2,
-  radius: number,
-  segments: number,
-  thickness: number,
-  gates: Set<number>,
-  tag: WallSegment["tag"]
-) {
-  for (let i = 0; i < segments; i++) {
-    if (gates.has(i)) continue; // skip this segment = gate/opening
-    const a0 = (i * 360) / segments;
-    const a1 = ((i + 1) * 360) / segments;
-    const p0 = polar(center, radius, a0);
-    const p1 = polar(center, radius, a1);
-    segs.push({ a: p0, b: p1, thickness, tag });
+/** True if every cell of r (grown by margin) is inside the arena and not covered by a wall. */
+function rectClearOfWalls(walls: BakedGrid, r: Rect, margin: number): boolean {
+  const e = expandRect(r, margin);
+  const ox = walls.originX ?? 0;
+  const oy = walls.originY ?? 0;
+  for (let y = e.y - oy; y < e.y + e.h - oy; y++) {
+    for (let x = e.x - ox; x < e.x + e.w - ox; x++) {
+      if (x < 0 || y < 0 || x >= walls.size || y >= walls.size) return false;
+      if (walls.blocked[y * walls.size + x]) return false;
+    }
   }
+  return true;
 }
 
-// Place a rectangular spawn pad near outer ring at an angle
-function spawnRectAtAngle(size: number, center: Vec2, outerR: number, angleDeg: number, padW: number, padH: number): Rect {
-  // point on outer ring, then pull inward a bit so rect fits
-  const inward = Math.max(6, Math.floor(padH / 2));
-  const p = polar(center, outerR - inward, angleDeg);
-
-  const x = Math.round(p.x - padW / 2);
-  const y = Math.round(p.y - padH / 2);
-
-  return {
-    x: clamp(x, 2, size - padW - 2),
-    y: clamp(y, 2, size - padH - 2),
-    w: padW,
-    h: padH,
-  };
-}
-
-function rectsOverlap(a: Rect, b: Rect): boolean {
-  return !(a.x + a.w <= b.x || b.x + b.w <= a.x || a.y + a.h <= b.y || b.y + b.h <= a.y);
-}
-
-function rectCenter(r: Rect): Vec2 {
-  return { x: r.x + r.w / 2, y: r.y + r.h / 2 };
+// Flat-floor flood fill from a spec-space point; returns a per-cell reached mask in the grid's local space.
+function floodFrom(walls: BakedGrid, start: Vec2): Uint8Array {
+  const n = walls.size;
+  const seen = new Uint8Array(n * n);
+  const sc = toCell(walls, start);
+  const queue = [sc.y * n + sc.x];
+  seen[queue[0]] = 1;
+  for (let qh = 0; qh < queue.length; qh++) {
+    const i = queue[qh];
+    const x = i % n;
+    const y = (i - x) / n;
+    for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+      if (nx < 0 || ny < 0 || nx >= n || ny >= n) continue;
+      const j = ny * n + nx;
+      if (seen[j] || walls.blocked[j]) continue;
+      seen[j] = 1;
+      queue.push(j);
+    }
+  }
+  return seen;
 }
 
-function dist(a: Vec2, b: Vec2) {
-  const dx = a.x - b.x;
-  const dy = a.y - b.y;
-  return Math.sqrt(dx * dx + dy * dy);
+// Cell just off the low end of a ramp, where players step onto it.
+function rampFoot(ramp: Ramp): Vec2 {
+  const { x, y, w, h } = ramp.rect;
+  switch (ramp.dir) {
+    case "+x": return { x: x - 1, y: y + Math.floor(h / 2) };
+    case "-x": return { x: x + w, y: y + Math.floor(h / 2) };
+    case "+y": return { x: x + Math.floor(w / 2), y: y - 1 };
+    case "-y": return { x: x + Math.floor(w / 2), y: y + h };
+  }
 }
 
-export function generateArenaSpec(seed: string, opts: Opts = {}): MapSpecV1 {
-  const size = opts.size ?? 250;
-  const rng = new Rng(seed);
-
-  const center: Vec2 = { x: Math.floor(size / 2), y: Math.floor(size / 2) };
-
-  // Tighter outer radius so center and lanes feel less wide open
-  const outerRadius = clamp(Math.floor(size * 0.40) + rng.int(-6, 8), 85, Math.floor(size / 2) - 6);
-
-  // Ring count: 4 or 5 for more concentric corridors and a tighter center maze
-  const numRings = (opts.rings ?? rng.pick([4, 5])) as 3 | 4 | 5;
-
-  // Narrower ring gaps; inner gaps smaller so we don't run out of radius
-  const ringGapBase = rng.int(10, 18);
-  const ringGapJitter = () => rng.int(-2, 3);
-  const innerGapScale = 0.7; // inner rings closer together
-
-  const r0 = outerRadius;
-  const ringRadii: number[] = [r0];
-  let rPrev = r0;
-  for (let i = 1; i < numRings; i++) {
-    const gap = i >= numRings - 1 ? (ringGapBase + ringGapJitter()) * innerGapScale : ringGapBase + ringGapJitter();
-    const rNext = clamp(rPrev - gap, i === numRings - 1 ? 16 : 20, rPrev - 6);
-    ringRadii.push(rNext);
-    rPrev = rNext;
+// Ramp rect hugging one side of a platform; dir is the direction of ascent toward the platform.
+function rampForSide(p: Platform, dir: Ramp["dir"], kind: Ramp["kind"], width: number): Ramp {
+  const len = requiredRampLength(kind, p.height);
+  const { x, y, w, h } = p.rect;
+  const offX = x + Math.floor((w - width) / 2);
+  const offY = y + Math.floor((h - width) / 2);
+  let rect: Rect;
+  switch (dir) {
+    case "+x": rect = { x: x - len, y: offY, w: len, h: width }; break;
+    case "-x": rect = { x: x + w, y: offY, w: len, h: width }; break;
+    case "+y": rect = { x: offX, y: y - len, w: width, h: len }; break;
+    case "-y": rect = { x: offX, y: y + h, w: width, h: len }; break;
   }
-  const innerR = ringRadii[ringRadii.length - 1];
-
-  // More segments and spokes = more maze corridors leading to center
-  const segments = rng.int(28, 40);
-  const spokes = rng.int(8, 14);
-
-  // 2–3 blocks: thick enough for corridors but gates stay open for connectivity
-  const wallThickness = rng.int(2, 3);
-
-  const wallSegments: WallSegment[] = [];
+  return { rect, dir, fromHeight: 0, toHeight: p.height, kind };
+}
 
-  // Fewer gates = more winding paths; keep one per quadrant for connectivity
-  const spreadGates = (count: number) => {
-    const s = new Set<number>();
-    const step = Math.max(1, Math.floor(segments / 4));
-    for (let q = 0; q < 4; q++) {
-      const base = (q * step + rng.int(0, Math.max(0, step - 1))) % segments;
-      s.add(base);
-    }
-    while (s.size < count) s.add(rng.int(0, segments - 1));
-    return s;
+/**
+ * V2 pass: raise platforms (each with at least one ramp or staircase) and sink pits in the lanes
+ * between rings. Uses its own RNG stream so the underlying v1 layout is identical for the same seed.
+ */
+function addElevation(base: MapSpecV1): MapSpecV2 {
+  const rng = new Rng(`${base.seed}:elev`);
+  const { center, ringRadii, spawnZones, objective } = base;
+  const r0 = ringRadii[0];
+  const walls = bakeGridFromSpec({ ...base, cover: [] }, 1);
+  const reachable = floodFrom(walls, objective.center);
+  const isReachable = (p: Vec2) => {
+    const c = toCell(walls, p);
+    return reachable[c.y * walls.size + c.x] === 1;
   };
 
-  // Gates per ring: outer has more, inner fewer so center is maze-like
-  for (let i = 0; i < ringRadii.length; i++) {
-    const gateCount = i === 0 ? rng.int(4, 6) : Math.max(3, rng.int(3, 5) - i);
-    const gates = spreadGates(gateCount);
-    const tag = i === 0 ? "perimeter" : "ring";
-    addRing(wallSegments, center, ringRadii[i], segments, wallThickness, gates, tag);
+  const platforms: Platform[] = [];
+  const ramps: Ramp[] = [];
+  const pits: Pit[] = [];
+  const taken: Rect[] = [];
+
+  const nearSpawn = (r: Rect) => spawnZones.some((s) => rectsOverlap(r, expandRect(s.rect, 4)));
+  const nearObjective = (r: Rect, margin: number) => rectDist(r, objective.center) < objective.radius + margin;
+  const nearTaken = (r: Rect) => taken.some((t) => rectsOverlap(expandRect(r, 3), t));
+  const fits = (r: Rect) => rectClearOfWalls(walls, r, 1) && !nearSpawn(r) && !nearObjective(r, 8) && !nearTaken(r);
+
+  const platformCount = rng.int(4, 8);
+  // Narrow layouts (lanes) can miss every early try; keep going longer until at least one platform lands
+  const maxTries = (placed: number) => platformCount * (placed === 0 ? 120 : 40);
+  for (let i = 0, tries = 0; i < platformCount && tries < maxTries(i); tries++) {
+    const w = rng.int(3, 6);
+    const h = rng.int(3, 6);
+    const p = polar(center, rng.int(objective.radius + 10, r0 - 8), rng.int(0, 359));
+    const platform: Platform = {
+      rect: { x: Math.round(p.x - w / 2), y: Math.round(p.y - h / 2), w, h },
+      height: rng.int(MIN_PLATFORM_HEIGHT, MAX_PLATFORM_HEIGHT),
+    };
+    if (!fits(platform.rect)) continue;
+
+    // Prefer the rolled kind; fall back to (shorter) stairs when a full ramp doesn't fit any side
+    const kinds: Ramp["kind"][] = rng.bool(0.5) ? ["ramp", "stairs"] : ["stairs"];
+    const width = Math.min(4, w, h);
+    const dirs = rng.shuffle<Ramp["dir"]>(["+x", "-x", "+y", "-y"]);
+    const ramp = kinds
+      .flatMap((kind) => dirs.map((dir) => rampForSide(platform, dir, kind, width)))
+      .find((r) => fits(r.rect) && isReachable(rampFoot(r)));
+    if (!ramp) continue;
+
+    platforms.push(platform);
+    ramps.push(ramp);
+    taken.push(platform.rect, ramp.rect);
+    i++;
   }
 
-  // Spokes: varied angles and more often with mid gaps for winding routes
-  const spokeAngles: number[] = [];
-  const baseAngles = rng.shuffle([0, 60, 120, 180, 240, 300, 30, 90, 150, 210, 270, 330]);
-  for (let i = 0; i < spokes; i++) {
-    const a = baseAngles[i % baseAngles.length] + rng.int(-12, 12);
-    spokeAngles.push((a + 360) % 360);
+  const pitCount = rng.int(2, 4);
+  for (let i = 0, tries = 0; i < pitCount && tries < pitCount * 30; tries++) {
+    const radius = rng.int(3, 6);
+    const p = polar(center, rng.int(objective.radius + 10, r0 - 8), rng.int(0, 359));
+    const pit: Pit = {
+      center: { x: Math.round(p.x), y: Math.round(p.y) },
+      radius,
+      depth: rng.int(1, MAX_PIT_DEPTH),
+    };
+    const bounds: Rect = { x: pit.center.x - radius, y: pit.center.y - radius, w: radius * 2, h: radius * 2 };
+    if (!fits(bounds)) continue;
+    pits.push(pit);
+    taken.push(bounds);
+    i++;
   }
 
-  for (const a of spokeAngles) {
-    const startR = r0 - rng.int(6, 12);
-    const endR = innerR + rng.int(2, 8);
+  // Cover would block ramp feet and float over pits; keep it to flat ground and platform tops.
+  const cover = base.cover.filter(
+    (c) =>
+      !ramps.some((r) => rectDist(expandRect(r.rect, 2), c.center) === 0) &&
+      !pits.some((pit) => dist(pit.center, c.center) <= pit.radius + 1)
+  );
 
-    const p0 = polar(center, startR, a);
-    const p1 = polar(center, endR, a);
+  return {
+    ...base,
+    v: 2,
+    cover,
+    maxHeight: platforms.reduce((m, p) => Math.max(m, p.height), 0),
+    platforms,
+    ramps,
+    pits,
+    hazards: [],
+  };
+}
 
-    // Often add one or two chokes so you have to wind around to reach center
-    const oneChoke = rng.bool(0.65);
-    const twoChokes = oneChoke && rng.bool(0.35); // two gaps = three segments on this spoke
-    if (twoChokes) {
-      const midR1 = startR + (endR - startR) * (0.35 + rng.int(0, 15) / 100);
-      const midR2 = startR + (endR - startR) * (0.6 + rng.int(0, 15) / 100);
-      const gap1 = rng.int(5, 10);
-      const gap2 = rng.int(5, 10);
-      const pA0 = polar(center, midR1 - gap1 / 2, a);
-      const pA1 = polar(center, midR1 + gap1 / 2, a);
-      const pB0 = polar(center, midR2 - gap2 / 2, a);
-      const pB1 = polar(center, midR2 + gap2 / 2, a);
-      wallSegments.push({ a: p0, b: pA0, thickness: wallThickness, tag: "spoke" });
-      wallSegments.push({ a: pA1, b: pB0, thickness: wallThickness, tag: "spoke" });
-      wallSegments.push({ a: pB1, b: p1, thickness: wallThickness, tag: "spoke" });
-    } else if (oneChoke) {
-      const midR = (startR + endR) / 2;
-      const gap = rng.int(6, 12);
-      const pA = polar(center, midR + gap / 2, a);
-      const pB = polar(center, midR - gap / 2, a);
-      wallSegments.push({ a: p0, b: pA, thickness: wallThickness, tag: "spoke" });
-      wallSegments.push({ a: pB, b: p1, thickness: wallThickness, tag: "spoke" });
-    } else {
-      wallSegments.push({ a: p0, b: p1, thickness: wallThickness, tag: "spoke" });
+/**
+ * V2 pass after elevation: lava strips and void pits (each void crossed by a moving platform), placed
+ * in the first quadrant and rotated to all four so symmetric layouts stay fair, plus jump pads up onto
+ * platforms. Own RNG stream, so walls and elevation are unchanged for the same seed.
+ */
+function addHazards(spec: MapSpecV2): MapSpecV2 {
+  const rng = new Rng(`${spec.seed}:hazards`);
+  const { center, ringRadii, spawnZones, objective } = spec;
+  const r0 = ringRadii[0];
+  const walls = bakeGridFromSpec({ ...spec, cover: [] }, 1);
+
+  const hazards: Hazard[] = [];
+  const taken: Rect[] = [
+    ...spec.platforms.map((p) => p.rect),
+    ...spec.ramps.map((r) => r.rect),
+    ...spec.pits.map((p) => ({ x: p.center.x - p.radius, y: p.center.y - p.radius, w: p.radius * 2, h: p.radius * 2 })),
+  ];
+
+  const flat = (r: Rect) => {
+    for (let y = r.y; y < r.y + r.h; y++) {
+      for (let x = r.x; x < r.x + r.w; x++) if (floorHeightAt(spec, x, y) !== 0) return false;
     }
-  }
-
-  // Objective: small center so the middle is a clear goal
-  const objectiveRadius = rng.int(6, 10); // blocks
-  const objective = { center, radius: objectiveRadius };
-
-  // Inner maze layer 1: radial walls just inside innermost ring — first barrier before center
-  const innerMazeSpokes = rng.int(5, 9);
-  const allAngles = [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330];
-  const innerMazeAngles = rng.shuffle([...allAngles]).slice(0, innerMazeSpokes);
-  for (const a of innerMazeAngles) {
-    const aDeg = (a + rng.int(-10, 10) + 360) % 360;
-    const startR = innerR - rng.int(2, 4);
-    const endR = innerR - rng.int(6, 12);
-    if (endR < objectiveRadius + 5) continue;
-    const p0 = polar(center, startR, aDeg);
-    const p1 = polar(center, endR, aDeg);
-    wallSegments.push({ a: p0, b: p1, thickness: wallThickness, tag: "spoke" });
-  }
-
-  // Inner maze layer 2: another ring of short radial walls closer to center — more corridors to navigate
-  const innerMaze2Spokes = rng.int(4, 8);
-  const innerMaze2Angles = rng.shuffle([...allAngles]).slice(0, innerMaze2Spokes);
-  const midInnerR = innerR - rng.int(8, 14); // band between layer 1 and objective
-  for (const a of innerMaze2Angles) {
-    const aDeg = (a + rng.int(-8, 8) + 360) % 360;
-    const startR = midInnerR + rng.int(2, 5);
-    const endR = midInnerR - rng.int(4, 9);
-    if (endR < objectiveRadius + 4) continue;
-    const p0 = polar(center, startR, aDeg);
-    const p1 = polar(center, endR, aDeg);
-    wallSegments.push({ a: p0, b: p1, thickness: wallThickness, tag: "spoke" });
-  }
-
-  // Objective: smaller center so the middle isn’t so vast
-  // Spawn zones: 4 outer pads at roughly quadrants, with per-team jitter and variable pad size
-  const padW = rng.int(10, 14);
-  const padH = rng.int(10, 14);
-
-  const baseSpawnAngles = [0, 90, 180, 270];
-  const spawnAngles = baseSpawnAngles.map((a) => (a + rng.int(-22, 22) + 360) % 360);
-
-  const spawnZones: SpawnZone[] = [];
-  for (let teamId = 0 as 0 | 1 | 2 | 3; teamId < 4; teamId = ((teamId + 1) as 0 | 1 | 2 | 3)) {
-    let rect = spawnRectAtAngle(size, center, r0, spawnAngles[teamId], padW, padH);
-
-    // ensure no overlap and keep distance
-    let attempts = 0;
-    while (attempts < 20) {
-      const overlaps = spawnZones.some((s) => rectsOverlap(rect, s.rect));
-      const farEnough = spawnZones.every((s) => dist(rectCenter(rect), rectCenter(s.rect)) > 30);
-      if (!overlaps && farEnough) break;
-
-      // jitter angle and retry
-      const jittered = (spawnAngles[teamId] + rng.int(-18, 18) + 360) % 360;
-      rect = spawnRectAtAngle(size, center, r0, jittered, padW, padH);
-      attempts++;
+    return true;
+  };
+  const nearSpawn = (r: Rect) => spawnZones.some((s) => rectsOverlap(r, expandRect(s.rect, 4)));
+  const nearObjective = (r: Rect) => rectDist(r, objective.center) < objective.radius + 8;
+  const nearTaken = (r: Rect) => taken.some((t) => rectsOverlap(expandRect(r, 3), t));
+  // Two clear cells to every wall, so a hazard never closes a corridor on its own
+  const fits = (r: Rect) => rectClearOfWalls(walls, r, 2) && flat(r) && !nearSpawn(r) && !nearObjective(r) && !nearTaken(r);
+
+  const placeSymmetric = (roll: () => Rect, make: (r: Rect) => Hazard[], count: number) => {
+    for (let i = 0, tries = 0; i < count && tries < count * 30; tries++) {
+      const rect = roll();
+      const copies = [0, 1, 2, 3].map((q) => rotateRectQuarter(center, rect, q));
+      if (!copies.every(fits) || copies.some((a, k) => copies.some((b, j) => j > k && rectsOverlap(expandRect(a, 3), b)))) continue;
+      for (const c of copies) {
+        hazards.push(...make(c));
+        taken.push(c);
+      }
+      i++;
     }
+  };
+  const rollRect = (w: number, h: number): Rect => {
+    const p = polar(center, rng.int(objective.radius + 12, r0 - 10), rng.int(5, 85));
+    return { x: Math.round(p.x - w / 2), y: Math.round(p.y - h / 2), w, h };
+  };
 
-    spawnZones.push({
-      teamId,
-      rect,
-      facingDeg: (spawnAngles[teamId] + 180) % 360, // face inward
-    });
-  }
-
-  // Cover + accents: more obstacles along the way so areas feel less wide open
-  const cover: Cover[] = [];
-  const coverCount = rng.int(100, 145);
-
-  const isInsideObjectiveNoCover = (p: Vec2) => dist(p, center) < objectiveRadius + 10; // donut
-  const isInsideSpawn = (p: Vec2) => spawnZones.some((s) => {
-    const r = s.rect;
-    return p.x >= r.x - 2 && p.x <= r.x + r.w + 2 && p.y >= r.y - 2 && p.y <= r.y + r.h + 2;
-  });
-
-  for (let i = 0; i < coverCount; i++) {
-    // sample radius between inner and outer ring so obstacles fill lanes and center approach
-    const rr = rng.int(innerR + 6, r0 - 10);
-    const aa = rng.int(0, 359);
-    const p = polar(center, rr, aa);
-
-    const pp: Vec2 = { x: clamp(Math.round(p.x), 2, size - 3), y: clamp(Math.round(p.y), 2, size - 3) };
-    if (isInsideObjectiveNoCover(pp)) continue;
-    if (isInsideSpawn(pp)) continue;
-
-    cover.push({
-      center: pp,
-      radius: rng.int(1, 2),
-      kind: rng.pick(["pillar", "crate", "lowwall"]),
+  const dps = rng.int(MIN_LAVA_DPS, MAX_LAVA_DPS);
+  placeSymmetric(
+    () => (rng.bool(0.5) ? rollRect(rng.int(4, 7), rng.int(2, 3)) : rollRect(rng.int(2, 3), rng.int(4, 7))),
+    (rect) => [{ kind: "lava", rect, damagePerSecond: dps }],
+    rng.int(1, 2)
+  );
+
+  const periodMs = rng.int(4, 7) * 1000;
+  placeSymmetric(
+    () => (rng.bool(0.5) ? rollRect(rng.int(6, 8), 3) : rollRect(3, rng.int(6, 8))),
+    (rect) => {
+      // Mover spans the short axis and shuttles along the long one, end to end
+      const alongX = rect.w >= rect.h;
+      const mover: Rect = alongX ? { x: rect.x, y: rect.y, w: 2, h: rect.h } : { x: rect.x, y: rect.y, w: rect.w, h: 2 };
+      const travel = alongX ? { x: rect.w - 2, y: 0 } : { x: 0, y: rect.h - 2 };
+      return [{ kind: "void", rect }, { kind: "mover", rect: mover, travel, periodMs }];
+    },
+    rng.int(0, 1)
+  );
+
+  // Jump pads on the floor beside a platform side without a ramp, facing up onto it
+  const padCount = Math.min(spec.platforms.length, rng.int(1, 3));
+  const candidates = rng.shuffle(spec.platforms.filter((p) => p.height <= JUMP_PAD_MAX_RISE));
+  for (const p of candidates.slice(0, padCount)) {
+    const { x, y, w, h } = p.rect;
+    const cx = x + Math.floor(w / 2) - 1;
+    const cy = y + Math.floor(h / 2) - 1;
+    const sides: { rect: Rect; facingDeg: number }[] = rng.shuffle([
+      { rect: { x: x - 2, y: cy, w: 2, h: 2 }, facingDeg: 0 },
+      { rect: { x: x + w, y: cy, w: 2, h: 2 }, facingDeg: 180 },
+      { rect: { x: cx, y: y - 2, w: 2, h: 2 }, facingDeg: 90 },
+      { rect: { x: cx, y: y + h, w: 2, h: 2 }, facingDeg: 270 },
+    ]);
+    const side = sides.find(
+      (s) =>
+        rectClearOfWalls(walls, s.rect, 1) &&
+        flat(s.rect) &&
+        !nearSpawn(s.rect) &&
+        !taken.some((t) => t !== p.rect && rectsOverlap(expandRect(s.rect, 1), t))
+    );
+    if (!side) continue;
+    hazards.push({
+      kind: "jumpPad",
+      rect: side.rect,
+      launchSpeed: rng.int(MIN_JUMP_PAD_SPEED, MAX_JUMP_PAD_SPEED),
+      facingDeg: side.facingDeg,
     });
+    taken.push(side.rect);
   }
 
-  return {
-    v: 1,
-    seed,
-    size,
-    center,
-    rings: numRings,
-    ringRadii,
-    segments,
-    spokes,
-    spawnZones,
-    objective,
-    wallSegments,
-    cover,
-  };
+  // Cover over a hole or on lava would float or be unreachable
+  const cover = spec.cover.filter(
+    (c) => !hazards.some((hz) => hz.kind !== "jumpPad" && rectDist(expandRect(hz.rect, 1), c.center) === 0)
+  );
+  return { ...spec, cover, hazards };
 }
@@ -1,36 +1,94 @@
 import { generateArenaSpec } from "./generateArenaSpec";
 import { validateSpec } from "./validateSpec";
 import { validateConnectivity } from "./validateConnectivity";
-import type { MapSpecV1 } from "./spec";
+import { layoutForSeed } from "./generators/registry";
+import { analyzeArena, DEFAULT_FAIRNESS_TOLERANCE } from "./analyzeArena";
+import type { ArenaLayout, MapSpec } from "./spec";
 
 export interface GenerateValidArenaOptions {
   size?: number;
+  /** Retries for arenas that fail validateSpec or validateConnectivity. Default 16. */
   attempts?: number;
+  /** Retries for valid arenas that fail the fairness check, counted apart from `attempts`. Default 16. */
+  fairnessAttempts?: number;
+  /** Spec version to generate (2 adds platforms, ramps and pits). Default 1. */
+  version?: 1 | 2;
+  /** Layout generator, or "auto" to pick one from the seed. Default "auto". */
+  layout?: ArenaLayout | "auto";
+  /** Max relative spread of spawn-to-objective path lengths (see analyzeArena). Default DEFAULT_FAIRNESS_TOLERANCE. */
+  fairnessTolerance?: number;
+}
+
+/** The check that turns `spec` down, or null when it passes them all. */
+export function arenaRejection(
+  spec: MapSpec,
+  tolerance = DEFAULT_FAIRNESS_TOLERANCE
+): { check: "validateSpec" | "validateConnectivity" | "fairness"; detail: string } | null {
+  const v = validateSpec(spec);
+  if (!v.ok) return { check: "validateSpec", detail: v.errors.join("; ") };
+  const c = validateConnectivity(spec);
+  if (!c.ok) return { check: "validateConnectivity", detail: c.errors.join("; ") };
+  const spread = analyzeArena(spec).spawnDistanceSpread;
+  if (spread > tolerance) return { check: "fairness", detail: `spawn spread ${spread.toFixed(3)} > ${tolerance}` };
+  return null;
+}
+
+/** Rings variants tried for the fallback before giving up on fairness and connectivity. */
+const FALLBACK_VARIANTS = 16;
+
+/**
+ * The rings arena used when no attempt passes: the first of a fixed run of variants per version and size that
+ * passes arenaRejection, so it's the same arena every time. `rejected` is set when none of them do.
+ */
+export function fallbackArena(
+  version: 1 | 2,
+  size: number,
+  tolerance = DEFAULT_FAIRNESS_TOLERANCE
+): { spec: MapSpec; usedSeed: string; rejected: ReturnType<typeof arenaRejection> } {
+  const base = `fallback_v${version}_size${size}_rings4`;
+  let first: { spec: MapSpec; usedSeed: string; rejected: ReturnType<typeof arenaRejection> } | null = null;
+  for (let i = 0; i < FALLBACK_VARIANTS; i++) {
+    const usedSeed = i === 0 ? base : `${base}:r${i}`;
+    const spec = generateArenaSpec(usedSeed, { size, rings: 4, teams: 4, version });
+    const rejected = arenaRejection(spec, tolerance);
+    if (!rejected) return { spec, usedSeed, rejected };
+    console.warn('[procgen] fallback variant rejected', { usedSeed, ...rejected });
+    first ??= { spec, usedSeed, rejected };
+  }
+  return first!;
 }
 
 export function generateValidArena(
   seed: string,
   attemptsOrOpts: number | GenerateValidArenaOptions = 16
-): { spec: MapSpecV1; attempt: number; usedSeed: string } {
+): { spec: MapSpec; attempt: number; usedSeed: string } {
   const opts: GenerateValidArenaOptions =
     typeof attemptsOrOpts === 'number' ? { attempts: attemptsOrOpts } : attemptsOrOpts;
   const attempts = opts.attempts ?? 16;
+  const fairnessAttempts = opts.fairnessAttempts ?? 16;
   const size = opts.size ?? 250;
-  const fallback = `fallback_v1_size${size}_rings4`;
-  for (let i = 0; i < attempts; i++) {
+  const version = opts.version ?? 1;
+  // Picked from the requested seed (not per retry) so retries keep the same topology
+  const layout = !opts.layout || opts.layout === "auto" ? layoutForSeed(seed) : opts.layout;
+  const tolerance = opts.fairnessTolerance ?? DEFAULT_FAIRNESS_TOLERANCE;
+  let invalid = 0;
+  let unfair = 0;
+  let i = 0;
+  for (; invalid < attempts && unfair < fairnessAttempts; i++) {
     const usedSeed = i === 0 ? seed : `${seed}:r${i}`;
-    const spec = generateArenaSpec(usedSeed, { size, rings: 4, teams: 4 });
-    const v = validateSpec(spec);
-    if (!v.ok) continue;
-    const c = validateConnectivity(spec);
-    if (!c.ok) continue;
-    return { spec, attempt: i + 1, usedSeed };
+    const spec = generateArenaSpec(usedSeed, { size, rings: 4, teams: 4, version, layout });
+    const rejected = arenaRejection(spec, tolerance);
+    if (!rejected) return { spec, attempt: i + 1, usedSeed };
+    if (rejected.check === "fairness") unfair++;
+    else invalid++;
+    console.warn('[procgen] attempt rejected', { usedSeed, ...rejected });
   }
-  const spec = generateArenaSpec(fallback, { size, rings: 4, teams: 4 });
-  console.error('[procgen] fallback triggered', { seed, attempt: attempts, usedSeed: fallback });
+  const { spec, usedSeed, rejected } = fallbackArena(version, size, tolerance);
+  console.error('[procgen] fallback triggered', { seed, attempt: i, usedSeed, invalid, unfair });
+  if (rejected) console.error('[procgen] no fallback variant passes either', { usedSeed, ...rejected });
   if (process.env.NODE_ENV !== 'production') {
     console.error('[procgen] hard fail in dev — no silent fallback');
     process.exit(1);
   }
-  return { spec, attempt: attempts + 1, usedSeed: fallback };
+  return { spec, attempt: i + 1, usedSeed };
 }
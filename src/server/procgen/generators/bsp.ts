@@ -0,0 +1,148 @@
+/**
+ * BSP rooms-and-corridors: one quadrant of the central square is split recursively, each leaf gets a room,
+ * and sibling subtrees are joined by L-shaped corridors (so the room graph is a connected tree). The
+ * quadrant is wired to the objective, its spawn pad and the next quadrant, then rotated onto the other
+ * three so every team gets the same building.
+ */
+
+import { Rng } from "../../../shared/rng/Rng";
+import type { Cover, MapSpecV1, SpawnZone, Vec2 } from "../spec";
+import type { ArenaGenerator, ArenaGeneratorOpts } from "./types";
+import { CellLattice, type Cell } from "./lattice";
+import { bandRadii, expandRect, polar, rectAround, rollOuterRadius, rotateQuarter, rotateRectQuarter } from "./shared";
+
+/** Smallest leaf side in lattice cells; leaves smaller than twice this are not split again. */
+const MIN_LEAF = 8;
+const MAX_DEPTH = 5;
+
+type CellRect = { i: number; j: number; w: number; h: number };
+
+function roomCenter(r: CellRect): Cell {
+  return { i: r.i + Math.floor(r.w / 2), j: r.j + Math.floor(r.h / 2) };
+}
+
+function cellDistSq(a: Cell, b: Cell): number {
+  return (a.i - b.i) ** 2 + (a.j - b.j) ** 2;
+}
+
+function nearestRoom(rooms: CellRect[], c: Cell): CellRect {
+  return rooms.reduce((best, r) => (cellDistSq(roomCenter(r), c) < cellDistSq(roomCenter(best), c) ? r : best));
+}
+
+function generateBspArena(seed: string, opts: ArenaGeneratorOpts): MapSpecV1 {
+  const size = opts.size;
+  const rng = new Rng(seed);
+  const center: Vec2 = { x: Math.floor(size / 2), y: Math.floor(size / 2) };
+  const outerRadius = rollOuterRadius(size, rng);
+  const lat = new CellLattice(center, outerRadius);
+
+  const rooms: CellRect[] = [];
+  const corridorW = rng.int(1, 2);
+
+  // Returns the rooms created under this node so the parent can join its two halves
+  const split = (node: CellRect, depth: number): CellRect[] => {
+    const canSplitW = node.w >= MIN_LEAF * 2;
+    const canSplitH = node.h >= MIN_LEAF * 2;
+    if (depth >= MAX_DEPTH || (!canSplitW && !canSplitH)) {
+      const w = rng.int(4, Math.max(4, node.w - 2));
+      const h = rng.int(4, Math.max(4, node.h - 2));
+      const room = {
+        i: node.i + rng.int(1, Math.max(1, node.w - w - 1)),
+        j: node.j + rng.int(1, Math.max(1, node.h - h - 1)),
+        w,
+        h,
+      };
+      for (let j = room.j; j < room.j + room.h; j++) {
+        for (let i = room.i; i < room.i + room.w; i++) lat.set(i, j, true);
+      }
+      rooms.push(room);
+      return [room];
+    }
+
+    const vertical = canSplitW && (!canSplitH || node.w > node.h * 1.25 || (node.h <= node.w * 1.25 && rng.bool()));
+    let a: CellRect;
+    let b: CellRect;
+    if (vertical) {
+      const at = rng.int(MIN_LEAF, node.w - MIN_LEAF);
+      a = { ...node, w: at };
+      b = { ...node, i: node.i + at, w: node.w - at };
+    } else {
+      const at = rng.int(MIN_LEAF, node.h - MIN_LEAF);
+      a = { ...node, h: at };
+      b = { ...node, j: node.j + at, h: node.h - at };
+    }
+    const roomsA = split(a, depth + 1);
+    const roomsB = split(b, depth + 1);
+    const ra = rng.pick(roomsA);
+    const rb = nearestRoom(roomsB, roomCenter(ra));
+    lat.carveCorridor(roomCenter(ra), roomCenter(rb), corridorW, rng.bool());
+    return [...roomsA, ...roomsB];
+  };
+
+  // First quadrant (+x, +y) of the square inscribed in the arena circle, with a little slack for corner rooms
+  const side = Math.floor(lat.half * 0.68);
+  split({ i: lat.half + 1, j: lat.half + 1, w: side, h: side }, 0);
+
+  const objectiveRadius = rng.int(6, 10);
+  const objective = { center, radius: objectiveRadius };
+  const mid = lat.cellAt(center);
+  lat.carveDisc(center, objectiveRadius + 5);
+  lat.carveCorridor(mid, roomCenter(nearestRoom(rooms, mid)), corridorW + 1, rng.bool());
+
+  // Loop between quadrants: the room nearest the +y axis joins the next quadrant's copy of the room
+  // nearest the +x axis, so routes don't all funnel through the objective
+  const edgeY = rooms.reduce((best, r) => (r.i < best.i ? r : best));
+  const edgeX = rooms.reduce((best, r) => (r.j < best.j ? r : best));
+  const nextX = lat.cellAt(rotateQuarter(center, lat.cellCenter(roomCenter(edgeX).i, roomCenter(edgeX).j), 1));
+  lat.carveCorridor(roomCenter(edgeY), nextX, corridorW, rng.bool());
+
+  // Team 0's pad sits in the corner between the room square and the arena wall; the rest are rotations
+  const padW = rng.int(10, 14);
+  const padH = rng.int(10, 14);
+  const spawnAngle = 45 + rng.int(-10, 10);
+  const rect0 = rectAround(polar(center, outerRadius - 16, spawnAngle), padW, padH);
+  lat.carveRect(expandRect(rect0, 2));
+  const pad = lat.cellAt({ x: rect0.x + rect0.w / 2, y: rect0.y + rect0.h / 2 });
+  lat.carveCorridor(pad, roomCenter(nearestRoom(rooms, pad)), corridorW + 1, rng.bool());
+
+  lat.mirrorQuarterTurns();
+  const spawnZones: SpawnZone[] = [0, 1, 2, 3].map((q) => ({
+    teamId: q as SpawnZone["teamId"],
+    rect: rotateRectQuarter(center, rect0, q),
+    facingDeg: (spawnAngle + q * 90 + 180) % 360,
+  }));
+
+  const wallSegments = lat.toWallSegments("room");
+
+  // A crate or pillar in some of the bigger rooms (and the same spot in each rotated copy)
+  const cover: Cover[] = [];
+  for (const r of rooms) {
+    if (r.w < 6 || r.h < 6 || !rng.bool(0.6)) continue;
+    const c = { i: r.i + rng.int(2, r.w - 3), j: r.j + rng.int(2, r.h - 3) };
+    const kind = rng.pick<Cover["kind"]>(["pillar", "crate"]);
+    for (let q = 0; q < 4; q++) {
+      cover.push({ center: rotateQuarter(center, lat.cellCenter(c.i, c.j), q), radius: 1, kind });
+    }
+  }
+
+  return {
+    v: 1,
+    seed,
+    size,
+    center,
+    layout: "bsp",
+    rings: 4,
+    ringRadii: bandRadii(outerRadius),
+    segments: 0,
+    spokes: 0,
+    spawnZones,
+    objective,
+    wallSegments,
+    cover,
+  };
+}
+
+export const bspGenerator: ArenaGenerator = {
+  name: "bsp",
+  generate: generateBspArena,
+};
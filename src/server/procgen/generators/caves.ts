@@ -0,0 +1,113 @@
+/**
+ * Cellular-automata caves: noisy fill smoothed into organic chambers, with winding tunnels guaranteed
+ * from every spawn to the central objective chamber. Sealed pockets are filled in.
+ */
+
+import { Rng } from "../../../shared/rng/Rng";
+import type { Cover, MapSpecV1, Vec2 } from "../spec";
+import type { ArenaGenerator, ArenaGeneratorOpts } from "./types";
+import { CellLattice } from "./lattice";
+import { bandRadii, dist, expandRect, polar, rectDist, rollOuterRadius, spawnZonesAt } from "./shared";
+
+const SMOOTH_PASSES = 4;
+
+function wallNeighbours(lat: CellLattice, i: number, j: number): number {
+  let walls = 0;
+  for (let dj = -1; dj <= 1; dj++) {
+    for (let di = -1; di <= 1; di++) {
+      if ((di !== 0 || dj !== 0) && !lat.isOpen(i + di, j + dj)) walls++;
+    }
+  }
+  return walls;
+}
+
+// 4-5 rule: a cell becomes wall with 5+ wall neighbours, stays wall with 4
+function smooth(lat: CellLattice): void {
+  const next = new Uint8Array(lat.open.length);
+  for (let j = 0; j < lat.n; j++) {
+    for (let i = 0; i < lat.n; i++) {
+      if (!lat.inside(i, j)) continue;
+      const walls = wallNeighbours(lat, i, j);
+      const wasOpen = lat.isOpen(i, j);
+      next[j * lat.n + i] = walls >= 5 || (walls === 4 && !wasOpen) ? 0 : 1;
+    }
+  }
+  lat.open.set(next);
+}
+
+function generateCavesArena(seed: string, opts: ArenaGeneratorOpts): MapSpecV1 {
+  const size = opts.size;
+  const rng = new Rng(seed);
+  const center: Vec2 = { x: Math.floor(size / 2), y: Math.floor(size / 2) };
+  const outerRadius = rollOuterRadius(size, rng);
+  const lat = new CellLattice(center, outerRadius);
+
+  const fill = rng.int(50, 55) / 100;
+  for (let j = 0; j < lat.n; j++) {
+    for (let i = 0; i < lat.n; i++) lat.set(i, j, rng.float() >= fill);
+  }
+  for (let p = 0; p < SMOOTH_PASSES; p++) smooth(lat);
+
+  const objectiveRadius = rng.int(6, 10);
+  const objective = { center, radius: objectiveRadius };
+  lat.carveDisc(center, objectiveRadius + 6);
+
+  const padW = rng.int(10, 14);
+  const padH = rng.int(10, 14);
+  const spawnAngles = [0, 90, 180, 270].map((a) => (a + rng.int(-22, 22) + 360) % 360);
+  const spawnZones = spawnZonesAt(center, outerRadius - 16, spawnAngles, padW, padH);
+
+  // Tunnel from each pad to the centre through two jittered waypoints so routes don't run straight in.
+  // Every team's tunnel bends the same way (same offsets from its own spawn angle) so the guaranteed
+  // routes are equally long and only the cave noise between them differs.
+  const tunnelR = rng.int(3, 5);
+  const bend1 = rng.int(-30, 30);
+  const bend2 = rng.int(-40, 40);
+  spawnZones.forEach((s, k) => {
+    lat.carveRect(expandRect(s.rect, 2));
+    const a = spawnAngles[k];
+    const from = { x: s.rect.x + s.rect.w / 2, y: s.rect.y + s.rect.h / 2 };
+    const wp1 = polar(center, outerRadius * 0.62, a + bend1);
+    const wp2 = polar(center, outerRadius * 0.32, a + bend2);
+    lat.carvePath(from, wp1, tunnelR);
+    lat.carvePath(wp1, wp2, tunnelR);
+    lat.carvePath(wp2, center, tunnelR);
+  });
+
+  lat.fillUnreached(lat.cellAt(center));
+  const wallSegments = lat.toWallSegments("cave");
+
+  // Sparse cover on open floor; the caves already break sight lines
+  const cover: Cover[] = [];
+  const openCells = lat.openCells();
+  const coverCount = rng.int(35, 60);
+  for (let k = 0; k < coverCount; k++) {
+    const c = rng.pick(openCells);
+    if (!lat.isClearAround(c.i, c.j)) continue;
+    const p = lat.cellCenter(c.i, c.j);
+    if (dist(p, center) < objectiveRadius + 10) continue;
+    if (spawnZones.some((s) => rectDist(s.rect, p) < 3)) continue;
+    cover.push({ center: p, radius: 1, kind: rng.pick(["pillar", "crate", "lowwall"]) });
+  }
+
+  return {
+    v: 1,
+    seed,
+    size,
+    center,
+    layout: "caves",
+    rings: 4,
+    ringRadii: bandRadii(outerRadius),
+    segments: 0,
+    spokes: 0,
+    spawnZones,
+    objective,
+    wallSegments,
+    cover,
+  };
+}
+
+export const cavesGenerator: ArenaGenerator = {
+  name: "caves",
+  generate: generateCavesArena,
+};
@@ -0,0 +1,114 @@
+/**
+ * Symmetric lane map for team play. One octant is designed and mirrored eight ways, so every team's base
+ * sees the same geometry: a mid lane straight to the objective, an outer ring lane between neighbouring
+ * bases, an inner flank ring, and diagonal cross-lanes joining the two rings.
+ */
+
+import { Rng } from "../../../shared/rng/Rng";
+import type { Cover, MapSpecV1, Vec2 } from "../spec";
+import type { ArenaGenerator, ArenaGeneratorOpts } from "./types";
+import { CellLattice } from "./lattice";
+import { bandRadii, dist, polar, rectAround, rollOuterRadius } from "./shared";
+
+/** All eight reflections of p about the centre (x/y mirrors and the diagonal swap). */
+function mirrored(center: Vec2, p: Vec2): Vec2[] {
+  const dx = p.x - center.x;
+  const dy = p.y - center.y;
+  const out: Vec2[] = [];
+  for (const [ax, ay] of [[dx, dy], [dy, dx]]) {
+    for (const sx of [1, -1]) {
+      for (const sy of [1, -1]) out.push({ x: center.x + ax * sx, y: center.y + ay * sy });
+    }
+  }
+  return out;
+}
+
+function generateLanesArena(seed: string, opts: ArenaGeneratorOpts): MapSpecV1 {
+  const size = opts.size;
+  const rng = new Rng(seed);
+  const center: Vec2 = { x: Math.floor(size / 2), y: Math.floor(size / 2) };
+  const outerRadius = rollOuterRadius(size, rng);
+  const lat = new CellLattice(center, outerRadius);
+
+  const carvePathSym = (a: Vec2, b: Vec2, r: number) => {
+    const as = mirrored(center, a);
+    const bs = mirrored(center, b);
+    for (let k = 0; k < as.length; k++) lat.carvePath(as[k], bs[k], r);
+  };
+  // Arc within the first octant (0..45 deg); mirroring closes it into a full ring
+  const carveArcSym = (radius: number, r: number) => {
+    const steps = 12;
+    for (let s = 0; s < steps; s++) {
+      carvePathSym(polar(center, radius, (45 * s) / steps), polar(center, radius, (45 * (s + 1)) / steps), r);
+    }
+  };
+
+  const baseDist = outerRadius - 16;
+  const midR = rng.int(3, 5);
+  const ringR = rng.int(3, 4);
+  const innerRing = rng.int(Math.round(outerRadius * 0.38), Math.round(outerRadius * 0.52));
+  const base = polar(center, baseDist, 0);
+
+  carvePathSym(base, center, midR);
+  carveArcSym(baseDist, ringR);
+  carveArcSym(innerRing, ringR);
+
+  // Cross-lane from the outer ring to the inner ring, angled back toward the mid lane
+  const crossFrom = rng.int(20, 40);
+  const crossTo = rng.int(5, crossFrom);
+  carvePathSym(polar(center, baseDist, crossFrom), polar(center, innerRing, crossTo), ringR);
+
+  const objectiveRadius = rng.int(6, 10);
+  const objective = { center, radius: objectiveRadius };
+  lat.carveDisc(center, objectiveRadius + 6);
+
+  const pad = rng.int(10, 14);
+  for (const p of mirrored(center, base)) lat.carveDisc(p, pad / 2 + 4);
+
+  // Exactly the four axis bases; with equal pad sides the rects are mirror images of each other
+  const spawnZones = [0, 90, 180, 270].map((a, teamId) => ({
+    teamId: teamId as 0 | 1 | 2 | 3,
+    rect: rectAround(polar(center, baseDist, a), pad, pad),
+    facingDeg: (a + 180) % 360,
+  }));
+
+  const wallSegments = lat.toWallSegments("lane");
+
+  // Pillars along the lanes, mirrored like everything else (dedupe points on a mirror axis)
+  const cover: Cover[] = [];
+  const seen = new Set<string>();
+  const pillarCount = rng.int(4, 9);
+  for (let k = 0; k < pillarCount; k++) {
+    const p = polar(center, rng.int(objectiveRadius + 12, baseDist - 10), rng.int(0, 45));
+    const cell = lat.cellAt(p);
+    if (!lat.isClearAround(cell.i, cell.j)) continue;
+    const kind = rng.pick(["pillar", "crate", "lowwall"] as const);
+    for (const m of mirrored(center, lat.cellCenter(cell.i, cell.j))) {
+      const key = `${m.x},${m.y}`;
+      if (seen.has(key) || dist(m, center) < objectiveRadius + 10) continue;
+      seen.add(key);
+      cover.push({ center: m, radius: 1, kind });
+    }
+  }
+
+  return {
+    v: 1,
+    seed,
+    size,
+    center,
+    layout: "lanes",
+    rings: 4,
+    ringRadii: bandRadii(outerRadius),
+    segments: 0,
+    spokes: 0,
+    spawnZones,
+    objective,
+    wallSegments,
+    cover,
+  };
+}
+
+export const lanesGenerator: ArenaGenerator = {
+  name: "lanes",
+  generate: generateLanesArena,
+};
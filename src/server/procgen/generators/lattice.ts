@@ -0,0 +1,193 @@
+/**
+ * Coarse cell grid for the carve-style layouts (caves, bsp, lanes).
+ * Each cell is LATTICE_CELL blocks square and centred on spec.center, so a closed cell bakes to exactly
+ * its 3x3 block footprint (wall segment thickness 1 stamps ±1 around the cell centre).
+ */
+
+import type { Rect, Vec2, WallSegment } from "../spec";
+
+export const LATTICE_CELL = 3;
+
+export type Cell = { i: number; j: number };
+
+export class CellLattice {
+  readonly half: number;
+  readonly n: number;
+  /** 1 = open floor, 0 = wall. Everything starts as wall. */
+  readonly open: Uint8Array;
+
+  constructor(readonly center: Vec2, readonly radius: number) {
+    this.half = Math.ceil(radius / LATTICE_CELL) + 1;
+    this.n = this.half * 2 + 1;
+    this.open = new Uint8Array(this.n * this.n);
+  }
+
+  cellCenter(i: number, j: number): Vec2 {
+    return {
+      x: this.center.x + (i - this.half) * LATTICE_CELL,
+      y: this.center.y + (j - this.half) * LATTICE_CELL,
+    };
+  }
+
+  cellAt(p: Vec2): Cell {
+    return {
+      i: this.half + Math.round((p.x - this.center.x) / LATTICE_CELL),
+      j: this.half + Math.round((p.y - this.center.y) / LATTICE_CELL),
+    };
+  }
+
+  /** Cell may be opened: on the lattice and far enough inside the arena radius that its blocks stay in the bake. */
+  inside(i: number, j: number): boolean {
+    if (i < 0 || j < 0 || i >= this.n || j >= this.n) return false;
+    const dx = (i - this.half) * LATTICE_CELL;
+    const dy = (j - this.half) * LATTICE_CELL;
+    return Math.sqrt(dx * dx + dy * dy) <= this.radius - LATTICE_CELL;
+  }
+
+  isOpen(i: number, j: number): boolean {
+    return this.inside(i, j) && this.open[j * this.n + i] === 1;
+  }
+
+  /** Cell and all eight neighbours are open (room for a 3x3 obstacle without plugging a passage). */
+  isClearAround(i: number, j: number): boolean {
+    for (let dj = -1; dj <= 1; dj++) {
+      for (let di = -1; di <= 1; di++) {
+        if (!this.isOpen(i + di, j + dj)) return false;
+      }
+    }
+    return true;
+  }
+
+  set(i: number, j: number, open: boolean): void {
+    if (!this.inside(i, j)) return;
+    this.open[j * this.n + i] = open ? 1 : 0;
+  }
+
+  /** Open every cell whose centre is within r blocks of p. */
+  carveDisc(p: Vec2, r: number): void {
+    const c = this.cellAt(p);
+    const span = Math.ceil(r / LATTICE_CELL) + 1;
+    for (let j = c.j - span; j <= c.j + span; j++) {
+      for (let i = c.i - span; i <= c.i + span; i++) {
+        const cc = this.cellCenter(i, j);
+        const dx = cc.x - p.x;
+        const dy = cc.y - p.y;
+        if (dx * dx + dy * dy <= r * r) this.set(i, j, true);
+      }
+    }
+  }
+
+  /** Open every cell overlapping the block rect. */
+  carveRect(r: Rect): void {
+    const a = this.cellAt({ x: r.x, y: r.y });
+    const b = this.cellAt({ x: r.x + r.w - 1, y: r.y + r.h - 1 });
+    for (let j = a.j; j <= b.j; j++) {
+      for (let i = a.i; i <= b.i; i++) this.set(i, j, true);
+    }
+  }
+
+  /** Straight corridor of half-width r blocks from a to b. */
+  carvePath(a: Vec2, b: Vec2, r: number): void {
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    const steps = Math.max(1, Math.ceil(len / (LATTICE_CELL / 2)));
+    for (let s = 0; s <= steps; s++) {
+      const t = s / steps;
+      this.carveDisc({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }, r);
+    }
+  }
+
+  /** L-shaped corridor `width` cells wide between two cells. */
+  carveCorridor(a: Cell, b: Cell, width: number, horizontalFirst: boolean): void {
+    const corner: Cell = horizontalFirst ? { i: b.i, j: a.j } : { i: a.i, j: b.j };
+    this.carveCellLine(a, corner, width);
+    this.carveCellLine(corner, b, width);
+  }
+
+  private carveCellLine(a: Cell, b: Cell, width: number): void {
+    const i0 = Math.min(a.i, b.i);
+    const i1 = Math.max(a.i, b.i) + (a.j === b.j ? 0 : width - 1);
+    const j0 = Math.min(a.j, b.j);
+    const j1 = Math.max(a.j, b.j) + (a.i === b.i ? 0 : width - 1);
+    for (let j = j0; j <= j1; j++) {
+      for (let i = i0; i <= i1; i++) this.set(i, j, true);
+    }
+  }
+
+  /** Open every rotation (90°, 180°, 270° about the centre cell) of each open cell: 4-fold symmetric floor. */
+  mirrorQuarterTurns(): void {
+    const h = this.half;
+    for (const c of this.openCells()) {
+      let di = c.i - h;
+      let dj = c.j - h;
+      for (let k = 0; k < 3; k++) {
+        [di, dj] = [-dj, di];
+        this.set(h + di, h + dj, true);
+      }
+    }
+  }
+
+  /** Open cells 4-connected to `from`. */
+  flood(from: Cell): Uint8Array {
+    const seen = new Uint8Array(this.n * this.n);
+    if (!this.isOpen(from.i, from.j)) return seen;
+    const queue = [from.j * this.n + from.i];
+    seen[queue[0]] = 1;
+    for (let qh = 0; qh < queue.length; qh++) {
+      const k = queue[qh];
+      const i = k % this.n;
+      const j = (k - i) / this.n;
+      for (const [ni, nj] of [[i + 1, j], [i - 1, j], [i, j + 1], [i, j - 1]]) {
+        if (!this.isOpen(ni, nj)) continue;
+        const nk = nj * this.n + ni;
+        if (seen[nk]) continue;
+        seen[nk] = 1;
+        queue.push(nk);
+      }
+    }
+    return seen;
+  }
+
+  /** Wall off open pockets that can't be reached from `from` (no pickups stranded in sealed caves). */
+  fillUnreached(from: Cell): void {
+    const reached = this.flood(from);
+    for (let k = 0; k < this.open.length; k++) {
+      if (this.open[k] && !reached[k]) this.open[k] = 0;
+    }
+  }
+
+  openCells(): Cell[] {
+    const out: Cell[] = [];
+    for (let j = 0; j < this.n; j++) {
+      for (let i = 0; i < this.n; i++) {
+        if (this.open[j * this.n + i]) out.push({ i, j });
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Closed cells as wall segments, one per horizontal run. Cells beyond the arena radius are skipped
+   * since the grid bake already blocks everything outside ringRadii[0].
+   */
+  toWallSegments(tag: WallSegment["tag"]): WallSegment[] {
+    const segs: WallSegment[] = [];
+    const limit = this.radius + LATTICE_CELL * 2;
+    const emit = (j: number, i0: number, i1: number) => {
+      segs.push({ a: this.cellCenter(i0, j), b: this.cellCenter(i1, j), thickness: 1, tag });
+    };
+    for (let j = 0; j < this.n; j++) {
+      let runStart = -1;
+      for (let i = 0; i < this.n; i++) {
+        const c = this.cellCenter(i, j);
+        const wall = !this.open[j * this.n + i] && Math.hypot(c.x - this.center.x, c.y - this.center.y) <= limit;
+        if (wall && runStart < 0) runStart = i;
+        if (!wall && runStart >= 0) {
+          emit(j, runStart, i - 1);
+          runStart = -1;
+        }
+      }
+      if (runStart >= 0) emit(j, runStart, this.n - 1);
+    }
+    return segs;
+  }
+}
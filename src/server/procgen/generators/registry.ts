@@ -0,0 +1,29 @@
+import { Rng } from "../../../shared/rng/Rng";
+import type { ArenaLayout } from "../spec";
+import type { ArenaGenerator } from "./types";
+import { ringsGenerator } from "./rings";
+import { cavesGenerator } from "./caves";
+import { bspGenerator } from "./bsp";
+import { lanesGenerator } from "./lanes";
+
+const GENERATORS: Record<ArenaLayout, ArenaGenerator> = {
+  rings: ringsGenerator,
+  caves: cavesGenerator,
+  bsp: bspGenerator,
+  lanes: lanesGenerator,
+};
+
+export const ARENA_LAYOUTS = Object.keys(GENERATORS) as ArenaLayout[];
+
+export function isArenaLayout(name: string): name is ArenaLayout {
+  return Object.prototype.hasOwnProperty.call(GENERATORS, name);
+}
+
+export function getArenaGenerator(layout: ArenaLayout): ArenaGenerator {
+  return GENERATORS[layout];
+}
+
+/** Layout for "auto" arenas: deterministic per seed so a replayed seed gets the same topology. */
+export function layoutForSeed(seed: string): ArenaLayout {
+  return new Rng(`${seed}:layout`).pick(ARENA_LAYOUTS);
+}
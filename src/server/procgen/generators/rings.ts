@@ -0,0 +1,218 @@
+/**
+ * Classic layout: concentric rings with gates, radial spokes and an inner maze around the objective.
+ * The first quadrant is rotated onto the other three so all four spawns have identical routes in.
+ */
+
+import { Rng } from "../../../shared/rng/Rng";
+import type { Cover, MapSpecV1, SpawnZone, Vec2, WallSegment } from "../spec";
+import type { ArenaGenerator, ArenaGeneratorOpts } from "./types";
+import {
+  addRing,
+  clamp,
+  dist,
+  inFirstQuadrant,
+  polar,
+  rotateQuarter,
+  rotateRectQuarter,
+  spawnRectAtAngle,
+} from "./shared";
+
+function generateRingsArena(seed: string, opts: ArenaGeneratorOpts): MapSpecV1 {
+  const size = opts.size;
+  const rng = new Rng(seed);
+
+  const center: Vec2 = { x: Math.floor(size / 2), y: Math.floor(size / 2) };
+
+  // Tighter outer radius so center and lanes feel less wide open
+  const outerRadius = clamp(Math.floor(size * 0.40) + rng.int(-6, 8), 85, Math.floor(size / 2) - 6);
+
+  // Ring count: 4 or 5 for more concentric corridors and a tighter center maze
+  const numRings = (opts.rings ?? rng.pick([4, 5])) as 3 | 4 | 5;
+
+  // Narrower ring gaps; inner gaps smaller so we don't run out of radius
+  const ringGapBase = rng.int(10, 18);
+  const ringGapJitter = () => rng.int(-2, 3);
+  const innerGapScale = 0.7; // inner rings closer together
+
+  const r0 = outerRadius;
+  const ringRadii: number[] = [r0];
+  let rPrev = r0;
+  for (let i = 1; i < numRings; i++) {
+    const gap = i >= numRings - 1 ? (ringGapBase + ringGapJitter()) * innerGapScale : ringGapBase + ringGapJitter();
+    const rNext = clamp(rPrev - gap, i === numRings - 1 ? 16 : 20, rPrev - 6);
+    ringRadii.push(rNext);
+    rPrev = rNext;
+  }
+  const innerR = ringRadii[ringRadii.length - 1];
+
+  // More segments and spokes = more maze corridors leading to center.
+  // Multiple of 4 so ring chords never straddle a quadrant boundary (see symmetry pass below).
+  const segments = rng.int(7, 10) * 4;
+  const spokes = rng.int(8, 14);
+
+  // 2–3 blocks: thick enough for corridors but gates stay open for connectivity
+  const wallThickness = rng.int(2, 3);
+
+  const wallSegments: WallSegment[] = [];
+
+  // Fewer gates = more winding paths; keep one per quadrant for connectivity
+  const spreadGates = (count: number) => {
+    const s = new Set<number>();
+    const step = Math.max(1, Math.floor(segments / 4));
+    for (let q = 0; q < 4; q++) {
+      const base = (q * step + rng.int(0, Math.max(0, step - 1))) % segments;
+      s.add(base);
+    }
+    while (s.size < count) s.add(rng.int(0, segments - 1));
+    return s;
+  };
+
+  // Gates per ring: outer has more, inner fewer so center is maze-like
+  for (let i = 0; i < ringRadii.length; i++) {
+    const gateCount = i === 0 ? rng.int(4, 6) : Math.max(3, rng.int(3, 5) - i);
+    const gates = spreadGates(gateCount);
+    const tag = i === 0 ? "perimeter" : "ring";
+    addRing(wallSegments, center, ringRadii[i], segments, wallThickness, gates, tag);
+  }
+
+  // Spokes: varied angles and more often with mid gaps for winding routes
+  const spokeAngles: number[] = [];
+  const baseAngles = rng.shuffle([0, 60, 120, 180, 240, 300, 30, 90, 150, 210, 270, 330]);
+  for (let i = 0; i < spokes; i++) {
+    const a = baseAngles[i % baseAngles.length] + rng.int(-12, 12);
+    spokeAngles.push((a + 360) % 360);
+  }
+
+  for (const a of spokeAngles) {
+    const startR = r0 - rng.int(6, 12);
+    const endR = innerR + rng.int(2, 8);
+
+    const p0 = polar(center, startR, a);
+    const p1 = polar(center, endR, a);
+
+    // Often add one or two chokes so you have to wind around to reach center
+    const oneChoke = rng.bool(0.65);
+    const twoChokes = oneChoke && rng.bool(0.35); // two gaps = three segments on this spoke
+    if (twoChokes) {
+      const midR1 = startR + (endR - startR) * (0.35 + rng.int(0, 15) / 100);
+      const midR2 = startR + (endR - startR) * (0.6 + rng.int(0, 15) / 100);
+      const gap1 = rng.int(5, 10);
+      const gap2 = rng.int(5, 10);
+      const pA0 = polar(center, midR1 - gap1 / 2, a);
+      const pA1 = polar(center, midR1 + gap1 / 2, a);
+      const pB0 = polar(center, midR2 - gap2 / 2, a);
+      const pB1 = polar(center, midR2 + gap2 / 2, a);
+      wallSegments.push({ a: p0, b: pA0, thickness: wallThickness, tag: "spoke" });
+      wallSegments.push({ a: pA1, b: pB0, thickness: wallThickness, tag: "spoke" });
+      wallSegments.push({ a: pB1, b: p1, thickness: wallThickness, tag: "spoke" });
+    } else if (oneChoke) {
+      const midR = (startR + endR) / 2;
+      const gap = rng.int(6, 12);
+      const pA = polar(center, midR + gap / 2, a);
+      const pB = polar(center, midR - gap / 2, a);
+      wallSegments.push({ a: p0, b: pA, thickness: wallThickness, tag: "spoke" });
+      wallSegments.push({ a: pB, b: p1, thickness: wallThickness, tag: "spoke" });
+    } else {
+      wallSegments.push({ a: p0, b: p1, thickness: wallThickness, tag: "spoke" });
+    }
+  }
+
+  // Objective: small center so the middle is a clear goal
+  const objectiveRadius = rng.int(6, 10); // blocks
+  const objective = { center, radius: objectiveRadius };
+
+  // Inner maze layer 1: radial walls just inside innermost ring — first barrier before center
+  const innerMazeSpokes = rng.int(5, 9);
+  const allAngles = [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330];
+  const innerMazeAngles = rng.shuffle([...allAngles]).slice(0, innerMazeSpokes);
+  for (const a of innerMazeAngles) {
+    const aDeg = (a + rng.int(-10, 10) + 360) % 360;
+    const startR = innerR - rng.int(2, 4);
+    const endR = innerR - rng.int(6, 12);
+    if (endR < objectiveRadius + 5) continue;
+    const p0 = polar(center, startR, aDeg);
+    const p1 = polar(center, endR, aDeg);
+    wallSegments.push({ a: p0, b: p1, thickness: wallThickness, tag: "spoke" });
+  }
+
+  // Inner maze layer 2: another ring of short radial walls closer to center — more corridors to navigate
+  const innerMaze2Spokes = rng.int(4, 8);
+  const innerMaze2Angles = rng.shuffle([...allAngles]).slice(0, innerMaze2Spokes);
+  const midInnerR = innerR - rng.int(8, 14); // band between layer 1 and objective
+  for (const a of innerMaze2Angles) {
+    const aDeg = (a + rng.int(-8, 8) + 360) % 360;
+    const startR = midInnerR + rng.int(2, 5);
+    const endR = midInnerR - rng.int(4, 9);
+    if (endR < objectiveRadius + 4) continue;
+    const p0 = polar(center, startR, aDeg);
+    const p1 = polar(center, endR, aDeg);
+    wallSegments.push({ a: p0, b: p1, thickness: wallThickness, tag: "spoke" });
+  }
+
+  // Objective: smaller center so the middle isn’t so vast
+  // Spawn zones: team 0's pad near 0° with jitter and variable size; the others are its quarter-turn rotations
+  const padW = rng.int(10, 14);
+  const padH = rng.int(10, 14);
+  const spawnAngle = (rng.int(-22, 22) + 360) % 360;
+  const rect0 = spawnRectAtAngle(size, center, r0, spawnAngle, padW, padH);
+
+  const spawnZones: SpawnZone[] = [0, 1, 2, 3].map((q) => ({
+    teamId: q as SpawnZone["teamId"],
+    rect: rotateRectQuarter(center, rect0, q),
+    facingDeg: (spawnAngle + q * 90 + 180) % 360, // face inward
+  }));
+
+  // Cover + accents: more obstacles along the way so areas feel less wide open
+  const cover: Cover[] = [];
+  const coverCount = rng.int(100, 145);
+
+  const isInsideObjectiveNoCover = (p: Vec2) => dist(p, center) < objectiveRadius + 10; // donut
+  const isInsideSpawn = (p: Vec2) => spawnZones.some((s) => {
+    const r = s.rect;
+    return p.x >= r.x - 2 && p.x <= r.x + r.w + 2 && p.y >= r.y - 2 && p.y <= r.y + r.h + 2;
+  });
+
+  for (let i = 0; i < coverCount; i++) {
+    // sample radius between inner and outer ring so obstacles fill lanes and center approach
+    const rr = rng.int(innerR + 6, r0 - 10);
+    const aa = rng.int(0, 359);
+    const p = polar(center, rr, aa);
+
+    const pp: Vec2 = { x: clamp(Math.round(p.x), 2, size - 3), y: clamp(Math.round(p.y), 2, size - 3) };
+    if (isInsideObjectiveNoCover(pp)) continue;
+    if (isInsideSpawn(pp)) continue;
+
+    cover.push({
+      center: pp,
+      radius: rng.int(1, 2),
+      kind: rng.pick(["pillar", "crate", "lowwall"]),
+    });
+  }
+
+  // Symmetry pass: keep walls/cover whose midpoint lies in the first quadrant, then add the three rotations
+  const quarter = <T>(items: T[], at: (t: T) => Vec2) => items.filter((t) => inFirstQuadrant(center, at(t)));
+  const quarterWalls = quarter(wallSegments, (w) => ({ x: (w.a.x + w.b.x) / 2, y: (w.a.y + w.b.y) / 2 }));
+  const quarterCover = quarter(cover, (c) => c.center);
+
+  return {
+    v: 1,
+    seed,
+    size,
+    center,
+    rings: numRings,
+    ringRadii,
+    segments,
+    spokes: spokeAngles.filter((a) => a < 90).length * 4,
+    spawnZones,
+    objective,
+    wallSegments: [0, 1, 2, 3].flatMap((q) =>
+      quarterWalls.map((w) => ({ ...w, a: rotateQuarter(center, w.a, q), b: rotateQuarter(center, w.b, q) }))
+    ),
+    cover: [0, 1, 2, 3].flatMap((q) => quarterCover.map((c) => ({ ...c, center: rotateQuarter(center, c.center, q) }))),
+  };
+}
+
+export const ringsGenerator: ArenaGenerator = {
+  name: "rings",
+  generate: generateRingsArena,
+};
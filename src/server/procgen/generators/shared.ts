@@ -0,0 +1,134 @@
+/**
+ * Geometry helpers shared by the arena layout generators.
+ */
+
+import type { Rng } from "../../../shared/rng/Rng";
+import type { Rect, SpawnZone, Vec2, WallSegment } from "../spec";
+
+export function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+export function degToRad(d: number) {
+  return (d * Math.PI) / 180;
+}
+
+export function polar(center: Vec2, radius: number, deg: number): Vec2 {
+  const a = degToRad(deg);
+  return { x: center.x + Math.cos(a) * radius, y: center.y + Math.sin(a) * radius };
+}
+
+// Approximate circular arc with chords
+export function addRing(
+  segs: WallSegment[],
+  center: Vec2,
+  radius: number,
+  segments: number,
+  thickness: number,
+  gates: Set<number>,
+  tag: WallSegment["tag"]
+) {
+  for (let i = 0; i < segments; i++) {
+    if (gates.has(i)) continue; // skip this segment = gate/opening
+    const a0 = (i * 360) / segments;
+    const a1 = ((i + 1) * 360) / segments;
+    const p0 = polar(center, radius, a0);
+    const p1 = polar(center, radius, a1);
+    segs.push({ a: p0, b: p1, thickness, tag });
+  }
+}
+
+// Place a rectangular spawn pad near outer ring at an angle
+export function spawnRectAtAngle(size: number, center: Vec2, outerR: number, angleDeg: number, padW: number, padH: number): Rect {
+  // point on outer ring, then pull inward a bit so rect fits
+  const inward = Math.max(6, Math.floor(padH / 2));
+  const p = polar(center, outerR - inward, angleDeg);
+
+  const x = Math.round(p.x - padW / 2);
+  const y = Math.round(p.y - padH / 2);
+
+  return {
+    x: clamp(x, 2, size - padW - 2),
+    y: clamp(y, 2, size - padH - 2),
+    w: padW,
+    h: padH,
+  };
+}
+
+export function rectsOverlap(a: Rect, b: Rect): boolean {
+  return !(a.x + a.w <= b.x || b.x + b.w <= a.x || a.y + a.h <= b.y || b.y + b.h <= a.y);
+}
+
+export function rectCenter(r: Rect): Vec2 {
+  return { x: r.x + r.w / 2, y: r.y + r.h / 2 };
+}
+
+export function dist(a: Vec2, b: Vec2) {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+export function expandRect(r: Rect, margin: number): Rect {
+  return { x: r.x - margin, y: r.y - margin, w: r.w + margin * 2, h: r.h + margin * 2 };
+}
+
+/** Distance from p to the nearest point of r (0 when inside). */
+export function rectDist(r: Rect, p: Vec2): number {
+  const dx = Math.max(r.x - p.x, 0, p.x - (r.x + r.w));
+  const dy = Math.max(r.y - p.y, 0, p.y - (r.y + r.h));
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+export function rectAround(p: Vec2, w: number, h: number): Rect {
+  return { x: Math.round(p.x - w / 2), y: Math.round(p.y - h / 2), w, h };
+}
+
+/** Four inward-facing spawn pads at `radius` from center, one per team, at the given angles (degrees). */
+export function spawnZonesAt(center: Vec2, radius: number, angles: number[], padW: number, padH: number): SpawnZone[] {
+  return angles.map((a, teamId) => ({
+    teamId: teamId as SpawnZone["teamId"],
+    rect: rectAround(polar(center, radius, a), padW, padH),
+    facingDeg: (a + 180) % 360,
+  }));
+}
+
+/**
+ * Radial bands for layouts without real rings: outer radius plus three inner bands, so
+ * sampleRingPosition still spreads pickups from the edge to the centre.
+ */
+export function bandRadii(outerRadius: number): number[] {
+  return [outerRadius, Math.round(outerRadius * 0.72), Math.round(outerRadius * 0.48), Math.round(outerRadius * 0.26)];
+}
+
+/**
+ * Outer arena radius with the same size/jitter envelope as the rings layout. The 85 floor only holds where it
+ * fits; smaller arenas keep their radius inside the grid so spawn pads stay in bounds.
+ */
+export function rollOuterRadius(size: number, rng: Rng): number {
+  const max = Math.floor(size / 2) - 6;
+  return clamp(Math.floor(size * 0.4) + rng.int(-6, 8), Math.min(85, max), max);
+}
+
+/** Rotate p by `quarterTurns` × 90° about center (+90° takes +x onto +y). */
+export function rotateQuarter(center: Vec2, p: Vec2, quarterTurns: number): Vec2 {
+  let dx = p.x - center.x;
+  let dy = p.y - center.y;
+  for (let k = 0; k < ((quarterTurns % 4) + 4) % 4; k++) [dx, dy] = [-dy, dx];
+  return { x: center.x + dx, y: center.y + dy };
+}
+
+export function rotateRectQuarter(center: Vec2, r: Rect, quarterTurns: number): Rect {
+  const a = rotateQuarter(center, { x: r.x, y: r.y }, quarterTurns);
+  const b = rotateQuarter(center, { x: r.x + r.w, y: r.y + r.h }, quarterTurns);
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return { x, y, w: Math.max(a.x, b.x) - x, h: Math.max(a.y, b.y) - y };
+}
+
+/** Angle of p about center lies in [0°, 90°). */
+export function inFirstQuadrant(center: Vec2, p: Vec2): boolean {
+  const dx = p.x - center.x;
+  const dy = p.y - center.y;
+  return dx > 0 && dy >= 0;
+}
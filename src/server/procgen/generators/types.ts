@@ -0,0 +1,20 @@
+import type { ArenaLayout, MapSpecV1 } from "../spec";
+
+export type ArenaGeneratorOpts = {
+  size: number;
+  /** Ring count hint; only the rings layout uses it. */
+  rings?: 3 | 4 | 5;
+};
+
+/**
+ * One arena topology. Generators are pure functions of (seed, opts) and always emit a flat v1 spec;
+ * elevation (v2) is layered on afterwards by generateArenaSpec so every layout gets it for free.
+ *
+ * Contract (checked by validateSpec/validateConnectivity): 4 spawn zones (teams 0..3) on walkable floor,
+ * objective at spec.center, every spawn able to reach the objective, and ringRadii[0] as the arena's outer
+ * radius (grid bake crops to it). Non-ring layouts use ringRadii only as pickup sampling bands.
+ */
+export interface ArenaGenerator {
+  readonly name: ArenaLayout;
+  generate(seed: string, opts: ArenaGeneratorOpts): MapSpecV1;
+}
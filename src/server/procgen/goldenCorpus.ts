@@ -0,0 +1,124 @@
+/**
+ * Golden regression corpus: seed → specHash plus a few summary metrics per spec version, so a generator
+ * change that silently alters arenas shows up as a readable diff instead of passing the determinism check.
+ */
+
+import { generateValidArena } from "./generateValidArena";
+import { specHash } from "./stableSpec";
+
+export type GoldenEntry = {
+  seed: string;
+  v: 1 | 2;
+  layout: string;
+  usedSeed: string;
+  attempts: number;
+  fallback: boolean;
+  rings: number;
+  segments: number;
+  spokes: number;
+  walls: number;
+  cover: number;
+  /** v2 only */
+  platforms?: number;
+  pits?: number;
+  hazards?: number;
+  hash: string;
+};
+
+/** Bump when the entry shape changes (not when arenas change — that's what the diff is for). */
+export const GOLDEN_FORMAT = 1;
+
+export type GoldenCorpus = {
+  format: typeof GOLDEN_FORMAT;
+  size: number;
+  entries: GoldenEntry[];
+};
+
+/** Fields compared (and printed) besides the hash, in report order. */
+const METRICS = [
+  "layout",
+  "usedSeed",
+  "attempts",
+  "fallback",
+  "rings",
+  "segments",
+  "spokes",
+  "walls",
+  "cover",
+  "platforms",
+  "pits",
+  "hazards",
+] as const satisfies readonly (keyof GoldenEntry)[];
+
+export function goldenKey(e: Pick<GoldenEntry, "seed" | "v">): string {
+  return `v${e.v}/${e.seed}`;
+}
+
+/** Generate one seed the way a round would (auto layout, 16 attempts) and summarize it. */
+export function buildGoldenEntry(seed: string, v: 1 | 2, size: number): GoldenEntry {
+  const { spec, attempt, usedSeed } = generateValidArena(seed, { attempts: 16, size, version: v });
+  return {
+    seed,
+    v,
+    layout: spec.layout ?? "rings",
+    usedSeed,
+    attempts: attempt,
+    fallback: usedSeed.startsWith("fallback"),
+    rings: spec.rings,
+    segments: spec.segments,
+    spokes: spec.spokes,
+    walls: spec.wallSegments.length,
+    cover: spec.cover.length,
+    ...(spec.v === 2 ? { platforms: spec.platforms.length, pits: spec.pits.length, hazards: spec.hazards.length } : {}),
+    hash: specHash(spec),
+  };
+}
+
+export function buildGoldenCorpus(seeds: string[], versions: readonly (1 | 2)[], size: number): GoldenCorpus {
+  const entries = versions.flatMap((v) => seeds.map((seed) => buildGoldenEntry(seed, v, size)));
+  return { format: GOLDEN_FORMAT, size, entries };
+}
+
+export type GoldenDiff = {
+  added: GoldenEntry[];
+  removed: GoldenEntry[];
+  /** Entries whose hash changed, with the metric changes (empty when only the geometry moved). */
+  changed: { key: string; before: GoldenEntry; after: GoldenEntry; fields: string[] }[];
+  unchanged: number;
+};
+
+export function diffGoldenCorpus(before: GoldenCorpus, after: GoldenCorpus): GoldenDiff {
+  const prev = new Map(before.entries.map((e) => [goldenKey(e), e]));
+  const next = new Map(after.entries.map((e) => [goldenKey(e), e]));
+  const diff: GoldenDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+  for (const [key, a] of next) {
+    const b = prev.get(key);
+    if (!b) diff.added.push(a);
+    else if (b.hash !== a.hash) {
+      const fields = METRICS.filter((f) => b[f] !== a[f]).map((f) => `${f} ${b[f] ?? "-"} → ${a[f] ?? "-"}`);
+      diff.changed.push({ key, before: b, after: a, fields });
+    } else diff.unchanged++;
+  }
+  for (const [key, b] of prev) if (!next.has(key)) diff.removed.push(b);
+  return diff;
+}
+
+export function isGoldenClean(diff: GoldenDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+/** Human-readable report, one line per differing seed plus a summary line. */
+export function formatGoldenDiff(diff: GoldenDiff): string[] {
+  const lines: string[] = [];
+  for (const c of diff.changed) {
+    const what = c.fields.length ? c.fields.join(", ") : "geometry only";
+    lines.push(`~ ${c.key}: hash ${c.before.hash.slice(0, 8)} → ${c.after.hash.slice(0, 8)} (${what})`);
+  }
+  for (const e of diff.added) lines.push(`+ ${goldenKey(e)}: ${e.layout} hash ${e.hash.slice(0, 8)}`);
+  for (const e of diff.removed) lines.push(`- ${goldenKey(e)}: ${e.layout} hash ${e.hash.slice(0, 8)}`);
+  const total = diff.unchanged + diff.changed.length + diff.added.length;
+  lines.push(
+    `${diff.changed.length} changed, ${diff.added.length} added, ${diff.removed.length} removed, ${diff.unchanged}/${total} unchanged`
+  );
+  return lines;
+}
@@ -1,4 +1,6 @@
-import { MapSpecV1, Vec2, WallSegment } from "./spec";
+import type { MapSpec, Vec2, WallSegment } from "./spec";
+import { floorHeightAt, isV2 } from "./elevation";
+import { hazardCodeAt } from "./hazards";
 
 /** Margin in blocks beyond outer ring for bake bounds. Reduces grid size when map is larger than arena. */
 const ARENA_BAKE_MARGIN = 15;
@@ -7,6 +9,10 @@ export type BakedGrid = {
   size: number;       // number of cells per side (cropped square)
   cellSize: number;   // blocks per cell
   blocked: Uint8Array; // 0 walkable, 1 blocked
+  /** Floor height per cell (blocks above base floor). Only present for MapSpecV2. */
+  heights?: Int8Array;
+  /** Hazard code per cell (HAZARD_CODE in hazards.ts). Only present for MapSpecV2 with hazards. */
+  hazards?: Uint8Array;
   /** Cell-space origin: grid (0,0) = world (originX, originY). Omitted when not cropped. */
   originX?: number;
   originY?: number;
@@ -25,13 +31,12 @@ function setBlockedLocal(g: BakedGrid, lx: number, ly: number) {
   g.blocked[idx(lx, ly, g.size)] = 1;
 }
 
-// Bresenham-ish line rasterization in world cell space; stamps into grid (local coords if cropped).
-function rasterSegment(
-  g: BakedGrid,
-  seg: WallSegment,
-  worldToLocal: (wx: number, wy: number) => { x: number; y: number } | null
-) {
-  const cs = g.cellSize;
+/**
+ * Every world cell a wall segment stamps at the given cell size (Bresenham line, ±thickness square brush).
+ * Cells can be visited more than once. Shared with the preview renderer so its walls match the bake.
+ */
+export function forEachSegmentCell(seg: WallSegment, cellSize: number, visit: (cx: number, cy: number) => void): void {
+  const cs = cellSize;
 
   const x0 = Math.round(seg.a.x / cs);
   const y0 = Math.round(seg.a.y / cs);
@@ -48,11 +53,9 @@ function rasterSegment(
 
   const t = Math.max(1, Math.round(seg.thickness / cs));
   const stamp = (wx: number, wy: number) => {
-    const loc = worldToLocal(wx, wy);
-    if (!loc) return;
     for (let oy = -t; oy <= t; oy++) {
       for (let ox = -t; ox <= t; ox++) {
-        setBlockedLocal(g, loc.x + ox, loc.y + oy);
+        visit(wx + ox, wy + oy);
       }
     }
   };
@@ -66,11 +69,24 @@ function rasterSegment(
   }
 }
 
+// Stamps a segment into the grid (local coords if cropped).
+function rasterSegment(
+  g: BakedGrid,
+  seg: WallSegment,
+  worldToLocal: (wx: number, wy: number) => { x: number; y: number } | null
+) {
+  forEachSegmentCell(seg, g.cellSize, (wx, wy) => {
+    const loc = worldToLocal(wx, wy);
+    if (loc) setBlockedLocal(g, loc.x, loc.y);
+  });
+}
+
 /**
  * Rasterize spec walls onto a boolean grid for BFS.
  * Connectivity validation must use cellSize=1 to avoid aliasing (thin gates can alias shut at coarser resolution).
+ * V2 specs also get a per-cell height field (and hazard codes) sampled at each cell's min corner.
  */
-export function bakeGridFromSpec(spec: MapSpecV1, cellSize = 1): BakedGrid {
+export function bakeGridFromSpec(spec: MapSpec, cellSize = 1): BakedGrid {
   const cs = cellSize;
   const center = spec.center;
   const outer = spec.ringRadii[0];
@@ -125,6 +141,30 @@ export function bakeGridFromSpec(spec: MapSpecV1, cellSize = 1): BakedGrid {
 
   for (const seg of spec.wallSegments) rasterSegment(g, seg, worldToLocal);
 
+  if (isV2(spec)) {
+    const heights = new Int8Array(size * size);
+    for (let ly = 0; ly < size; ly++) {
+      for (let lx = 0; lx < size; lx++) {
+        const wx = useCrop ? minCx + lx : lx;
+        const wy = useCrop ? minCy + ly : ly;
+        heights[idx(lx, ly, size)] = floorHeightAt(spec, wx * cs, wy * cs);
+      }
+    }
+    g.heights = heights;
+
+    if (spec.hazards.length > 0) {
+      const hazards = new Uint8Array(size * size);
+      for (let ly = 0; ly < size; ly++) {
+        for (let lx = 0; lx < size; lx++) {
+          const wx = useCrop ? minCx + lx : lx;
+          const wy = useCrop ? minCy + ly : ly;
+          hazards[idx(lx, ly, size)] = hazardCodeAt(spec, wx * cs, wy * cs);
+        }
+      }
+      g.hazards = hazards;
+    }
+  }
+
   return g;
 }
 
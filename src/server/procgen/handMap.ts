@@ -0,0 +1,159 @@
+/**
+ * Hand-authored maps: a Hytopia map JSON plus a sidecar (<id>.meta.json) declaring the gameplay anchors
+ * procgen would otherwise produce. The sidecar becomes a MapSpecV1 (no wall segments; the geometry is the
+ * map's own blocks) so spawns, shards, power-ups, the objective and the tower run on it unchanged.
+ *
+ * Sidecar coordinates are the map's block coordinates (x, z). The map is re-centred so the declared
+ * arena centre lands on world (0, 0), the same convention specToMap uses for generated arenas.
+ */
+
+import type { MapSpecV1, SpawnZone, Vec2 } from "./spec";
+import type { HytopiaMap } from "./specToMap";
+
+export type HandMapMeta = {
+  v: 1;
+  name: string;
+  /** Map JSON path relative to the sidecar; default <id>.json next to it. */
+  map?: string;
+  center: { x: number; z: number };
+  /** Playable radius around the centre (outer boundary for time trial and sampling). */
+  radius: number;
+  /** Rects by min corner (x, z) and extent (w along x, d along z). */
+  spawnZones: { teamId: SpawnZone["teamId"]; x: number; z: number; w: number; d: number; facingDeg: number }[];
+  objective: { x: number; z: number; radius: number };
+  shardRegion: { minRadius: number; maxRadius: number };
+  /** Tower mode build site; default the centre. */
+  towerCenter?: { x: number; z: number };
+};
+
+/** Hytopia map as exported by the editor: blocks and entities keyed by "x,y,z". */
+export type HandMapData = HytopiaMap & {
+  entities?: Record<string, unknown>;
+  [key: string]: unknown;
+};
+
+/** Blocks of clearance between the playable radius and the spec bounds. */
+const SPEC_MARGIN = 8;
+
+function fail(where: string, msg: string): never {
+  throw new Error(`[handMap] ${where}: ${msg}`);
+}
+
+function isNum(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function isXZ(v: unknown): v is Record<string, unknown> & { x: number; z: number } {
+  return !!v && typeof v === "object" && isNum((v as { x?: unknown }).x) && isNum((v as { z?: unknown }).z);
+}
+
+/** Validate raw sidecar JSON. Throws naming the sidecar and field on bad input. */
+export function parseHandMapMeta(raw: unknown, source: string): HandMapMeta {
+  if (!raw || typeof raw !== "object") fail(source, "expected an object");
+  const m = raw as Record<string, unknown>;
+  if (m.v !== 1) fail(source, "v must be 1");
+  if (typeof m.name !== "string" || !m.name) fail(source, "name must be a non-empty string");
+  if (m.map !== undefined && typeof m.map !== "string") fail(source, "map must be a path string");
+  if (!isXZ(m.center)) fail(source, "center must be { x, z }");
+  if (!isNum(m.radius) || m.radius < 8) fail(source, "radius must be a number >= 8");
+  const radius = m.radius;
+
+  if (!Array.isArray(m.spawnZones) || m.spawnZones.length !== 4) fail(source, "spawnZones must list 4 zones");
+  const teams = new Set<number>();
+  for (const [i, z] of m.spawnZones.entries()) {
+    const where = `${source} spawnZones[${i}]`;
+    if (!isXZ(z) || !isNum(z.w) || !isNum(z.d) || !isNum(z.facingDeg)) fail(where, "needs x, z, w, d, facingDeg");
+    if (z.w <= 0 || z.d <= 0) fail(where, "w and d must be > 0");
+    if (!isNum(z.teamId) || ![0, 1, 2, 3].includes(z.teamId)) fail(where, "teamId must be 0..3");
+    teams.add(z.teamId);
+  }
+  if (teams.size !== 4) fail(source, "spawnZones must cover teamId 0..3 exactly once");
+
+  const o = m.objective;
+  if (!isXZ(o) || !isNum(o.radius) || o.radius <= 0) fail(source, "objective must be { x, z, radius > 0 }");
+  const sr = m.shardRegion as Record<string, unknown> | undefined;
+  if (!sr || !isNum(sr.minRadius) || !isNum(sr.maxRadius) || sr.minRadius < 0 || sr.maxRadius <= sr.minRadius) {
+    fail(source, "shardRegion must be { minRadius >= 0, maxRadius > minRadius }");
+  }
+  if (sr.maxRadius > radius) fail(source, "shardRegion.maxRadius must be within radius");
+  if (m.towerCenter !== undefined && !isXZ(m.towerCenter)) fail(source, "towerCenter must be { x, z }");
+  return m as unknown as HandMapMeta;
+}
+
+/** Copy of the map with every block and entity key shifted so `center` becomes (0, 0). */
+export function recenterMap(map: HandMapData, center: { x: number; z: number }): HandMapData {
+  if (center.x === 0 && center.z === 0) return { ...map };
+  const shift = <T>(entries: Record<string, T> | undefined) => {
+    if (!entries) return entries;
+    const out: Record<string, T> = {};
+    for (const [key, value] of Object.entries(entries)) {
+      const [x, y, z] = key.split(",").map(Number);
+      out[`${x - center.x},${y},${z - center.z}`] = value;
+    }
+    return out;
+  };
+  return { ...map, blocks: shift(map.blocks)!, entities: shift(map.entities) };
+}
+
+/**
+ * Spec for a hand-authored map. Spec space puts the arena centre at (size/2, size/2), so spec minus
+ * centre is world space for the re-centred map. Rings are bookkeeping only (outer = playable radius).
+ */
+export function handMapToSpec(id: string, meta: HandMapMeta, seed: string): MapSpecV1 {
+  const size = Math.ceil(meta.radius + SPEC_MARGIN) * 2;
+  const center: Vec2 = { x: size / 2, y: size / 2 };
+  const toSpec = (p: { x: number; z: number }): Vec2 => ({
+    x: p.x - meta.center.x + center.x,
+    y: p.z - meta.center.z + center.y,
+  });
+
+  const spawnZones: SpawnZone[] = meta.spawnZones.map((z) => {
+    const p = toSpec(z);
+    return { teamId: z.teamId, rect: { x: p.x, y: p.y, w: z.w, h: z.d }, facingDeg: z.facingDeg };
+  });
+
+  const r = meta.radius;
+  return {
+    v: 1,
+    seed,
+    size,
+    center,
+    rings: 3,
+    ringRadii: [r, Math.round(r * 0.66), Math.max(meta.objective.radius + 1, Math.round(r * 0.33))],
+    segments: 0,
+    spokes: 0,
+    spawnZones,
+    objective: { center: toSpec(meta.objective), radius: meta.objective.radius },
+    wallSegments: [],
+    cover: [],
+    handMap: id,
+    shardRegion: { ...meta.shardRegion },
+    ...(meta.towerCenter ? { towerCenter: toSpec(meta.towerCenter) } : {}),
+  };
+}
+
+/**
+ * Problems that would break the systems on this map: spawn pads, the objective or the tower site
+ * over the void, or anchors outside the playable radius. Run on the re-centred map.
+ */
+export function checkHandMap(spec: MapSpecV1, map: HandMapData): string[] {
+  const errors: string[] = [];
+  const columns = new Set<string>();
+  for (const key of Object.keys(map.blocks)) {
+    const [x, , z] = key.split(",").map(Number);
+    columns.add(`${x},${z}`);
+  }
+  const toWorld = (p: Vec2) => ({ x: Math.floor(p.x - spec.center.x), z: Math.floor(p.y - spec.center.y) });
+  const check = (label: string, p: Vec2) => {
+    const w = toWorld(p);
+    if (Math.hypot(w.x, w.z) > spec.ringRadii[0]) errors.push(`${label} outside radius`);
+    if (!columns.has(`${w.x},${w.z}`)) errors.push(`${label} has no floor at (${w.x}, ${w.z})`);
+  };
+
+  for (const s of spec.spawnZones) {
+    check(`team ${s.teamId} spawn`, { x: s.rect.x + s.rect.w / 2, y: s.rect.y + s.rect.h / 2 });
+  }
+  check("objective", spec.objective.center);
+  if (spec.towerCenter) check("tower center", spec.towerCenter);
+  return errors;
+}
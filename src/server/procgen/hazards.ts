@@ -0,0 +1,45 @@
+/**
+ * Hazard geometry for MapSpecV2: which hazard (if any) covers a block, and the per-cell codes
+ * gridBake stores so connectivity, rendering and the server share one answer.
+ */
+
+import type { Hazard, MapSpec, Rect } from "./spec";
+import { isV2 } from "./elevation";
+
+/** Per-cell hazard code in BakedGrid.hazards. Movers are entities, so their cells keep the code underneath. */
+export const HAZARD_CODE = { none: 0, lava: 1, void: 2, jumpPad: 3 } as const;
+
+/** Lava damage the generator rolls (and validateSpec accepts), per second of standing on it. */
+export const MIN_LAVA_DPS = 10;
+export const MAX_LAVA_DPS = 25;
+
+/** Jump pad launch speed range (blocks/s straight up). */
+export const MIN_JUMP_PAD_SPEED = 14;
+export const MAX_JUMP_PAD_SPEED = 20;
+
+/** Highest floor step a jump pad gets a player onto; connectivity allows this climb from a pad cell. */
+export const JUMP_PAD_MAX_RISE = 4;
+
+function inRect(r: Rect, x: number, y: number): boolean {
+  return x >= r.x && x < r.x + r.w && y >= r.y && y < r.y + r.h;
+}
+
+/** Static hazard (lava, void or jump pad) covering block (x, y) in spec space; later hazards win. */
+export function hazardAt(spec: MapSpec, x: number, y: number): Exclude<Hazard, { kind: "mover" }> | null {
+  if (!isV2(spec)) return null;
+  let hit: Exclude<Hazard, { kind: "mover" }> | null = null;
+  for (const h of spec.hazards) {
+    if (h.kind !== "mover" && inRect(h.rect, x, y)) hit = h;
+  }
+  return hit;
+}
+
+export function hazardCodeAt(spec: MapSpec, x: number, y: number): number {
+  const h = hazardAt(spec, x, y);
+  return h ? HAZARD_CODE[h.kind] : HAZARD_CODE.none;
+}
+
+/** Cells a player cannot be routed through: burning floor or no floor at all. */
+export function isHazardCell(hazards: Uint8Array | undefined, i: number): boolean {
+  return !!hazards && (hazards[i] === HAZARD_CODE.lava || hazards[i] === HAZARD_CODE.void);
+}
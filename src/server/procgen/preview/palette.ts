@@ -0,0 +1,90 @@
+/**
+ * Colours for top-down previews. Floor and walls come from the map theme's blocks; tags, cover kinds,
+ * teams and the objective use fixed colours so they read the same on every theme.
+ */
+
+import type { Cover, Hazard, SpawnZone, WallSegment } from "../spec";
+import type { MapTheme } from "../themes";
+import type { Rgb } from "./png";
+
+/** Approximate average texture colour per BLOCK_CATALOG id. */
+const BLOCK_COLORS: Record<number, Rgb> = {
+  1: [136, 137, 140], // andesite
+  2: [128, 167, 85], // birch-leaves
+  3: [150, 80, 60], // bricks
+  4: [90, 90, 90], // coal-ore
+  5: [122, 122, 122], // cobblestone
+  6: [95, 143, 74], // grass-block-pine
+  7: [106, 168, 79], // grass-block
+  8: [107, 154, 85], // grass-flower-block-pine
+  9: [124, 184, 94], // grass-flower-block
+  10: [79, 127, 47], // oak-leaves
+  11: [107, 80, 49], // oak-log
+  12: [219, 207, 154], // sand
+  13: [63, 95, 63], // spruce-leaves
+  14: [74, 58, 38], // spruce-log
+  15: [154, 154, 154], // stone
+  16: [230, 90, 20], // lava
+};
+
+const UNKNOWN_BLOCK: Rgb = [255, 0, 255];
+
+/** Mixed into the theme wall colour so tags stay distinguishable. */
+const TAG_TINTS: Record<NonNullable<WallSegment["tag"]>, Rgb> = {
+  ring: [60, 120, 220],
+  spoke: [230, 150, 40],
+  perimeter: [20, 20, 20],
+  cave: [140, 100, 60],
+  room: [160, 90, 200],
+  lane: [40, 170, 150],
+};
+
+export type PreviewPalette = {
+  outside: Rgb;
+  floor: Rgb;
+  trim: Rgb;
+  wallByTag: (tag: WallSegment["tag"]) => Rgb;
+  cover: Record<Cover["kind"], Rgb>;
+  team: Record<SpawnZone["teamId"], Rgb>;
+  objective: Rgb;
+  platform: Rgb;
+  ramp: Rgb;
+  pit: Rgb;
+  hazard: Record<Hazard["kind"], Rgb>;
+};
+
+export function blockColor(id: number): Rgb {
+  return BLOCK_COLORS[id] ?? UNKNOWN_BLOCK;
+}
+
+export function mix(a: Rgb, b: Rgb, t: number): Rgb {
+  return [0, 1, 2].map((c) => Math.round(a[c] * (1 - t) + b[c] * t)) as Rgb;
+}
+
+export function toHex(c: Rgb): string {
+  return "#" + c.map((v) => v.toString(16).padStart(2, "0")).join("");
+}
+
+/** Palette for a theme; without one, a neutral stone-on-grass look. */
+export function previewPalette(theme?: MapTheme): PreviewPalette {
+  const floor = blockColor(theme?.floorId ?? 7);
+  const wall = blockColor(theme?.wallId ?? 15);
+  return {
+    outside: [24, 24, 28],
+    floor,
+    trim: blockColor(theme?.trimId ?? 5),
+    wallByTag: (tag) => (tag ? mix(wall, TAG_TINTS[tag], 0.5) : wall),
+    cover: { pillar: [240, 240, 240], crate: [190, 120, 60], lowwall: [170, 170, 110] },
+    team: { 0: [220, 50, 50], 1: [50, 110, 230], 2: [240, 200, 40], 3: [60, 190, 80] },
+    objective: [255, 215, 0],
+    platform: mix(floor, [255, 255, 255], 0.35),
+    ramp: mix(floor, [255, 255, 255], 0.2),
+    pit: mix(floor, [0, 0, 0], 0.45),
+    hazard: {
+      lava: blockColor(theme?.hazardId ?? 16),
+      void: [0, 0, 0],
+      jumpPad: blockColor(theme?.padId ?? 12),
+      mover: mix(blockColor(theme?.trimId ?? 5), [255, 255, 255], 0.3),
+    },
+  };
+}
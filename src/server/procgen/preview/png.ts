@@ -0,0 +1,127 @@
+/**
+ * Minimal RGBA raster and PNG encoder for offline previews (node:zlib only, no image dependencies).
+ */
+
+import { deflateSync } from "node:zlib";
+
+export type Rgb = [number, number, number];
+
+export class Raster {
+  readonly data: Uint8Array;
+
+  constructor(readonly width: number, readonly height: number, background: Rgb = [0, 0, 0]) {
+    this.data = new Uint8Array(width * height * 4);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  /** Blend `color` over pixel (x, y); alpha 1 overwrites. Out-of-bounds pixels are ignored. */
+  setPixel(x: number, y: number, color: Rgb, alpha = 1): void {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+    const o = (y * this.width + x) * 4;
+    for (let c = 0; c < 3; c++) {
+      this.data[o + c] = Math.round(this.data[o + c] * (1 - alpha) + color[c] * alpha);
+    }
+    this.data[o + 3] = 255;
+  }
+
+  fillRect(x: number, y: number, w: number, h: number, color: Rgb, alpha = 1): void {
+    const x0 = Math.max(0, Math.floor(x));
+    const y0 = Math.max(0, Math.floor(y));
+    const x1 = Math.min(this.width, Math.ceil(x + w));
+    const y1 = Math.min(this.height, Math.ceil(y + h));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) this.setPixel(px, py, color, alpha);
+    }
+  }
+
+  /** Outline of width 1 px just inside the rect. */
+  strokeRect(x: number, y: number, w: number, h: number, color: Rgb): void {
+    this.fillRect(x, y, w, 1, color);
+    this.fillRect(x, y + h - 1, w, 1, color);
+    this.fillRect(x, y, 1, h, color);
+    this.fillRect(x + w - 1, y, 1, h, color);
+  }
+
+  fillDisc(cx: number, cy: number, r: number, color: Rgb, alpha = 1): void {
+    for (let py = Math.floor(cy - r); py <= Math.ceil(cy + r); py++) {
+      for (let px = Math.floor(cx - r); px <= Math.ceil(cx + r); px++) {
+        const dx = px + 0.5 - cx;
+        const dy = py + 0.5 - cy;
+        if (dx * dx + dy * dy <= r * r) this.setPixel(px, py, color, alpha);
+      }
+    }
+  }
+
+  /** Annulus between r - width and r. */
+  strokeCircle(cx: number, cy: number, r: number, width: number, color: Rgb): void {
+    const inner = Math.max(0, r - width);
+    for (let py = Math.floor(cy - r); py <= Math.ceil(cy + r); py++) {
+      for (let px = Math.floor(cx - r); px <= Math.ceil(cx + r); px++) {
+        const dx = px + 0.5 - cx;
+        const dy = py + 0.5 - cy;
+        const d2 = dx * dx + dy * dy;
+        if (d2 <= r * r && d2 >= inner * inner) this.setPixel(px, py, color);
+      }
+    }
+  }
+
+  /** Copy another raster in at (x, y), clipped to this one. */
+  blit(src: Raster, x: number, y: number): void {
+    for (let sy = 0; sy < src.height; sy++) {
+      const dy = y + sy;
+      if (dy < 0 || dy >= this.height) continue;
+      for (let sx = 0; sx < src.width; sx++) {
+        const dx = x + sx;
+        if (dx < 0 || dx >= this.width) continue;
+        const s = (sy * src.width + sx) * 4;
+        const d = (dy * this.width + dx) * 4;
+        this.data.set(src.data.subarray(s, s + 4), d);
+      }
+    }
+  }
+}
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, body: Uint8Array): Buffer {
+  const out = Buffer.alloc(12 + body.length);
+  out.writeUInt32BE(body.length, 0);
+  out.write(type, 4, "ascii");
+  out.set(body, 8);
+  out.writeUInt32BE(crc32(out.subarray(4, 8 + body.length)), 8 + body.length);
+  return out;
+}
+
+/** Encode as an 8-bit RGBA PNG (filter 0 on every row). */
+export function encodePng(r: Raster): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(r.width, 0);
+  header.writeUInt32BE(r.height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // colour type RGBA
+  const stride = r.width * 4;
+  const scanlines = Buffer.alloc((stride + 1) * r.height);
+  for (let y = 0; y < r.height; y++) {
+    scanlines.set(r.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(scanlines)),
+    chunk("IEND", new Uint8Array(0)),
+  ]);
+}
@@ -0,0 +1,225 @@
+/**
+ * Headless top-down previews of generated arenas: SVG (vector, labelled) and PNG (one block = `scale`
+ * pixels, walls stamped exactly like the grid bake). Used by scripts/procgen_preview.ts for level review
+ * without booting the server.
+ */
+
+import type { MapSpec } from "../spec";
+import type { MapTheme } from "../themes";
+import { forEachSegmentCell, type BakedGrid } from "../gridBake";
+import { floorHeightAt, isV2 } from "../elevation";
+import { HAZARD_CODE } from "../hazards";
+import { Raster, type Rgb } from "./png";
+import { mix, previewPalette, toHex, type PreviewPalette } from "./palette";
+
+export type PreviewOptions = {
+  theme?: MapTheme;
+  /** Pixels per block (per cell for grids). Default 2. */
+  scale?: number;
+  /** Caption drawn in the SVG's top-left corner. */
+  label?: string;
+};
+
+const CONTACT_GAP = 8;
+const LABEL_HEIGHT = 14;
+
+function heightShade(p: PreviewPalette, h: number) {
+  if (h > 0) return mix(p.floor, [255, 255, 255], Math.min(0.6, 0.12 * h));
+  if (h < 0) return mix(p.floor, [0, 0, 0], Math.min(0.6, 0.15 * -h));
+  return p.floor;
+}
+
+function escapeXml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/** SVG elements in spec block coordinates (no outer <svg>), so contact sheets can nest them. */
+function specSvgBody(spec: MapSpec, p: PreviewPalette, label?: string): string {
+  const out: string[] = [];
+  const { center } = spec;
+  const outer = spec.ringRadii[0];
+  out.push(`<rect width="${spec.size}" height="${spec.size}" fill="${toHex(p.outside)}"/>`);
+  out.push(`<circle cx="${center.x}" cy="${center.y}" r="${outer}" fill="${toHex(p.floor)}"/>`);
+
+  if (isV2(spec)) {
+    for (const pit of spec.pits) {
+      out.push(`<circle cx="${pit.center.x}" cy="${pit.center.y}" r="${pit.radius}" fill="${toHex(heightShade(p, -pit.depth))}"/>`);
+    }
+    for (const pl of spec.platforms) {
+      const { x, y, w, h } = pl.rect;
+      out.push(`<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="${toHex(heightShade(p, pl.height))}" stroke="${toHex(p.trim)}" stroke-width="0.5"/>`);
+    }
+    for (const r of spec.ramps) {
+      const { x, y, w, h } = r.rect;
+      const dash = r.kind === "stairs" ? ` stroke-dasharray="1 1"` : "";
+      out.push(`<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="${toHex(p.ramp)}" stroke="${toHex(p.trim)}" stroke-width="0.5"${dash}/>`);
+    }
+    // Movers drawn at both ends of their track, dashed
+    for (const hz of spec.hazards) {
+      const { x, y, w, h } = hz.rect;
+      const fill = toHex(p.hazard[hz.kind]);
+      if (hz.kind !== "mover") {
+        out.push(`<rect class="hazard-${hz.kind}" x="${x}" y="${y}" width="${w}" height="${h}" fill="${fill}"/>`);
+        continue;
+      }
+      for (const t of [{ x: 0, y: 0 }, hz.travel]) {
+        out.push(`<rect class="hazard-mover" x="${x + t.x}" y="${y + t.y}" width="${w}" height="${h}" fill="none" stroke="${fill}" stroke-width="0.5" stroke-dasharray="1 1"/>`);
+      }
+    }
+  }
+
+  // Grouped by tag so the SVG is easy to inspect and toggle in an editor
+  const byTag = new Map<string, string[]>();
+  for (const seg of spec.wallSegments) {
+    const tag = seg.tag ?? "untagged";
+    const w = Math.max(1, Math.round(seg.thickness)) * 2 + 1;
+    const line = `<line x1="${seg.a.x + 0.5}" y1="${seg.a.y + 0.5}" x2="${seg.b.x + 0.5}" y2="${seg.b.y + 0.5}" stroke="${toHex(p.wallByTag(seg.tag))}" stroke-width="${w}" stroke-linecap="square"/>`;
+    const lines = byTag.get(tag) ?? [];
+    lines.push(line);
+    byTag.set(tag, lines);
+  }
+  for (const [tag, lines] of byTag) out.push(`<g class="wall-${tag}">${lines.join("")}</g>`);
+
+  for (const c of spec.cover) {
+    const fill = toHex(p.cover[c.kind]);
+    const cx = c.center.x + 0.5;
+    const cy = c.center.y + 0.5;
+    const r = c.radius + 0.5;
+    if (c.kind === "pillar") {
+      out.push(`<circle cx="${cx}" cy="${cy}" r="${r}" fill="${fill}"/>`);
+    } else {
+      out.push(`<rect x="${cx - r}" y="${cy - r}" width="${r * 2}" height="${r * 2}" fill="${fill}"/>`);
+    }
+  }
+
+  for (const s of spec.spawnZones) {
+    const { x, y, w, h } = s.rect;
+    const color = toHex(p.team[s.teamId]);
+    out.push(`<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="${color}" fill-opacity="0.35" stroke="${color}" stroke-width="1"/>`);
+    out.push(`<text x="${x + w / 2}" y="${y + h / 2}" font-size="6" font-family="monospace" text-anchor="middle" dominant-baseline="middle" fill="#ffffff">T${s.teamId}</text>`);
+  }
+
+  const o = spec.objective;
+  out.push(`<circle cx="${o.center.x}" cy="${o.center.y}" r="${o.radius}" fill="${toHex(p.objective)}" fill-opacity="0.25" stroke="${toHex(p.objective)}" stroke-width="1.5"/>`);
+
+  if (label) {
+    out.push(`<text x="4" y="10" font-size="8" font-family="monospace" fill="#ffffff">${escapeXml(label)}</text>`);
+  }
+  return out.join("\n");
+}
+
+export function renderSpecSvg(spec: MapSpec, opts: PreviewOptions = {}): string {
+  const scale = opts.scale ?? 2;
+  const px = spec.size * scale;
+  const body = specSvgBody(spec, previewPalette(opts.theme), opts.label);
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${px}" height="${px}" viewBox="0 0 ${spec.size} ${spec.size}">\n${body}\n</svg>\n`;
+}
+
+export function rasterizeSpec(spec: MapSpec, opts: PreviewOptions = {}): Raster {
+  const s = opts.scale ?? 2;
+  const p = previewPalette(opts.theme);
+  const r = new Raster(spec.size * s, spec.size * s, p.outside);
+  const block = (x: number, y: number, color: [number, number, number], alpha = 1) =>
+    r.fillRect(x * s, y * s, s, s, color, alpha);
+
+  const { center } = spec;
+  const outer = spec.ringRadii[0];
+  const v2 = isV2(spec);
+  for (let y = 0; y < spec.size; y++) {
+    for (let x = 0; x < spec.size; x++) {
+      const dx = x - center.x;
+      const dy = y - center.y;
+      if (dx * dx + dy * dy > outer * outer) continue;
+      block(x, y, v2 ? heightShade(p, floorHeightAt(spec, x, y)) : p.floor);
+    }
+  }
+
+  if (v2) {
+    for (const hz of spec.hazards) {
+      const { x, y, w, h } = hz.rect;
+      if (hz.kind === "mover") r.strokeRect(x * s, y * s, w * s, h * s, p.hazard.mover);
+      else r.fillRect(x * s, y * s, w * s, h * s, p.hazard[hz.kind]);
+    }
+  }
+
+  for (const seg of spec.wallSegments) {
+    const color = p.wallByTag(seg.tag);
+    forEachSegmentCell(seg, 1, (x, y) => block(x, y, color));
+  }
+
+  // Same footprint rule as specToMap
+  for (const c of spec.cover) {
+    const rad = c.radius;
+    for (let dy = -rad; dy <= rad; dy++) {
+      for (let dx = -rad; dx <= rad; dx++) {
+        if (dx * dx + dy * dy <= rad * rad + 0.5) block(c.center.x + dx, c.center.y + dy, p.cover[c.kind]);
+      }
+    }
+  }
+
+  for (const z of spec.spawnZones) {
+    const { x, y, w, h } = z.rect;
+    r.fillRect(x * s, y * s, w * s, h * s, p.team[z.teamId], 0.35);
+    r.strokeRect(x * s, y * s, w * s, h * s, p.team[z.teamId]);
+  }
+
+  const o = spec.objective;
+  r.fillDisc((o.center.x + 0.5) * s, (o.center.y + 0.5) * s, o.radius * s, p.objective, 0.25);
+  r.strokeCircle((o.center.x + 0.5) * s, (o.center.y + 0.5) * s, o.radius * s, Math.max(1, s), p.objective);
+  return r;
+}
+
+/** What BFS sees: blocked cells in the untagged wall colour, hazard cells in their colour, open cells shaded by height. */
+export function rasterizeGrid(grid: BakedGrid, opts: PreviewOptions = {}): Raster {
+  const s = opts.scale ?? 2;
+  const p = previewPalette(opts.theme);
+  const r = new Raster(grid.size * s, grid.size * s, p.outside);
+  const wall = p.wallByTag(undefined);
+  const hazardColors: Record<number, Rgb | undefined> = {
+    [HAZARD_CODE.lava]: p.hazard.lava,
+    [HAZARD_CODE.void]: p.hazard.void,
+    [HAZARD_CODE.jumpPad]: p.hazard.jumpPad,
+  };
+  for (let y = 0; y < grid.size; y++) {
+    for (let x = 0; x < grid.size; x++) {
+      const i = y * grid.size + x;
+      const hazard = hazardColors[grid.hazards?.[i] ?? HAZARD_CODE.none];
+      const color = grid.blocked[i] ? wall : hazard ?? heightShade(p, grid.heights?.[i] ?? 0);
+      r.fillRect(x * s, y * s, s, s, color);
+    }
+  }
+  return r;
+}
+
+export type ContactTile = { spec: MapSpec; label: string; theme?: MapTheme };
+
+/** One SVG with every tile laid out in `cols` columns, each captioned underneath. */
+export function contactSheetSvg(tiles: ContactTile[], cols: number, tilePx = 250): string {
+  const rows = Math.ceil(tiles.length / cols);
+  const cellW = tilePx + CONTACT_GAP;
+  const cellH = tilePx + LABEL_HEIGHT + CONTACT_GAP;
+  const parts = tiles.map((t, k) => {
+    const x = (k % cols) * cellW + CONTACT_GAP;
+    const y = Math.floor(k / cols) * cellH + CONTACT_GAP;
+    const body = specSvgBody(t.spec, previewPalette(t.theme));
+    return [
+      `<svg x="${x}" y="${y}" width="${tilePx}" height="${tilePx}" viewBox="0 0 ${t.spec.size} ${t.spec.size}">\n${body}\n</svg>`,
+      `<text x="${x}" y="${y + tilePx + 11}" font-size="11" font-family="monospace" fill="#dddddd">${escapeXml(t.label)}</text>`,
+    ].join("\n");
+  });
+  const w = cols * cellW + CONTACT_GAP;
+  const h = rows * cellH + CONTACT_GAP;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">\n<rect width="${w}" height="${h}" fill="#101014"/>\n${parts.join("\n")}\n</svg>\n`;
+}
+
+/** Rasters tiled in `cols` columns (no captions; the SVG sheet has them). */
+export function contactSheetPng(rasters: Raster[], cols: number): Raster {
+  const tileW = Math.max(...rasters.map((r) => r.width));
+  const tileH = Math.max(...rasters.map((r) => r.height));
+  const rows = Math.ceil(rasters.length / cols);
+  const sheet = new Raster(cols * (tileW + CONTACT_GAP) + CONTACT_GAP, rows * (tileH + CONTACT_GAP) + CONTACT_GAP, [16, 16, 20]);
+  rasters.forEach((r, k) => {
+    sheet.blit(r, (k % cols) * (tileW + CONTACT_GAP) + CONTACT_GAP, Math.floor(k / cols) * (tileH + CONTACT_GAP) + CONTACT_GAP);
+  });
+  return sheet;
+}
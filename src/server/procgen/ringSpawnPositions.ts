@@ -3,7 +3,7 @@
  * World coords: spec center = (0,0), so radius in spec = radius in world.
  */
 
-import type { MapSpecV1 } from './spec.js';
+import type { MapSpec } from './spec.js';
 
 /** Margin from ring walls so pickups don't spawn inside walls. */
 const RING_MARGIN = 6;
@@ -13,9 +13,17 @@ const RING_MARGIN = 6;
  * so items are spread across outer, mid, and inner lanes. Uses rng() for determinism.
  */
 export function sampleRingPosition(
-  spec: MapSpecV1,
+  spec: MapSpec,
   rng: () => number
 ): { x: number; z: number } {
+  // Hand-authored maps declare their own region instead of ring bands
+  if (spec.shardRegion) {
+    const { minRadius, maxRadius } = spec.shardRegion;
+    const radius = minRadius + rng() * (maxRadius - minRadius);
+    const angle = rng() * 2 * Math.PI;
+    return { x: radius * Math.cos(angle), z: radius * Math.sin(angle) };
+  }
+
   const radii = spec.ringRadii;
   const r0 = radii[0];
   const innerR = radii[radii.length - 1];
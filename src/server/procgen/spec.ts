@@ -14,7 +14,7 @@ export type WallSegment = {
   b: Vec2;
   thickness: number;
   // Optional metadata for debugging/tuning
-  tag?: "ring" | "spoke" | "perimeter";
+  tag?: "ring" | "spoke" | "perimeter" | "cave" | "room" | "lane";
 };
 
 export type Cover = {
@@ -23,11 +23,16 @@ export type Cover = {
   kind: "pillar" | "crate" | "lowwall";
 };
 
+/** Arena topology; see generators/registry.ts. */
+export type ArenaLayout = "rings" | "caves" | "bsp" | "lanes";
+
 export type MapSpecV1 = {
   v: 1;
   seed: string;
   size: number;
   center: Vec2;
+  /** Generator that produced this spec. Omitted for rings (keeps legacy spec hashes stable). */
+  layout?: ArenaLayout;
 
   /** Number of concentric rings (3, 4, or 5). More rings = tighter center, more maze. */
   rings: 3 | 4 | 5;
@@ -35,12 +40,96 @@ export type MapSpecV1 = {
   ringRadii: number[];
 
   // Lane structure
-  segments: number; // ring segmentation count
-  spokes: number;   // number of spoke lanes
+  segments: number; // ring segmentation count (0 for non-ring layouts)
+  spokes: number;   // number of spoke lanes (0 for non-ring layouts)
 
   spawnZones: SpawnZone[];
   objective: ObjectiveZone;
 
   wallSegments: WallSegment[];
   cover: Cover[];
+
+  /** Id of the hand-authored map (assets/maps) this spec describes; absent for generated arenas. */
+  handMap?: string;
+  /** Annulus around the centre for shard/power-up placement; absent = sample the ring bands. */
+  shardRegion?: { minRadius: number; maxRadius: number };
+  /** Tower mode build site; absent = the arena centre. */
+  towerCenter?: Vec2;
+};
+
+/** Raised block of floor; top surface sits at `height` blocks above the base floor. */
+export type Platform = {
+  rect: Rect;
+  height: number;
+};
+
+/**
+ * Inclined floor connecting two heights. `dir` is the direction of ascent in spec space
+ * ("+x" = height increases with x). Stairs climb 1 block per cell; ramps are twice as long.
+ */
+export type Ramp = {
+  rect: Rect;
+  dir: "+x" | "-x" | "+y" | "-y";
+  fromHeight: number;
+  toHeight: number;
+  kind: "ramp" | "stairs";
+};
+
+/** Sunken bowl, terraced 1 block per ring so it can always be walked out of. */
+export type Pit = {
+  center: Vec2;
+  radius: number;
+  depth: number;
+};
+
+/** Floor that burns while stood on; damage goes through CombatService as a 'hazard' hit. */
+export type DamageFloor = {
+  kind: "lava";
+  rect: Rect;
+  damagePerSecond: number;
 };
+
+/** Hole through the floor; falling in is a hazard KO rather than a free fall recovery. */
+export type VoidPit = {
+  kind: "void";
+  rect: Rect;
+};
+
+/** Pad that launches players up (and along facingDeg) at launchSpeed blocks/s. */
+export type JumpPad = {
+  kind: "jumpPad";
+  rect: Rect;
+  launchSpeed: number;
+  facingDeg: number;
+};
+
+/**
+ * Floor-level platform shuttling between `rect` and `rect` shifted by `travel`, one round trip per
+ * periodMs. Spawned as an entity; generated over void pits as the way across.
+ */
+export type MovingPlatform = {
+  kind: "mover";
+  rect: Rect;
+  travel: Vec2;
+  periodMs: number;
+};
+
+export type Hazard = DamageFloor | VoidPit | JumpPad | MovingPlatform;
+
+/**
+ * V2 adds elevation on top of the V1 layout: raised platforms, ramps/stairs up to them and pits,
+ * plus hazards (see hazards.ts). Walls, cover, spawn zones and the objective keep their V1 meaning;
+ * the floor height under them comes from the baked height field (see gridBake).
+ */
+export type MapSpecV2 = Omit<MapSpecV1, "v"> & {
+  v: 2;
+  /** Highest platform top (blocks above base floor). */
+  maxHeight: number;
+  platforms: Platform[];
+  ramps: Ramp[];
+  pits: Pit[];
+  hazards: Hazard[];
+};
+
+/** Any supported spec version. Consumers branch on `v`. */
+export type MapSpec = MapSpecV1 | MapSpecV2;
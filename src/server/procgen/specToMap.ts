@@ -1,22 +1,38 @@
 /**
- * Convert MapSpecV1 to Hytopia map format (blockTypes + blocks).
+ * Convert MapSpec (v1 or v2) to Hytopia map format (blockTypes + blocks).
  * Spec 2D (x,y) maps to world (x - center.x, y=0|1, y - center.y) so arena is centered at (0, 0).
+ * V2 floors are raised/lowered per cell (platforms, ramps, pits); walls and cover sit on the local floor.
  * Uses theme for floor, wall, trim (y=2 band), and sparse accent; theme defaults to procedural from spec.seed.
  * Renders spec.cover as obstacles (pillar/crate/lowwall) to break up wide open areas.
+ * V2 hazards: void cells get no floor at all, lava and jump pads swap the top floor block for the
+ * theme's hazardId/padId. Moving platforms are entities (HazardSystem), not blocks.
+ * Theme decor: banner strips are blocks here; grass and torches are entities, listed by specDecorations.
  */
 
-import type { MapSpecV1 } from "./spec";
-import { bakeGridFromSpec } from "./gridBake";
+import type { MapSpec } from "./spec";
+import { bakeGridFromSpec, type BakedGrid } from "./gridBake";
 import type { MapTheme } from "./themes";
 import { generateTheme, getBlockTypesForIds } from "./themes";
 import { rand01 } from "./themes";
+import { createChunkedMap, setChunkedBlock, type ChunkedMap } from "./chunkedMap";
+import { HAZARD_CODE, isHazardCell } from "./hazards";
 
 /** Wall height in blocks so you can't see over them; creates winding corridors. */
 const WALL_HEIGHT = 5;
 
-/** Trim band at this Y (second layer of wall). */
+/** Trim band at this height above the floor (second layer of wall). */
 const TRIM_Y = 2;
 
+/** Share of wall-face cells (wall next to walkable floor) that carry a banner strip when the theme has one. */
+const BANNER_RATE = 0.03;
+
+/** Banner strip occupies these heights above the floor (above the trim band). */
+const BANNER_YS = [3, 4];
+
+/** Caps on entity scatter so a large arena doesn't spawn thousands of entities or lights. */
+const MAX_GRASS = 400;
+const MAX_TORCHES = 48;
+
 /** Block IDs for cover obstacles (from BLOCK_CATALOG: stone, bricks, cobblestone). */
 const COVER_BLOCK_IDS = { pillar: 15, crate: 3, lowwall: 5 } as const;
 
@@ -25,19 +41,49 @@ export type HytopiaMap = {
   blocks: Record<string, number>;
 };
 
+/** Entity scatter for a themed map, in world coordinates (y = block the decoration stands in). */
+export type Decoration = {
+  kind: "grass" | "tallGrass" | "torch";
+  x: number;
+  y: number;
+  z: number;
+  yawDeg: number;
+};
+
 /**
- * Rasterize spec to 3D blocks: floor at y=0, walls stacked up to WALL_HEIGHT.
+ * Rasterize spec to 3D blocks: floor at y=0 (v2: per-cell floor height), walls stacked up to WALL_HEIGHT.
  * Trim at y=2; wall cells may use accent block with theme.accentRate (deterministic from spec.seed).
  * If theme is omitted, one is generated from spec.seed so each round stays deterministic and varied.
  */
-export function specToMap(spec: MapSpecV1, theme?: MapTheme): HytopiaMap {
-  const t = theme ?? generateTheme(spec.seed);
+export function specToMap(spec: MapSpec, theme?: MapTheme): HytopiaMap {
+  const blocks: Record<string, number> = {};
+  const blockTypes = rasterize(spec, theme ?? generateTheme(spec.seed), (x, y, z, id) => {
+    blocks[`${x},${y},${z}`] = id;
+  });
+  return { blockTypes, blocks };
+}
+
+/** Same blocks as specToMap, stored per chunk (see chunkedMap.ts) without building the keyed record. */
+export function specToChunkedMap(spec: MapSpec, theme?: MapTheme): ChunkedMap {
+  const map = createChunkedMap();
+  map.blockTypes = rasterize(spec, theme ?? generateTheme(spec.seed), (x, y, z, id) => setChunkedBlock(map, x, y, z, id));
+  return map;
+}
+
+/** Emit every block through `put` (later writes win); returns the block types used. */
+function rasterize(
+  spec: MapSpec,
+  t: MapTheme,
+  put: (x: number, y: number, z: number, id: number) => void
+): HytopiaMap["blockTypes"] {
   const g = bakeGridFromSpec(spec, 1);
   const center = spec.center;
   const ox = g.originX ?? 0;
   const oy = g.originY ?? 0;
-  const blocks: Record<string, number> = {};
   const seed = spec.seed;
+  const heights = g.heights;
+  const heightAt = (lx: number, ly: number): number =>
+    heights && lx >= 0 && ly >= 0 && lx < g.size && ly < g.size ? heights[ly * g.size + lx] : 0;
 
   for (let ly = 0; ly < g.size; ly++) {
     for (let lx = 0; lx < g.size; lx++) {
@@ -45,16 +91,25 @@ export function specToMap(spec: MapSpecV1, theme?: MapTheme): HytopiaMap {
       const wz = oy + ly - center.y;
       const idx = ly * g.size + lx;
       const blocked = g.blocked[idx] !== 0;
+      const hazard = g.hazards ? g.hazards[idx] : HAZARD_CODE.none;
+      if (hazard === HAZARD_CODE.void) continue;
 
-      blocks[`${wx},0,${wz}`] = t.floorId;
+      // Fill the column down to the lowest neighbour so platform and pit edges have no see-through gaps
+      const h = heightAt(lx, ly);
+      const bottom = Math.min(h, heightAt(lx - 1, ly), heightAt(lx + 1, ly), heightAt(lx, ly - 1), heightAt(lx, ly + 1));
+      for (let y = bottom; y < h; y++) put(wx, y, wz, t.floorId);
+      put(wx, h, wz, hazard === HAZARD_CODE.lava ? t.hazardId : hazard === HAZARD_CODE.jumpPad ? t.padId : t.floorId);
       if (blocked) {
-        for (let y = 1; y <= WALL_HEIGHT; y++) {
-          const key = `${wx},${y},${wz}`;
-          if (y === TRIM_Y) {
-            blocks[key] = t.trimId;
+        const banner =
+          t.decor.bannerId != null && isWallFace(g, lx, ly) && rand01(`${seed}banner${wx},${wz}`) < BANNER_RATE;
+        for (let y = h + 1; y <= h + WALL_HEIGHT; y++) {
+          if (y === h + TRIM_Y) {
+            put(wx, y, wz, t.trimId);
+          } else if (banner && BANNER_YS.includes(y - h)) {
+            put(wx, y, wz, t.decor.bannerId!);
           } else {
-            const r = rand01(seed + key);
-            blocks[key] = r < t.accentRate ? t.accentId : t.wallId;
+            const r = rand01(`${seed}${wx},${y},${wz}`);
+            put(wx, y, wz, r < t.accentRate ? t.accentId : t.wallId);
           }
         }
       }
@@ -82,19 +137,85 @@ export function specToMap(spec: MapSpecV1, theme?: MapTheme): HytopiaMap {
         if (dx * dx + dz * dz > r * r + 0.5) continue;
         const idx = worldToGridIdx(wx + dx, wz + dz);
         if (idx == null || g.blocked[idx] !== 0) continue;
-        for (let y = 1; y <= height; y++) {
-          blocks[`${wx + dx},${y},${wz + dz}`] = bid;
+        const floor = heights ? heights[idx] : 0;
+        for (let y = floor + 1; y <= floor + height; y++) {
+          put(wx + dx, y, wz + dz, bid);
         }
       }
     }
   }
 
-  const blockTypes = getBlockTypesForIds([
+  return getBlockTypesForIds([
     t.floorId,
     t.wallId,
     t.trimId,
     t.accentId,
     ...Object.values(COVER_BLOCK_IDS),
+    ...(g.hazards ? [t.hazardId, t.padId] : []),
+    ...(t.decor.bannerId != null ? [t.decor.bannerId] : []),
   ]);
-  return { blockTypes, blocks };
+}
+
+function isWalkable(g: BakedGrid, lx: number, ly: number): boolean {
+  if (lx < 0 || ly < 0 || lx >= g.size || ly >= g.size) return false;
+  const i = ly * g.size + lx;
+  return g.blocked[i] === 0 && !isHazardCell(g.hazards, i);
+}
+
+/** Wall cell with walkable floor on at least one side (so its face is visible from the arena). */
+function isWallFace(g: BakedGrid, lx: number, ly: number): boolean {
+  return isWalkable(g, lx - 1, ly) || isWalkable(g, lx + 1, ly) || isWalkable(g, lx, ly - 1) || isWalkable(g, lx, ly + 1);
+}
+
+/** Keep at most `max` items, evenly strided so a cap doesn't favour one side of the arena. */
+function capEvenly<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items;
+  const step = items.length / max;
+  return Array.from({ length: max }, (_, i) => items[Math.floor(i * step)]);
+}
+
+/**
+ * Theme scatter that isn't blocks: grass tufts on open floor and torches on wall tops beside walkable
+ * floor. Deterministic from spec.seed; cover and hazard cells stay bare.
+ */
+export function specDecorations(spec: MapSpec, theme?: MapTheme): Decoration[] {
+  const t = theme ?? generateTheme(spec.seed);
+  if (t.decor.grassRate <= 0 && t.decor.torchRate <= 0) return [];
+  const g = bakeGridFromSpec(spec, 1);
+  const ox = g.originX ?? 0;
+  const oy = g.originY ?? 0;
+  const seed = spec.seed;
+  const heightAt = (i: number) => (g.heights ? g.heights[i] : 0);
+
+  const coverCells = new Set<number>();
+  for (const c of spec.cover) {
+    for (let dx = -c.radius; dx <= c.radius; dx++) {
+      for (let dy = -c.radius; dy <= c.radius; dy++) {
+        const lx = c.center.x + dx - ox;
+        const ly = c.center.y + dy - oy;
+        if (lx >= 0 && ly >= 0 && lx < g.size && ly < g.size) coverCells.add(ly * g.size + lx);
+      }
+    }
+  }
+
+  const grass: Decoration[] = [];
+  const torches: Decoration[] = [];
+  for (let ly = 0; ly < g.size; ly++) {
+    for (let lx = 0; lx < g.size; lx++) {
+      const i = ly * g.size + lx;
+      const x = ox + lx - spec.center.x;
+      const z = oy + ly - spec.center.y;
+      const yawDeg = Math.floor(rand01(`${seed}yaw${x},${z}`) * 360);
+      if (isWalkable(g, lx, ly)) {
+        if (coverCells.has(i) || g.hazards?.[i] === HAZARD_CODE.jumpPad) continue;
+        if (rand01(`${seed}grass${x},${z}`) >= t.decor.grassRate) continue;
+        const kind = rand01(`${seed}tall${x},${z}`) < 0.3 ? "tallGrass" : "grass";
+        grass.push({ kind, x, y: heightAt(i) + 1, z, yawDeg });
+      } else if (g.blocked[i] !== 0 && isWallFace(g, lx, ly)) {
+        if (rand01(`${seed}torch${x},${z}`) >= t.decor.torchRate) continue;
+        torches.push({ kind: "torch", x, y: heightAt(i) + WALL_HEIGHT + 1, z, yawDeg });
+      }
+    }
+  }
+  return [...capEvenly(grass, MAX_GRASS), ...capEvenly(torches, MAX_TORCHES)];
 }
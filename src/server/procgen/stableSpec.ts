@@ -1,5 +1,5 @@
 import { createHash } from "node:crypto";
-import type { MapSpecV1 } from "./spec";
+import type { MapSpec } from "./spec";
 
 /** Stable JSON: sort object keys so serialization is deterministic. */
 export function stableStringify(obj: unknown): string {
@@ -14,6 +14,6 @@ export function stableStringify(obj: unknown): string {
   return "{" + pairs.join(",") + "}";
 }
 
-export function specHash(spec: MapSpecV1): string {
+export function specHash(spec: MapSpec): string {
   return createHash("sha256").update(stableStringify(spec), "utf8").digest("hex");
 }
@@ -1,8 +1,32 @@
 /**
- * Procedural map themes: block IDs for floor, wall, trim, and accent.
- * Used with round seed so each round can look completely different.
+ * Biome themes: the block palette (floor, wall, trim, accent, hazards) plus everything else a round
+ * looks and sounds like — skybox, ambient/directional light, music and decorative scatter.
+ * Picked by round seed or by playlist `theme`, so consecutive rounds read as different places.
  */
 
+/** 0..255 per channel (Hytopia light colours). */
+export type ThemeColor = { r: number; g: number; b: number };
+
+export type ThemeLighting = {
+  ambientColor: ThemeColor;
+  ambientIntensity: number;
+  directionalColor: ThemeColor;
+  directionalIntensity: number;
+  /** Sun position relative to the arena centre; low y = long shadows. */
+  directionalPosition: { x: number; y: number; z: number };
+};
+
+/** Decorative scatter placed by specToMap (see specDecorations); rates are per eligible cell. */
+export type ThemeDecor = {
+  /** Grass tufts on open floor. */
+  grassRate: number;
+  /** Torches (point lights) on wall tops next to walkable floor. */
+  torchRate: number;
+  torchColor: ThemeColor;
+  /** Two-block banner strips on wall faces; null = none. */
+  bannerId: number | null;
+};
+
 export type MapTheme = {
   id: string;
   label: string;
@@ -11,6 +35,15 @@ export type MapTheme = {
   trimId: number;   // top cap / trim at y=2
   accentId: number; // sparse accent on walls
   accentRate: number; // 0..1 probability per wall cell
+  hazardId: number; // damage floor (lava) surface
+  padId: number;    // jump pad surface; should stand out from floorId
+  /** Skybox folder under assets/ (e.g. "skyboxes/partly-cloudy"). */
+  skyboxUri: string;
+  /** Looping round music under assets/. */
+  musicUri: string;
+  musicVolume: number;
+  lighting: ThemeLighting;
+  decor: ThemeDecor;
 };
 
 /**
@@ -33,7 +66,7 @@ export function rand01(key: string): number {
   return h / 0xffffffff;
 }
 
-/** Block catalog for arena (matches assets/map.json blockTypes; no water). */
+/** Block catalog for arena (assets/map.json blockTypes plus lava for damage floors; no water). */
 export type BlockCatalogEntry = {
   id: number;
   name: string;
@@ -58,8 +91,12 @@ export const BLOCK_CATALOG: BlockCatalogEntry[] = [
   { id: 13, name: "spruce-leaves", textureUri: "blocks/spruce-leaves.png", isCustom: false, isMultiTexture: false },
   { id: 14, name: "spruce-log", textureUri: "blocks/spruce-log", isCustom: false, isMultiTexture: true },
   { id: 15, name: "stone", textureUri: "blocks/stone.png", isCustom: false, isMultiTexture: false },
+  { id: 16, name: "lava", textureUri: "blocks/lava.png", isCustom: false, isMultiTexture: false },
 ];
 
+/** Catalog id of lava; never a floor, wall or accent pick. */
+export const LAVA_BLOCK_ID = 16;
+
 const catalogById = new Map(BLOCK_CATALOG.map((b) => [b.id, b]));
 
 /** Get block type records for the given IDs (for Hytopia map blockTypes). */
@@ -75,33 +112,100 @@ export function getBlockTypesForIds(ids: number[]): BlockCatalogEntry[] {
   return out;
 }
 
-/** Preset themes using real block IDs from the catalog. */
+/**
+ * Only assets shipped in assets/ are referenced (one skybox and one track today), so biomes differ mostly
+ * in palette, light and scatter; drop more folders into assets/skyboxes or assets/audio/music and point
+ * presets at them.
+ */
+const SKYBOX_DEFAULT = "skyboxes/partly-cloudy";
+const MUSIC_DEFAULT = "audio/music/hytopia-main-theme.mp3";
+
+/** Models for entity scatter (see specDecorations); torches are lights, not models. */
+export const DECORATION_MODELS = {
+  grass: "models/environment/Plains/grass.gltf",
+  tallGrass: "models/environment/Plains/grass-tall.gltf",
+} as const;
+
+/** Warm torch flame; most biomes use it. */
+const TORCH_WARM: ThemeColor = { r: 255, g: 170, b: 90 };
+
+const rgb = (r: number, g: number, b: number): ThemeColor => ({ r, g, b });
+
+/** Preset biomes using real block IDs from the catalog. */
 export const THEMES: MapTheme[] = [
-  { id: "meadow", label: "Meadow", floorId: 7, wallId: 15, trimId: 15, accentId: 9, accentRate: 0.06 },
-  { id: "stone", label: "Stone", floorId: 15, wallId: 5, trimId: 15, accentId: 3, accentRate: 0.08 },
-  { id: "dark", label: "Dark", floorId: 5, wallId: 15, trimId: 5, accentId: 4, accentRate: 0.10 },
-  { id: "bright", label: "Bright", floorId: 9, wallId: 7, trimId: 9, accentId: 8, accentRate: 0.12 },
-  { id: "sand", label: "Sand", floorId: 12, wallId: 15, trimId: 5, accentId: 15, accentRate: 0.07 },
-  { id: "brick", label: "Brick", floorId: 15, wallId: 3, trimId: 5, accentId: 15, accentRate: 0.09 },
-  { id: "pine", label: "Pine", floorId: 6, wallId: 14, trimId: 11, accentId: 13, accentRate: 0.05 },
-  { id: "garden", label: "Garden", floorId: 7, wallId: 11, trimId: 9, accentId: 2, accentRate: 0.11 },
+  {
+    id: "meadow", label: "Meadow", floorId: 7, wallId: 15, trimId: 15, accentId: 9, accentRate: 0.06, hazardId: LAVA_BLOCK_ID, padId: 12,
+    skyboxUri: SKYBOX_DEFAULT, musicUri: MUSIC_DEFAULT, musicVolume: 0.1,
+    lighting: { ambientColor: rgb(255, 255, 255), ambientIntensity: 1, directionalColor: rgb(255, 248, 230), directionalIntensity: 3, directionalPosition: { x: 100, y: 150, z: 100 } },
+    decor: { grassRate: 0.012, torchRate: 0, torchColor: TORCH_WARM, bannerId: null },
+  },
+  {
+    id: "stone", label: "Stone", floorId: 15, wallId: 5, trimId: 15, accentId: 3, accentRate: 0.08, hazardId: LAVA_BLOCK_ID, padId: 4,
+    skyboxUri: SKYBOX_DEFAULT, musicUri: MUSIC_DEFAULT, musicVolume: 0.08,
+    lighting: { ambientColor: rgb(210, 220, 235), ambientIntensity: 0.8, directionalColor: rgb(235, 240, 255), directionalIntensity: 2.5, directionalPosition: { x: -80, y: 140, z: 60 } },
+    decor: { grassRate: 0.002, torchRate: 0.01, torchColor: TORCH_WARM, bannerId: 3 },
+  },
+  {
+    id: "dark", label: "Dark", floorId: 5, wallId: 15, trimId: 5, accentId: 4, accentRate: 0.10, hazardId: LAVA_BLOCK_ID, padId: 12,
+    skyboxUri: SKYBOX_DEFAULT, musicUri: MUSIC_DEFAULT, musicVolume: 0.06,
+    lighting: { ambientColor: rgb(120, 130, 170), ambientIntensity: 0.35, directionalColor: rgb(150, 160, 210), directionalIntensity: 0.8, directionalPosition: { x: 40, y: 60, z: -120 } },
+    decor: { grassRate: 0, torchRate: 0.035, torchColor: TORCH_WARM, bannerId: 4 },
+  },
+  {
+    id: "bright", label: "Bright", floorId: 9, wallId: 7, trimId: 9, accentId: 8, accentRate: 0.12, hazardId: LAVA_BLOCK_ID, padId: 1,
+    skyboxUri: SKYBOX_DEFAULT, musicUri: MUSIC_DEFAULT, musicVolume: 0.12,
+    lighting: { ambientColor: rgb(255, 255, 245), ambientIntensity: 1.3, directionalColor: rgb(255, 255, 240), directionalIntensity: 3.5, directionalPosition: { x: 60, y: 200, z: 40 } },
+    decor: { grassRate: 0.02, torchRate: 0, torchColor: TORCH_WARM, bannerId: null },
+  },
+  {
+    id: "sand", label: "Sand", floorId: 12, wallId: 15, trimId: 5, accentId: 15, accentRate: 0.07, hazardId: LAVA_BLOCK_ID, padId: 4,
+    skyboxUri: SKYBOX_DEFAULT, musicUri: MUSIC_DEFAULT, musicVolume: 0.1,
+    lighting: { ambientColor: rgb(255, 235, 200), ambientIntensity: 1.1, directionalColor: rgb(255, 215, 160), directionalIntensity: 3.8, directionalPosition: { x: 150, y: 90, z: 20 } },
+    decor: { grassRate: 0, torchRate: 0.004, torchColor: TORCH_WARM, bannerId: 3 },
+  },
+  {
+    id: "brick", label: "Brick", floorId: 15, wallId: 3, trimId: 5, accentId: 15, accentRate: 0.09, hazardId: LAVA_BLOCK_ID, padId: 12,
+    skyboxUri: SKYBOX_DEFAULT, musicUri: MUSIC_DEFAULT, musicVolume: 0.08,
+    lighting: { ambientColor: rgb(235, 215, 205), ambientIntensity: 0.7, directionalColor: rgb(255, 200, 170), directionalIntensity: 2, directionalPosition: { x: -120, y: 70, z: -40 } },
+    decor: { grassRate: 0.002, torchRate: 0.02, torchColor: TORCH_WARM, bannerId: 5 },
+  },
+  {
+    id: "pine", label: "Pine", floorId: 6, wallId: 14, trimId: 11, accentId: 13, accentRate: 0.05, hazardId: LAVA_BLOCK_ID, padId: 12,
+    skyboxUri: SKYBOX_DEFAULT, musicUri: MUSIC_DEFAULT, musicVolume: 0.09,
+    lighting: { ambientColor: rgb(200, 230, 215), ambientIntensity: 0.8, directionalColor: rgb(230, 245, 255), directionalIntensity: 2.2, directionalPosition: { x: 30, y: 120, z: 140 } },
+    decor: { grassRate: 0.015, torchRate: 0.006, torchColor: TORCH_WARM, bannerId: 13 },
+  },
+  {
+    id: "garden", label: "Garden", floorId: 7, wallId: 11, trimId: 9, accentId: 2, accentRate: 0.11, hazardId: LAVA_BLOCK_ID, padId: 1,
+    skyboxUri: SKYBOX_DEFAULT, musicUri: MUSIC_DEFAULT, musicVolume: 0.11,
+    lighting: { ambientColor: rgb(255, 245, 235), ambientIntensity: 1.1, directionalColor: rgb(255, 240, 210), directionalIntensity: 3, directionalPosition: { x: -60, y: 160, z: 90 } },
+    decor: { grassRate: 0.025, torchRate: 0.004, torchColor: rgb(255, 220, 150), bannerId: 2 },
+  },
 ];
 
-/** Pick a preset theme by round seed (deterministic). */
+/** Pick a preset biome by round seed (deterministic); this is what rounds use unless a playlist pins one. */
 export function pickTheme(roundSeed: string): MapTheme {
   const idx = hash32(roundSeed) % THEMES.length;
   return THEMES[idx];
 }
 
+/** Preset theme by id (e.g. a playlist override); undefined if unknown. */
+export function getThemeById(id: string): MapTheme | undefined {
+  return THEMES.find((t) => t.id === id);
+}
+
 /** IDs that work well as floor (walkable, solid). */
 const FLOOR_CANDIDATES = [6, 7, 8, 9, 12, 15, 5, 3];
 
+/** IDs that read as a distinct pad against most floors. */
+const PAD_CANDIDATES = [1, 4, 12, 3];
+
 /** IDs that work well as walls. */
 const WALL_CANDIDATES = [15, 5, 3, 1, 11, 14, 7];
 
 /**
- * Generate a theme procedurally from round seed so each round can be completely different.
- * Picks floor, wall, trim, accent from the catalog and a deterministic accent rate.
+ * Generate a theme procedurally from round seed: floor, wall, trim and accent from the catalog and a
+ * deterministic accent rate, on top of the sky, light, music and scatter of the seed's preset biome.
  */
 export function generateTheme(roundSeed: string): MapTheme {
   const r = (key: string) => rand01(roundSeed + key);
@@ -110,7 +214,7 @@ export function generateTheme(roundSeed: string): MapTheme {
   const floorId = pick(FLOOR_CANDIDATES, "floor");
   let wallId = pick(WALL_CANDIDATES, "wall");
   let trimId = pick([15, 5, 3, 1], "trim");
-  let accentId = pick([...BLOCK_CATALOG.map((b) => b.id)].filter((id) => id !== 16), "accent");
+  let accentId = pick([...BLOCK_CATALOG.map((b) => b.id)].filter((id) => id !== LAVA_BLOCK_ID), "accent");
 
   // Avoid same block for wall and trim when possible
   if (trimId === wallId) trimId = wallId === 15 ? 5 : 15;
@@ -118,8 +222,10 @@ export function generateTheme(roundSeed: string): MapTheme {
   if (accentId === wallId) accentId = wallId === 15 ? 3 : 15;
 
   const accentRate = 0.04 + r("rate") * 0.10;
+  const padId = pick(PAD_CANDIDATES.filter((id) => id !== floorId), "pad");
 
   return {
+    ...pickTheme(roundSeed),
     id: "proc",
     label: "Procedural",
     floorId,
@@ -127,5 +233,7 @@ export function generateTheme(roundSeed: string): MapTheme {
     trimId,
     accentId,
     accentRate,
+    hazardId: LAVA_BLOCK_ID,
+    padId,
   };
 }
@@ -1,7 +1,11 @@
-import { MapSpecV1 } from "./spec";
-import { bakeGridFromSpec, toCell } from "./gridBake";
+import type { MapSpec, Vec2 } from "./spec";
+import { bakeGridFromSpec, toCell, type BakedGrid } from "./gridBake";
+import { MAX_CLIMB, isV2 } from "./elevation";
+import { HAZARD_CODE, JUMP_PAD_MAX_RISE, isHazardCell } from "./hazards";
 
 // NOTE: cellSize=1 is required for accurate BFS connectivity; larger cells can alias gates shut.
+// V2 specs: a step up of more than MAX_CLIMB blocks is impassable (JUMP_PAD_MAX_RISE off a jump pad);
+// dropping down is always allowed. Lava and void cells are never on a required path.
 
 /** Fixed cell size for connectivity validation. Do not increase for "perf" — it causes false failures. */
 const CONNECTIVITY_CELL_SIZE = 1 as const;
@@ -10,52 +14,69 @@ function idx(x: number, y: number, n: number) {
   return y * n + x;
 }
 
-export function validateConnectivity(spec: MapSpecV1): { ok: true } | { ok: false; errors: string[] } {
+const NEIGHBORS = [
+  { x: 1, y: 0 }, { x: -1, y: 0 },
+  { x: 0, y: 1 }, { x: 0, y: -1 },
+];
+
+/** BFS over walkable cells honouring climb limits and hazards; true when `goal` is reached from `start`. */
+function runBFS(g: BakedGrid, startX: number, startY: number, goal: { x: number; y: number }): boolean {
+  const heights = g.heights;
+  const hazards = g.hazards;
+  const seen = new Uint8Array(g.size * g.size);
+  const qx = new Int32Array(g.size * g.size);
+  const qy = new Int32Array(g.size * g.size);
+  let qh = 0, qt = 0;
+
+  const push = (x: number, y: number, fromHeight?: number, fromPad = false) => {
+    const i = idx(x, y, g.size);
+    if (seen[i]) return;
+    if (g.blocked[i] || isHazardCell(hazards, i)) return;
+    const climb = fromPad ? JUMP_PAD_MAX_RISE : MAX_CLIMB;
+    if (heights && fromHeight !== undefined && heights[i] - fromHeight > climb) return;
+    seen[i] = 1;
+    qx[qt] = x;
+    qy[qt] = y;
+    qt++;
+  };
+
+  push(startX, startY);
+
+  while (qh < qt) {
+    const x = qx[qh];
+    const y = qy[qh];
+    qh++;
+
+    if (x === goal.x && y === goal.y) return true;
+
+    const h = heights ? heights[idx(x, y, g.size)] : undefined;
+    const onPad = hazards?.[idx(x, y, g.size)] === HAZARD_CODE.jumpPad;
+    for (const d of NEIGHBORS) {
+      const nx = x + d.x;
+      const ny = y + d.y;
+      if (nx < 0 || ny < 0 || nx >= g.size || ny >= g.size) continue;
+      push(nx, ny, h, onPad);
+    }
+  }
+  return false;
+}
+
+/**
+ * True when a player standing at spec point `from` can walk to `to` (same rules as validateConnectivity).
+ * Pass a grid baked with cellSize 1 to check many pairs without re-baking.
+ */
+export function canReach(spec: MapSpec, from: Vec2, to: Vec2, grid?: BakedGrid): boolean {
+  const g = grid ?? bakeGridFromSpec(spec, CONNECTIVITY_CELL_SIZE);
+  const a = toCell(g, from);
+  return runBFS(g, a.x, a.y, toCell(g, to));
+}
+
+export function validateConnectivity(spec: MapSpec): { ok: true } | { ok: false; errors: string[] } {
   const errors: string[] = [];
   const g = bakeGridFromSpec(spec, CONNECTIVITY_CELL_SIZE);
 
   const target = toCell(g, spec.objective.center);
 
-  const neighbors = [
-    { x: 1, y: 0 }, { x: -1, y: 0 },
-    { x: 0, y: 1 }, { x: 0, y: -1 },
-  ];
-
-  function runBFS(startX: number, startY: number): boolean {
-    const seen = new Uint8Array(g.size * g.size);
-    const qx = new Int32Array(g.size * g.size);
-    const qy = new Int32Array(g.size * g.size);
-    let qh = 0, qt = 0;
-
-    const push = (x: number, y: number) => {
-      const i = idx(x, y, g.size);
-      if (seen[i]) return;
-      if (g.blocked[i]) return;
-      seen[i] = 1;
-      qx[qt] = x;
-      qy[qt] = y;
-      qt++;
-    };
-
-    push(startX, startY);
-
-    while (qh < qt) {
-      const x = qx[qh];
-      const y = qy[qh];
-      qh++;
-
-      if (x === target.x && y === target.y) return true;
-
-      for (const d of neighbors) {
-        const nx = x + d.x;
-        const ny = y + d.y;
-        if (nx < 0 || ny < 0 || nx >= g.size || ny >= g.size) continue;
-        push(nx, ny);
-      }
-    }
-    return false;
-  }
-
   for (const s of spec.spawnZones) {
     const sc = toCell(g, { x: s.rect.x + s.rect.w / 2, y: s.rect.y + s.rect.h / 2 });
 
@@ -67,12 +88,20 @@ export function validateConnectivity(spec: MapSpecV1): { ok: true } | { ok: fals
         const ny = sc.y + dy;
         if (nx < 0 || ny < 0 || nx >= g.size || ny >= g.size) continue;
         if (g.blocked[idx(nx, ny, g.size)]) continue;
-        found = runBFS(nx, ny);
+        found = runBFS(g, nx, ny, target);
       }
     }
 
     if (!found) errors.push(`team ${s.teamId} spawn cannot reach objective (cellSize=${CONNECTIVITY_CELL_SIZE})`);
   }
 
+  // Every platform must be climbable from the objective (and so from every spawn)
+  if (isV2(spec)) {
+    spec.platforms.forEach((p, i) => {
+      const pc = toCell(g, { x: p.rect.x + p.rect.w / 2, y: p.rect.y + p.rect.h / 2 });
+      if (!runBFS(g, target.x, target.y, pc)) errors.push(`platform ${i} cannot be reached from objective`);
+    });
+  }
+
   return errors.length ? { ok: false, errors } : { ok: true };
 }
@@ -1,9 +1,11 @@
-import { MapSpecV1 } from "./spec";
+import type { MapSpec } from "./spec";
+import { MAX_PIT_DEPTH, MAX_PLATFORM_HEIGHT, MIN_PLATFORM_HEIGHT, isV2, rampLength, requiredRampLength } from "./elevation";
+import { MAX_JUMP_PAD_SPEED, MAX_LAVA_DPS, MIN_JUMP_PAD_SPEED, MIN_LAVA_DPS } from "./hazards";
 
-export function validateSpec(spec: MapSpecV1): { ok: true } | { ok: false; errors: string[] } {
+export function validateSpec(spec: MapSpec): { ok: true } | { ok: false; errors: string[] } {
   const errors: string[] = [];
 
-  if (spec.v !== 1) errors.push("spec.v must be 1");
+  if (spec.v !== 1 && spec.v !== 2) errors.push("spec.v must be 1 or 2");
   if (spec.size <= 0) errors.push("spec.size must be > 0");
   if (![3, 4, 5].includes(spec.rings)) errors.push("spec.rings must be 3, 4, or 5");
   if (!spec.ringRadii || spec.ringRadii.length !== spec.rings) errors.push("spec.ringRadii length must match spec.rings");
@@ -38,5 +40,44 @@ export function validateSpec(spec: MapSpecV1): { ok: true } | { ok: false; error
 
   if (spec.wallSegments.length === 0) errors.push("wallSegments must not be empty");
 
+  if (isV2(spec)) {
+    spec.platforms.forEach((p, i) => {
+      const { x, y, w, h } = p.rect;
+      if (!inBoundsRect(x, y, w, h) || w <= 0 || h <= 0) errors.push(`platform ${i} rect invalid or out of bounds`);
+      if (p.height < MIN_PLATFORM_HEIGHT || p.height > MAX_PLATFORM_HEIGHT) {
+        errors.push(`platform ${i} height must be ${MIN_PLATFORM_HEIGHT}..${MAX_PLATFORM_HEIGHT}`);
+      }
+      if (p.height > spec.maxHeight) errors.push(`platform ${i} height exceeds maxHeight`);
+    });
+    spec.ramps.forEach((r, i) => {
+      const { x, y, w, h } = r.rect;
+      if (!inBoundsRect(x, y, w, h) || w <= 0 || h <= 0) errors.push(`ramp ${i} rect invalid or out of bounds`);
+      if (r.toHeight <= r.fromHeight) errors.push(`ramp ${i} must ascend (toHeight > fromHeight)`);
+      if (rampLength(r) < requiredRampLength(r.kind, r.toHeight - r.fromHeight)) {
+        errors.push(`ramp ${i} too short for its rise`);
+      }
+    });
+    spec.pits.forEach((p, i) => {
+      const { x, y } = p.center;
+      if (!inBoundsRect(x - p.radius, y - p.radius, p.radius * 2, p.radius * 2)) errors.push(`pit ${i} out of bounds`);
+      if (p.radius <= 0) errors.push(`pit ${i} radius must be > 0`);
+      if (p.depth < 1 || p.depth > MAX_PIT_DEPTH) errors.push(`pit ${i} depth must be 1..${MAX_PIT_DEPTH}`);
+    });
+    spec.hazards.forEach((hz, i) => {
+      const { x, y, w, h } = hz.rect;
+      if (!inBoundsRect(x, y, w, h) || w <= 0 || h <= 0) errors.push(`hazard ${i} (${hz.kind}) rect invalid or out of bounds`);
+      if (hz.kind === "lava" && (hz.damagePerSecond < MIN_LAVA_DPS || hz.damagePerSecond > MAX_LAVA_DPS)) {
+        errors.push(`hazard ${i} lava damagePerSecond must be ${MIN_LAVA_DPS}..${MAX_LAVA_DPS}`);
+      }
+      if (hz.kind === "jumpPad" && (hz.launchSpeed < MIN_JUMP_PAD_SPEED || hz.launchSpeed > MAX_JUMP_PAD_SPEED)) {
+        errors.push(`hazard ${i} jump pad launchSpeed must be ${MIN_JUMP_PAD_SPEED}..${MAX_JUMP_PAD_SPEED}`);
+      }
+      if (hz.kind === "mover") {
+        if (hz.periodMs <= 0) errors.push(`hazard ${i} mover periodMs must be > 0`);
+        if (!inBoundsRect(x + hz.travel.x, y + hz.travel.y, w, h)) errors.push(`hazard ${i} mover travels out of bounds`);
+      }
+    });
+  }
+
   return errors.length ? { ok: false, errors } : { ok: true };
 }
@@ -3,7 +3,7 @@
  * Only send on state changes; no per-tick spam.
  */
 
-import type { GameMode } from '../modes/types.js';
+import type { GameMode, MatchRules } from '../modes/types.js';
 
 export const HUD_MESSAGE_VERSION = 1;
 
@@ -17,11 +17,79 @@ export interface HudObjectivePayload {
   respawnAtMs?: number;
 }
 
+/** KOTH hill snippet for HUD (world space). */
+export interface HudHillPayload {
+  x: number;
+  z: number;
+  radius: number;
+  /** 0-based position in this round's hill rotation. */
+  index: number;
+  count: number;
+  /** Sole occupant scoring now; omitted when empty or contested. */
+  holderName?: string;
+  contested: boolean;
+  /** When the hill moves next (ms since epoch); omitted when there is only one hill. */
+  movesAtMs?: number;
+}
+
+/** TDM team row for the team scoreboard. */
+export interface HudTeamPayload {
+  teamId: number;
+  name: string;
+  /** Team kills this round (CTF: captures). */
+  score: number;
+  /** Players (humans + bots) on the team. */
+  size: number;
+}
+
+/** CTF flag row: where a team's flag is and who has it. */
+export interface HudFlagPayload {
+  teamId: number;
+  status: 'home' | 'carried' | 'dropped';
+  /** Omitted unless carried. */
+  carrierName?: string;
+  /** Dropped flags: when they return home (ms since epoch). */
+  returnsAtMs?: number;
+}
+
+/** Time trial best-times row for the current seed. */
+export interface HudBestTime {
+  name: string;
+  timeMs: number;
+}
+
+/** Match series standings row. */
+export interface HudSeriesStanding {
+  playerId: string;
+  name: string;
+  points: number;
+  roundWins: number;
+}
+
+/** Match series progress for the round splash and standings screen. */
+export interface HudSeriesPayload {
+  /** Series round starting (or just finished, between rounds), 1-based. */
+  round: number;
+  rounds: number;
+  /** Round wins that clinch the series. */
+  winsNeeded: number;
+  /** Most round wins first, then points. */
+  standings: HudSeriesStanding[];
+  /** Set once the series is decided. */
+  winnerName?: string;
+}
+
 /** Leaderboard entry sent to UI (name + score). */
 export interface HudScoreEntry {
   playerId: string;
   name: string;
   score: number;
+  /** Team modes: the player's team. */
+  teamId?: number;
+  /** Co-op survival: waiting for a revive. */
+  downed?: boolean;
+  /** Time trial: finished run time (score is then 100). */
+  timeMs?: number;
 }
 
 export interface HudMessage {
@@ -51,14 +119,24 @@ export interface HudMessage {
   mode?: GameMode;
   /** Elapsed match time in ms (for timer display). */
   timerMs?: number;
-  /** Mode-specific score (survival/timetrial). */
+  /** Mode-specific score (survival: shared party score; timetrial). */
   score?: number;
   /** Survival: current wave number. */
   wave?: number;
   /** Survival: enemies remaining this wave. */
   enemiesRemaining?: number;
-  /** Time Trial: capture progress 0–100. */
+  /** Co-op survival: local player is down (sent only to that player). */
+  downed?: boolean;
+  /** Co-op survival: local player's revive progress 0–100 while downed. */
+  reviveProgressPercent?: number;
+  /** Time Trial: local player's capture progress 0–100. */
   captureProgressPercent?: number;
+  /** Time Trial: local player's finished run time (timerMs then stops at it). */
+  runTimeMs?: number;
+  /** Time Trial: the seed's record time, if any. */
+  bestTimeMs?: number;
+  /** Time Trial: top of the seed's persistent best-times leaderboard. */
+  bestTimes?: HudBestTime[];
   /** Tower MVP: shards carried (not yet deposited). */
   carriedShards?: number;
   /** Tower MVP: shards banked at console. */
@@ -71,6 +149,24 @@ export interface HudMessage {
   roofHoldTargetMs?: number;
   /** Tower MVP: whether roof zone is active. */
   roofActive?: boolean;
+  /** KOTH: current hill and who holds it. */
+  hill?: HudHillPayload;
+  /** KOTH: points needed to win outright; TDM: team kills needed; CTF: captures; bot_ffa: kills needed. */
+  scoreToWin?: number;
+  /** TDM: team scoreboard, by team id. */
+  teams?: HudTeamPayload[];
+  /** TDM: local player's team (sent only to that player). */
+  teamId?: number;
+  /** CTF: every team's flag. */
+  flags?: HudFlagPayload[];
+  /** CTF: team whose flag the local player carries (sent only to that player). */
+  carryingFlagTeamId?: number;
+  /** Lobby: the match rules for the rules editor. */
+  rules?: MatchRules;
+  /** Lobby: saved rule preset names. */
+  rulePresets?: string[];
+  /** Lobby: the local player is the host and may edit the rules (sent only to that player). */
+  isHost?: boolean;
 }
 
 export interface ToastMessage {
@@ -90,6 +186,10 @@ export interface RoundSplashMessage {
   v: typeof HUD_MESSAGE_VERSION;
   type: 'roundSplash';
   roundId: number;
+  /** Sent when a round ends mid-series: show the series standings instead of the round banner. */
+  betweenRounds?: boolean;
+  /** Omitted outside a match series. */
+  series?: HudSeriesPayload;
 }
 
 export type UiMessage = HudMessage | ToastMessage | FeedMessage | RoundSplashMessage;
@@ -3,7 +3,7 @@
  * knockback, death/respawn, score attribution. All values from config/combat.
  *
  * Manual acceptance steps (v1):
- * - Attack within range: reduce victim HP by MELEE_DAMAGE (20); HUD updates.
+ * - Attack within range: reduce victim HP by rules.meleeDamage (MELEE_DAMAGE, 20, by default); HUD updates.
  * - Attack outside range: tryMeleeAttack returns ok:true, hitPlayerId undefined; no damage.
  * - Cooldown: rapid attacks return ok:false reason:'cooldown' after first.
  * - Spawn protection: damage() returns prevented:true until invulnerableUntilMs; HUD shows shield.
@@ -20,20 +20,20 @@ import type { ScoreService } from './ScoreService.js';
 import type { ShardSystem } from '../systems/ShardSystem.js';
 import type { DepositSystem } from '../systems/DepositSystem.js';
 import type { BotManager } from '../systems/BotManager.js';
+import type { EnemySystem } from '../modes/survival/EnemySystem.js';
+import { areTeammates } from '../state/teamState.js';
 import {
   DEFAULT_MAX_HEALTH,
-  MELEE_DAMAGE,
   MELEE_RANGE,
   ATTACK_COOLDOWN_MS,
   RESPAWN_DELAY_MS,
   SPAWN_PROTECTION_MS,
   KNOCKBACK_STRENGTH,
   KNOCKBACK_Y,
-  FRIENDLY_FIRE,
   COMBAT_DEBUG,
 } from '../config/combat.js';
 
-export type DamageSourceKind = 'melee' | 'hazard' | 'unknown';
+export type DamageSourceKind = 'melee' | 'hazard' | 'enemy' | 'unknown';
 
 export interface DamageSource {
   kind: DamageSourceKind;
@@ -60,7 +60,8 @@ export class CombatService {
     private readonly scoreService: ScoreService,
     private readonly shardSystem?: ShardSystem,
     private readonly depositSystem?: DepositSystem,
-    private readonly botManager?: BotManager
+    private readonly botManager?: BotManager,
+    private readonly enemySystem?: EnemySystem
   ) {}
 
   resetHealth(playerId: string): void {
@@ -105,6 +106,10 @@ export class CombatService {
       return { ok: false, reason: 'round_not_running' };
     }
 
+    if ((this.worldState.getPlayer(attackerId)?.health ?? 1) <= 0) {
+      return { ok: false, reason: 'knocked_out' };
+    }
+
     if (!this.canAttack(attackerId, now)) {
       if (COMBAT_DEBUG) {
         console.log(`[combat] tryMeleeAttack ${attackerId} cooldown`);
@@ -125,18 +130,65 @@ export class CombatService {
     const p = this.worldState.getPlayer(attackerId);
     if (p) p.lastAttackAtMs = now;
 
-    const result = this.damage(hitTargetId, MELEE_DAMAGE, {
+    this.resolveMeleeHit(attackerId, hitTargetId);
+    return { ok: true, hitPlayerId: hitTargetId };
+  }
+
+  /**
+   * Bot melee against `targetId` (human or bot): same cooldown, range, damage and KO path as players.
+   * Bots have no camera, so instead of a facing cone the target only has to be within MELEE_RANGE.
+   */
+  tryBotMeleeAttack(botId: string, targetId: string, nowMs?: number): TryMeleeAttackResult {
+    const now = nowMs ?? Date.now();
+
+    if (this.worldState.roundState.status !== 'RUNNING') {
+      return { ok: false, reason: 'round_not_running' };
+    }
+    if (!this.canAttack(botId, now)) return { ok: false, reason: 'cooldown' };
+
+    const from = this.botManager?.getBotPosition(botId);
+    const to = this.getCombatantPosition(targetId);
+    const target = this.worldState.getPlayer(targetId);
+    if (!from || !to || !target || target.health <= 0) return { ok: false, reason: 'no_target' };
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const dz = to.z - from.z;
+    if (dx * dx + dy * dy + dz * dz > MELEE_RANGE * MELEE_RANGE) return { ok: false, reason: 'out_of_range' };
+
+    const p = this.worldState.getPlayer(botId);
+    if (p) p.lastAttackAtMs = now;
+
+    this.resolveMeleeHit(botId, targetId);
+    return { ok: true, hitPlayerId: targetId };
+  }
+
+  /** Survival enemy hit on a player; EnemySystem has already checked range and cooldown. */
+  applyEnemyHit(enemyId: string, playerId: string, amount: number): DamageResult {
+    const result = this.damage(playerId, amount, { kind: 'enemy', attackerId: enemyId });
+    if (!result.prevented && !result.killed) this.applyKnockback(playerId, enemyId);
+    return result;
+  }
+
+  private resolveMeleeHit(attackerId: string, hitTargetId: string): void {
+    // Survival enemies keep their own health and are kinematic, so no knockback
+    if (this.enemySystem?.isEnemy(hitTargetId)) {
+      this.enemySystem.damage(hitTargetId, this.worldState.matchConfig.rules.meleeDamage, attackerId);
+      return;
+    }
+
+    // Blocked friendly hit: no damage and no knockback (shoving teammates off ledges is still griefing)
+    if (this.isFriendlyFireBlocked(attackerId, hitTargetId)) return;
+
+    const result = this.damage(hitTargetId, this.worldState.matchConfig.rules.meleeDamage, {
       kind: 'melee',
       attackerId,
     });
 
     if (result.killed && COMBAT_DEBUG) {
-      console.log(`[combat] tryMeleeAttack ${attackerId} killed ${hitTargetId}`);
+      console.log(`[combat] melee ${attackerId} killed ${hitTargetId}`);
     }
 
     this.applyKnockback(hitTargetId, attackerId);
-
-    return { ok: true, hitPlayerId: hitTargetId };
   }
 
   /**
@@ -154,6 +206,8 @@ export class CombatService {
 
     const victimState = this.worldState.getPlayer(victimId);
     if (!victimState) return { killed: false, prevented: true };
+    // Already KO'd (awaiting respawn, or downed in survival)
+    if (victimState.health != null && victimState.health <= 0) return { killed: false, prevented: true };
 
     const now = Date.now();
     if (
@@ -168,8 +222,8 @@ export class CombatService {
 
     const attackerId = source.attackerId;
     if (attackerId && attackerId === victimId) return { killed: false, prevented: true };
-    if (attackerId && !FRIENDLY_FIRE) {
-      // Future: team check would go here; for v1 we allow all.
+    if (attackerId && this.isFriendlyFireBlocked(attackerId, victimId)) {
+      return { killed: false, prevented: true };
     }
 
     const maxHealth = victimState.maxHealth ?? DEFAULT_MAX_HEALTH;
@@ -192,6 +246,13 @@ export class CombatService {
     return { killed, prevented: false };
   }
 
+  /** Teammates can't hurt each other unless friendly fire is on (the mode's setting, else rules.friendlyFire). */
+  private isFriendlyFireBlocked(attackerId: string, victimId: string): boolean {
+    const config = this.worldState.matchConfig;
+    const friendlyFire = this.roundController.activeMode.friendlyFire?.(config) ?? config.rules.friendlyFire;
+    return !friendlyFire && areTeammates(this.worldState.teamState, attackerId, victimId);
+  }
+
   respawn(player: Player): void {
     this.roundController.respawnPlayer(player);
     this.resetHealth(player.id);
@@ -261,19 +322,20 @@ export class CombatService {
       }
     }
 
+    for (const enemy of this.enemySystem?.getEnemyPositions() ?? []) {
+      checkTarget(enemy.enemyId, enemy.position);
+    }
+
     return best?.id;
   }
 
   /** Apply knockback impulse to victim (e.g. after melee or /hit). Works for players and bots. */
   applyKnockback(victimId: string, attackerId: string): void {
-    const attackerPlayer = this.getPlayerById(attackerId);
-    const attackerEntity = attackerPlayer
-      ? this.world.entityManager.getPlayerEntitiesByPlayer(attackerPlayer)[0]
-      : undefined;
-    if (!attackerEntity?.isSpawned) return;
+    const attackerPos = this.getCombatantPosition(attackerId);
+    if (!attackerPos) return;
 
-    const ax = attackerEntity.position.x;
-    const az = attackerEntity.position.z;
+    const ax = attackerPos.x;
+    const az = attackerPos.z;
 
     let vx: number;
     let vz: number;
@@ -308,39 +370,40 @@ export class CombatService {
   }
 
   private handleKO(victimId: string, attackerId: string | undefined): void {
-    if (this.worldState.matchConfig.mode === 'survival') {
-      (this.roundController as { onSurvivalPlayerDeath?: () => void }).onSurvivalPlayerDeath?.();
-      return;
-    }
-
+    const mode = this.roundController.activeMode;
     const victimState = this.worldState.getPlayer(victimId);
     const isBot = victimId.startsWith('bot-');
+    const attackerName = attackerId ? this.getPlayerDisplayName(attackerId) : null;
+    const victimName = this.getPlayerDisplayName(victimId);
+    const isEnvironment = !attackerId || attackerId === 'boundary' || attackerId === 'hazard';
 
-    if (this.worldState.matchConfig.mode === 'tower') {
-      const carried = victimState?.carriedShards ?? 0;
-      if (carried > 0 && this.shardSystem) {
-        const pos = this.getVictimPositionForDrop(victimId);
-        this.shardSystem.spawnDroppedShards(pos, carried);
-      }
-      if (victimState) victimState.carriedShards = 0;
-      this.depositSystem?.cancelDeposit(victimId);
-    } else if (isBot && victimState && (victimState.shards ?? 0) > 0 && this.shardSystem) {
-      const pos = this.getVictimPositionForDrop(victimId);
+    // Modes without kill points score elsewhere (hill, captures); a team kill (friendly fire on) scores nothing
+    const teamKill = attackerId != null && areTeammates(this.worldState.teamState, attackerId, victimId);
+    const scoresKills = mode.scoresKills && !teamKill;
+    const killScored = !!attackerId && !isEnvironment && attackerId !== victimId && scoresKills;
+    const pos = this.getVictimPositionForDrop(victimId);
+
+    // Survival: the victim stays down (no respawn timer) until a teammate revives them
+    const outcome = mode.onPlayerKO?.({ victimId, attackerId, killScored, position: pos });
+    if (outcome === 'downed') {
+      const victimPlayer = this.getPlayerById(victimId);
+      if (victimPlayer) this.hudService.sendHud(victimPlayer);
+      return;
+    }
+
+    if (isBot && victimState && (victimState.shards ?? 0) > 0 && this.shardSystem) {
       this.shardSystem.spawnDroppedShards(pos, victimState.shards);
       victimState.shards = 0;
     }
 
-    const attackerName = attackerId ? this.getPlayerDisplayName(attackerId) : null;
-    const victimName = this.getPlayerDisplayName(victimId);
-    const isEnvironment = !attackerId || attackerId === 'boundary' || attackerId === 'hazard';
-
-    if (attackerId && !isEnvironment && attackerId !== victimId) {
+    if (killScored && attackerId) {
       this.scoreService.addPoint(attackerId, attackerName ?? attackerId, 1, 'kill');
     }
+    this.roundController.checkModeWin();
 
     const toastMsg = isEnvironment
       ? `${victimName} took hazard damage`
-      : `${attackerName} eliminated ${victimName} +1`;
+      : `${attackerName} eliminated ${victimName}${scoresKills ? ' +1' : ''}`;
     const feedMsg = isEnvironment
       ? `${victimName} fell to the hazard`
       : `${attackerName} eliminated ${victimName}`;
@@ -348,7 +411,8 @@ export class CombatService {
     this.hudService.broadcastFeed(feedMsg);
     this.hudService.broadcastHud();
 
-    if (victimState && !isBot) {
+    // Bots honour the same lock: BotManager skips them until they respawn
+    if (victimState) {
       victimState.controlsLockedUntilMs = Date.now() + RESPAWN_DELAY_MS;
     }
 
@@ -365,15 +429,17 @@ export class CombatService {
   }
 
   private getVictimPositionForDrop(victimId: string): { x: number; y: number; z: number } {
-    const victimPlayer = this.getPlayerById(victimId);
-    if (victimPlayer) {
-      const entities = this.world.entityManager.getPlayerEntitiesByPlayer(victimPlayer);
-      const entity = entities[0];
+    return this.getCombatantPosition(victimId) ?? { x: 0, y: 0, z: 0 };
+  }
+
+  /** Spawned human entity, bot or survival enemy position; null when none exists. */
+  private getCombatantPosition(id: string): { x: number; y: number; z: number } | null {
+    const player = this.getPlayerById(id);
+    if (player) {
+      const entity = this.world.entityManager.getPlayerEntitiesByPlayer(player)[0];
       if (entity?.isSpawned) return { ...entity.position };
     }
-    const pos = this.botManager?.getBotPosition(victimId);
-    if (pos) return pos;
-    return { x: 0, y: 0, z: 0 };
+    return this.botManager?.getBotPosition(id) ?? this.enemySystem?.getEnemyPosition(id) ?? null;
   }
 
   private getPlayerDisplayName(playerId: string): string {
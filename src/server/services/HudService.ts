@@ -6,15 +6,20 @@
 import type { World, Player } from 'hytopia';
 import { PlayerManager } from 'hytopia';
 import type { WorldState } from '../state/WorldState.js';
+import type { ModeRegistry } from '../modes/registry.js';
 import {
   HUD_MESSAGE_VERSION,
   type HudMessage,
   type HudObjectivePayload,
+  type HudScoreEntry,
   type ToastMessage,
   type FeedMessage,
   type RoundSplashMessage,
+  type HudSeriesPayload,
 } from '../schema/hudMessages.js';
-import { TARGET_SHARDS } from '../constants.js';
+import { TEAM_NAMES, teamOf, teamSizes } from '../state/teamState.js';
+import { seriesStandings, seriesWinsNeeded } from '../state/seriesState.js';
+import { listRulePresets } from '../config/matchRules.js';
 
 export interface HudExtras {
   winnerName?: string;
@@ -24,7 +29,8 @@ export interface HudExtras {
 export class HudService {
   constructor(
     private readonly world: World,
-    private readonly worldState: WorldState
+    private readonly worldState: WorldState,
+    private readonly modes: ModeRegistry
   ) {}
 
   /**
@@ -54,7 +60,7 @@ export class HudService {
       shards,
       roundId: r.roundId,
       status: r.status,
-      target: TARGET_SHARDS,
+      target: config.rules.targetShards,
       roundStatus: r.status,
       matchEndsAtMs: r.matchEndsAtMs,
       resetEndsAtMs: r.resetEndsAtMs ?? extras?.resetEndsAtMs,
@@ -64,38 +70,29 @@ export class HudService {
     msg.effects = (p?.effects ?? []).map(e => ({ kind: e.kind, expiresAtMs: e.expiresAtMs }));
 
     msg.mode = config.mode;
-    if (config.mode === 'survival') {
-      const surv = this.worldState.survivalState;
-      msg.timerMs = surv.status === 'RUNNING' ? surv.elapsedMs : 0;
-      msg.score = surv.status === 'ENDED' ? surv.score : Math.floor(surv.elapsedMs / 1000) + surv.wave * 25 + surv.kills * 10 + Math.floor(surv.inObjectiveMs / 1000) * 2;
-      msg.wave = surv.wave;
-      msg.enemiesRemaining = surv.enemiesRemaining;
-    } else if (config.mode === 'timetrial') {
-      const tt = this.worldState.timeTrialState;
-      msg.timerMs = tt.status === 'RUNNING' ? Date.now() - tt.startedAtMs : 0;
-      msg.captureProgressPercent = tt.requiredCaptureMs > 0
-        ? Math.min(100, Math.floor((tt.captureMs / tt.requiredCaptureMs) * 100))
-        : 0;
-      if (tt.status === 'ENDED') {
-        msg.score = Math.max(0, 300000 - (Date.now() - tt.startedAtMs));
-      }
+    const teams = this.worldState.teamState;
+    if (teams.teamCount > 0) {
+      const sizes = teamSizes(teams);
+      msg.teams = sizes.map((size, teamId) => ({
+        teamId,
+        name: TEAM_NAMES[teamId],
+        score: this.worldState.score.scoresByTeamId[teamId] ?? 0,
+        size,
+      }));
+      const myTeam = teamOf(teams, player.id);
+      if (myTeam != null) msg.teamId = myTeam;
     }
+    this.modes.get(config.mode).contributeHud?.(msg, player.id);
 
-    if (config.mode === 'tower') {
-      msg.carriedShards = p?.carriedShards ?? 0;
-      msg.bankedShards = p?.bankedShards ?? 0;
-      const ts = this.worldState.towerState;
-      if (ts) {
-        const tierThresholds = [8, 18, 30];
-        const next = tierThresholds[ts.unlockedTier];
-        msg.nextTierRequirement = next;
-        msg.roofHoldMs = ts.roofHoldMs;
-        msg.roofHoldTargetMs = 20000;
-        msg.roofActive = ts.roofActive;
-      }
+    if (r.status === 'LOBBY') {
+      msg.rules = config.rules;
+      msg.rulePresets = listRulePresets();
+      msg.isHost = this.worldState.hostPlayerId === player.id;
     }
 
-    if (r.winnerPlayerId != null) {
+    if (r.winnerTeamId != null) {
+      msg.winnerName = `${TEAM_NAMES[r.winnerTeamId]} team`;
+    } else if (r.winnerPlayerId != null) {
       // Winner display name from score store if present, else live player display name, else id.
       const entry = this.worldState.score.scoresByPlayerId[r.winnerPlayerId];
       msg.winnerName =
@@ -119,34 +116,34 @@ export class HudService {
   }
 
   /**
-   * Leaderboard derived from WorldState (humans + bots).
-   * Tower mode: score = bankedShards + carriedShards. Other modes: score = shards.
-   * Sorted by score desc, then name asc.
+   * Leaderboard derived from WorldState (humans + bots). Each mode picks the score (shards, banked shards,
+   * kills, hill points, captures, survivor points, capture percent) and any extra fields; team modes tag the
+   * team. Sorted by score desc, then run time, then name asc. RoundController ranks series rounds with it.
    */
-  private getLeaderboard(): Array<{ playerId: string; name: string; score: number }> {
+  getLeaderboard(): HudScoreEntry[] {
+    const def = this.modes.get(this.worldState.matchConfig.mode);
     const players = PlayerManager.instance.getConnectedPlayersByWorld(this.world);
-    const entries: Array<{ playerId: string; name: string; score: number }> = [];
-    const isTower = this.worldState.matchConfig.mode === 'tower';
+    const entries: HudScoreEntry[] = [];
+    const entry = (playerId: string, name: string): HudScoreEntry => {
+      const team = teamOf(this.worldState.teamState, playerId);
+      return {
+        playerId,
+        name,
+        score: def.leaderboardScore(playerId, this.worldState.getPlayer(playerId)),
+        ...(team != null && { teamId: team }),
+        ...def.leaderboardExtras?.(playerId),
+      };
+    };
 
     for (const pl of players) {
-      const p = this.worldState.getPlayer(pl.id);
-      const name = this.getPlayerDisplayName(pl.id);
-      const score = isTower
-        ? (p?.bankedShards ?? 0) + (p?.carriedShards ?? 0)
-        : (p?.shards ?? 0);
-      entries.push({ playerId: pl.id, name, score });
+      entries.push(entry(pl.id, this.getPlayerDisplayName(pl.id)));
     }
     for (const [botId, displayName] of this.worldState.botDisplayNames) {
-      const p = this.worldState.getPlayer(botId);
-      if (p) {
-        const score = isTower
-          ? (p.bankedShards ?? 0) + (p.carriedShards ?? 0)
-          : p.shards;
-        entries.push({ playerId: botId, name: displayName, score });
-      }
+      if (this.worldState.getPlayer(botId)) entries.push(entry(botId, displayName));
     }
     return entries.sort((a, b) => {
       if (b.score !== a.score) return b.score - a.score;
+      if (a.timeMs != null && b.timeMs != null && a.timeMs !== b.timeMs) return a.timeMs - b.timeMs;
       return a.name.localeCompare(b.name);
     });
   }
@@ -218,24 +215,43 @@ export class HudService {
   }
 
   sendRoundSplashToPlayer(player: Player): void {
+    player.ui.sendData(this.buildRoundSplash(false));
+  }
+
+  /** Round start banner, or with `betweenRounds` the series standings screen after a series round. */
+  broadcastRoundSplash(betweenRounds = false): void {
+    const msg = this.buildRoundSplash(betweenRounds);
+    const players = PlayerManager.instance.getConnectedPlayersByWorld(this.world);
+    for (const player of players) {
+      player.ui.sendData(msg);
+    }
+  }
+
+  private buildRoundSplash(betweenRounds: boolean): RoundSplashMessage {
     const msg: RoundSplashMessage = {
       v: HUD_MESSAGE_VERSION,
       type: 'roundSplash',
       roundId: this.worldState.roundState.roundId,
     };
-    player.ui.sendData(msg);
+    if (betweenRounds) msg.betweenRounds = true;
+    const series = this.getSeriesPayload();
+    if (series) msg.series = series;
+    return msg;
   }
 
-  broadcastRoundSplash(): void {
-    const msg: RoundSplashMessage = {
-      v: HUD_MESSAGE_VERSION,
-      type: 'roundSplash',
-      roundId: this.worldState.roundState.roundId,
+  private getSeriesPayload(): HudSeriesPayload | null {
+    const series = this.worldState.seriesState;
+    if (series.status !== 'RUNNING' && series.status !== 'DONE') return null;
+    const standings = seriesStandings(series);
+    const winner = series.winnerPlayerId != null ? series.standings[series.winnerPlayerId] : undefined;
+    return {
+      // Mid-round: the round being played; between rounds: the one just finished
+      round: this.worldState.roundState.status === 'RUNNING' ? series.roundsPlayed + 1 : series.roundsPlayed,
+      rounds: series.rounds,
+      winsNeeded: seriesWinsNeeded(series),
+      standings: standings.map((s) => ({ ...s })),
+      ...(winner && { winnerName: winner.name }),
     };
-    const players = PlayerManager.instance.getConnectedPlayersByWorld(this.world);
-    for (const player of players) {
-      player.ui.sendData(msg);
-    }
   }
 
   private getPlayerDisplayName(playerId: string): string {
@@ -5,6 +5,7 @@
 
 import type { ScoreEntry } from '../state/types.js';
 import type { WorldState } from '../state/WorldState.js';
+import type { TeamId } from '../state/teamState.js';
 
 export type ScoreReason = 'objective' | 'kill' | 'assist' | 'other';
 
@@ -32,6 +33,7 @@ export class ScoreService {
     }
     this.worldState.score = {
       scoresByPlayerId: {},
+      scoresByTeamId: {},
       lastEventAtMs: undefined,
     };
     for (const { id, name } of players) {
@@ -61,4 +63,26 @@ export class ScoreService {
 
     return entry;
   }
+
+  /** Add points to a team (team modes). Returns the team's new score. */
+  addTeamPoint(teamId: number, amount: number): number {
+    const { score } = this.worldState;
+    score.scoresByTeamId[teamId] = (score.scoresByTeamId[teamId] ?? 0) + amount;
+    score.lastEventAtMs = Date.now();
+    return score.scoresByTeamId[teamId];
+  }
+
+  /** A player whose score reached `target`, or null (mode win checks). */
+  playerReaching(target: number): string | null {
+    const entry = Object.values(this.worldState.score.scoresByPlayerId).find((e) => e.score >= target);
+    return entry?.playerId ?? null;
+  }
+
+  /** A team whose score reached `target`, or null. */
+  teamReaching(target: number): TeamId | null {
+    for (const [teamId, score] of Object.entries(this.worldState.score.scoresByTeamId)) {
+      if (score >= target) return Number(teamId) as TeamId;
+    }
+    return null;
+  }
 }
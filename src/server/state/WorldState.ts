@@ -13,11 +13,16 @@ import type {
   SpawnState,
   TowerState,
 } from './types.js';
-import type { MapSpecV1 } from '../procgen/spec.js';
+import type { MapSpec } from '../procgen/spec.js';
 import type { MatchConfig } from '../modes/types.js';
+import type { PlaylistEntry } from '../config/playlist.js';
 import { DEFAULT_MATCH_CONFIG } from './matchConfig.js';
 import { INITIAL_SURVIVAL_STATE, type SurvivalState } from './survivalState.js';
 import { INITIAL_TIME_TRIAL_STATE, type TimeTrialState } from './timeTrialState.js';
+import { INITIAL_KOTH_STATE, type KothState } from './kothState.js';
+import { INITIAL_TEAM_STATE, type TeamState } from './teamState.js';
+import { INITIAL_CTF_STATE, type CtfState } from './ctfState.js';
+import { INITIAL_SERIES_STATE, type SeriesState } from './seriesState.js';
 
 /** Salt used when deriving seed from matchId. Changing this changes all derived seeds. */
 const SEED_SALT = 'patternisle-match-v1';
@@ -58,10 +63,10 @@ export class WorldState {
   mapData: MapData | null = null;
 
   /** When set by /seed (dev) or at match start, the generated procgen spec for this match. */
-  procgenSpec: MapSpecV1 | null = null;
+  procgenSpec: MapSpec | null = null;
 
   /** Same as procgenSpec; set together for procgen integration. */
-  mapSpec: MapSpecV1 | null = null;
+  mapSpec: MapSpec | null = null;
 
   /** Seed actually used for last procgen (may differ from config seed after retries). */
   usedSeed: string = '';
@@ -69,14 +74,29 @@ export class WorldState {
   /** Attempt index (1-based) for last successful procgen. */
   procgenAttempt: number = 0;
 
+  /** Playlist entry for the current arena when a map rotation is loaded; null otherwise. */
+  playlistEntry: PlaylistEntry | null = null;
+
   /** Match config (mode, size, survival/timetrial params). Loaded at startup. */
   matchConfig: MatchConfig = { ...DEFAULT_MATCH_CONFIG };
 
-  /** Solo Survival mode state. */
-  survivalState: SurvivalState = { ...INITIAL_SURVIVAL_STATE };
+  /** Co-op Survival mode state. */
+  survivalState: SurvivalState = { ...INITIAL_SURVIVAL_STATE, survivors: {} };
 
   /** Solo Time Trial mode state. */
-  timeTrialState: TimeTrialState = { ...INITIAL_TIME_TRIAL_STATE };
+  timeTrialState: TimeTrialState = { ...INITIAL_TIME_TRIAL_STATE, bestTimes: [], runs: {} };
+
+  /** King of the Hill mode state. */
+  kothState: KothState = { ...INITIAL_KOTH_STATE };
+
+  /** Team assignment for team modes (TDM, CTF); teamCount 0 otherwise. */
+  teamState: TeamState = { ...INITIAL_TEAM_STATE };
+
+  /** Capture the Flag mode state. */
+  ctfState: CtfState = { ...INITIAL_CTF_STATE };
+
+  /** Best-of-N match series across rounds; IDLE when rounds are played one-off. */
+  seriesState: SeriesState = { ...INITIAL_SERIES_STATE, standings: {} };
 
   /** Tower MVP: tier unlock and roof hold. Null when mode is not tower. */
   towerState: TowerState | null = null;
@@ -90,6 +110,7 @@ export class WorldState {
   /** Per-match scores; managed by ScoreService. Supports join mid-round. */
   score: ScoreState = {
     scoresByPlayerId: {},
+    scoresByTeamId: {},
   };
 
   /** Power-up spawns and pacing; managed by power-up system. */
@@ -103,6 +124,9 @@ export class WorldState {
   /** Bot id -> display name for HUD/leaderboard and winner announcement. Set by BotManager. */
   botDisplayNames: Map<string, string> = new Map();
 
+  /** Lobby host (edits the match rules): the first human to join, handed on to the next connected one when they leave. */
+  hostPlayerId: string | null = null;
+
   constructor(matchId: string) {
     this.matchId = matchId;
     this.seed = stringToSeed(matchId + SEED_SALT);
@@ -122,7 +146,9 @@ export class WorldState {
 
   /** Get or create player state; marks connected. */
   registerPlayer(playerId: string): PlayerState {
-    return this.ensurePlayerState(playerId, true);
+    const state = this.ensurePlayerState(playerId, true);
+    if (this.hostPlayerId == null) this.hostPlayerId = playerId;
+    return state;
   }
 
   /** Get or create player state. When markConnected is true, sets connected = true. */
@@ -173,6 +199,15 @@ export class WorldState {
   disconnectPlayer(playerId: string): void {
     const state = this.players.get(playerId);
     if (state) state.connected = false;
+    if (this.hostPlayerId === playerId) {
+      this.hostPlayerId = null;
+      for (const [id, p] of this.players) {
+        if (p.connected) {
+          this.hostPlayerId = id;
+          break;
+        }
+      }
+    }
   }
 
   getPlayer(playerId: string): PlayerState | undefined {
@@ -0,0 +1,127 @@
+/**
+ * Capture the Flag mode state. One flag per team at its base; touching an enemy flag picks it up, touching
+ * your own dropped flag sends it home, and carrying an enemy flag onto your base (own flag at home) scores.
+ * Updated at 10hz from RoundController; KOs drop the carried flag via dropFlag.
+ */
+
+import type { TeamId } from './teamState.js';
+
+type Vec3 = { x: number; y: number; z: number };
+
+export type FlagStatus = 'home' | 'carried' | 'dropped';
+
+export interface FlagState {
+  teamId: TeamId;
+  home: Vec3;
+  position: Vec3;
+  status: FlagStatus;
+  carrierId: string | null;
+  /** When the flag was dropped (ms since epoch); it returns home after ctf.flagReturnMs. */
+  droppedAtMs: number;
+}
+
+export interface CtfState {
+  status: 'IDLE' | 'RUNNING' | 'ENDED';
+  flags: FlagState[];
+}
+
+export const INITIAL_CTF_STATE: CtfState = {
+  status: 'IDLE',
+  flags: [],
+};
+
+/** Horizontal reach for touching a flag or a base. */
+export const FLAG_TOUCH_RADIUS = 1.8;
+/** Vertical reach, so a flag on a platform can't be grabbed from the floor below. */
+const FLAG_TOUCH_HEIGHT = 3;
+
+export function startCtf(state: CtfState, bases: Array<{ teamId: TeamId } & Vec3>): void {
+  state.status = 'RUNNING';
+  state.flags = bases.map((b) => ({
+    teamId: b.teamId,
+    home: { x: b.x, y: b.y, z: b.z },
+    position: { x: b.x, y: b.y, z: b.z },
+    status: 'home',
+    carrierId: null,
+    droppedAtMs: 0,
+  }));
+}
+
+export function flagCarriedBy(state: CtfState, playerId: string): FlagState | null {
+  return state.flags.find((f) => f.status === 'carried' && f.carrierId === playerId) ?? null;
+}
+
+function sendHome(flag: FlagState): void {
+  flag.status = 'home';
+  flag.carrierId = null;
+  flag.position = { ...flag.home };
+}
+
+/** Carrier KO'd or left: leave their flag at `pos`. Returns the dropped flag, or null if they had none. */
+export function dropFlag(state: CtfState, playerId: string, pos: Vec3, nowMs: number): FlagState | null {
+  const flag = flagCarriedBy(state, playerId);
+  if (!flag) return null;
+  flag.status = 'dropped';
+  flag.carrierId = null;
+  flag.position = { ...pos };
+  flag.droppedAtMs = nowMs;
+  return flag;
+}
+
+export type CtfEvent =
+  | { kind: 'taken'; flagTeamId: TeamId; playerId: string }
+  | { kind: 'returned'; flagTeamId: TeamId; playerId: string }
+  | { kind: 'captured'; flagTeamId: TeamId; playerId: string; teamId: TeamId }
+  | { kind: 'reset'; flagTeamId: TeamId };
+
+function touches(a: Vec3, b: Vec3): boolean {
+  const dx = a.x - b.x;
+  const dz = a.z - b.z;
+  return dx * dx + dz * dz <= FLAG_TOUCH_RADIUS * FLAG_TOUCH_RADIUS && Math.abs(a.y - b.y) <= FLAG_TOUCH_HEIGHT;
+}
+
+/**
+ * Advance one tick. `combatants` are live players and bots with their team; carried flags follow their
+ * carrier. Returns what happened so the caller can score and announce it.
+ */
+export function tickCtf(
+  state: CtfState,
+  combatants: Array<{ playerId: string; teamId: TeamId; position: Vec3 }>,
+  nowMs: number,
+  cfg: { flagReturnMs: number }
+): CtfEvent[] {
+  const events: CtfEvent[] = [];
+  if (state.status !== 'RUNNING') return events;
+
+  for (const flag of state.flags) {
+    if (flag.status === 'dropped' && nowMs - flag.droppedAtMs >= cfg.flagReturnMs) {
+      sendHome(flag);
+      events.push({ kind: 'reset', flagTeamId: flag.teamId });
+    } else if (flag.status === 'carried') {
+      const carrier = combatants.find((c) => c.playerId === flag.carrierId);
+      if (carrier) flag.position = { ...carrier.position };
+    }
+  }
+
+  for (const c of combatants) {
+    for (const flag of state.flags) {
+      if (flag.status === 'carried' || !touches(c.position, flag.position)) continue;
+      if (flag.teamId !== c.teamId) {
+        if (flagCarriedBy(state, c.playerId)) continue;
+        flag.status = 'carried';
+        flag.carrierId = c.playerId;
+        flag.position = { ...c.position };
+        events.push({ kind: 'taken', flagTeamId: flag.teamId, playerId: c.playerId });
+      } else if (flag.status === 'dropped') {
+        sendHome(flag);
+        events.push({ kind: 'returned', flagTeamId: flag.teamId, playerId: c.playerId });
+      } else {
+        const carried = flagCarriedBy(state, c.playerId);
+        if (!carried) continue;
+        sendHome(carried);
+        events.push({ kind: 'captured', flagTeamId: carried.teamId, playerId: c.playerId, teamId: c.teamId });
+      }
+    }
+  }
+  return events;
+}
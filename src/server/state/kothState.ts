@@ -0,0 +1,95 @@
+/**
+ * King of the Hill mode state. Updated at 10hz; the hill only scores while exactly one player stands in it.
+ */
+
+import type { HillZone } from '../modes/koth/hills.js';
+
+export interface KothState {
+  status: 'IDLE' | 'RUNNING' | 'ENDED';
+  hills: HillZone[];
+  hillIndex: number;
+  /** When the hill moves to the next zone (ms since epoch). */
+  hillMovesAtMs: number;
+  /** Sole occupant scoring right now; null when empty or contested. */
+  holderId: string | null;
+  /** More than one player inside the hill. */
+  contested: boolean;
+  /** Holder's time in the hill not yet turned into a point. */
+  holdMs: number;
+}
+
+export const INITIAL_KOTH_STATE: KothState = {
+  status: 'IDLE',
+  hills: [],
+  hillIndex: 0,
+  hillMovesAtMs: 0,
+  holderId: null,
+  contested: false,
+  holdMs: 0,
+};
+
+export function startKoth(state: KothState, hills: HillZone[], nowMs: number, hillDurationMs: number): void {
+  state.status = 'RUNNING';
+  state.hills = hills;
+  state.hillIndex = 0;
+  state.hillMovesAtMs = nowMs + hillDurationMs;
+  state.holderId = null;
+  state.contested = false;
+  state.holdMs = 0;
+}
+
+export function currentHill(state: KothState): HillZone | null {
+  return state.hills.length > 0 ? state.hills[state.hillIndex % state.hills.length] : null;
+}
+
+export type KothTickResult = {
+  /** Points earned by the holder this tick (0 when nobody scores). */
+  points: number;
+  /** Hill moved to the next zone. */
+  moved: boolean;
+  /** Holder or contested flag changed (HUD refresh). */
+  changed: boolean;
+};
+
+/**
+ * Advance one tick: `occupantIds` are the live players inside the current hill. A lone occupant banks
+ * hold time and earns a point per `pointIntervalMs`; leaving, dying or being joined resets the partial.
+ */
+export function tickKoth(
+  state: KothState,
+  occupantIds: string[],
+  deltaMs: number,
+  nowMs: number,
+  cfg: { hillDurationMs: number; pointIntervalMs: number }
+): KothTickResult {
+  const result: KothTickResult = { points: 0, moved: false, changed: false };
+  if (state.status !== 'RUNNING') return result;
+
+  if (nowMs >= state.hillMovesAtMs && state.hills.length > 1) {
+    state.hillIndex = (state.hillIndex + 1) % state.hills.length;
+    state.hillMovesAtMs = nowMs + cfg.hillDurationMs;
+    state.holderId = null;
+    state.contested = false;
+    state.holdMs = 0;
+    result.moved = true;
+    result.changed = true;
+    return result;
+  }
+
+  const holderId = occupantIds.length === 1 ? occupantIds[0] : null;
+  const contested = occupantIds.length > 1;
+  if (holderId !== state.holderId || contested !== state.contested) {
+    state.holderId = holderId;
+    state.contested = contested;
+    state.holdMs = 0;
+    result.changed = true;
+  }
+  if (!holderId) return result;
+
+  state.holdMs += deltaMs;
+  while (state.holdMs >= cfg.pointIntervalMs) {
+    state.holdMs -= cfg.pointIntervalMs;
+    result.points++;
+  }
+  return result;
+}
@@ -1,15 +1,52 @@
-import type { MatchConfig } from '../modes/types.js';
+import type { MatchConfig, MatchRules } from '../modes/types.js';
+import { DEFAULT_FAIRNESS_TOLERANCE } from '../procgen/analyzeArena.js';
+import { TARGET_SHARDS } from '../constants.js';
+import { FRIENDLY_FIRE, MELEE_DAMAGE } from '../config/combat.js';
+
+export const DEFAULT_MATCH_RULES: MatchRules = {
+  targetShards: TARGET_SHARDS,
+  roundResetDelayMs: 8000,
+  meleeDamage: MELEE_DAMAGE,
+  friendlyFire: FRIENDLY_FIRE,
+  powerUpCount: 38,
+  towerTierThresholds: [8, 18, 30],
+};
 
 export const DEFAULT_MATCH_CONFIG: MatchConfig = {
-  mode: 'MULTI', // MULTI/SOLO = shard-race with bots; survival/timetrial = no bots
+  mode: 'MULTI', // MULTI/SOLO = shard-race with bots; survival = no bots
   size: 250,
+  arenaVersion: 2,
+  arenaLayout: 'auto',
+  arenaFairnessTolerance: DEFAULT_FAIRNESS_TOLERANCE,
+  arenaMap: null,
   seed: `match_${Date.now()}`,
   survival: {
     winWaves: 10,
     winSeconds: 300,
     interWaveDelayMs: 4000,
+    reviveMs: 4000,
   },
   timetrial: {
     requiredCaptureMs: 30_000,
   },
+  koth: {
+    scoreToWin: 100,
+    hillDurationMs: 45_000,
+    pointIntervalMs: 1000,
+  },
+  tdm: {
+    teamCount: 2,
+    killsToWin: 30,
+    friendlyFire: false,
+  },
+  ctf: {
+    teamCount: 2,
+    capturesToWin: 3,
+    flagReturnMs: 30_000,
+  },
+  botFfa: {
+    botCount: 5,
+    killsToWin: 20,
+  },
+  rules: DEFAULT_MATCH_RULES,
 };
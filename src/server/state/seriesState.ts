@@ -0,0 +1,91 @@
+/**
+ * Match series: strings N rounds (one mode, or a rotation of modes) into a best-of-N. Round scores are still
+ * wiped every round; the series keeps its own standings. Each round hands out series points by finishing place
+ * and a round win to the winner (every member of a winning team). The first to win a majority of the rounds
+ * takes the series; if nobody does, the standings after the last round decide it.
+ */
+
+import type { GameMode } from '../modes/types.js';
+
+/** Series points by finishing place (1st, 2nd, ...); later places score nothing. */
+export const SERIES_PLACEMENT_POINTS: readonly number[] = [10, 7, 5, 3, 2, 1];
+
+export const SERIES_MAX_ROUNDS = 15;
+
+export interface SeriesStanding {
+  playerId: string;
+  name: string;
+  points: number;
+  roundWins: number;
+}
+
+export interface SeriesState {
+  /** PENDING: starts with the next round. DONE: decided; the final standings stay up until the next round. */
+  status: 'IDLE' | 'PENDING' | 'RUNNING' | 'DONE';
+  /** N in best-of-N. */
+  rounds: number;
+  /** Mode per round, cycled; empty keeps matchConfig.mode. */
+  modes: GameMode[];
+  roundsPlayed: number;
+  standings: Record<string, SeriesStanding>;
+  winnerPlayerId?: string;
+}
+
+export const INITIAL_SERIES_STATE: SeriesState = {
+  status: 'IDLE',
+  rounds: 0,
+  modes: [],
+  roundsPlayed: 0,
+  standings: {},
+};
+
+export function createSeries(rounds: number, modes: GameMode[]): SeriesState {
+  return { status: 'PENDING', rounds, modes: [...modes], roundsPlayed: 0, standings: {} };
+}
+
+/** Round wins that clinch the series. */
+export function seriesWinsNeeded(state: SeriesState): number {
+  return Math.floor(state.rounds / 2) + 1;
+}
+
+/** Mode the series wants for the round about to start, or null to keep matchConfig.mode. */
+export function seriesModeForNextRound(state: SeriesState): GameMode | null {
+  if ((state.status !== 'PENDING' && state.status !== 'RUNNING') || state.modes.length === 0) return null;
+  return state.modes[state.roundsPlayed % state.modes.length];
+}
+
+/** Most round wins first, then points, then name. */
+export function seriesStandings(state: SeriesState): SeriesStanding[] {
+  return Object.values(state.standings).sort(
+    (a, b) => b.roundWins - a.roundWins || b.points - a.points || a.name.localeCompare(b.name)
+  );
+}
+
+export interface SeriesRoundResult {
+  /** Everyone who played the round, best first. */
+  placings: Array<{ playerId: string; name: string }>;
+  /** The round winner, the winning team's members, or empty on a draw. */
+  winnerIds: string[];
+}
+
+/** Record a finished round of a running series. Returns true when this round decided the series. */
+export function recordSeriesRound(state: SeriesState, result: SeriesRoundResult): boolean {
+  if (state.status !== 'RUNNING') return false;
+  result.placings.forEach((p, place) => {
+    const standing = (state.standings[p.playerId] ??= { playerId: p.playerId, name: p.name, points: 0, roundWins: 0 });
+    standing.name = p.name;
+    standing.points += SERIES_PLACEMENT_POINTS[place] ?? 0;
+  });
+  for (const id of result.winnerIds) {
+    const standing = state.standings[id];
+    if (standing) standing.roundWins++;
+  }
+  state.roundsPlayed++;
+
+  const [leader] = seriesStandings(state);
+  const clinched = leader != null && leader.roundWins >= seriesWinsNeeded(state);
+  if (!clinched && state.roundsPlayed < state.rounds) return false;
+  state.status = 'DONE';
+  state.winnerPlayerId = leader?.playerId;
+  return true;
+}
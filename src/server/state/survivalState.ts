@@ -1,18 +1,36 @@
 /**
- * Solo Survival mode state. Updated at 10hz; no per-tick spam.
+ * Co-op Survival mode state. Updated at 10hz; no per-tick spam.
+ * A KO downs a survivor instead of ending the run; a teammate standing close revives them, and the run is
+ * lost only when every survivor still in the world is down.
  */
 
+export interface SurvivorState {
+  name: string;
+  kills: number;
+  /** This survivor's own time inside the objective. */
+  inObjectiveMs: number;
+  revives: number;
+  downed: boolean;
+  /** Revive progress while a teammate stands close; resets when they step away. */
+  reviveMs: number;
+  /** False once they leave the world; their stats still count toward the score. */
+  connected: boolean;
+}
+
 export interface SurvivalState {
   status: 'IDLE' | 'RUNNING' | 'ENDED';
   startedAtMs: number;
   elapsedMs: number;
   wave: number;
+  /** Party total (sum of survivor kills). */
   kills: number;
   score: number;
+  /** Time with at least one survivor inside the objective. */
   inObjectiveMs: number;
   lastTickMs: number;
   /** Enemies still alive this wave (mirrored from WaveDirector). */
   enemiesRemaining: number;
+  survivors: Record<string, SurvivorState>;
 }
 
 export const INITIAL_SURVIVAL_STATE: SurvivalState = {
@@ -25,9 +43,13 @@ export const INITIAL_SURVIVAL_STATE: SurvivalState = {
   inObjectiveMs: 0,
   lastTickMs: 0,
   enemiesRemaining: 0,
+  survivors: {},
 };
 
-export function startSurvival(state: SurvivalState, nowMs: number): void {
+/** Revive radius around a downed survivor (blocks, horizontal). */
+export const REVIVE_RADIUS = 2.5;
+
+export function startSurvival(state: SurvivalState, nowMs: number, players: { id: string; name: string }[]): void {
   state.status = 'RUNNING';
   state.startedAtMs = nowMs;
   state.elapsedMs = 0;
@@ -36,26 +58,162 @@ export function startSurvival(state: SurvivalState, nowMs: number): void {
   state.score = 0;
   state.inObjectiveMs = 0;
   state.lastTickMs = nowMs;
+  state.survivors = {};
+  for (const p of players) joinSurvival(state, p.id, p.name);
+}
+
+/** Add a (late) joiner, or mark a returning survivor connected again. Joiners start up, not downed. */
+export function joinSurvival(state: SurvivalState, playerId: string, name: string): void {
+  const existing = state.survivors[playerId];
+  if (existing) {
+    existing.connected = true;
+    return;
+  }
+  state.survivors[playerId] = {
+    name,
+    kills: 0,
+    inObjectiveMs: 0,
+    revives: 0,
+    downed: false,
+    reviveMs: 0,
+    connected: true,
+  };
+}
+
+export function leaveSurvival(state: SurvivalState, playerId: string): void {
+  const s = state.survivors[playerId];
+  if (s) s.connected = false;
+}
+
+/** Survivors still in the world (downed or not); waves scale with this. */
+export function partySize(state: SurvivalState): number {
+  return Object.values(state.survivors).filter((s) => s.connected).length;
+}
+
+export function isDowned(state: SurvivalState, playerId: string): boolean {
+  return state.survivors[playerId]?.downed === true;
+}
+
+export function downSurvivor(state: SurvivalState, playerId: string): void {
+  const s = state.survivors[playerId];
+  if (!s) return;
+  s.downed = true;
+  s.reviveMs = 0;
+}
+
+/** True when nobody connected is left standing (the run is lost). */
+export function allDown(state: SurvivalState): boolean {
+  const present = Object.values(state.survivors).filter((s) => s.connected);
+  return present.length > 0 && present.every((s) => s.downed);
+}
+
+export function creditKill(state: SurvivalState, playerId: string | undefined): void {
+  state.kills += 1;
+  const s = playerId ? state.survivors[playerId] : undefined;
+  if (s) s.kills += 1;
+}
+
+/**
+ * Advance revives by `deltaMs`: a downed survivor with a standing teammate within REVIVE_RADIUS gains
+ * progress, credited to the nearest reviver. Returns ids revived this tick (caller restores health).
+ */
+export function tickRevives(
+  state: SurvivalState,
+  positions: Record<string, { x: number; z: number }>,
+  deltaMs: number,
+  reviveMs: number
+): string[] {
+  const revived: string[] = [];
+  const standing = Object.entries(state.survivors).filter(([id, s]) => s.connected && !s.downed && positions[id]);
+  for (const [id, s] of Object.entries(state.survivors)) {
+    if (!s.downed || !s.connected || !positions[id]) continue;
+    const pos = positions[id];
+    let reviverId: string | null = null;
+    let best = REVIVE_RADIUS * REVIVE_RADIUS;
+    for (const [otherId] of standing) {
+      const o = positions[otherId];
+      const d = (o.x - pos.x) ** 2 + (o.z - pos.z) ** 2;
+      if (d <= best) {
+        best = d;
+        reviverId = otherId;
+      }
+    }
+    if (!reviverId) {
+      s.reviveMs = 0;
+      continue;
+    }
+    s.reviveMs += deltaMs;
+    if (s.reviveMs < reviveMs) continue;
+    s.downed = false;
+    s.reviveMs = 0;
+    state.survivors[reviverId].revives += 1;
+    revived.push(id);
+  }
+  return revived;
 }
 
 export function endSurvival(state: SurvivalState, nowMs: number): void {
   state.status = 'ENDED';
   state.elapsedMs = nowMs - state.startedAtMs;
-  state.score = computeScore(state);
+  state.score = computeScore(state).total;
   state.lastTickMs = nowMs;
 }
 
+export interface SurvivorScore {
+  name: string;
+  kills: number;
+  objectiveSec: number;
+  revives: number;
+  /** kills * 10 + objectiveSec * 2 + revives * 15. */
+  points: number;
+}
+
+export interface SurvivalScore {
+  /** Shared party score: time + waves + kills + objective + revives. */
+  total: number;
+  time: number;
+  waves: number;
+  kills: number;
+  objective: number;
+  revives: number;
+  byPlayerId: Record<string, SurvivorScore>;
+}
+
 /**
  * Score formula (deterministic, no Math.random):
- * base = floor(elapsedMs / 1000)
+ * shared = floor(elapsedMs / 1000)
  * + wave * 25
  * + kills * 10
  * + floor(inObjectiveMs / 1000) * 2
+ * + revives * 15
+ * Individual points use the same weights on each survivor's own kills, objective time and revives.
  */
-export function computeScore(state: SurvivalState): number {
-  const base = Math.floor(state.elapsedMs / 1000);
-  const waveBonus = state.wave * 25;
-  const killBonus = state.kills * 10;
-  const objectiveBonus = Math.floor(state.inObjectiveMs / 1000) * 2;
-  return base + waveBonus + killBonus + objectiveBonus;
+export function computeScore(state: SurvivalState): SurvivalScore {
+  const byPlayerId: Record<string, SurvivorScore> = {};
+  let revives = 0;
+  for (const [id, s] of Object.entries(state.survivors)) {
+    const objectiveSec = Math.floor(s.inObjectiveMs / 1000);
+    byPlayerId[id] = {
+      name: s.name,
+      kills: s.kills,
+      objectiveSec,
+      revives: s.revives,
+      points: s.kills * 10 + objectiveSec * 2 + s.revives * 15,
+    };
+    revives += s.revives;
+  }
+  const time = Math.floor(state.elapsedMs / 1000);
+  const waves = state.wave * 25;
+  const kills = state.kills * 10;
+  const objective = Math.floor(state.inObjectiveMs / 1000) * 2;
+  const reviveBonus = revives * 15;
+  return {
+    total: time + waves + kills + objective + reviveBonus,
+    time,
+    waves,
+    kills,
+    objective,
+    revives: reviveBonus,
+    byPlayerId,
+  };
 }
@@ -0,0 +1,84 @@
+/**
+ * Team membership for team modes (TDM, CTF). Team scores live in ScoreState; this only tracks who is on which
+ * team. Teams map onto the spec's four spawn zones: with two teams each side owns two neighbouring zones.
+ */
+
+export type TeamId = 0 | 1 | 2 | 3;
+
+export const TEAM_NAMES: readonly string[] = ['Red', 'Blue', 'Green', 'Gold'];
+
+export interface TeamState {
+  /** Number of teams this round (2–4); 0 = no teams (free-for-all modes). */
+  teamCount: number;
+  teamByPlayerId: Record<string, TeamId>;
+}
+
+export const INITIAL_TEAM_STATE: TeamState = {
+  teamCount: 0,
+  teamByPlayerId: {},
+};
+
+export function teamOf(state: TeamState, playerId: string): TeamId | null {
+  if (state.teamCount === 0) return null;
+  return state.teamByPlayerId[playerId] ?? null;
+}
+
+export function areTeammates(state: TeamState, a: string, b: string): boolean {
+  const ta = teamOf(state, a);
+  return ta != null && ta === teamOf(state, b);
+}
+
+export function teamSizes(state: TeamState): number[] {
+  const sizes = new Array<number>(state.teamCount).fill(0);
+  for (const t of Object.values(state.teamByPlayerId)) sizes[t]++;
+  return sizes;
+}
+
+/** Spawn zone teamIds (0..3) owned by `team`: neighbouring quarters, so a team spawns on one side. */
+export function teamSpawnZones(team: TeamId, teamCount: number): number[] {
+  return [0, 1, 2, 3].filter((zone) => Math.floor((zone * teamCount) / 4) === team);
+}
+
+/** Keep an existing assignment; otherwise join the smallest team (lowest id on ties). */
+export function assignTeam(state: TeamState, playerId: string): TeamId | null {
+  if (state.teamCount === 0) return null;
+  const existing = state.teamByPlayerId[playerId];
+  if (existing != null) return existing;
+  const sizes = teamSizes(state);
+  let team = 0;
+  for (let t = 1; t < sizes.length; t++) if (sizes[t] < sizes[team]) team = t;
+  state.teamByPlayerId[playerId] = team as TeamId;
+  return team as TeamId;
+}
+
+export function removeFromTeam(state: TeamState, playerId: string): void {
+  delete state.teamByPlayerId[playerId];
+}
+
+/**
+ * Round start: drop players who left, keep everyone else on their team where sizes allow, then move
+ * players off the largest team until no two teams differ by more than one. Newcomers fill the gaps.
+ */
+export function startTeams(state: TeamState, teamCount: number, playerIds: string[]): void {
+  const previous = state.teamCount === teamCount ? state.teamByPlayerId : {};
+  state.teamCount = teamCount;
+  state.teamByPlayerId = {};
+  if (teamCount === 0) return;
+
+  const newcomers: string[] = [];
+  for (const id of playerIds) {
+    if (previous[id] != null) state.teamByPlayerId[id] = previous[id];
+    else newcomers.push(id);
+  }
+
+  for (;;) {
+    const sizes = teamSizes(state);
+    const largest = sizes.indexOf(Math.max(...sizes));
+    const smallest = sizes.indexOf(Math.min(...sizes));
+    if (sizes[largest] - sizes[smallest] <= 1) break;
+    const members = playerIds.filter((id) => state.teamByPlayerId[id] === largest);
+    state.teamByPlayerId[members[members.length - 1]] = smallest as TeamId;
+  }
+
+  for (const id of newcomers) assignTeam(state, id);
+}
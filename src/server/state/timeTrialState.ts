@@ -1,18 +1,61 @@
 /**
- * Solo Time Trial mode state. Capture progress and boundary hazard are deterministic.
+ * Time Trial mode state. Every player races the same clock: each banks their own capture time inside the
+ * objective and finishes on reaching requiredCaptureMs. Capture progress and boundary hazard are deterministic.
  */
 
+export interface TimeTrialRun {
+  name: string;
+  captureMs: number;
+  /** Run time (finish - startedAtMs); set once they finish. */
+  timeMs?: number;
+}
+
 export interface TimeTrialState {
   status: 'RUNNING' | 'ENDED';
   startedAtMs: number;
-  captureMs: number;
   requiredCaptureMs: number;
+  /** Seed the records and ghost belong to (the round's usedSeed). */
+  seed: string;
+  /** Seed record, persisted with the seed's best times (previously lived only for the round). */
   bestTimeMs?: number;
+  /** The seed's persistent best-times leaderboard, fastest first; refreshed as runs finish. */
+  bestTimes: Array<{ name: string; timeMs: number }>;
+  runs: Record<string, TimeTrialRun>;
 }
 
 export const INITIAL_TIME_TRIAL_STATE: TimeTrialState = {
   status: 'RUNNING',
   startedAtMs: 0,
-  captureMs: 0,
   requiredCaptureMs: 30_000,
+  seed: '',
+  bestTimes: [],
+  runs: {},
 };
+
+export function joinTimeTrial(state: TimeTrialState, playerId: string, name: string): TimeTrialRun {
+  state.runs[playerId] ??= { name, captureMs: 0 };
+  return state.runs[playerId];
+}
+
+/**
+ * Bank `deltaMs` of capture for a player standing in the objective. Returns true on the tick their capture
+ * completes (timeMs is then set).
+ */
+export function tickCapture(state: TimeTrialState, playerId: string, deltaMs: number, nowMs: number): boolean {
+  const run = state.runs[playerId];
+  if (!run || run.timeMs != null) return false;
+  run.captureMs = Math.min(state.requiredCaptureMs, run.captureMs + deltaMs);
+  if (run.captureMs < state.requiredCaptureMs) return false;
+  run.timeMs = nowMs - state.startedAtMs;
+  return true;
+}
+
+/** Everyone in `playerIds` has finished (and there is at least one of them). */
+export function allFinished(state: TimeTrialState, playerIds: string[]): boolean {
+  return playerIds.length > 0 && playerIds.every((id) => state.runs[id]?.timeMs != null);
+}
+
+/** Legacy single score: 300s minus the run time, floored at 0. */
+export function runScore(timeMs: number): number {
+  return Math.max(0, 300000 - timeMs);
+}
@@ -27,6 +27,8 @@ export type ScoreEntry = {
 /** Match score state: per-player scores; supports join mid-round. */
 export type ScoreState = {
   scoresByPlayerId: Record<string, ScoreEntry>;
+  /** Team modes: score per team id (TDM kills); empty otherwise. */
+  scoresByTeamId: Record<number, number>;
   lastEventAtMs?: number;
 };
 
@@ -104,6 +106,9 @@ export interface RoundState {
   /** Winner (MULTI) or player who met win condition first (SOLO). */
   winnerPlayerId?: string;
 
+  /** Team modes: winning team; set instead of winnerPlayerId. */
+  winnerTeamId?: number;
+
   /**
    * Target shards for the current round.
    * For MULTI: race to target.
@@ -131,7 +136,13 @@ export interface RoundState {
 }
 
 /** Single spawn point in world space. */
-export type SpawnPoint = { x: number; y: number; z: number };
+export type SpawnPoint = {
+  x: number;
+  y: number;
+  z: number;
+  /** Spec spawn zone (teamId 0..3) the point belongs to; absent for surface/perimeter points. */
+  zone?: number;
+};
 
 /** Spawn system state: perimeter points and last-used index per player. */
 export type SpawnState = {
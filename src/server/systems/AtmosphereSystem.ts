@@ -0,0 +1,85 @@
+/**
+ * Per-round look and sound of the arena: applies the theme's skybox, lighting and music, and spawns its
+ * decoration entities (grass models, torch lights) from specDecorations. Blocks, banners included, come
+ * from the map itself.
+ */
+
+import type { World } from 'hytopia';
+import { Audio, Entity, Light, LightType, RigidBodyType } from 'hytopia';
+import type { Decoration } from '../procgen/specToMap.js';
+import { DECORATION_MODELS, type MapTheme } from '../procgen/themes.js';
+
+const TORCH_INTENSITY = 4;
+const TORCH_DISTANCE = 10;
+
+export class AtmosphereSystem {
+  private entities: Entity[] = [];
+  private lights: Light[] = [];
+  private music: Audio | null = null;
+  private musicUri: string | null = null;
+
+  constructor(private readonly world: World) {}
+
+  /** Call after the round's map is loaded. Hand-authored maps pass no decorations (they bring their own). */
+  applyTheme(theme: MapTheme, decorations: Decoration[] = []): void {
+    this.clearDecorations();
+
+    const w = this.world;
+    const l = theme.lighting;
+    w.setSkyboxUri(theme.skyboxUri);
+    w.setAmbientLightColor(l.ambientColor);
+    w.setAmbientLightIntensity(l.ambientIntensity);
+    w.setDirectionalLightColor(l.directionalColor);
+    w.setDirectionalLightIntensity(l.directionalIntensity);
+    w.setDirectionalLightPosition(l.directionalPosition);
+    this.playMusic(theme.musicUri, theme.musicVolume);
+
+    for (const d of decorations) {
+      if (d.kind === 'torch') {
+        const light = new Light({
+          type: LightType.POINTLIGHT,
+          color: theme.decor.torchColor,
+          intensity: TORCH_INTENSITY,
+          distance: TORCH_DISTANCE,
+          position: { x: d.x + 0.5, y: d.y + 0.5, z: d.z + 0.5 },
+        });
+        light.spawn(w);
+        this.lights.push(light);
+        continue;
+      }
+      const entity = new Entity({
+        name: 'Decoration',
+        isEnvironmental: true,
+        modelUri: DECORATION_MODELS[d.kind],
+        // No colliders: scatter is cosmetic and must never block movement or shots
+        rigidBodyOptions: { type: RigidBodyType.FIXED, colliders: [] },
+      });
+      const yaw = (d.yawDeg * Math.PI) / 180;
+      entity.spawn(
+        w,
+        { x: d.x + 0.5, y: d.y, z: d.z + 0.5 },
+        { x: 0, y: Math.sin(yaw / 2), z: 0, w: Math.cos(yaw / 2) }
+      );
+      this.entities.push(entity);
+    }
+  }
+
+  /** Loop `uri`; a no-op when it is already playing (biomes often share a track). */
+  playMusic(uri: string, volume: number): void {
+    if (this.music && this.musicUri === uri) {
+      this.music.setVolume(volume);
+      return;
+    }
+    this.music?.pause();
+    this.music = new Audio({ uri, loop: true, volume });
+    this.musicUri = uri;
+    this.music.play(this.world);
+  }
+
+  private clearDecorations(): void {
+    for (const e of this.entities) if (e.isSpawned) e.despawn();
+    for (const l of this.lights) if (l.isSpawned) l.despawn();
+    this.entities = [];
+    this.lights = [];
+  }
+}
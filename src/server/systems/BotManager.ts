@@ -1,16 +1,33 @@
 /**
  * BotManager: server-authoritative NPC competitors.
  * Spawns bots at round start, runs shared 250ms AI loop, collects shards, can win round.
+ * Bots are physics bodies walked by a BotController: the AI loop picks a direction, tickMovement hands it to the
+ * controller every world tick and the controller pushes the body like a player's controller would.
  * Cleans up intervals on round end/reset; no per-tick spam.
  *
  * How to test:
  * 1. Start the server and join the world (round starts on first join).
- * 2. Bots spawn only in shard-race mode (not survival/timetrial). Set matchConfig.mode to 'MULTI' or 'SOLO' to test (default is 'survival').
+ * 2. Bots spawn only in modes whose GameModeDefinition declares `bots` (not survival). Set matchConfig.mode to 'MULTI' or 'SOLO' to test (default is 'survival').
  * 3. Check feed for "Bots joined the arena: Rogue-1, Shadow-2, ...".
  * 4. Collect shards; bots collect via server-side proximity (tryCollectForBot). Leaderboard (HUD) shows bots.
- * 5. Let a bot reach TARGET_SHARDS (25) to see bot win: toast "Rogue-1 claimed the round.", round ends, winner name in HUD.
+ * 5. Bot pickups go through the mode like human ones: with ARENA_V1_TIMED_MATCH_ONLY off, a bot reaching
+ *    rules.targetShards (25 by default) wins the round and the winner name shows in the HUD.
  * 6. Set BOT_DEBUG_LOGS=true for spawn/despawn and tier logs.
- * 7. After 3 human wins in a row, next round should increase bot count; after 2 losses, decrease (check logs).
+ * 7. Scaling (bots/BotRating.ts): each round with bots rates the connected humans (Elo) against the bots'
+ *    tiers and saves it to data/bots/ratings.json. Winning raises your rating and the next round brings more
+ *    and harder bots; losing to a bot lowers it. Ratings survive restarts (check the file or the tier logs).
+ * 8. Combat (bots/BotCombat.ts): engaging bots swing at their target once it is in MELEE_RANGE, at most every
+ *    ATTACK_COOLDOWN_MS plus their tier's wind-up; their tier's accuracy decides hit or whiff, and hits go
+ *    through CombatService (onBotAttack). They prefer hurt targets and ones that would drop shards, grab the
+ *    drops, and retreat below their tier's health threshold. bot_ffa: bots hunt any live human or bot.
+ *    KOs, respawns and kill points follow the player pipeline.
+ * 9. Navigation: each round bakes a BotNavigator from worldState.mapSpec; bots follow its paths around ring
+ *    walls and gates and jump step-ups and short gaps. Without a spec they move in straight lines.
+ * 10. Physics: bots collide with walls and each other, get knocked back by melee hits and can fall off; a bot
+ *    below the void line is KO'd by the fall-recovery loop in index.ts like a player.
+ * 11. Objectives: in tower, koth and timetrial the mode's `bots.objective` rides along in the snapshot; bots bank
+ *    carried shards at the deposit console and make for the roof once it's active, or sit on the hill / in the
+ *    capture zone. Their deposits, roof time, hill time and capture time count like a player's.
  */
 
 import {
@@ -27,36 +44,55 @@ import type { WorldState } from '../state/WorldState.js';
 import type { ShardSystem } from './ShardSystem.js';
 import type { SpawnSystem } from './SpawnSystem.js';
 import type { HudService } from '../services/HudService.js';
+import type { ModeRegistry } from '../modes/registry.js';
 import { ARENA_BOUNDS } from '../config/arenaBounds.js';
-import { TARGET_SHARDS } from '../constants.js';
-import type { BotState, DifficultyTier, BotDifficultyScalingState } from './bots/types.js';
+import type { BotState, BotSkillState } from './bots/types.js';
 import {
   BOT_DEBUG_LOGS,
   BOT_AI_INTERVAL_MS,
   BOT_MAX_COUNT,
-  BOT_DEFAULT_COUNT,
   BOT_RECENT_ROUNDS_CAP,
   BOT_FAIRNESS_BOT_WIN_RATE_CEILING,
   BOT_DOMINANCE_PCT_THRESHOLD,
-  BOT_WIN_STREAK_TO_BUMP,
-  BOT_LOSS_STREAK_TO_EASE,
 } from './bots/types.js';
 import { plan, createBotState } from './bots/BotBrain.js';
+import { decideSwing } from './bots/BotCombat.js';
+import { BotController } from './bots/BotController.js';
+import {
+  botCountForRating,
+  loadSkillState,
+  meanRating,
+  recordRound,
+  saveSkillState,
+  tierMixForRating,
+} from './bots/BotRating.js';
+import { BotNavigator } from './bots/BotNavigator.js';
 import type { SpawnPoint } from '../state/types.js';
+import { areTeammates, assignTeam, removeFromTeam } from '../state/teamState.js';
 
 const BOT_NAMES = [
   'Rogue', 'Shadow', 'Blitz', 'Vex', 'Nova', 'Echo', 'Cipher', 'Rift',
 ];
 const AGGRESSION_RADIUS = 8;
-const BOT_MOVE_STEP = 1.0; // per 250ms tick — fast enough to reach shards (~4 u/s)
-
-export type OnBotWinCallback = (winnerBotId: string, winnerDisplayName: string) => void;
+/** bot_ffa: bots chase any combatant closer than this (roughly the inner arena). */
+const HUNT_RADIUS = 40;
+/** Controller walk speed (blocks/s) before the bot's speedMul. */
+const BOT_WALK_VELOCITY = 4;
+/**
+ * A walking bot slower than this (blocks/s) for BOT_STALL_JUMP_MS is stuck on something the baked grid doesn't
+ * know about (tower steps, moving platforms) and jumps.
+ */
+const BOT_STALL_SPEED = 0.5;
+const BOT_STALL_JUMP_MS = 400;
 
 export interface BotManagerOptions {
   shardSystem: ShardSystem;
   spawnSystem: SpawnSystem;
   hud: HudService;
-  onBotWin: OnBotWinCallback;
+  /** The active mode's `bots` decides how many spawn and whether they fight. */
+  modes: ModeRegistry;
+  /** A bot's swing at `targetId` connected (BotCombat); CombatService still enforces cooldown and range. */
+  onBotAttack?: (botId: string, targetId: string) => void;
 }
 
 /** When true, use goblin-shaman.gltf for bot visuals; when false, use a block so NPCs are always visible. */
@@ -70,18 +106,31 @@ const BOT_ANIM_WALK = 'animation.goblin_shaman.walk';
 /** Block fallback when BOT_USE_MODEL is false (guarantees visible NPCs). */
 const BOT_BLOCK_HALF_EXTENTS = { x: 0.4, y: 0.6, z: 0.4 };
 const BOT_BLOCK_TEXTURE = 'blocks/emerald-ore.png';
+/** Upright like player bodies; the controller turns the bot to face where it walks. */
+const BOT_ENABLED_ROTATIONS = { x: false, y: false, z: false };
+
+type Vec3 = { x: number; y: number; z: number };
+
+/** Plan direction with BotBrain's sideways wobble mixed in (it was sized for a one-block step), renormalised. */
+function withWobble(dir: Vec3, wobble: Vec3 | undefined): Vec3 {
+  if (!wobble) return dir;
+  const x = dir.x + wobble.x;
+  const z = dir.z + wobble.z;
+  const len = Math.sqrt(x * x + z * z);
+  return len > 1e-6 ? { x: x / len, y: 0, z: z / len } : dir;
+}
 
 export class BotManager {
   private readonly bots: BotState[] = [];
   private readonly botEntities: Map<string, Entity> = new Map();
+  private readonly botControllers: Map<string, BotController> = new Map();
+  /** When each walking bot stopped making headway; cleared once it moves or jumps. */
+  private readonly stalledSinceMs: Map<string, number> = new Map();
   private aiIntervalId: ReturnType<typeof setInterval> | null = null;
-  private scalingState: BotDifficultyScalingState = {
-    winStreakByPlayerId: new Map(),
-    lossStreakByPlayerId: new Map(),
-    avgRoundTimeSecByPlayerId: new Map(),
-    recentBotWins: [],
-    recentRoundsCap: BOT_RECENT_ROUNDS_CAP,
-  };
+  /** This round's arena paths; null before the first bots spawn or when there is no map spec. */
+  private navigator: BotNavigator | null = null;
+  /** Humans' ratings against the bots, loaded once and saved after every rated round. */
+  private readonly skillState: BotSkillState = loadSkillState();
 
   constructor(
     private readonly world: World,
@@ -89,28 +138,34 @@ export class BotManager {
     private readonly options: BotManagerOptions
   ) {}
 
-  /** Called when round becomes RUNNING: spawn bots, start AI loop. Only in shard-race modes. */
+  /** Called when round becomes RUNNING: spawn bots, start AI loop. Only in modes that declare bots. */
   onRoundStarted(): void {
     this.stopAiLoop();
-    const mode = this.worldState.matchConfig.mode;
-    if (mode === 'survival' || mode === 'timetrial') {
-      return;
-    }
-    const count = this.computeBotCount();
-    const tierMix = this.computeTierMix(count);
+    const bots = this.activeModeBots();
+    if (!bots) return;
+    const rating = this.connectedHumanRating();
+    const count = this.computeBotCount(bots.count(this.worldState.matchConfig), rating);
+    const spec = this.worldState.mapSpec;
+    this.navigator = count > 0 && spec ? new BotNavigator(spec) : null;
+    const tierMix = tierMixForRating(count, rating);
     const positions = this.getSpawnPositionsForBots(count);
 
     for (let i = 0; i < count; i++) {
       const botId = `bot-${this.worldState.roundState.roundId}-${i}`;
       const displayName = `${BOT_NAMES[i % BOT_NAMES.length]}-${i + 1}`;
       const tier = tierMix[i] ?? 'MEDIUM';
-      const rawPos = positions[i] ?? { x: 0, y: 5, z: 0 };
+      // Team modes: bots fill the smaller teams and spawn in their team's zones
+      const team = assignTeam(this.worldState.teamState, botId);
+      const rawPos =
+        team != null
+          ? this.options.spawnSystem.getSpawnForPlayer(botId, this.getHumanAndBotPositions())
+          : positions[i] ?? { x: 0, y: 5, z: 0 };
       const pos = this.resolveGroundPosition(rawPos);
       const bot = createBotState(botId, displayName, tier, pos, Date.now());
       this.bots.push(bot);
       this.worldState.ensurePlayerState(botId, false);
       this.worldState.botDisplayNames.set(botId, displayName);
-      this.spawnBotEntity(botId, displayName, pos);
+      this.spawnBotEntity(bot, pos);
     }
 
     this.startAiLoop();
@@ -124,14 +179,15 @@ export class BotManager {
     }
   }
 
-  /** Called when round ends (ENDED/RESETTING): despawn bots, stop loop, update scaling. */
+  /** Called when round ends (ENDED/RESETTING): despawn bots, stop loop, rate the round. */
   onRoundEnded(winnerPlayerId?: string, winnerIsBot?: boolean): void {
     this.stopAiLoop();
     this.despawnAllBotEntities();
-    this.updateScalingState(winnerPlayerId, winnerIsBot);
+    this.rateRound(winnerPlayerId, winnerIsBot ?? false);
 
     for (const bot of this.bots) {
       this.worldState.botDisplayNames.delete(bot.botId);
+      removeFromTeam(this.worldState.teamState, bot.botId);
     }
     this.bots.length = 0;
 
@@ -140,87 +196,50 @@ export class BotManager {
     }
   }
 
-  private computeBotCount(): number {
+  private activeModeBots() {
+    return this.options.modes.get(this.worldState.matchConfig.mode).bots;
+  }
+
+  /** Mean rating of the connected humans; the default rating when nobody is connected. */
+  private connectedHumanRating(): number {
+    const connected = PlayerManager.instance.getConnectedPlayersByWorld(this.world);
+    return meanRating(this.skillState, connected.map((p) => p.id));
+  }
+
+  /** `baseCount` (the mode's bots.count) scaled by the humans' rating, then by the recent bot win rate. */
+  private computeBotCount(baseCount: number, rating: number): number {
     const connected = PlayerManager.instance.getConnectedPlayersByWorld(this.world);
     if (connected.length === 0) return 0;
 
-    let count = BOT_DEFAULT_COUNT;
-    const recent = this.scalingState.recentBotWins;
+    let count = botCountForRating(baseCount, rating);
+    const recent = this.skillState.recentBotWins;
     const botWinRate = recent.length > 0
       ? recent.filter(Boolean).length / recent.length
       : 0;
 
-    if (botWinRate > BOT_FAIRNESS_BOT_WIN_RATE_CEILING) {
-      count = Math.max(1, count - 1);
+    if (count > 1 && botWinRate > BOT_FAIRNESS_BOT_WIN_RATE_CEILING) {
+      count--;
       if (BOT_DEBUG_LOGS) console.log('[BotManager] fairness: reduced bot count to', count);
     }
-
-    for (const p of connected) {
-      const winStreak = this.scalingState.winStreakByPlayerId.get(p.id) ?? 0;
-      const lossStreak = this.scalingState.lossStreakByPlayerId.get(p.id) ?? 0;
-      if (winStreak >= BOT_WIN_STREAK_TO_BUMP) {
-        count = Math.min(BOT_MAX_COUNT, count + 1);
-        if (BOT_DEBUG_LOGS) console.log('[BotManager] player win streak: increased bot count to', count);
-        break;
-      }
-      if (lossStreak >= BOT_LOSS_STREAK_TO_EASE) {
-        count = Math.max(1, count - 1);
-        if (BOT_DEBUG_LOGS) console.log('[BotManager] player loss streak: reduced bot count to', count);
-        break;
-      }
-    }
+    if (BOT_DEBUG_LOGS) console.log(`[BotManager] rating ${Math.round(rating)}: ${count} bots (base ${baseCount})`);
     return Math.min(BOT_MAX_COUNT, Math.max(0, count));
   }
 
-  private computeTierMix(count: number): DifficultyTier[] {
-    const tiers: DifficultyTier[] = ['EASY', 'MEDIUM', 'HARD', 'NIGHTMARE'];
-    const mix: DifficultyTier[] = [];
-    const connected = PlayerManager.instance.getConnectedPlayersByWorld(this.world);
-    let bumpTier = false;
-    for (const p of connected) {
-      const winStreak = this.scalingState.winStreakByPlayerId.get(p.id) ?? 0;
-      if (winStreak >= BOT_WIN_STREAK_TO_BUMP) {
-        bumpTier = true;
-        break;
-      }
-    }
-    const half = Math.max(1, Math.floor(count / 2));
-    for (let i = 0; i < count; i++) {
-      if (bumpTier && i < half) {
-        const idx = Math.min(3, tiers.indexOf('MEDIUM') + 1 + (i % 2));
-        mix.push(tiers[idx] ?? 'HARD');
-      } else {
-        mix.push(i === 0 ? 'MEDIUM' : (['EASY', 'MEDIUM', 'HARD'] as DifficultyTier[])[i % 3] ?? 'MEDIUM');
-      }
-    }
-    return mix;
-  }
-
-  private updateScalingState(winnerPlayerId?: string, winnerIsBot?: boolean): void {
+  /** Rate the round that just ended against this round's bots and persist the ratings. */
+  private rateRound(winnerPlayerId: string | undefined, winnerIsBot: boolean): void {
     const connected = PlayerManager.instance.getConnectedPlayersByWorld(this.world);
-    if (winnerIsBot) {
-      this.scalingState.recentBotWins.push(true);
-      for (const p of connected) {
-        const loss = (this.scalingState.lossStreakByPlayerId.get(p.id) ?? 0) + 1;
-        this.scalingState.lossStreakByPlayerId.set(p.id, loss);
-        this.scalingState.winStreakByPlayerId.set(p.id, 0);
-      }
-    } else if (winnerPlayerId) {
-      this.scalingState.recentBotWins.push(false);
-      const win = (this.scalingState.winStreakByPlayerId.get(winnerPlayerId) ?? 0) + 1;
-      this.scalingState.winStreakByPlayerId.set(winnerPlayerId, win);
-      this.scalingState.lossStreakByPlayerId.set(winnerPlayerId, 0);
-      for (const p of connected) {
-        if (p.id !== winnerPlayerId) {
-          const loss = (this.scalingState.lossStreakByPlayerId.get(p.id) ?? 0) + 1;
-          this.scalingState.lossStreakByPlayerId.set(p.id, loss);
-          this.scalingState.winStreakByPlayerId.set(p.id, 0);
-        }
-      }
-    }
-    while (this.scalingState.recentBotWins.length > this.scalingState.recentRoundsCap) {
-      this.scalingState.recentBotWins.shift();
-    }
+    const rated = recordRound(
+      this.skillState,
+      {
+        humanIds: connected.map((p) => p.id),
+        botTiers: this.bots.map((b) => b.difficultyTier),
+        winnerPlayerId,
+        winnerIsBot,
+        nowMs: Date.now(),
+      },
+      BOT_RECENT_ROUNDS_CAP
+    );
+    if (rated) saveSkillState(this.skillState);
   }
 
   /** Resolve ground Y so bots start at shard height and can pick up. */
@@ -232,13 +251,19 @@ export class BotManager {
     return { x: pos.x, y, z: pos.z };
   }
 
-  private spawnBotEntity(botId: string, displayName: string, position: { x: number; y: number; z: number }): void {
+  private spawnBotEntity(bot: BotState, position: { x: number; y: number; z: number }): void {
+    const { botId, displayName } = bot;
+    const controller = new BotController(BOT_WALK_VELOCITY * bot.speedMul, {
+      idle: BOT_ANIM_IDLE,
+      walk: BOT_ANIM_WALK,
+    });
     let entity: Entity;
     if (BOT_USE_MODEL) {
       const collider = Collider.optionsFromModelUri(BOT_MODEL_URI, BOT_MODEL_SCALE);
       entity = new Entity({
         name: `Bot-${displayName}`,
         isEnvironmental: false,
+        controller,
         modelUri: BOT_MODEL_URI,
         modelScale: BOT_MODEL_SCALE,
         modelAnimations: [
@@ -246,7 +271,8 @@ export class BotManager {
           { name: BOT_ANIM_WALK, loopMode: EntityModelAnimationLoopMode.LOOP, play: false },
         ],
         rigidBodyOptions: {
-          type: RigidBodyType.KINEMATIC_POSITION,
+          type: RigidBodyType.DYNAMIC,
+          enabledRotations: BOT_ENABLED_ROTATIONS,
           colliders: [collider],
         },
       });
@@ -256,8 +282,10 @@ export class BotManager {
         isEnvironmental: false,
         blockTextureUri: BOT_BLOCK_TEXTURE,
         blockHalfExtents: BOT_BLOCK_HALF_EXTENTS,
+        controller,
         rigidBodyOptions: {
-          type: RigidBodyType.KINEMATIC_POSITION,
+          type: RigidBodyType.DYNAMIC,
+          enabledRotations: BOT_ENABLED_ROTATIONS,
           colliders: [
             { shape: ColliderShape.BLOCK, halfExtents: BOT_BLOCK_HALF_EXTENTS },
           ],
@@ -266,6 +294,7 @@ export class BotManager {
     }
     entity.spawn(this.world, position);
     this.botEntities.set(botId, entity);
+    this.botControllers.set(botId, controller);
   }
 
   private despawnAllBotEntities(): void {
@@ -273,6 +302,8 @@ export class BotManager {
       if (entity.isSpawned) entity.despawn();
     }
     this.botEntities.clear();
+    this.botControllers.clear();
+    this.stalledSinceMs.clear();
   }
 
   /**
@@ -323,7 +354,9 @@ export class BotManager {
 
   private buildSnapshot(nowMs: number): import('./bots/types.js').BotWorldSnapshot {
     const shardPositions: Array<{ id: string; x: number; y: number; z: number }> = [];
-    for (const [id, state] of this.options.shardSystem.pickups) {
+    // Dropped shards (a KO'd carrier's) are fair game too
+    const { pickups, droppedPickups } = this.options.shardSystem;
+    for (const [id, state] of [...pickups, ...droppedPickups]) {
       if (state.collected) continue;
       const pos = state.entity?.isSpawned ? state.entity.position : state.pos;
       shardPositions.push({ id, x: pos.x, y: pos.y, z: pos.z });
@@ -341,23 +374,41 @@ export class BotManager {
     }
 
     const shardsByEntityId = new Map<string, number>();
+    const healthFractionById = new Map<string, number>();
+    const lootById = new Map<string, number>();
     for (const [id, p] of this.worldState.players) {
       shardsByEntityId.set(id, p.shards);
+      healthFractionById.set(id, p.maxHealth > 0 ? p.health / p.maxHealth : 0);
+      // What CombatService and the mode drop on a KO: carried shards, plus a bot's whole race count
+      lootById.set(id, (p.carriedShards ?? 0) + (this.worldState.botDisplayNames.has(id) ? p.shards : 0));
     }
-
+    const teamState = this.worldState.teamState;
+
+    // Combat: bots are targets too, and nobody chases a KO'd body waiting to respawn
+    const modeBots = this.activeModeBots();
+    const combatMode = modeBots?.fight ?? false;
+    const objective = modeBots?.objective?.() ?? undefined;
+    const targets = combatMode
+      ? [...playerPositions, ...this.bots.map((b) => ({ playerId: b.botId, ...b.position }))].filter(
+          (p) => (healthFractionById.get(p.playerId) ?? 0) > 0
+        )
+      : playerPositions;
+
+    const navigator = this.navigator;
     return {
       nowMs,
       shardPositions,
-      playerPositions,
+      playerPositions: targets,
       shardsByEntityId,
-      targetShards: TARGET_SHARDS,
-      bounds: {
-        minX: ARENA_BOUNDS.minX,
-        maxX: ARENA_BOUNDS.maxX,
-        minZ: ARENA_BOUNDS.minZ,
-        maxZ: ARENA_BOUNDS.maxZ,
-      },
+      targetShards: this.worldState.matchConfig.rules.targetShards,
       aggressionRadius: AGGRESSION_RADIUS,
+      combatMode,
+      huntRadius: HUNT_RADIUS,
+      healthFractionById,
+      lootById,
+      ...(teamState.teamCount > 0 && { isAlly: (a, b) => areTeammates(teamState, a, b) }),
+      ...(objective && { objective }),
+      ...(navigator && { pathDirection: (from, to) => navigator.directionToward(from, to) }),
     };
   }
 
@@ -382,6 +433,9 @@ export class BotManager {
 
     for (const bot of this.bots) {
       if (bot.state === 'CELEBRATE') continue;
+      // KO'd: frozen until CombatService respawns the bot, like a player's control lock
+      const lockedUntil = this.worldState.getPlayer(bot.botId)?.controlsLockedUntilMs;
+      if (lockedUntil != null && now < lockedUntil) continue;
 
       const action = plan(bot, snapshot);
       const shouldReplan = now - bot.lastPlanAtMs >= bot.targetReplanEveryMs;
@@ -390,51 +444,77 @@ export class BotManager {
         bot.currentTarget = action.target;
         bot.lastPlanAtMs = now;
       }
-      if (action.wobbleOffset) {
-        bot.position.x += action.wobbleOffset.x;
-        bot.position.y += action.wobbleOffset.y;
-        bot.position.z += action.wobbleOffset.z;
-      }
-
-      const moveDir = action.moveDir;
-      const step = BOT_MOVE_STEP * bot.speedMul;
       bot.lastPosition = { ...bot.position };
-      bot.position.x += moveDir.x * step;
-      bot.position.y += moveDir.y * step;
-      bot.position.z += moveDir.z * step;
-      bot.position.x = Math.max(snapshot.bounds.minX, Math.min(snapshot.bounds.maxX, bot.position.x));
-      bot.position.z = Math.max(snapshot.bounds.minZ, Math.min(snapshot.bounds.maxZ, bot.position.z));
+      bot.moveDir = withWobble(action.moveDir, action.wobbleOffset);
 
+      // A pickup goes through RoundController.onPlayerShardsChanged, so the mode's win check may end the round
       const collected = this.options.shardSystem.tryCollectForBot(bot.botId, bot.position);
-      if (collected) {
-        const p = this.worldState.getPlayer(bot.botId);
-        if (p && p.shards >= TARGET_SHARDS) {
-          bot.state = 'CELEBRATE';
-          this.options.hud.broadcastToast('good', `${bot.displayName} claimed the round.`);
-          this.options.hud.broadcastFeed(`${bot.displayName} claimed the round.`);
-          this.options.onBotWin(bot.botId, bot.displayName);
-          return;
-        }
+      if (collected && this.worldState.roundState.status !== 'RUNNING') {
+        bot.state = 'CELEBRATE';
+        return;
       }
 
-      const botEntity = this.botEntities.get(bot.botId);
-      if (botEntity?.isSpawned) {
-        botEntity.setPosition(bot.position);
-        if (BOT_USE_MODEL && botEntity.isModelEntity) {
-          const isMoving =
-            moveDir.x !== 0 || moveDir.y !== 0 || moveDir.z !== 0;
-          const idleAnim = botEntity.getModelAnimation(BOT_ANIM_IDLE);
-          const walkAnim = botEntity.getModelAnimation(BOT_ANIM_WALK);
-          if (isMoving) {
-            walkAnim?.play();
-            idleAnim?.pause();
-          } else {
-            idleAnim?.play();
-            walkAnim?.pause();
-          }
-        }
+      const foe =
+        bot.state === 'ENGAGE_PLAYER' && typeof bot.currentTarget === 'string'
+          ? snapshot.playerPositions.find((p) => p.playerId === bot.currentTarget)
+          : undefined;
+      const swing = foe ? decideSwing(bot, foe, now, Math.random()) : 'none';
+      if (foe && swing !== 'none') {
+        bot.lastSwingAtMs = now;
+        this.botControllers.get(bot.botId)?.face(foe.x - bot.position.x, foe.z - bot.position.z);
       }
+      if (foe && swing === 'hit') {
+        this.options.onBotAttack?.(bot.botId, foe.playerId);
+        // The hit may have ended the round (kill target reached), which clears the bot list
+        if (this.worldState.roundState.status !== 'RUNNING') return;
+      }
+    }
+  }
+
+  /**
+   * Every world tick: copy each bot's physics position into its BotState and hand its controller the planned
+   * direction (and a jump when the navigator says so). Bots that are KO'd, hesitating or celebrating stand still.
+   */
+  tickMovement(): void {
+    if (this.bots.length === 0) return;
+    const now = Date.now();
+    const running = this.worldState.roundState.status === 'RUNNING';
+    for (const bot of this.bots) {
+      const entity = this.botEntities.get(bot.botId);
+      const controller = this.botControllers.get(bot.botId);
+      if (!entity?.isSpawned || !controller) continue;
+      const p = entity.position;
+      bot.position = { x: p.x, y: p.y, z: p.z };
+
+      const dir = bot.moveDir;
+      const lockedUntil = this.worldState.getPlayer(bot.botId)?.controlsLockedUntilMs;
+      const held =
+        !running ||
+        bot.state === 'CELEBRATE' ||
+        now < bot.hesitateUntilMs ||
+        (lockedUntil != null && now < lockedUntil);
+      const walking = !held && (dir.x !== 0 || dir.z !== 0);
+      if (!walking) this.stalledSinceMs.delete(bot.botId);
+      const jump =
+        walking && (this.navigator?.shouldJump(bot.position, dir) || this.isStalled(bot.botId, entity, now));
+      controller.walk(walking ? dir : { x: 0, z: 0 }, jump);
+    }
+  }
+
+  private isStalled(botId: string, entity: Entity, now: number): boolean {
+    const v = entity.linearVelocity;
+    if (Math.sqrt(v.x * v.x + v.z * v.z) >= BOT_STALL_SPEED) {
+      this.stalledSinceMs.delete(botId);
+      return false;
+    }
+    const since = this.stalledSinceMs.get(botId);
+    if (since == null) {
+      this.stalledSinceMs.set(botId, now);
+      return false;
     }
+    if (now - since < BOT_STALL_JUMP_MS) return false;
+    this.stalledSinceMs.delete(botId);
+    return true;
   }
 
   /** For RoundController: optional hook to run before endMatch when round ends (e.g. despawn bots). */
@@ -468,7 +548,7 @@ export class BotManager {
 
   /**
    * Respawn a bot after death: new spawn point, reset health, short invulnerability.
-   * Call after RESPAWN_DELAY_MS from combat KO.
+   * Call after RESPAWN_DELAY_MS from combat KO, or straight away to recover a fall the bot survived.
    */
   respawnBot(botId: string): void {
     const bot = this.bots.find(b => b.botId === botId);
@@ -485,6 +565,7 @@ export class BotManager {
     const entity = this.botEntities.get(botId);
     if (entity?.isSpawned) {
       entity.setPosition(resolved);
+      entity.setLinearVelocity({ x: 0, y: 0, z: 0 });
     }
 
     const ps = this.worldState.getPlayer(botId);
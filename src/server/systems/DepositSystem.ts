@@ -1,9 +1,10 @@
 import type { World } from 'hytopia';
-import { Entity, PlayerManager } from 'hytopia';
+import { Entity } from 'hytopia';
 import { ColliderShape, RigidBodyType } from 'hytopia';
 import type { WorldState } from '../state/WorldState.js';
 import type { HudService } from '../services/HudService.js';
 import type { TowerSystem } from './TowerSystem.js';
+import type { CombatantPosition } from '../modes/types.js';
 
 const CONSOLE_CENTER_X = 0;
 const CONSOLE_CENTER_Z = 0;
@@ -94,29 +95,24 @@ export class DepositSystem {
     return Math.sqrt(dx * dx + dz * dz) <= CONSOLE_RADIUS;
   }
 
-  tick(_nowMs: number): void {
+  /** Bank carried shards for everyone (humans and bots) who just stepped into the console zone. */
+  tick(_nowMs: number, combatants: CombatantPosition[]): void {
     if (this.worldState.roundState.status !== 'RUNNING') return;
     if (this.worldState.matchConfig.mode !== 'tower') return;
 
-    const players = PlayerManager.instance.getConnectedPlayersByWorld(this.world);
-    for (const player of players) {
-      const entities = this.world.entityManager.getPlayerEntitiesByPlayer(player);
-      const entity = entities[0];
-      if (!entity?.isSpawned) continue;
-
-      const pos = entity.position;
-      const inZone = this.isPlayerInConsoleRange(pos);
-      const wasInZone = this.wasInZoneByPlayer.get(player.id) ?? false;
+    for (const { playerId, position } of combatants) {
+      const inZone = this.isPlayerInConsoleRange(position);
+      const wasInZone = this.wasInZoneByPlayer.get(playerId) ?? false;
 
       if (!inZone) {
-        this.wasInZoneByPlayer.set(player.id, false);
+        this.wasInZoneByPlayer.set(playerId, false);
         continue;
       }
 
-      this.wasInZoneByPlayer.set(player.id, true);
+      this.wasInZoneByPlayer.set(playerId, true);
       if (wasInZone) continue;
 
-      const ps = this.worldState.getPlayer(player.id);
+      const ps = this.worldState.getPlayer(playerId);
       if (!ps) continue;
       const carried = ps.carriedShards ?? 0;
       if (carried <= 0) continue;
@@ -126,7 +122,7 @@ export class DepositSystem {
 
       this.hud.broadcastHud();
       this.hud.broadcastToast('good', `Deposited ${carried} shards`);
-      this.towerSystem?.checkUnlockThresholds(player.id);
+      this.towerSystem?.checkUnlockThresholds(playerId);
     }
   }
 }
@@ -0,0 +1,163 @@
+/**
+ * Arena hazards at runtime: lava damage, void pit falls, jump pad launches and moving platforms.
+ * Reads the round's MapSpecV2 hazards; damage itself goes through CombatService (caller applies it)
+ * so spawn protection, KO and the hazard feed lines behave like any other hit.
+ */
+
+import type { World } from 'hytopia';
+import { Entity, ColliderShape, RigidBodyType } from 'hytopia';
+import type { MapSpec, MovingPlatform } from '../procgen/spec.js';
+import { floorHeightAt, isV2 } from '../procgen/elevation.js';
+import { hazardAt } from '../procgen/hazards.js';
+import { getBlockTypesForIds } from '../procgen/themes.js';
+
+/** How often lava damage is applied while standing in it. */
+const LAVA_TICK_MS = 500;
+/** Min time between two launches of the same player. */
+const JUMP_PAD_COOLDOWN_MS = 800;
+/** Share of the launch speed carried along the pad's facing. */
+const JUMP_PAD_FORWARD = 0.35;
+/** Feet within this many blocks of the floor top count as standing on it. */
+const STAND_TOLERANCE = 1.6;
+/** Player entity origin sits about this far above its feet. */
+const FEET_OFFSET = 0.9;
+
+const MOVER_HALF_HEIGHT = 0.5;
+const DEFAULT_MOVER_TEXTURE = 'blocks/cobblestone.png';
+
+type PlayerHazardState = { lastLavaMs: number; lastLaunchMs: number; overVoid: boolean };
+type Mover = { hazard: MovingPlatform; entity: Entity; origin: { x: number; y: number; z: number } };
+
+/** Minimal player entity surface used here (position plus the impulse API CombatService also uses). */
+type HazardEntity = {
+  position: { x: number; y: number; z: number };
+  mass?: number;
+  applyImpulse?: (v: { x: number; y: number; z: number }) => void;
+};
+
+export class HazardSystem {
+  private spec: MapSpec | null = null;
+  private movers: Mover[] = [];
+  private readonly players = new Map<string, PlayerHazardState>();
+  private roundStartedAtMs = 0;
+
+  constructor(private readonly world: World) {}
+
+  /** Call after the round's map is loaded: despawns old movers and spawns this map's. */
+  resetForNewRound(spec: MapSpec, moverBlockId?: number): void {
+    for (const m of this.movers) if (m.entity.isSpawned) m.entity.despawn();
+    this.movers = [];
+    this.players.clear();
+    this.spec = spec;
+    this.roundStartedAtMs = Date.now();
+    if (!isV2(spec)) return;
+
+    const texture = (moverBlockId != null && getBlockTypesForIds([moverBlockId])[0]?.textureUri) || DEFAULT_MOVER_TEXTURE;
+    for (const hazard of spec.hazards) {
+      if (hazard.kind !== 'mover') continue;
+      const halfExtents = { x: hazard.rect.w / 2, y: MOVER_HALF_HEIGHT, z: hazard.rect.h / 2 };
+      const entity = new Entity({
+        name: 'MovingPlatform',
+        isEnvironmental: true,
+        blockTextureUri: texture,
+        blockHalfExtents: halfExtents,
+        rigidBodyOptions: {
+          type: RigidBodyType.KINEMATIC_POSITION,
+          colliders: [{ shape: ColliderShape.BLOCK, halfExtents }],
+        },
+      });
+      // Top flush with the highest floor along the track (a floor block at height h occupies y h..h+1)
+      const origin = {
+        x: hazard.rect.x - spec.center.x + halfExtents.x,
+        y: trackFloorHeight(spec, hazard) + 1 - MOVER_HALF_HEIGHT,
+        z: hazard.rect.y - spec.center.y + halfExtents.z,
+      };
+      entity.spawn(this.world, origin);
+      this.movers.push({ hazard, entity, origin });
+    }
+  }
+
+  /**
+   * Move platforms along their tracks (ease in/out, one round trip per period). Kinematic targets rather than
+   * teleports, so the physics step carries whoever stands on a platform along with it.
+   */
+  tick(nowMs: number): void {
+    for (const m of this.movers) {
+      if (!m.entity.isSpawned) continue;
+      const phase = ((nowMs - this.roundStartedAtMs) % m.hazard.periodMs) / m.hazard.periodMs;
+      const f = (1 - Math.cos(phase * 2 * Math.PI)) / 2;
+      m.entity.setNextKinematicPosition({
+        x: m.origin.x + m.hazard.travel.x * f,
+        y: m.origin.y,
+        z: m.origin.z + m.hazard.travel.y * f,
+      });
+    }
+  }
+
+  /**
+   * Per-player check, run from the fall-recovery loop. Launches players standing on a jump pad and
+   * returns the hazard damage due now (lava), 0 if none.
+   */
+  checkPlayer(playerId: string, entity: HazardEntity, nowMs: number): number {
+    const spec = this.spec;
+    if (!spec || !isV2(spec) || spec.hazards.length === 0) return 0;
+    let st = this.players.get(playerId);
+    if (!st) {
+      st = { lastLavaMs: 0, lastLaunchMs: 0, overVoid: false };
+      this.players.set(playerId, st);
+    }
+
+    const pos = entity.position;
+    const sx = Math.floor(pos.x + spec.center.x);
+    const sy = Math.floor(pos.z + spec.center.y);
+    const hazard = hazardAt(spec, sx, sy);
+    const feet = pos.y - FEET_OFFSET;
+    const floorTop = floorHeightAt(spec, sx, sy) + 1;
+    const standing = feet >= floorTop - 0.5 && feet - floorTop < STAND_TOLERANCE;
+
+    // Latch once the player drops into a pit; only landing somewhere clears it (drifting while falling doesn't)
+    if (standing) st.overVoid = false;
+    else if (hazard?.kind === 'void' && feet < floorTop - 0.5) st.overVoid = true;
+
+    if (!hazard || !standing) return 0;
+    if (hazard.kind === 'jumpPad' && nowMs - st.lastLaunchMs >= JUMP_PAD_COOLDOWN_MS) {
+      st.lastLaunchMs = nowMs;
+      const a = (hazard.facingDeg * Math.PI) / 180;
+      const mass = entity.mass || 1;
+      const forward = hazard.launchSpeed * JUMP_PAD_FORWARD;
+      entity.applyImpulse?.({
+        x: Math.cos(a) * forward * mass,
+        y: hazard.launchSpeed * mass,
+        z: Math.sin(a) * forward * mass,
+      });
+      return 0;
+    }
+    if (hazard.kind === 'lava' && nowMs - st.lastLavaMs >= LAVA_TICK_MS) {
+      st.lastLavaMs = nowMs;
+      return Math.round((hazard.damagePerSecond * LAVA_TICK_MS) / 1000);
+    }
+    return 0;
+  }
+
+  /** True when the player's fall started over a void pit (a hazard KO, not a free recovery). */
+  fellIntoVoid(playerId: string): boolean {
+    return this.players.get(playerId)?.overVoid ?? false;
+  }
+
+  /** Forget a player's fall once it has been handled (KO or recovery). */
+  clearFall(playerId: string): void {
+    const st = this.players.get(playerId);
+    if (st) st.overVoid = false;
+  }
+}
+
+/** Highest floor height under any cell the mover covers between its two ends. */
+function trackFloorHeight(spec: MapSpec, hazard: MovingPlatform): number {
+  const { x, y, w, h } = hazard.rect;
+  const { x: tx, y: ty } = hazard.travel;
+  let top = 0;
+  for (let cx = Math.min(x, x + tx); cx < Math.max(x, x + tx) + w; cx++) {
+    for (let cy = Math.min(y, y + ty); cy < Math.max(y, y + ty) + h; cy++) top = Math.max(top, floorHeightAt(spec, cx, cy));
+  }
+  return top;
+}
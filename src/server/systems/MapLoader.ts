@@ -0,0 +1,95 @@
+/**
+ * Round map loading: the first map (or one with entities) goes through world.loadMap; after that only
+ * the chunks that differ from the previously loaded map are written, a batch per tick, so round
+ * transitions don't stall on rebuilding the whole arena.
+ */
+
+import type { Entity, World } from 'hytopia';
+import {
+  chunkedToMap,
+  chunksInBox,
+  countChunkedBlocks,
+  diffChunkedMaps,
+  forEachChunkChange,
+  type ChunkedMap,
+  type Vec3,
+} from '../procgen/chunkedMap.js';
+
+/** Changed chunks written before yielding to the tick loop. */
+const CHUNKS_PER_BATCH = 24;
+
+export type MapLoadStats = { full: boolean; chunks: number; blocks: number; ms: number };
+
+export class MapLoader {
+  /** What the world holds, as far as map loads know; null until the first full load. */
+  private loaded: ChunkedMap | null = null;
+  /** Chunks edited outside map loads (e.g. the tower); rewritten cell by cell on the next load. */
+  private readonly dirty = new Set<string>();
+  /** Block type ids already registered with the world. */
+  private readonly registered = new Set<number>();
+  /** Entities the last hand-authored map spawned; the next load despawns them, whichever path it takes. */
+  private mapEntities: Entity[] = [];
+
+  constructor(private readonly world: World) {}
+
+  /** Record that blocks in the inclusive box were changed by something other than a map load. */
+  markDirty(min: Vec3, max: Vec3): void {
+    for (const key of chunksInBox(min, max)) this.dirty.add(key);
+  }
+
+  /** Forget the loaded map so the next load is a full one (e.g. after another caller used world.loadMap). */
+  reset(): void {
+    this.loaded = null;
+    this.dirty.clear();
+    this.registered.clear();
+  }
+
+  /**
+   * Make the world match `next`. `entities` (hand-authored maps) forces a full load since only
+   * world.loadMap spawns them; the load after that despawns them again.
+   */
+  async load(next: ChunkedMap, entities?: Record<string, unknown>): Promise<MapLoadStats> {
+    const started = Date.now();
+    const prev = this.loaded;
+    this.despawnMapEntities();
+    if (!prev || (entities && Object.keys(entities).length > 0)) {
+      const before = new Set(this.world.entityManager.getAllEntities());
+      await this.world.loadMap({ ...chunkedToMap(next), ...(entities ? { entities } : {}) });
+      if (entities) this.mapEntities = this.world.entityManager.getAllEntities().filter((e) => !before.has(e));
+      this.loaded = next;
+      this.dirty.clear();
+      for (const b of next.blockTypes) this.registered.add(b.id);
+      return { full: true, chunks: next.chunks.size, blocks: countChunkedBlocks(next), ms: Date.now() - started };
+    }
+
+    for (const b of next.blockTypes) {
+      if (this.registered.has(b.id)) continue;
+      this.registered.add(b.id);
+      this.world.blockTypeRegistry.registerGenericBlockType({ id: b.id, name: b.name, textureUri: b.textureUri });
+    }
+
+    const changed = new Set(diffChunkedMaps(prev, next));
+    const lattice = this.world.chunkLattice;
+    let blocks = 0;
+    let written = 0;
+    const write = (x: number, y: number, z: number, id: number) => {
+      lattice.setBlock({ x, y, z }, id);
+      blocks++;
+    };
+    for (const key of new Set([...changed, ...this.dirty])) {
+      forEachChunkChange(this.dirty.has(key) ? null : prev, next, key, write);
+      if (++written % CHUNKS_PER_BATCH === 0) await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    this.loaded = next;
+    this.dirty.clear();
+    return { full: false, chunks: written, blocks, ms: Date.now() - started };
+  }
+
+  private despawnMapEntities(): void {
+    for (const entity of this.mapEntities) {
+      if (entity.isSpawned) entity.despawn();
+    }
+    this.mapEntities = [];
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Map rotation over a playlist: picks each round's pinned arena (sequential, shuffle-bag or weighted)
+ * and runs the /nextmap vote. Deterministic for a given playlist + rotation seed.
+ */
+
+import type { Playlist, PlaylistEntry } from '../config/playlist.js';
+import { Rng } from '../../shared/rng/Rng.js';
+
+/** How many maps are offered in a /nextmap vote (the rotation's own pick plus alternates). */
+const VOTE_CANDIDATES = 3;
+
+export type VoteTally = { entry: PlaylistEntry; votes: number }[];
+
+export class MapRotation {
+  private readonly active: PlaylistEntry[];
+  private readonly rng: Rng;
+  private currentIndex = -1;
+  /** Rotation's pick for the next round; fixed once chosen so the vote and advance() agree. */
+  private pendingIndex: number | null = null;
+  /** Remaining indices in the current shuffle pass. */
+  private bag: number[] = [];
+  private candidates: number[] = [];
+  private readonly votes = new Map<string, number>();
+
+  constructor(readonly playlist: Playlist, seed: string) {
+    this.active = playlist.entries.filter((e) => !e.retired);
+    this.rng = new Rng(`${seed}:rotation:${playlist.name}`);
+  }
+
+  get current(): PlaylistEntry | null {
+    return this.currentIndex >= 0 ? this.active[this.currentIndex] : null;
+  }
+
+  get size(): number {
+    return this.active.length;
+  }
+
+  /** Maps on offer for the next round; index 0 is the rotation's default pick. */
+  getCandidates(): PlaylistEntry[] {
+    if (this.candidates.length === 0) this.openVote();
+    return this.candidates.map((i) => this.active[i]);
+  }
+
+  /**
+   * Record (or change) a player's vote for candidate `choice` (0-based).
+   * Returns false if the choice is out of range.
+   */
+  vote(playerId: string, choice: number): boolean {
+    const candidates = this.getCandidates();
+    if (!Number.isInteger(choice) || choice < 0 || choice >= candidates.length) return false;
+    this.votes.set(playerId, this.candidates[choice]);
+    return true;
+  }
+
+  /** Votes per candidate, in candidate order. */
+  tally(): VoteTally {
+    const candidates = this.getCandidates();
+    return candidates.map((entry, k) => ({
+      entry,
+      votes: [...this.votes.values()].filter((i) => i === this.candidates[k]).length,
+    }));
+  }
+
+  /**
+   * Move to the next map: the most-voted candidate if anyone voted (ties go to the earlier candidate,
+   * so the rotation's pick wins a tie), otherwise the rotation's pick. Clears the vote.
+   */
+  advance(): PlaylistEntry {
+    const tally = this.tally();
+    let best = 0;
+    for (let k = 1; k < tally.length; k++) if (tally[k].votes > tally[best].votes) best = k;
+    const next = this.candidates[best];
+
+    this.currentIndex = next;
+    this.pendingIndex = null;
+    this.candidates = [];
+    this.votes.clear();
+    // A voted-in map still counts as played for the shuffle pass
+    this.bag = this.bag.filter((i) => i !== next);
+    return this.active[next];
+  }
+
+  private openVote(): void {
+    const pending = this.pickPending();
+    const others = this.active.map((_, i) => i).filter((i) => i !== pending && i !== this.currentIndex);
+    const alternates = this.rng.shuffle(others).slice(0, VOTE_CANDIDATES - 1);
+    this.candidates = [pending, ...alternates];
+  }
+
+  private pickPending(): number {
+    if (this.pendingIndex != null) return this.pendingIndex;
+    const n = this.active.length;
+    let pick: number;
+    if (n === 1) {
+      pick = 0;
+    } else if (this.playlist.order === 'sequential') {
+      pick = (this.currentIndex + 1) % n;
+    } else if (this.playlist.order === 'shuffle') {
+      if (this.bag.length === 0) {
+        this.bag = this.rng.shuffle(this.active.map((_, i) => i));
+        // Don't replay the map that just ended at the start of a new pass
+        if (this.bag[0] === this.currentIndex) this.bag.push(this.bag.shift()!);
+      }
+      pick = this.bag[0];
+    } else {
+      pick = this.pickWeighted();
+    }
+    this.pendingIndex = pick;
+    return pick;
+  }
+
+  /** Weighted random, never repeating the current map back to back. */
+  private pickWeighted(): number {
+    const pool = this.active.map((_, i) => i).filter((i) => i !== this.currentIndex);
+    const total = pool.reduce((sum, i) => sum + (this.active[i].weight ?? 1), 0);
+    let r = this.rng.float() * total;
+    for (const i of pool) {
+      r -= this.active[i].weight ?? 1;
+      if (r <= 0) return i;
+    }
+    return pool[pool.length - 1];
+  }
+}
@@ -85,8 +85,10 @@ export class ObjectiveSystem {
   }
 
   private pickSpawnPosition(): { x: number; y: number; z: number } {
-    // Fixed center for now; can later use simple random within safe bounds.
-    return { x: 0, y: 10, z: 0 };
+    // Objective zone centre (arena centre on generated maps; hand-authored maps may place it elsewhere)
+    const spec = this.worldState.mapSpec;
+    if (!spec) return { x: 0, y: 10, z: 0 };
+    return { x: spec.objective.center.x - spec.center.x, y: 10, z: spec.objective.center.y - spec.center.y };
   }
 
   private getPlayerDisplayName(playerId: string): string {
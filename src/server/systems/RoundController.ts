@@ -16,23 +16,49 @@ import type { ScoreService } from '../services/ScoreService.js';
 import type { BotManager } from './BotManager.js';
 import type { TowerSystem } from './TowerSystem.js';
 import type { DepositSystem } from './DepositSystem.js';
+import type { MapRotation } from './MapRotation.js';
+import type { HazardSystem } from './HazardSystem.js';
+import type { AtmosphereSystem } from './AtmosphereSystem.js';
+import type { EnemySystem } from '../modes/survival/EnemySystem.js';
+import type { GameMode, GameModeDefinition, ModeContext } from '../modes/types.js';
+import type { ModeRegistry } from '../modes/registry.js';
+import type { PlaylistEntry } from '../config/playlist.js';
 import { TARGET_SHARDS } from '../constants.js';
 import { ARENA_BOUNDS } from '../config/arenaBounds.js';
-import { ARENA_V1_TIMED_MATCH_ONLY } from '../config/arenaMode.js';
 import { generateValidArena } from '../procgen/generateValidArena.js';
-import { specToMap } from '../procgen/specToMap.js';
-import { generateTheme, getBlockTypesForIds } from '../procgen/themes.js';
+import { loadHandMap, type HandMap } from '../config/handMaps.js';
+import { specDecorations, specToChunkedMap, type Decoration } from '../procgen/specToMap.js';
+import { chunkedFromMap, type ChunkedMap } from '../procgen/chunkedMap.js';
+import { MapLoader } from './MapLoader.js';
+import type { MapSpec } from '../procgen/spec.js';
+import { getBlockTypesForIds, getThemeById, pickTheme } from '../procgen/themes.js';
 import { TOWER_MATERIAL_IDS } from './TowerSystem.js';
-import { startSurvival, endSurvival, computeScore } from '../state/survivalState.js';
-import { isInsideObjective } from '../modes/objectiveZone.js';
-import { WaveDirector } from '../modes/survival/WaveDirector.js';
-import { INITIAL_SURVIVAL_STATE, type SurvivalState } from '../state/survivalState.js';
-import { INITIAL_TIME_TRIAL_STATE } from '../state/timeTrialState.js';
+import { ShardRaceMode } from '../modes/shards/ShardRaceMode.js';
+import { SurvivalMode } from '../modes/survival/SurvivalMode.js';
+import { TimeTrialMode } from '../modes/timetrial/TimeTrialMode.js';
+import { TowerMode } from '../modes/tower/TowerMode.js';
+import { KothMode } from '../modes/koth/KothMode.js';
+import { TdmMode } from '../modes/tdm/TdmMode.js';
+import { CtfMode } from '../modes/ctf/CtfMode.js';
+import { BotFfaMode } from '../modes/botffa/BotFfaMode.js';
+import {
+  INITIAL_TEAM_STATE,
+  TEAM_NAMES,
+  assignTeam,
+  removeFromTeam,
+  startTeams,
+  teamOf,
+  type TeamId,
+} from '../state/teamState.js';
+import {
+  INITIAL_SERIES_STATE,
+  createSeries,
+  recordSeriesRound,
+  seriesModeForNextRound,
+} from '../state/seriesState.js';
 
 export { TARGET_SHARDS };
 
-const ROUND_RESET_DELAY_MS = 8000;
-const POWERUP_SPAWN_COUNT = 38;
 const OBJECTIVE_TICK_MS = 100; // 10hz
 
 /** Numeric seed for this round so shards and powerups get new positions every round. */
@@ -42,9 +68,14 @@ function roundSeedNumeric(baseSeed: number, roundId: number): number {
 
 export class RoundController {
   private startMatchInProgress = false;
-  private waveDirector: WaveDirector | null = null;
   private lastObjectiveTickMs = 0;
-  private lastHeartbeatSec = 0;
+  /** Lobby-chosen mode, held while a series or playlist entry overrides matchConfig.mode. */
+  private modeBeforeOverride: GameMode | null = null;
+  private readonly mapLoader: MapLoader;
+  private readonly survivalMode: SurvivalMode;
+  /** Seed and playlist entry of the last round, so /retry can replay the same arena. */
+  private lastRound: { seed: string; entry: PlaylistEntry | null } | null = null;
+  private retryRound: { seed: string; entry: PlaylistEntry | null } | null = null;
 
   constructor(
     private readonly world: World,
@@ -55,10 +86,53 @@ export class RoundController {
     private readonly spawnSystem: SpawnSystem,
     private readonly hud: HudService,
     private readonly scoreService: ScoreService,
+    private readonly modes: ModeRegistry,
     private readonly botManager?: BotManager,
     private readonly towerSystem?: TowerSystem,
-    private readonly depositSystem?: DepositSystem
-  ) {}
+    private readonly depositSystem?: DepositSystem,
+    private readonly mapRotation?: MapRotation,
+    private readonly hazardSystem?: HazardSystem,
+    private readonly atmosphereSystem?: AtmosphereSystem,
+    private readonly enemySystem?: EnemySystem
+  ) {
+    this.mapLoader = new MapLoader(world);
+
+    const ctx: ModeContext = {
+      world,
+      worldState,
+      hud,
+      scoreService,
+      shardSystem,
+      enemySystem,
+      towerSystem,
+      depositSystem,
+      nameOf: (playerId) => this.getCombatantName(playerId),
+      playerPositions: () => this.getPlayerPositions(PlayerManager.instance.getConnectedPlayersByWorld(world)),
+      liveCombatantPositions: () => this.getLiveCombatantPositions(),
+      botPositions: () => this.getBotPositions(),
+      groundYAt: (x, z) => this.groundYAt(x, z),
+      finishRound: () => this.finishRound(),
+    };
+    this.survivalMode = new SurvivalMode(ctx);
+    for (const def of [
+      new ShardRaceMode('MULTI', ctx),
+      new ShardRaceMode('SOLO', ctx),
+      this.survivalMode,
+      new TimeTrialMode(ctx),
+      new TowerMode(ctx),
+      new KothMode(ctx),
+      new TdmMode(ctx),
+      new CtfMode(ctx),
+      new BotFfaMode(ctx),
+    ]) {
+      modes.register(def);
+    }
+  }
+
+  /** Definition of this round's mode (matchConfig.mode). */
+  get activeMode(): GameModeDefinition {
+    return this.modes.get(this.worldState.matchConfig.mode);
+  }
 
   /* -------------------------------------------------------------------------- */
   /* MATCH START                                                                */
@@ -90,25 +164,71 @@ export class RoundController {
     const nextRoundId = r.roundId == null ? 1 : r.roundId + 1;
     const config = this.worldState.matchConfig;
 
-    if (config.mode === 'tower') {
-      this.towerSystem?.clearTowerForNewRound();
+    // Playlist rotation pins the seed (and optionally mode/theme/layout); otherwise derive from the match seed.
+    // A layout picked with /layout beats the entry's, since that's someone asking for it right now.
+    // A retry replays the last round's seed and entry without advancing the playlist.
+    // A series with its own mode rotation wins over the entry's mode.
+    const retry = this.retryRound;
+    this.retryRound = null;
+    const entry = retry ? retry.entry : (this.mapRotation?.advance() ?? null);
+    this.worldState.playlistEntry = entry;
+    const overrideMode = seriesModeForNextRound(this.worldState.seriesState) ?? entry?.mode;
+    if (overrideMode) {
+      this.modeBeforeOverride ??= config.mode;
+      config.mode = overrideMode;
+    } else if (this.modeBeforeOverride) {
+      config.mode = this.modeBeforeOverride;
+      this.modeBeforeOverride = null;
     }
 
-    const roundSeed = config.seed + (nextRoundId === 1 ? '' : `_r${nextRoundId}`);
-    const { spec, usedSeed, attempt } = generateValidArena(roundSeed, {
-      size: config.size,
-      attempts: 16,
-    });
-    const theme = generateTheme(roundSeed);
-    const map = specToMap(spec, theme);
+    // Maps load incrementally, so a tower left from the last round must go even when this round isn't tower
+    if (this.towerSystem && (config.mode === 'tower' || this.towerSystem.hasTower())) {
+      const cleared = this.towerSystem.clearTowerForNewRound();
+      this.mapLoader.markDirty(cleared.min, cleared.max);
+    }
+
+    const roundSeed =
+      retry?.seed ?? (entry ? entry.seed : config.seed + (nextRoundId === 1 ? '' : `_r${nextRoundId}`));
+    this.lastRound = { seed: roundSeed, entry };
+    // Hand-authored map (playlist entry or /map) replaces procgen; its sidecar supplies the spec
+    const handMapId = entry ? entry.map : config.arenaMap;
+    let spec: MapSpec;
+    let usedSeed: string;
+    let attempt: number;
+    let map: ChunkedMap;
+    let handMap: HandMap | null = null;
+    let decorations: Decoration[] = [];
+    // Biome by seed unless the playlist pins one; hand-authored maps keep their blocks but take its sky/light/music
+    const theme = (entry?.theme && getThemeById(entry.theme)) || pickTheme(roundSeed);
+    if (handMapId) {
+      handMap = loadHandMap(handMapId, roundSeed);
+      spec = handMap.spec;
+      map = chunkedFromMap(handMap.map);
+      usedSeed = roundSeed;
+      attempt = 1;
+    } else {
+      ({ spec, usedSeed, attempt } = generateValidArena(roundSeed, {
+        size: entry?.size ?? config.size,
+        attempts: 16,
+        version: entry?.version ?? config.arenaVersion,
+        layout: config.arenaLayout !== 'auto' ? config.arenaLayout : (entry?.layout ?? 'auto'),
+        fairnessTolerance: config.arenaFairnessTolerance,
+      }));
+      map = specToChunkedMap(spec, theme);
+      decorations = specDecorations(spec, theme);
+    }
     if (config.mode === 'tower') {
-      const existingIds = map.blockTypes.map((b) => b.id);
-      map.blockTypes = getBlockTypesForIds([...new Set([...existingIds, ...TOWER_MATERIAL_IDS])]);
+      // Append rather than rebuild: hand-authored maps may carry custom block types outside the catalog
+      const existingIds = new Set(map.blockTypes.map((b) => b.id));
+      const missing = TOWER_MATERIAL_IDS.filter((id) => !existingIds.has(id));
+      map.blockTypes = [...map.blockTypes, ...getBlockTypesForIds(missing)];
     }
 
-    await this.world.loadMap(map);
+    const load = await this.mapLoader.load(map, handMap?.map.entities);
+    this.hazardSystem?.resetForNewRound(spec, theme.trimId);
+    this.atmosphereSystem?.applyTheme(theme, decorations);
 
-    this.worldState.mapData = map;
+    this.worldState.mapData = handMap?.map ?? null;
     this.worldState.procgenSpec = spec;
     this.worldState.mapSpec = spec;
     this.worldState.usedSeed = usedSeed;
@@ -119,20 +239,31 @@ export class RoundController {
     const walls = spec.wallSegments?.length ?? 0;
     const cover = spec.cover?.length ?? 0;
     console.log(
-      '[procgen] mode=%s seed=%s usedSeed=%s attempt=%s walls=%s cover=%s',
+      '[procgen] mode=%s map=%s seed=%s layout=%s theme=%s usedSeed=%s attempt=%s walls=%s cover=%s',
       config.mode,
-      config.seed,
+      entry?.name ?? handMapId ?? '-',
+      roundSeed,
+      spec.handMap ? 'hand' : spec.layout ?? 'rings',
+      theme.id,
       usedSeed,
       attempt,
       walls,
       cover
     );
+    console.log(
+      '[map] %s load: chunks=%d blocks=%d in %dms',
+      load.full ? 'full' : 'incremental',
+      load.chunks,
+      load.blocks,
+      load.ms
+    );
 
     if (usedSeed.startsWith('fallback')) {
       console.warn('[RoundController] round used fallback spec', { roundSeed, usedSeed });
     }
 
     this.finishStartMatch(nextRoundId);
+    if (entry) this.hud.broadcastFeed(`Map: ${entry.name}`);
     this.startMatchInProgress = false;
   }
 
@@ -143,15 +274,12 @@ export class RoundController {
 
     r.status = 'RUNNING';
     r.roundId = roundId;
-    r.matchDurationMs =
-      config.mode === 'survival'
-        ? config.survival.winSeconds * 1000
-        : config.mode === 'timetrial'
-          ? 600000
-          : r.matchDurationMs;
+    const mode = this.activeMode;
+    r.matchDurationMs = mode.matchDurationMs?.(config) ?? r.matchDurationMs;
     r.matchEndsAtMs = now + r.matchDurationMs;
     r.resetEndsAtMs = undefined;
     r.winnerPlayerId = undefined;
+    r.winnerTeamId = undefined;
 
     const players = this.getMatchPlayers();
 
@@ -162,56 +290,25 @@ export class RoundController {
     this.scoreService.resetForPlayers(players);
     this.worldState.resetAllPlayerShards();
 
-    this.waveDirector = null;
     this.lastObjectiveTickMs = now;
-    this.lastHeartbeatSec = 0;
-
-    if (config.mode === 'survival') {
-      startSurvival(this.worldState.survivalState, now);
-      this.waveDirector = new WaveDirector(
-        this.worldState.mapSpec,
-        this.worldState.usedSeed,
-        config.survival.interWaveDelayMs,
-        () => this.onWaveCleared(),
-        (wave) => this.onWaveStart(wave)
-      );
-      this.waveDirector.start(now);
-    } else if (config.mode === 'timetrial') {
-      this.worldState.timeTrialState = {
-        ...INITIAL_TIME_TRIAL_STATE,
-        status: 'RUNNING',
-        startedAtMs: now,
-        requiredCaptureMs: config.timetrial.requiredCaptureMs,
-      };
+
+    // Teams before spawning so everyone lands in their own zones; bots join in onRoundStarted
+    const teamCount = mode.teamCount?.(config) ?? 0;
+    if (teamCount > 0) {
+      const humanIds = PlayerManager.instance.getConnectedPlayersByWorld(this.world).map((p) => p.id);
+      startTeams(this.worldState.teamState, teamCount, humanIds);
+    } else {
+      this.worldState.teamState = { ...INITIAL_TEAM_STATE };
     }
 
+    for (const other of this.modes.all()) {
+      if (other !== mode) other.clear?.();
+    }
+    mode.onRoundStart(now);
+
     const seedForRound = roundSeedNumeric(this.worldState.seed, roundId);
     this.shardSystem.resetForNewMatch(seedForRound);
-    this.powerUpSystem.resetForNewRound(POWERUP_SPAWN_COUNT, seedForRound);
-
-    if (config.mode === 'tower') {
-      this.worldState.towerState = {
-        unlockedTier: 0,
-        roofHoldMs: 0,
-        roofActive: false,
-      };
-      const roundSeedStr = config.seed + (roundId === 1 ? '' : `_r${roundId}`);
-      this.towerSystem?.initRound(roundId, roundSeedStr);
-      const spec = this.towerSystem?.getSpec();
-      const radius1 = spec?.radius1 ?? 6;
-      const depositX = radius1 + 2;
-      const depositZ = 0;
-      const originBesideTower = { x: depositX, y: 50, z: depositZ };
-      const hit = this.world.simulation.raycast(originBesideTower, { x: 0, y: -1, z: 0 }, 200);
-      const groundY = hit ? hit.hitPoint.y : 1;
-      this.depositSystem?.setConsoleY(groundY);
-      this.depositSystem?.setConsolePosition(depositX, groundY, depositZ);
-      this.depositSystem?.spawnZoneMarker();
-    } else {
-      this.worldState.towerState = null;
-      this.depositSystem?.clearConsolePosition();
-      this.depositSystem?.despawnZoneMarker();
-    }
+    this.powerUpSystem.resetForNewRound(config.rules.powerUpCount, seedForRound);
 
     this.ensureSpawnPoints();
 
@@ -223,153 +320,107 @@ export class RoundController {
       this.teleportPlayerTo(player, pos);
     }
 
-    this.objectiveSystem.spawnObjectiveNow();
+    // Modes that score elsewhere (hill, captures, kills) leave the Golden Apple off; it would add claim points
+    if (mode.spawnsObjective) {
+      this.objectiveSystem.spawnObjectiveNow();
+    } else {
+      this.worldState.objective = null;
+    }
 
     this.botManager?.onRoundStarted();
 
-    this.hud.broadcastRoundSplash();
-    this.hud.broadcastHud();
-  }
-
-  private onWaveCleared(): void {
-    const surv = this.worldState.survivalState;
-    surv.wave = this.waveDirector?.currentWave ?? surv.wave;
-    this.hud.broadcastToast('good', `Wave ${surv.wave} cleared`);
-    this.hud.broadcastFeed(`Wave ${surv.wave} cleared`);
-    this.hud.broadcastHud();
-  }
+    const series = this.worldState.seriesState;
+    if (series.status === 'PENDING') {
+      series.status = 'RUNNING';
+      this.hud.broadcastFeed(`Series started: best of ${series.rounds}`);
+    } else if (series.status === 'DONE') {
+      this.worldState.seriesState = { ...INITIAL_SERIES_STATE, standings: {} };
+    }
 
-  private onWaveStart(wave: number): void {
-    this.worldState.survivalState.wave = wave;
-    this.hud.broadcastToast('info', `Wave ${wave}`);
+    this.hud.broadcastRoundSplash();
     this.hud.broadcastHud();
   }
 
   /**
-   * Call at 10hz from index. Updates survival/timetrial objective time and wave director; checks end conditions.
+   * Call at 10hz from index. Runs the active mode's tick, then its win check.
    */
   tickObjectiveAndModes(nowMs: number): void {
     if (nowMs - this.lastObjectiveTickMs < OBJECTIVE_TICK_MS) return;
     const delta = nowMs - this.lastObjectiveTickMs;
     this.lastObjectiveTickMs = nowMs;
+    if (this.worldState.roundState.status !== 'RUNNING') return;
 
-    const config = this.worldState.matchConfig;
-    const r = this.worldState.roundState;
-    if (r.status !== 'RUNNING') return;
-
-    const firstPlayerPos = this.getFirstConnectedPlayerPosition();
-    const insideObjective = firstPlayerPos
-      ? isInsideObjective(this.worldState.mapSpec, firstPlayerPos)
-      : false;
-
-    if (config.mode === 'survival') {
-      const surv = this.worldState.survivalState;
-      if (surv.status !== 'RUNNING') return;
-      surv.elapsedMs = nowMs - surv.startedAtMs;
-      if (insideObjective) surv.inObjectiveMs += delta;
-      surv.lastTickMs = nowMs;
-
-      this.waveDirector?.update(nowMs);
-      surv.wave = this.waveDirector?.currentWave ?? surv.wave;
-      surv.enemiesRemaining = this.waveDirector?.liveEnemies ?? 0;
-
-      const winByWaves = surv.wave >= config.survival.winWaves;
-      const winByTime = surv.elapsedMs >= config.survival.winSeconds * 1000;
-      if (winByWaves || winByTime) {
-        this.endSurvivalMatch(true);
-        return;
-      }
-
-      const sec = Math.floor(surv.elapsedMs / 1000);
-      if (sec > this.lastHeartbeatSec) {
-        this.lastHeartbeatSec = sec;
-        this.hud.broadcastHud();
-      }
-    } else if (config.mode === 'timetrial') {
-      const tt = this.worldState.timeTrialState;
-      if (tt.status !== 'RUNNING') return;
-      if (insideObjective) tt.captureMs += delta;
-
-      if (tt.captureMs >= tt.requiredCaptureMs) {
-        this.endTimeTrialMatch();
-        return;
-      }
-
-      const sec = Math.floor((nowMs - tt.startedAtMs) / 1000);
-      if (sec > this.lastHeartbeatSec) {
-        this.lastHeartbeatSec = sec;
-        this.hud.broadcastHud();
-      }
-    }
+    this.activeMode.onTick?.(nowMs, delta);
+    this.checkModeWin();
   }
 
-  private getFirstConnectedPlayerPosition(): { x: number; y: number; z: number } | null {
-    const connected = PlayerManager.instance.getConnectedPlayersByWorld(this.world);
-    for (const player of connected) {
-      const entities = this.world.entityManager.getPlayerEntitiesByPlayer(player);
-      const entity = entities[0];
-      if (entity?.isSpawned) {
-        const p = entity.position;
-        return { x: p.x, y: p.y, z: p.z };
-      }
-    }
-    return null;
+  /** End the round if the active mode reports a winner. Called after ticks, KOs and pickups. */
+  checkModeWin(): void {
+    if (this.worldState.roundState.status !== 'RUNNING') return;
+    const win = this.activeMode.checkWin?.();
+    if (!win) return;
+    if ('playerId' in win) this.endMatch(win.playerId);
+    else this.endTeamMatch(win.teamId);
   }
 
-  /** Called when the solo player is KO'd in survival mode (lose). */
-  onSurvivalPlayerDeath(): void {
-    this.endSurvivalMatch(false);
+  /**
+   * Survival and time trial end on their own and wait for /restart (or /retry) instead of the reset countdown;
+   * mid-series they move on once the reset delay is up.
+   */
+  private finishRound(): void {
+    const r = this.worldState.roundState;
+    const winnerIsBot = r.winnerPlayerId != null && this.worldState.botDisplayNames.has(r.winnerPlayerId);
+    this.botManager?.onRoundEnded(r.winnerPlayerId, winnerIsBot);
+    r.status = 'ENDED';
+    r.resetEndsAtMs = Date.now() + this.worldState.matchConfig.rules.roundResetDelayMs;
+    this.recordSeriesRound(r.winnerPlayerId ? [r.winnerPlayerId] : []);
   }
 
-  private endSurvivalMatch(won: boolean): void {
-    const now = Date.now();
-    const surv = this.worldState.survivalState;
-    endSurvival(surv, now);
-    this.waveDirector = null;
+  /** Floor top under (x, z). */
+  private groundYAt(x: number, z: number): number {
+    const hit = this.world.simulation.raycast({ x, y: 50, z }, { x: 0, y: -1, z: 0 }, 200);
+    return hit ? hit.hitPoint.y : 1;
+  }
 
-    const score = computeScore(surv);
-    this.hud.broadcastToast(won ? 'good' : 'bad', won ? `You win! Score: ${score}` : `You died. Score: ${score}`);
-    this.hud.broadcastFeed(won ? `Survival win! Score: ${score}` : `Survival ended. Score: ${score}`);
-    this.hud.broadcastHud();
+  /** Fall recovery: drop whatever the player carries (e.g. a CTF flag) instead of it riding the respawn to base. */
+  dropCarried(playerId: string): void {
+    this.activeMode.dropCarried?.(playerId);
+  }
 
-    this.worldState.roundState.status = 'ENDED';
-    this.worldState.roundState.resetEndsAtMs = now + ROUND_RESET_DELAY_MS;
+  /** Humans with a spawned entity and bots, skipping anyone KO'd (health 0). */
+  private getLiveCombatantPositions(): Array<{ playerId: string; position: { x: number; y: number; z: number } }> {
+    const connected = PlayerManager.instance.getConnectedPlayersByWorld(this.world);
+    const out = [...this.getPlayerPositions(connected), ...this.getBotPositions()];
+    return out.filter((c) => (this.worldState.getPlayer(c.playerId)?.health ?? 0) > 0);
   }
 
-  private endTimeTrialMatch(): void {
-    const now = Date.now();
-    const tt = this.worldState.timeTrialState;
-    tt.status = 'ENDED';
-    const totalTimeMs = now - tt.startedAtMs;
-    const score = Math.max(0, 300000 - totalTimeMs);
-    this.hud.broadcastToast('good', `Time Trial complete! Score: ${score}`);
-    this.hud.broadcastFeed(`Time Trial complete in ${(totalTimeMs / 1000).toFixed(1)}s. Score: ${score}`);
-    this.hud.broadcastHud();
+  private getBotPositions(): Array<{ playerId: string; position: { x: number; y: number; z: number } }> {
+    return (this.botManager?.getBots() ?? []).map((b) => ({ playerId: b.botId, position: { ...b.position } }));
+  }
 
-    this.worldState.roundState.status = 'ENDED';
-    this.worldState.roundState.resetEndsAtMs = now + ROUND_RESET_DELAY_MS;
+  private getCombatantName(playerId: string): string {
+    return this.worldState.botDisplayNames.get(playerId) ?? this.getPlayerDisplayName(playerId);
   }
 
-  /** Call when an enemy entity dies (e.g. from NPC system). Increments survivalState.kills and wave director. */
-  onEnemyDeath(): void {
-    this.worldState.survivalState.kills += 1;
-    this.waveDirector?.onEnemyDeath();
+  /** Call when a survival enemy dies (EnemySystem.onKilled). */
+  onEnemyDeath(killerId?: string): void {
+    this.survivalMode.onEnemyDeath(killerId);
   }
 
   /**
-   * Restart flow: validate status === 'ENDED', generate new seed, regenerate arena, reset mode state, start match.
-   * Call from /restart or when UI sends restart_request.
+   * Restart flow: validate status === 'ENDED', generate new seed (or keep it with sameSeed), regenerate arena,
+   * reset mode state, start match. Call from /restart, /retry or when UI sends restart_request.
    */
-  handleRestartRequest(): boolean {
+  handleRestartRequest(options: { sameSeed?: boolean } = {}): boolean {
     if (this.worldState.roundState.status !== 'ENDED') return false;
-    const surv = this.worldState.survivalState;
-    const tt = this.worldState.timeTrialState;
 
-    this.worldState.matchConfig.seed =
-      this.worldState.usedSeed + ':next:' + Date.now();
-    const fresh: SurvivalState = { ...INITIAL_SURVIVAL_STATE };
-    this.worldState.survivalState = fresh;
-    this.worldState.timeTrialState = { ...INITIAL_TIME_TRIAL_STATE };
+    if (options.sameSeed && this.lastRound) {
+      this.retryRound = this.lastRound;
+    } else {
+      this.worldState.matchConfig.seed =
+        this.worldState.usedSeed + ':next:' + Date.now();
+    }
+    this.activeMode.clear?.();
 
     this.worldState.roundState.status = 'STARTING';
     this.beginStartMatch();
@@ -411,6 +462,10 @@ export class RoundController {
   endMatch(winnerPlayerId?: string, winnerDisplayName?: string): void {
     const r = this.worldState.roundState;
     if (r.status !== 'RUNNING') return;
+    if (this.worldState.teamState.teamCount > 0) {
+      this.endTeamMatch(this.getLeadingTeam());
+      return;
+    }
 
     const now = Date.now();
     const winnerIsBot = winnerPlayerId != null && this.worldState.botDisplayNames.has(winnerPlayerId);
@@ -423,9 +478,11 @@ export class RoundController {
       winnerId = leaderboard.length > 0 ? leaderboard[0].playerId : undefined;
     }
 
+    this.activeMode.onRoundEnd?.();
+
     r.status = 'RESETTING';
     r.winnerPlayerId = winnerId;
-    r.resetEndsAtMs = now + ROUND_RESET_DELAY_MS;
+    r.resetEndsAtMs = now + this.worldState.matchConfig.rules.roundResetDelayMs;
 
     this.hud.broadcastHud();
 
@@ -440,6 +497,118 @@ export class RoundController {
       this.hud.broadcastToast('info', 'Match over');
       this.hud.broadcastFeed('No winner this round.');
     }
+    this.recordSeriesRound(winnerId ? [winnerId] : []);
+  }
+
+  /** Team modes: `team` wins, or nobody when the top teams are tied (null). */
+  private endTeamMatch(team: TeamId | null): void {
+    const r = this.worldState.roundState;
+    if (r.status !== 'RUNNING') return;
+
+    const now = Date.now();
+    this.botManager?.onRoundEnded(undefined, false);
+    this.activeMode.onRoundEnd?.();
+
+    r.status = 'RESETTING';
+    r.winnerPlayerId = undefined;
+    r.winnerTeamId = team ?? undefined;
+    r.resetEndsAtMs = now + this.worldState.matchConfig.rules.roundResetDelayMs;
+
+    this.hud.broadcastHud();
+
+    const unit = this.activeMode.teamScoreUnit ?? 'points';
+    if (team != null) {
+      const score = this.worldState.score.scoresByTeamId[team] ?? 0;
+      this.hud.broadcastToast('good', `${TEAM_NAMES[team]} team wins`);
+      this.hud.broadcastFeed(`Winner: ${TEAM_NAMES[team]} team (${score} ${unit})`);
+    } else {
+      this.hud.broadcastToast('info', 'Match over');
+      this.hud.broadcastFeed(`Draw: teams tied on ${unit}.`);
+    }
+    const members = Object.entries(this.worldState.teamState.teamByPlayerId);
+    this.recordSeriesRound(team != null ? members.filter(([, t]) => t === team).map(([id]) => id) : []);
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /* MATCH SERIES                                                               */
+  /* -------------------------------------------------------------------------- */
+
+  /** Arm a best-of-`rounds` series, optionally cycling `modes`; it starts with the next round. */
+  startSeries(rounds: number, modes: GameMode[]): void {
+    this.worldState.seriesState = createSeries(rounds, modes);
+    const rotation = modes.length > 0 ? ` (${modes.join(', ')})` : '';
+    this.hud.broadcastFeed(`Best of ${rounds} series${rotation} starts next round`);
+  }
+
+  /** Drop the series; rounds go back to being one-offs. False when there was none. */
+  cancelSeries(): boolean {
+    const series = this.worldState.seriesState;
+    if (series.status === 'IDLE' || series.status === 'DONE') return false;
+    this.worldState.seriesState = { ...INITIAL_SERIES_STATE, standings: {} };
+    this.hud.broadcastFeed('Series cancelled');
+    return true;
+  }
+
+  /**
+   * Series bookkeeping once a round has ended: place everyone by this round's leaderboard (winners first, so a
+   * winning team outranks higher-scoring losers), count the round win, then show the standings screen.
+   */
+  private recordSeriesRound(winnerIds: string[]): void {
+    const series = this.worldState.seriesState;
+    if (series.status !== 'RUNNING') return;
+    const winners = new Set(winnerIds);
+    const leaderboard = this.hud.getLeaderboard();
+    const placings = [
+      ...leaderboard.filter((e) => winners.has(e.playerId)),
+      ...leaderboard.filter((e) => !winners.has(e.playerId)),
+    ];
+    if (recordSeriesRound(series, { placings, winnerIds })) {
+      const champion = series.winnerPlayerId != null ? series.standings[series.winnerPlayerId] : undefined;
+      if (champion) {
+        this.hud.broadcastToast('good', `${champion.name} wins the series!`);
+        this.hud.broadcastFeed(`Series winner: ${champion.name} (${champion.roundWins} rounds, ${champion.points} pts)`);
+      } else {
+        this.hud.broadcastFeed('Series over: no winner.');
+      }
+    } else {
+      this.hud.broadcastFeed(`Series: round ${series.roundsPlayed} of ${series.rounds} done`);
+    }
+    this.hud.broadcastRoundSplash(true);
+  }
+
+  private getLeadingTeam(): TeamId | null {
+    const scores = this.worldState.score.scoresByTeamId;
+    let best: TeamId | null = null;
+    let tied = false;
+    for (let t = 0; t < this.worldState.teamState.teamCount; t++) {
+      const score = scores[t] ?? 0;
+      const bestScore = best == null ? -1 : scores[best] ?? 0;
+      if (score > bestScore) {
+        best = t as TeamId;
+        tied = false;
+      } else if (score === bestScore) {
+        tied = true;
+      }
+    }
+    return tied ? null : best;
+  }
+
+  /* -------------------------------------------------------------------------- */
+  /* TEAMS                                                                      */
+  /* -------------------------------------------------------------------------- */
+
+  /** Team modes: put a (re)joining player on the smallest team before they spawn. */
+  assignTeamOnJoin(playerId: string): void {
+    const hadTeam = teamOf(this.worldState.teamState, playerId) != null;
+    const team = assignTeam(this.worldState.teamState, playerId);
+    if (team == null || hadTeam) return;
+    this.hud.broadcastFeed(`${this.getPlayerDisplayName(playerId)} joined ${TEAM_NAMES[team]}`);
+  }
+
+  /** Free the leaver's slot so joiners balance against the players actually present; the mode drops what they carry. */
+  onPlayerLeft(playerId: string): void {
+    this.activeMode.onPlayerLeft?.(playerId);
+    removeFromTeam(this.worldState.teamState, playerId);
   }
 
   /* -------------------------------------------------------------------------- */
@@ -449,45 +618,34 @@ export class RoundController {
   tickMatchLifecycle(): void {
     const now = Date.now();
     const r = this.worldState.roundState;
-    const mode = this.worldState.matchConfig.mode;
 
-    if (
-      r.status === 'RUNNING' &&
-      r.matchEndsAtMs &&
-      now >= r.matchEndsAtMs &&
-      mode !== 'survival' &&
-      mode !== 'timetrial'
-    ) {
+    if (r.status === 'RUNNING' && r.matchEndsAtMs && now >= r.matchEndsAtMs && this.activeMode.endsOnTimer) {
       this.endMatch();
     }
 
     if (r.status === 'RESETTING' && r.resetEndsAtMs && now >= r.resetEndsAtMs) {
       this.startMatch();
     }
+
+    // Mid-series, rounds that otherwise wait for /restart (survival, time trial) move on by themselves
+    if (
+      r.status === 'ENDED' &&
+      this.worldState.seriesState.status === 'RUNNING' &&
+      r.resetEndsAtMs &&
+      now >= r.resetEndsAtMs
+    ) {
+      this.handleRestartRequest();
+    }
   }
 
   /* -------------------------------------------------------------------------- */
-  /* SHARD WIN CHECK                                                            */
+  /* SHARD PICKUPS                                                              */
   /* -------------------------------------------------------------------------- */
 
   onPlayerShardsChanged(playerId: string): void {
     if (this.worldState.roundState.status !== 'RUNNING') return;
-    if (this.worldState.matchConfig.mode === 'tower') return;
-
-    const p = this.worldState.getPlayer(playerId);
-    if (!p || p.shards < TARGET_SHARDS) return;
-
-    const name = this.getPlayerDisplayName(playerId);
-
-    if (ARENA_V1_TIMED_MATCH_ONLY) {
-      this.scoreService.addPoint(playerId, name, 1, 'objective');
-      this.hud.broadcastToast('good', `${name} collected all shards! +1`);
-      this.hud.broadcastFeed(`${name} completed the objective`);
-      this.hud.broadcastHud();
-      return;
-    }
-
-    this.endMatch(playerId);
+    this.activeMode.onShardCollected?.(playerId);
+    this.checkModeWin();
   }
 
   /**
@@ -582,12 +740,6 @@ export class RoundController {
     return out;
   }
 
-  tickTower(nowMs: number): void {
-    if (this.worldState.matchConfig.mode !== 'tower') return;
-    this.depositSystem?.tick(nowMs);
-    this.towerSystem?.tickRoofHold(nowMs);
-  }
-
   private teleportPlayerTo(
     player: Player,
     pos: { x: number; y: number; z: number }
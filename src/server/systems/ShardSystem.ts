@@ -257,19 +257,19 @@ export class ShardSystem {
     }
   }
 
-  /** Bots use a larger pickup radius so they collect reliably (they move in 1-unit steps). */
+  /** Bots use a larger pickup radius so they collect reliably (they're only checked every AI tick, about a block apart). */
   private static readonly BOT_PICKUP_RADIUS = 4;
   private static readonly BOT_SCAN_RADIUS = 5;
 
   /**
-   * Try to collect a shard at the given position for a bot. Server-authoritative.
+   * Try to collect a shard (placed or dropped by a KO) at the given position for a bot. Server-authoritative.
    * Returns true if a pickup was collected and bot state was updated.
    */
   tryCollectForBot(botId: string, position: { x: number; y: number; z: number }): boolean {
     const pickupRadiusSq = ShardSystem.BOT_PICKUP_RADIUS * ShardSystem.BOT_PICKUP_RADIUS;
     const scanRadius = ShardSystem.BOT_SCAN_RADIUS;
 
-    for (const state of this.pickups.values()) {
+    for (const state of [...this.pickups.values(), ...this.droppedPickups.values()]) {
       if (state.collected) continue;
       const pickupPos = state.entity?.isSpawned ? state.entity.position : state.pos;
       if (
@@ -284,9 +284,13 @@ export class ShardSystem {
       if (entityToDespawn?.isSpawned) entityToDespawn.despawn();
       state.collected = true;
       state.entity = undefined;
+      this.droppedPickups.delete(state.id);
 
       const p = this.worldState.getPlayer(botId);
-      if (p) {
+      if (p && this.worldState.matchConfig.mode === 'tower') {
+        // Carried until banked at the deposit console, like a player's pickup
+        p.carriedShards = (p.carriedShards ?? 0) + state.value;
+      } else if (p) {
         p.shards += state.value;
         this.onShardsAwarded?.(botId);
       }
@@ -1,11 +1,13 @@
 /**
  * Spawn system: inner ring around map center (plus center), fairness (max distance from nearest enemy),
  * safety (minDist from any player), and last-used index to reduce repetition.
+ * Team modes: players only use points in their team's spawn zones, and teammates don't count as enemies.
  */
 
 import type { WorldState } from '../state/WorldState.js';
 import type { SpawnPoint } from '../state/types.js';
-import type { MapSpecV1 } from '../procgen/spec.js';
+import type { MapSpec } from '../procgen/spec.js';
+import { teamOf, teamSpawnZones } from '../state/teamState.js';
 
 const MIN_SAFE_DIST = 4.0;
 const MIN_SAFE_DIST_SQ = MIN_SAFE_DIST * MIN_SAFE_DIST;
@@ -152,7 +154,7 @@ export class SpawnSystem {
    * Build spawn points from procgen spec spawn zones so players spawn inside the arena pads,
    * not on the outer edge of the map. Converts spec 2D coords to world 3D (centered at 0,0).
    */
-  buildSpawnPointsFromProcgenSpec(spec: MapSpecV1, count: number = 16): SpawnPoint[] {
+  buildSpawnPointsFromProcgenSpec(spec: MapSpec, count: number = 16): SpawnPoint[] {
     const center = spec.center;
     const points: SpawnPoint[] = [];
     const spawnY = 6; // above floor; raycast will find ground
@@ -164,6 +166,7 @@ export class SpawnSystem {
         x: sx - center.x,
         y: spawnY,
         z: sy - center.y,
+        zone: zone.teamId,
       });
       // 4 points per zone: center + three spread within the rect
       points.push(toWorld(x + w / 2, y + h / 2));
@@ -214,22 +217,33 @@ export class SpawnSystem {
     const lastByPlayer = this.worldState.spawn.lastSpawnIndexByPlayerId;
     const lastIdx = lastByPlayer[playerId] ?? -1;
 
+    const teams = this.worldState.teamState;
+    const team = teamOf(teams, playerId);
     const others = players.filter(p => p.playerId !== playerId);
+    const enemies = team == null ? others : others.filter(p => teamOf(teams, p.playerId) !== team);
 
     type Candidate = { index: number; point: SpawnPoint; nearestEnemyDist: number; safe: boolean };
-    const candidates: Candidate[] = points.map((point, index) => {
+    let candidates: Candidate[] = points.map((point, index) => {
       let nearestEnemyDistSq = Infinity;
       let minDistToAnyPlayerSq = Infinity;
       for (const o of others) {
         const dSq = sqDist(point, o.position);
-        if (dSq < nearestEnemyDistSq) nearestEnemyDistSq = dSq;
         if (dSq < minDistToAnyPlayerSq) minDistToAnyPlayerSq = dSq;
       }
-      if (others.length === 0) nearestEnemyDistSq = 0;
+      for (const o of enemies) {
+        const dSq = sqDist(point, o.position);
+        if (dSq < nearestEnemyDistSq) nearestEnemyDistSq = dSq;
+      }
+      if (enemies.length === 0) nearestEnemyDistSq = 0;
       const nearestEnemyDist = Math.sqrt(nearestEnemyDistSq);
       const safe = minDistToAnyPlayerSq >= MIN_SAFE_DIST_SQ;
       return { index, point, nearestEnemyDist, safe };
     });
+    if (team != null) {
+      const zones = teamSpawnZones(team, teams.teamCount);
+      const own = candidates.filter(c => c.point.zone != null && zones.includes(c.point.zone));
+      if (own.length > 0) candidates = own;
+    }
 
     const safeCandidates = candidates.filter(c => c.safe);
     const pool = safeCandidates.length > 0 ? safeCandidates : candidates;
@@ -2,16 +2,14 @@ import type { World } from 'hytopia';
 import { PlayerManager } from 'hytopia';
 import type { WorldState } from '../state/WorldState.js';
 import type { HudService } from '../services/HudService.js';
+import type { CombatantPosition } from '../modes/types.js';
 import { hash32 } from '../procgen/themes.js';
 
-const TIER_THRESHOLDS = [8, 18, 30];
 const AIR_BLOCK_ID = 0;
 /** Block IDs used for tower (must be included in map blockTypes when in tower mode). */
 export const TOWER_MATERIAL_IDS = [1, 3, 5, 15];
 const ROOF_HOLD_WIN_MS = 20000;
-const TOWER_CENTER_X = 0;
-const TOWER_CENTER_Z = 0;
-const ROOF_ZONE_RADIUS = 6;
+export const ROOF_ZONE_RADIUS = 6;
 /** Bounding box for tower clear so the whole area is reset each round (x/z extent, y max). */
 const TOWER_CLEAR_RADIUS = 14;
 const TOWER_CLEAR_Y_MAX = 32;
@@ -144,20 +142,40 @@ export class TowerSystem {
     this.onWin = cb;
   }
 
-  /** Call before loading the next map so the previous round's tower is cleared to nothing. */
-  clearTowerForNewRound(): void {
+  /** World (x, z) of the tower: the map spec's tower site, else the arena centre at the origin. */
+  getTowerCenter(): { x: number; z: number } {
+    const spec = this.worldState.mapSpec;
+    if (!spec?.towerCenter) return { x: 0, z: 0 };
+    return { x: spec.towerCenter.x - spec.center.x, z: spec.towerCenter.y - spec.center.y };
+  }
+
+  /** True while blocks from a built tower are still standing. */
+  hasTower(): boolean {
+    return this.towerBlockPositions.length > 0;
+  }
+
+  /**
+   * Call before loading the next map so the previous round's tower is cleared to nothing.
+   * Returns the cleared box so the map loader can rewrite the map blocks it also removed.
+   */
+  clearTowerForNewRound(): { min: { x: number; y: number; z: number }; max: { x: number; y: number; z: number } } {
     const chunkLattice = this.world.chunkLattice;
     for (const pos of this.towerBlockPositions) {
       chunkLattice.setBlock({ x: pos.x, y: pos.y, z: pos.z }, AIR_BLOCK_ID);
     }
     this.towerBlockPositions = [];
-    for (let x = -TOWER_CLEAR_RADIUS; x <= TOWER_CLEAR_RADIUS; x++) {
-      for (let z = -TOWER_CLEAR_RADIUS; z <= TOWER_CLEAR_RADIUS; z++) {
+    const c = this.getTowerCenter();
+    for (let x = c.x - TOWER_CLEAR_RADIUS; x <= c.x + TOWER_CLEAR_RADIUS; x++) {
+      for (let z = c.z - TOWER_CLEAR_RADIUS; z <= c.z + TOWER_CLEAR_RADIUS; z++) {
         for (let y = 0; y <= TOWER_CLEAR_Y_MAX; y++) {
           chunkLattice.setBlock({ x, y, z }, AIR_BLOCK_ID);
         }
       }
     }
+    return {
+      min: { x: c.x - TOWER_CLEAR_RADIUS, y: 0, z: c.z - TOWER_CLEAR_RADIUS },
+      max: { x: c.x + TOWER_CLEAR_RADIUS, y: TOWER_CLEAR_Y_MAX, z: c.z + TOWER_CLEAR_RADIUS },
+    };
   }
 
   initRound(roundId: number, roundSeed: string): void {
@@ -179,11 +197,13 @@ export class TowerSystem {
     return this.spec;
   }
 
+  /** Banked shards of connected players and this round's bots. */
   getTotalBankedShards(): number {
     let total = 0;
     const players = PlayerManager.instance.getConnectedPlayersByWorld(this.world);
-    for (const p of players) {
-      const state = this.worldState.getPlayer(p.id);
+    const ids = [...players.map((p) => p.id), ...this.worldState.botDisplayNames.keys()];
+    for (const id of ids) {
+      const state = this.worldState.getPlayer(id);
       if (state) total += state.bankedShards ?? 0;
     }
     return total;
@@ -197,7 +217,7 @@ export class TowerSystem {
     const banked = this.getTotalBankedShards();
     const current = ts.unlockedTier;
 
-    if (current < 3 && banked >= TIER_THRESHOLDS[current]) {
+    if (current < 3 && banked >= this.worldState.matchConfig.rules.towerTierThresholds[current]) {
       const nextTier = (current + 1) as 1 | 2 | 3;
       ts.unlockedTier = nextTier;
       this.buildTier(nextTier);
@@ -266,8 +286,7 @@ export class TowerSystem {
       tierMaterial = spec.materialTier3;
     }
 
-    const cx = TOWER_CENTER_X;
-    const cz = TOWER_CENTER_Z;
+    const { x: cx, z: cz } = this.getTowerCenter();
     const landing = [...landingBlocks(cx, cz, landingY, radius)];
     const stairsPos = [...stairBlocks(cx, cz, prevY, landingY, prevRadius, radius, spec.stairAxis, 1)];
     const stairsNeg = [...stairBlocks(cx, cz, prevY, landingY, prevRadius, radius, spec.stairAxis, -1)];
@@ -316,17 +335,21 @@ export class TowerSystem {
   getRoofZoneCenter(): { x: number; y: number; z: number } {
     const spec = this.spec;
     const y = spec ? spec.roofY : 11;
-    return { x: TOWER_CENTER_X, y, z: TOWER_CENTER_Z };
+    const c = this.getTowerCenter();
+    return { x: c.x, y, z: c.z };
   }
 
+  /** On the roof: within ROOF_ZONE_RADIUS of its centre and up at roof height, not standing under the tower. */
   isInRoofZone(pos: { x: number; y: number; z: number }): boolean {
     const c = this.getRoofZoneCenter();
+    if (pos.y < c.y) return false;
     const dx = pos.x - c.x;
     const dz = pos.z - c.z;
     return Math.sqrt(dx * dx + dz * dz) <= ROOF_ZONE_RADIUS;
   }
 
-  tickRoofHold(nowMs: number): void {
+  /** `combatants` are the live humans and bots; anyone on the roof adds to the shared hold. */
+  tickRoofHold(nowMs: number, combatants: CombatantPosition[]): void {
     if (this.worldState.roundState.status !== 'RUNNING') return;
     const ts = this.worldState.towerState;
     if (!ts || !ts.roofActive) return;
@@ -335,21 +358,12 @@ export class TowerSystem {
     this.lastRoofTickMs = nowMs;
     if (delta <= 0) return;
 
-    const players = PlayerManager.instance.getConnectedPlayersByWorld(this.world);
-    for (const player of players) {
-      const entities = this.world.entityManager.getPlayerEntitiesByPlayer(player);
-      const entity = entities[0];
-      if (!entity?.isSpawned) continue;
-
-      const ps = this.worldState.getPlayer(player.id);
-      if (!ps || (ps.health ?? 0) <= 0) continue;
-
-      const pos = entity.position;
-      if (!this.isInRoofZone(pos)) continue;
+    for (const { playerId, position } of combatants) {
+      if (!this.isInRoofZone(position)) continue;
 
       ts.roofHoldMs += delta;
       if (ts.roofHoldMs >= ROOF_HOLD_WIN_MS) {
-        this.onWin?.(player.id);
+        this.onWin?.(playerId);
         return;
       }
     }
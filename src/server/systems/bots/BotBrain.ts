@@ -11,6 +11,19 @@ import type {
   DifficultyTier,
 } from './types.js';
 import { BOT_DEBUG_LOGS } from './types.js';
+import { pickCombatTarget, shouldRetreat } from './BotCombat.js';
+
+/** Stop closing in at this distance so the bot stands in melee range instead of overlapping. */
+const ENGAGE_STOP_DIST = 1.5;
+/** Tower: head for the console once carrying this many shards (or any, when none are left to pick up). */
+const DEPOSIT_AT_CARRIED = 5;
+/** Zones: a bot stops walking once this far into the circle (fraction of its radius) and holds. */
+const ZONE_HOLD_FRACTION = 0.5;
+
+type Vec3 = { x: number; y: number; z: number };
+
+/** Where the mode objective sends a bot now; within holdRadius of `at` (and at least minY up) it stands still. */
+type ObjectiveGoal = { at: Vec3; holdRadius: number; minY?: number };
 
 function sqDist(
   a: { x: number; y: number; z: number },
@@ -68,7 +81,10 @@ export function plan(
 
   // ---- Target selection ----
   const nearestShard = getNearestShard(pos, snapshot.shardPositions);
-  const nearestPlayer = getNearestPlayer(pos, snapshot.playerPositions);
+  const nearestPlayer = getNearestPlayer(
+    pos,
+    snapshot.playerPositions.filter((p) => p.playerId !== bot.botId && !snapshot.isAlly?.(bot.botId, p.playerId))
+  );
   const aggressionRadius = snapshot.aggressionRadius;
   const nearPlayer = nearestPlayer
     ? dist(pos, { x: nearestPlayer.x, y: nearestPlayer.y, z: nearestPlayer.z }) <= aggressionRadius
@@ -76,6 +92,8 @@ export function plan(
 
   let state: BotState['state'] = bot.state;
   let target: BotAction['target'] = bot.currentTarget;
+  const goal = objectiveGoal(bot.botId, pos, snapshot);
+  const huntTarget = snapshot.combatMode ? pickCombatTarget(bot, snapshot, snapshot.huntRadius) : null;
 
   // Spread: sometimes pick a different shard so bots don't all pile on the same one (explore arena)
   const pickSpreadShard = (): { x: number; y: number; z: number } | null => {
@@ -94,15 +112,31 @@ export function plan(
     const wrong = pickSpreadShard();
     if (wrong) target = wrong;
     state = 'SEEK_OBJECTIVE';
+  } else if (nearPlayer && nearestPlayer && shouldRetreat(bot, snapshot)) {
+    state = 'EVADE';
+    target = nearestPlayer.playerId;
+  } else if (huntTarget) {
+    state = 'ENGAGE_PLAYER';
+    target = huntTarget.playerId;
+  } else if (snapshot.combatMode) {
+    state = 'SEEK_OBJECTIVE';
+    target = nearestShard ? { x: nearestShard.x, y: nearestShard.y, z: nearestShard.z } : null;
+  } else if (goal) {
+    // Mode objectives beat chasing or dodging players: a bot holding a zone stays in it
+    state = 'SEEK_OBJECTIVE';
+    target = goal.at;
   } else if (nearPlayer && nearestPlayer) {
+    // Go after whoever is weakest or would drop the most shards nearby, not just the closest
+    const victim = pickCombatTarget(bot, snapshot, aggressionRadius) ?? nearestPlayer;
     const botShards = snapshot.shardsByEntityId.get(bot.botId) ?? 0;
     const playerShards = snapshot.shardsByEntityId.get(nearestPlayer.playerId) ?? 0;
+    const worthRobbing = (snapshot.lootById.get(victim.playerId) ?? 0) > 0;
     const shouldEngage =
-      bot.aggression > 0.5 && playerShards >= botShards && rng(3) < bot.aggression;
+      bot.aggression > 0.5 && (playerShards >= botShards || worthRobbing) && rng(3) < bot.aggression;
     const shouldEvade = bot.aggression < 0.5 || (bot.aggression < 0.7 && playerShards > botShards);
     if (shouldEngage) {
       state = 'ENGAGE_PLAYER';
-      target = nearestPlayer.playerId;
+      target = victim.playerId;
     } else if (shouldEvade) {
       state = 'EVADE';
       target = nearestPlayer.playerId; // move away from this id
@@ -117,31 +151,24 @@ export function plan(
 
   // ---- Move direction ----
   let moveDir = { x: 0, y: 0, z: 0 };
+  let foe: BotWorldSnapshot['playerPositions'][number] | undefined;
 
   if (state === 'SEEK_OBJECTIVE' && target && typeof target === 'object' && 'x' in target) {
-    moveDir = directionToward(pos, target as { x: number; y: number; z: number });
-  } else if (state === 'ENGAGE_PLAYER' && typeof target === 'string' && nearestPlayer?.playerId === target) {
-    moveDir = directionToward(pos, {
-      x: nearestPlayer.x,
-      y: nearestPlayer.y,
-      z: nearestPlayer.z,
-    });
+    if (!(goal && target === goal.at && isHolding(pos, goal))) {
+      moveDir = steer(snapshot, pos, target as { x: number; y: number; z: number });
+    }
+  } else if (state === 'ENGAGE_PLAYER' && typeof target === 'string' && (foe = findPlayer(snapshot, target))) {
+    moveDir = steer(snapshot, pos, { x: foe.x, y: foe.y, z: foe.z });
     // NIGHTMARE: simple intercept using last two positions
     if (bot.difficultyTier === 'NIGHTMARE' && bot.lastPosition) {
-      const pred = predictPosition(
-        { x: nearestPlayer.x, y: nearestPlayer.y, z: nearestPlayer.z },
-        bot.lastPosition,
-        pos,
-        0.3
-      );
-      moveDir = directionToward(pos, pred);
+      const pred = predictPosition({ x: foe.x, y: foe.y, z: foe.z }, bot.lastPosition, pos, 0.3);
+      moveDir = steer(snapshot, pos, pred);
+    }
+    if (dist(pos, foe) <= ENGAGE_STOP_DIST) {
+      moveDir = { x: 0, y: 0, z: 0 };
     }
-  } else if (state === 'EVADE' && typeof target === 'string' && nearestPlayer?.playerId === target) {
-    const away = directionToward(pos, {
-      x: nearestPlayer.x,
-      y: nearestPlayer.y,
-      z: nearestPlayer.z,
-    });
+  } else if (state === 'EVADE' && typeof target === 'string' && (foe = findPlayer(snapshot, target))) {
+    const away = directionToward(pos, { x: foe.x, y: foe.y, z: foe.z });
     moveDir = { x: -away.x, y: -away.y, z: -away.z };
   }
 
@@ -172,6 +199,29 @@ export function plan(
   };
 }
 
+/** The mode objective's goal for this bot, or null to race for shards. */
+function objectiveGoal(botId: string, pos: Vec3, snapshot: BotWorldSnapshot): ObjectiveGoal | null {
+  const objective = snapshot.objective;
+  if (!objective) return null;
+  if (objective.kind === 'zone') {
+    return { at: { x: objective.x, y: pos.y, z: objective.z }, holdRadius: objective.radius * ZONE_HOLD_FRACTION };
+  }
+  if (objective.roof) {
+    const roof = objective.roof;
+    return { at: roof, holdRadius: objective.roofRadius * ZONE_HOLD_FRACTION, minY: roof.y };
+  }
+  const carried = objective.carriedById.get(botId) ?? 0;
+  const bank = carried >= DEPOSIT_AT_CARRIED || (carried > 0 && snapshot.shardPositions.length === 0);
+  return bank ? { at: objective.console, holdRadius: 0 } : null;
+}
+
+/** Inside the hold circle, and for the roof up at its height (a bot under the tower isn't on it). */
+function isHolding(pos: Vec3, goal: ObjectiveGoal): boolean {
+  const dx = pos.x - goal.at.x;
+  const dz = pos.z - goal.at.z;
+  return dx * dx + dz * dz <= goal.holdRadius * goal.holdRadius && pos.y >= (goal.minY ?? -Infinity);
+}
+
 function getNearestShard(
   pos: { x: number; y: number; z: number },
   shards: BotWorldSnapshot['shardPositions']
@@ -204,6 +254,13 @@ function getNearestPlayer(
   return best;
 }
 
+function findPlayer(
+  snapshot: BotWorldSnapshot,
+  playerId: string
+): BotWorldSnapshot['playerPositions'][number] | undefined {
+  return snapshot.playerPositions.find((p) => p.playerId === playerId);
+}
+
 function directionToward(
   from: { x: number; y: number; z: number },
   to: { x: number; y: number; z: number }
@@ -215,6 +272,15 @@ function directionToward(
   };
 }
 
+/** Toward `to` along the arena path when the snapshot has navigation, else in a straight line. */
+function steer(
+  snapshot: BotWorldSnapshot,
+  from: { x: number; y: number; z: number },
+  to: { x: number; y: number; z: number }
+): { x: number; y: number; z: number } {
+  return snapshot.pathDirection?.(from, to) ?? directionToward(from, to);
+}
+
 /** Simple intercept: predict where target will be (linear extrapolation from last two positions). */
 function predictPosition(
   targetPos: { x: number; y: number; z: number },
@@ -253,6 +319,9 @@ export function createBotState(
   let mistakeRate: number;
   let speedMul: number;
   let targetReplanEveryMs: number;
+  let accuracy: number;
+  let swingDelayMs: number;
+  let retreatHealthFraction: number;
 
   switch (tier) {
     case 'EASY':
@@ -261,6 +330,9 @@ export function createBotState(
       mistakeRate = jitter(0.12, 0.18, 3);
       speedMul = jitter(0.95, 1.0, 4);
       targetReplanEveryMs = 1200 + jitter(0, 400, 5);
+      accuracy = jitter(0.45, 0.55, 6);
+      swingDelayMs = jitter(300, 450, 7);
+      retreatHealthFraction = 0.4;
       break;
     case 'MEDIUM':
       reactionTimeMs = jitter(300, 450, 1);
@@ -268,6 +340,9 @@ export function createBotState(
       mistakeRate = jitter(0.07, 0.12, 3);
       speedMul = jitter(1.0, 1.05, 4);
       targetReplanEveryMs = 1000 + jitter(0, 350, 5);
+      accuracy = jitter(0.6, 0.7, 6);
+      swingDelayMs = jitter(180, 280, 7);
+      retreatHealthFraction = 0.3;
       break;
     case 'HARD':
       reactionTimeMs = jitter(180, 320, 1);
@@ -275,6 +350,9 @@ export function createBotState(
       mistakeRate = jitter(0.03, 0.07, 3);
       speedMul = jitter(1.05, 1.1, 4);
       targetReplanEveryMs = 900 + jitter(0, 300, 5);
+      accuracy = jitter(0.75, 0.85, 6);
+      swingDelayMs = jitter(90, 160, 7);
+      retreatHealthFraction = 0.25;
       break;
     case 'NIGHTMARE':
       reactionTimeMs = jitter(120, 220, 1);
@@ -282,6 +360,9 @@ export function createBotState(
       mistakeRate = jitter(0.01, 0.03, 3);
       speedMul = jitter(1.1, 1.15, 4);
       targetReplanEveryMs = 800 + jitter(0, 250, 5);
+      accuracy = jitter(0.9, 0.95, 6);
+      swingDelayMs = jitter(30, 70, 7);
+      retreatHealthFraction = 0.15;
       break;
     default:
       reactionTimeMs = 400;
@@ -289,6 +370,9 @@ export function createBotState(
       mistakeRate = 0.1;
       speedMul = 1.0;
       targetReplanEveryMs = 1000;
+      accuracy = 0.65;
+      swingDelayMs = 250;
+      retreatHealthFraction = 0.3;
   }
 
   const reactionDelay = Math.min(reactionTimeMs * (0.8 + Math.random() * 0.4), 400);
@@ -300,11 +384,16 @@ export function createBotState(
     aggression,
     mistakeRate,
     speedMul,
+    accuracy,
+    swingDelayMs,
+    retreatHealthFraction,
+    lastSwingAtMs: 0,
     targetReplanEveryMs,
     lastPlanAtMs: nowMs,
     state: 'SEEK_OBJECTIVE',
     currentTarget: null,
     position: { ...spawnPos },
+    moveDir: { x: 0, y: 0, z: 0 },
     nextActAtMs: nowMs + reactionDelay,
     hesitateUntilMs: nowMs,
   };
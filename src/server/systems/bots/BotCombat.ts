@@ -0,0 +1,58 @@
+/**
+ * Bot combat layer: who a bot fights, when it backs off and whether a swing lands. Pure like BotBrain; BotManager
+ * passes landed swings to CombatService.tryBotMeleeAttack, which still checks range, cooldown and friendly fire.
+ */
+
+import { ATTACK_COOLDOWN_MS, MELEE_RANGE } from '../../config/combat.js';
+import type { BotState, BotWorldSnapshot } from './types.js';
+
+/** A target on its last legs counts this many blocks closer than one at full health. */
+const WEAK_TARGET_BONUS = 6;
+/** Each shard a KO would drop counts this many blocks closer, up to LOOT_BONUS_CAP shards. */
+const LOOT_BONUS_PER_SHARD = 1;
+const LOOT_BONUS_CAP = 8;
+
+type Combatant = BotWorldSnapshot['playerPositions'][number];
+
+export type SwingDecision = 'none' | 'hit' | 'whiff';
+
+/**
+ * Best target within `radius` of the bot: nearest after bonuses for low health and for shards it would drop.
+ * Skips the bot itself, its teammates and anyone KO'd.
+ */
+export function pickCombatTarget(bot: BotState, snapshot: BotWorldSnapshot, radius: number): Combatant | null {
+  let best: Combatant | null = null;
+  let bestScore = Infinity;
+  for (const p of snapshot.playerPositions) {
+    if (p.playerId === bot.botId || snapshot.isAlly?.(bot.botId, p.playerId)) continue;
+    const health = snapshot.healthFractionById.get(p.playerId) ?? 1;
+    if (health <= 0) continue;
+    const d = Math.sqrt((p.x - bot.position.x) ** 2 + (p.y - bot.position.y) ** 2 + (p.z - bot.position.z) ** 2);
+    if (d > radius) continue;
+    const loot = Math.min(LOOT_BONUS_CAP, snapshot.lootById.get(p.playerId) ?? 0);
+    const score = d - WEAK_TARGET_BONUS * (1 - health) - LOOT_BONUS_PER_SHARD * loot;
+    if (score < bestScore) {
+      bestScore = score;
+      best = p;
+    }
+  }
+  return best;
+}
+
+/** Below its tier's retreat threshold a bot backs away from fights instead of trading hits. */
+export function shouldRetreat(bot: BotState, snapshot: BotWorldSnapshot): boolean {
+  return (snapshot.healthFractionById.get(bot.botId) ?? 1) < bot.retreatHealthFraction;
+}
+
+/**
+ * Whether the bot swings at `target` now. It needs the target in MELEE_RANGE and the player cooldown plus its
+ * tier's wind-up since its last swing; `roll` (0–1) against its accuracy decides a hit or a whiff.
+ */
+export function decideSwing(bot: BotState, target: Combatant, nowMs: number, roll: number): SwingDecision {
+  if (nowMs < bot.lastSwingAtMs + ATTACK_COOLDOWN_MS + bot.swingDelayMs) return 'none';
+  const dx = target.x - bot.position.x;
+  const dy = target.y - bot.position.y;
+  const dz = target.z - bot.position.z;
+  if (dx * dx + dy * dy + dz * dz > MELEE_RANGE * MELEE_RANGE) return 'none';
+  return roll < bot.accuracy ? 'hit' : 'whiff';
+}
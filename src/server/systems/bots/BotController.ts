@@ -0,0 +1,84 @@
+/**
+ * Walks a bot's physics body. BotManager says where to walk, where to face and when to jump; each entity tick
+ * turns that into impulses toward the walk speed, the way a player's controller does, so walls, other bodies,
+ * knockback and jump pads act on bots as they do on players. The model switches between idle and walk loops.
+ */
+
+import { BaseEntityController, type Entity } from 'hytopia';
+
+type Heading = { x: number; z: number };
+
+/** Jump take-off speed (blocks/s), the same as a player's. */
+const JUMP_VELOCITY = 10;
+/** Below this vertical speed (blocks/s) the body counts as standing and can steer or jump. */
+const GROUNDED_MAX_VY = 0.1;
+/** Long enough for a jump to land, so the flat top of the arc doesn't read as ground. */
+const JUMP_COOLDOWN_MS = 600;
+
+export class BotController extends BaseEntityController {
+  private dir: Heading = { x: 0, z: 0 };
+  private jump = false;
+  private facing: Heading = { x: 0, z: -1 };
+  private sinceJumpMs = JUMP_COOLDOWN_MS;
+  private walking = false;
+
+  constructor(
+    private readonly walkVelocity: number,
+    private readonly animations: { idle: string; walk: string }
+  ) {
+    super();
+  }
+
+  /** Walk along unit `dir` (zero stands still) and face it; `jump` takes off once the bot is standing. */
+  walk(dir: Heading, jump: boolean): void {
+    this.dir = { x: dir.x, z: dir.z };
+    this.jump = jump;
+    if (dir.x !== 0 || dir.z !== 0) this.facing = this.dir;
+  }
+
+  /** Turn toward (dx, dz) without walking, e.g. at a target being swung at. */
+  face(dx: number, dz: number): void {
+    if (dx !== 0 || dz !== 0) this.facing = { x: dx, z: dz };
+  }
+
+  tick(entity: Entity, deltaTimeMs: number): void {
+    super.tick(entity, deltaTimeMs);
+    if (!entity.isSpawned) return;
+    this.sinceJumpMs += deltaTimeMs;
+
+    const v = entity.linearVelocity;
+    // Steer only from the ground so knockback and jump pad launches carry through the air
+    if (Math.abs(v.y) < GROUNDED_MAX_VY) {
+      const takeOff = this.jump && this.sinceJumpMs >= JUMP_COOLDOWN_MS;
+      if (takeOff) this.sinceJumpMs = 0;
+      const mass = entity.mass || 1;
+      entity.applyImpulse({
+        x: (this.dir.x * this.walkVelocity - v.x) * mass,
+        y: takeOff ? JUMP_VELOCITY * mass : 0,
+        z: (this.dir.z * this.walkVelocity - v.z) * mass,
+      });
+    }
+    entity.setRotation(yawQuaternion(Math.atan2(this.facing.x, this.facing.z)));
+    this.setWalking(entity, this.dir.x !== 0 || this.dir.z !== 0);
+  }
+
+  private setWalking(entity: Entity, walking: boolean): void {
+    if (walking === this.walking) return;
+    this.walking = walking;
+    const walk = entity.getModelAnimation(this.animations.walk);
+    const idle = entity.getModelAnimation(this.animations.idle);
+    if (walking) {
+      walk?.play();
+      idle?.pause();
+    } else {
+      idle?.play();
+      walk?.pause();
+    }
+  }
+}
+
+/** Rotation about +y facing the (dx, dz) heading; models face -z, hence the half turn. */
+function yawQuaternion(yaw: number): { x: number; y: number; z: number; w: number } {
+  const half = (yaw + Math.PI) / 2;
+  return { x: 0, y: Math.sin(half), z: 0, w: Math.cos(half) };
+}
@@ -0,0 +1,205 @@
+/**
+ * Bot navigation on the round's baked arena grid. Paths come from survival's flow fields, one per target cell,
+ * cached so bots sharing a shard or chasing the same player reuse them. Waypoints are string-pulled: a bot heads
+ * for the furthest cell along its path it can walk to in a straight line, so it cuts across open floor and only
+ * turns at wall ends and gates. It also tells the bot's controller when to jump (step-ups, short gaps). Takes and
+ * returns world coordinates; spec (x, y) is world (x, z) plus the centre.
+ */
+
+import type { MapSpec, Vec2 } from '../../procgen/spec.js';
+import { bakeGridFromSpec, toCell, type BakedGrid } from '../../procgen/gridBake.js';
+import { isHazardCell } from '../../procgen/hazards.js';
+import {
+  UNREACHABLE,
+  buildFlowField,
+  canStep,
+  floorHeightOnGrid,
+  isWalkableCell,
+  nextWaypoint,
+  type FlowField,
+} from '../../modes/survival/flowField.js';
+
+type Vec3 = { x: number; y: number; z: number };
+
+/** Flow fields kept per round (least recently used go first); one covers every bot heading to that cell. */
+const MAX_CACHED_FIELDS = 24;
+/** How far along the path (cells) string-pulling looks for a straight-line shortcut. */
+const LOOKAHEAD_CELLS = 12;
+/** How far (cells) a bot stuck inside a wall or hazard looks for open floor to walk out to. */
+const ESCAPE_RADIUS = 6;
+/** Distance ahead (blocks) checked for a step up or the edge of a gap. */
+const JUMP_LOOKAHEAD = 1;
+/** Widest void or lava gap (cells) a bot tries to jump. */
+const JUMP_GAP_CELLS = 2;
+
+export class BotNavigator {
+  private readonly grid: BakedGrid;
+  /** Map order doubles as LRU order: hits are re-inserted at the end. */
+  private readonly fields = new Map<number, FlowField>();
+
+  constructor(private readonly spec: MapSpec) {
+    this.grid = bakeGridFromSpec(spec, 1);
+  }
+
+  /**
+   * Unit (x, z) direction for a bot at `from` heading to `to`. A bot standing on a blocked cell (pressed
+   * against a wall, or on a spawn point baked inside one) first heads for the nearest open floor. Null when the
+   * path is unknown (the target is off the walkable grid, or there is no route); callers then fall back to a
+   * straight line.
+   */
+  directionToward(from: Vec3, to: Vec3): Vec3 | null {
+    const start = this.toSpec(from);
+    const waypoint = isWalkableCell(this.grid, this.cellIndex(start))
+      ? this.waypoint(start, this.toSpec(to))
+      : this.nearestOpenFloor(start);
+    if (!waypoint) return null;
+    const dx = waypoint.x - from.x;
+    const dz = waypoint.z - from.z;
+    const len = Math.sqrt(dx * dx + dz * dz);
+    if (len < 1e-6) return { x: 0, y: 0, z: 0 };
+    return { x: dx / len, y: 0, z: dz / len };
+  }
+
+  /**
+   * A bot walking `dir` from `from` should jump now: the floor just ahead steps up, or it is a void or lava gap
+   * with floor again within JUMP_GAP_CELLS. Walls never trigger a jump; the bot slides along them.
+   */
+  shouldJump(from: Vec3, dir: Vec3): boolean {
+    if (dir.x === 0 && dir.z === 0) return false;
+    const start = this.toSpec(from);
+    const ahead = (d: number): Vec2 => ({ x: start.x + dir.x * d, y: start.y + dir.z * d });
+    const next = ahead(JUMP_LOOKAHEAD);
+    const nextCell = this.cellIndex(next);
+    if (this.grid.blocked[nextCell] === 1) return false;
+    if (floorHeightOnGrid(this.grid, next) > floorHeightOnGrid(this.grid, start)) return true;
+    if (!isHazardCell(this.grid.hazards, nextCell)) return false;
+    for (let d = JUMP_LOOKAHEAD + 1; d <= JUMP_LOOKAHEAD + JUMP_GAP_CELLS; d++) {
+      if (isWalkableCell(this.grid, this.cellIndex(ahead(d)))) return true;
+    }
+    return false;
+  }
+
+  private waypoint(start: Vec2, goal: Vec2): { x: number; z: number } | null {
+    if (this.clearLine(start, goal)) return this.toWorld(goal);
+    const field = this.fieldFor(goal);
+    if (!field || field[this.cellIndex(start)] === UNREACHABLE) return null;
+
+    let best: Vec2 | null = null;
+    let cursor = start;
+    for (let i = 0; i < LOOKAHEAD_CELLS; i++) {
+      const next = nextWaypoint(this.grid, field, cursor);
+      if (!next) break;
+      // The first step is always taken; later ones only while still in straight-line reach
+      if (best && !this.clearLine(start, next)) break;
+      best = next;
+      cursor = next;
+    }
+    return best ? this.toWorld(best) : null;
+  }
+
+  /** Centre of a walkable cell in the nearest square ring (up to ESCAPE_RADIUS) around `p` that has one, or null. */
+  private nearestOpenFloor(p: Vec2): { x: number; z: number } | null {
+    const n = this.grid.size;
+    const c = toCell(this.grid, p);
+    for (let r = 1; r <= ESCAPE_RADIUS; r++) {
+      for (let dy = -r; dy <= r; dy++) {
+        for (let dx = -r; dx <= r; dx++) {
+          if (Math.max(Math.abs(dx), Math.abs(dy)) !== r) continue;
+          const x = c.x + dx;
+          const y = c.y + dy;
+          if (x < 0 || y < 0 || x >= n || y >= n || !isWalkableCell(this.grid, y * n + x)) continue;
+          const cs = this.grid.cellSize;
+          return this.toWorld({
+            x: (x + (this.grid.originX ?? 0) + 0.5) * cs,
+            y: (y + (this.grid.originY ?? 0) + 0.5) * cs,
+          });
+        }
+      }
+    }
+    return null;
+  }
+
+  private fieldFor(goal: Vec2): FlowField | null {
+    const key = this.cellIndex(goal);
+    if (!isWalkableCell(this.grid, key)) return null;
+    const cached = this.fields.get(key);
+    if (cached) {
+      this.fields.delete(key);
+      this.fields.set(key, cached);
+      return cached;
+    }
+    const field = buildFlowField(this.grid, [goal]);
+    this.fields.set(key, field);
+    if (this.fields.size > MAX_CACHED_FIELDS) {
+      const oldest = this.fields.keys().next().value;
+      if (oldest !== undefined) this.fields.delete(oldest);
+    }
+    return field;
+  }
+
+  /**
+   * Every cell the segment passes through is walkable and each cell-to-cell step is legal (no wall, hazard or
+   * ledge). Cells are visited by grid traversal, so a line can't clip the corner of a wall; one passing exactly
+   * through a corner needs both cells beside it open.
+   */
+  private clearLine(a: Vec2, b: Vec2): boolean {
+    const { cellSize: cs, size: n } = this.grid;
+    const ox = this.grid.originX ?? 0;
+    const oy = this.grid.originY ?? 0;
+    const index = (x: number, y: number) => {
+      const lx = x - ox;
+      const ly = y - oy;
+      return lx < 0 || ly < 0 || lx >= n || ly >= n ? -1 : ly * n + lx;
+    };
+    const open = (i: number) => i >= 0 && isWalkableCell(this.grid, i);
+
+    let x = Math.floor(a.x / cs);
+    let y = Math.floor(a.y / cs);
+    const endX = Math.floor(b.x / cs);
+    const endY = Math.floor(b.y / cs);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const stepX = Math.sign(dx);
+    const stepY = Math.sign(dy);
+    // Segment parameter (0..1) at the next vertical / horizontal cell boundary, and per whole cell
+    let tMaxX = dx !== 0 ? ((stepX > 0 ? x + 1 : x) * cs - a.x) / dx : Infinity;
+    let tMaxY = dy !== 0 ? ((stepY > 0 ? y + 1 : y) * cs - a.y) / dy : Infinity;
+    const tDeltaX = dx !== 0 ? cs / Math.abs(dx) : Infinity;
+    const tDeltaY = dy !== 0 ? cs / Math.abs(dy) : Infinity;
+
+    let prev = index(x, y);
+    if (!open(prev)) return false;
+    for (let left = Math.abs(endX - x) + Math.abs(endY - y); left > 0 && (x !== endX || y !== endY); left--) {
+      if (tMaxX === tMaxY) {
+        if (!open(index(x + stepX, y)) || !open(index(x, y + stepY))) return false;
+        x += stepX;
+        y += stepY;
+        tMaxX += tDeltaX;
+        tMaxY += tDeltaY;
+      } else if (tMaxX < tMaxY) {
+        x += stepX;
+        tMaxX += tDeltaX;
+      } else {
+        y += stepY;
+        tMaxY += tDeltaY;
+      }
+      const cell = index(x, y);
+      if (!open(cell) || !canStep(this.grid, prev, cell)) return false;
+      prev = cell;
+    }
+    return true;
+  }
+
+  private cellIndex(p: Vec2): number {
+    const c = toCell(this.grid, p);
+    return c.y * this.grid.size + c.x;
+  }
+
+  private toSpec(p: { x: number; z: number }): Vec2 {
+    return { x: p.x + this.spec.center.x, y: p.z + this.spec.center.y };
+  }
+
+  private toWorld(p: Vec2): { x: number; z: number } {
+    return { x: p.x - this.spec.center.x, z: p.y - this.spec.center.y };
+  }
+}
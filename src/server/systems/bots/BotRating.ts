@@ -0,0 +1,112 @@
+/**
+ * Bot difficulty as a skill rating. Every human has an Elo rating against the bots, kept per player id in the
+ * local store; bot tiers have fixed ratings. A round with bots is one game between each connected human and the
+ * bot field (its bots' mean tier rating): the winning human scores 1, everyone scores 0 when a bot wins, and the
+ * humans who lost to another human draw with the bots. BotManager sizes and tiers the next round's bots from the
+ * connected humans' mean rating.
+ */
+
+import { readStore, writeStore } from '../../persistence/localStore.js';
+import type { BotSkillState, DifficultyTier } from './types.js';
+
+export const DEFAULT_RATING = 1000;
+
+export const TIER_RATING: Record<DifficultyTier, number> = {
+  EASY: 800,
+  MEDIUM: 1000,
+  HARD: 1200,
+  NIGHTMARE: 1400,
+};
+
+const TIERS: DifficultyTier[] = ['EASY', 'MEDIUM', 'HARD', 'NIGHTMARE'];
+/** Rating change per round at full surprise; doubled for a player's first PROVISIONAL_GAMES rounds. */
+const K_FACTOR = 32;
+const PROVISIONAL_GAMES = 10;
+/** Each this many rating points above (below) the default adds (removes) a bot, up to MAX_COUNT_SHIFT. */
+const RATING_PER_BOT = 150;
+const MAX_COUNT_SHIFT = 2;
+
+const STORE_KEY = 'bots/ratings';
+
+/** The stored ratings; a missing or hand-mangled file starts everyone fresh. */
+export function loadSkillState(): BotSkillState {
+  const stored = readStore<Partial<BotSkillState>>(STORE_KEY, {});
+  return {
+    players: stored.players && typeof stored.players === 'object' ? stored.players : {},
+    recentBotWins: Array.isArray(stored.recentBotWins) ? stored.recentBotWins : [],
+  };
+}
+
+export function saveSkillState(state: BotSkillState): void {
+  writeStore(STORE_KEY, state);
+}
+
+export function ratingOf(state: BotSkillState, playerId: string): number {
+  return state.players[playerId]?.rating ?? DEFAULT_RATING;
+}
+
+/** Mean rating of `playerIds`; DEFAULT_RATING when there are none. */
+export function meanRating(state: BotSkillState, playerIds: string[]): number {
+  if (playerIds.length === 0) return DEFAULT_RATING;
+  return playerIds.reduce((sum, id) => sum + ratingOf(state, id), 0) / playerIds.length;
+}
+
+/** Elo expected score (0–1) of a player rated `a` against one rated `b`. */
+export function expectedScore(a: number, b: number): number {
+  return 1 / (1 + 10 ** ((b - a) / 400));
+}
+
+export interface RatedRound {
+  /** Humans connected when the round ended. */
+  humanIds: string[];
+  /** Tiers of the round's bots. */
+  botTiers: DifficultyTier[];
+  winnerPlayerId?: string;
+  winnerIsBot: boolean;
+  nowMs: number;
+}
+
+/**
+ * Rate a finished round into `state`. Rounds without bots, humans or a winner aren't rated. Returns whether
+ * anything changed (the caller saves).
+ */
+export function recordRound(state: BotSkillState, round: RatedRound, recentCap: number): boolean {
+  const { humanIds, botTiers, winnerPlayerId, winnerIsBot, nowMs } = round;
+  if (botTiers.length === 0 || humanIds.length === 0 || (!winnerIsBot && !winnerPlayerId)) return false;
+
+  const field = botTiers.reduce((sum, t) => sum + TIER_RATING[t], 0) / botTiers.length;
+  for (const id of humanIds) {
+    const entry = (state.players[id] ??= { rating: DEFAULT_RATING, games: 0, updatedAtMs: nowMs });
+    const score = winnerIsBot ? 0 : id === winnerPlayerId ? 1 : 0.5;
+    const k = entry.games < PROVISIONAL_GAMES ? K_FACTOR * 2 : K_FACTOR;
+    entry.rating = Math.round(entry.rating + k * (score - expectedScore(entry.rating, field)));
+    entry.games++;
+    entry.updatedAtMs = nowMs;
+  }
+
+  state.recentBotWins.push(winnerIsBot);
+  while (state.recentBotWins.length > recentCap) state.recentBotWins.shift();
+  return true;
+}
+
+/** `baseCount` shifted by the humans' rating: stronger players face more bots, never fewer than one. */
+export function botCountForRating(baseCount: number, rating: number): number {
+  if (baseCount <= 0) return 0;
+  const shift = Math.round((rating - DEFAULT_RATING) / RATING_PER_BOT);
+  return Math.max(1, baseCount + Math.max(-MAX_COUNT_SHIFT, Math.min(MAX_COUNT_SHIFT, shift)));
+}
+
+/** Tiers for `count` bots, centred on the tier nearest `rating` with one below and one above for variety. */
+export function tierMixForRating(count: number, rating: number): DifficultyTier[] {
+  let centre = 0;
+  for (let i = 1; i < TIERS.length; i++) {
+    if (Math.abs(TIER_RATING[TIERS[i]] - rating) < Math.abs(TIER_RATING[TIERS[centre]] - rating)) centre = i;
+  }
+  const offsets = [0, -1, 1];
+  const mix: DifficultyTier[] = [];
+  for (let i = 0; i < count; i++) {
+    const idx = Math.max(0, Math.min(TIERS.length - 1, centre + offsets[i % offsets.length]));
+    mix.push(TIERS[idx]);
+  }
+  return mix;
+}
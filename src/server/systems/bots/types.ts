@@ -27,6 +27,14 @@ export interface BotState {
   mistakeRate: number;
   /** Movement speed multiplier (e.g. 0.95–1.15). */
   speedMul: number;
+  /** 0–1; chance a melee swing in range connects. */
+  accuracy: number;
+  /** Wind-up on top of ATTACK_COOLDOWN_MS before the next swing. */
+  swingDelayMs: number;
+  /** Health fraction below which the bot retreats from nearby enemies. */
+  retreatHealthFraction: number;
+  /** Last melee swing, hit or whiff (ms since epoch). */
+  lastSwingAtMs: number;
   /** Replan target every this many ms. */
   targetReplanEveryMs: number;
   /** Last time we ran planning for this bot (ms since epoch). */
@@ -34,8 +42,10 @@ export interface BotState {
   state: BotBehaviorState;
   /** Current target position or entity id (position preferred for shards). */
   currentTarget: { x: number; y: number; z: number } | string | null;
-  /** Current position (server-side; no entity in world). */
+  /** Current position, copied from the bot entity's physics body every world tick. */
   position: { x: number; y: number; z: number };
+  /** Direction from the last plan (zero to stand); BotManager walks the bot's controller along it. */
+  moveDir: { x: number; y: number; z: number };
   /** Optional: last position for intercept prediction (NIGHTMARE). */
   lastPosition?: { x: number; y: number; z: number };
   /** When to next act (reaction lag); 0 = act now. */
@@ -44,21 +54,48 @@ export interface BotState {
   hesitateUntilMs: number;
 }
 
+type Vec3 = { x: number; y: number; z: number };
+
+/** What the active mode wants from bots besides shards (GameModeDefinition.bots.objective). */
+export type BotObjective =
+  /** Tower: bank carried shards at the console; once the roof is active, climb up and hold it. */
+  | { kind: 'deposit'; console: Vec3; roof: Vec3 | null; roofRadius: number; carriedById: Map<string, number> }
+  /** KOTH hill or time-trial capture (world x/z circle, like isInsideZone): get inside and stay there. */
+  | { kind: 'zone'; x: number; z: number; radius: number };
+
 /** Snapshot passed to BotBrain each tick (read-only). */
 export interface BotWorldSnapshot {
   nowMs: number;
   /** Remaining shard pickups (position only; id for reference). */
   shardPositions: Array<{ id: string; x: number; y: number; z: number }>;
-  /** Human player positions (for engage/evade). */
+  /** Human player positions (for engage/evade); in combat mode also every live bot (skip your own id). */
   playerPositions: Array<{ playerId: string; x: number; y: number; z: number }>;
   /** Total shards per entity (playerId or botId). */
   shardsByEntityId: Map<string, number>;
   /** Target shards to win. */
   targetShards: number;
-  /** Arena bounds for clamping. */
-  bounds: { minX: number; maxX: number; minZ: number; maxZ: number };
   /** Aggression radius: within this distance we consider engage/evade. */
   aggressionRadius: number;
+  /** bot_ffa: bots hunt any combatant within huntRadius and melee it instead of racing for shards. */
+  combatMode: boolean;
+  /** Combat mode: how far a bot will go to chase a target. */
+  huntRadius: number;
+  /** Health / max health per entity (playerId or botId), 0 while KO'd. */
+  healthFractionById: Map<string, number>;
+  /** Shards a KO would drop per entity (carried tower shards, a bot's race shards); bots go after them. */
+  lootById: Map<string, number>;
+  /** Team modes: whether two ids are on the same team (bots never pick teammates as targets). */
+  isAlly?: (a: string, b: string) => boolean;
+  /** The mode's objective; absent in shard races and bot brawl, where SEEK_OBJECTIVE means the nearest shard. */
+  objective?: BotObjective;
+  /**
+   * Unit direction along the walkable path from one point to another (BotNavigator), or null when there is
+   * none. Absent without a baked arena; bots then head straight for their target.
+   */
+  pathDirection?: (
+    from: { x: number; y: number; z: number },
+    to: { x: number; y: number; z: number }
+  ) => { x: number; y: number; z: number } | null;
 }
 
 /** Output from BotBrain: what the bot should do this tick. */
@@ -67,7 +104,7 @@ export interface BotAction {
   moveDir: { x: number; y: number; z: number };
   state: BotBehaviorState;
   target: { x: number; y: number; z: number } | string | null;
-  /** Optional path wobble offset to add to position. */
+  /** Optional small sideways nudge, folded into the walk direction. */
   wobbleOffset?: { x: number; y: number; z: number };
 }
 
@@ -87,21 +124,23 @@ export const BOT_DEFAULT_COUNT = Math.min(
   Math.max(0, parseInt(process.env.BOT_DEFAULT_COUNT ?? '0', 10))
 );
 
-/** Per-human difficulty scaling state (for dynamic bot count/tier). */
-export interface BotDifficultyScalingState {
-  /** Consecutive wins per player id. */
-  winStreakByPlayerId: Map<string, number>;
-  /** Consecutive losses per player id. */
-  lossStreakByPlayerId: Map<string, number>;
-  /** Rolling average round duration (sec) per player. */
-  avgRoundTimeSecByPlayerId: Map<string, number>;
-  /** Last N round outcomes: true = human/bot win, false = other. Used for fairness ceiling. */
+/** A human's skill rating against the bots (Elo). */
+export interface BotPlayerRating {
+  rating: number;
+  /** Rated rounds played; the first few move the rating faster. */
+  games: number;
+  /** When the last rated round ended (ms since epoch). */
+  updatedAtMs: number;
+}
+
+/** Difficulty scaling state, persisted in the local store so it survives restarts. */
+export interface BotSkillState {
+  /** Per human player id. */
+  players: Record<string, BotPlayerRating>;
+  /** Last BOT_RECENT_ROUNDS_CAP rated rounds: true = a bot won. Used for the fairness ceiling. */
   recentBotWins: boolean[];
-  readonly recentRoundsCap: number;
 }
 
 export const BOT_RECENT_ROUNDS_CAP = 10;
 export const BOT_FAIRNESS_BOT_WIN_RATE_CEILING = 0.6;
 export const BOT_DOMINANCE_PCT_THRESHOLD = 0.65;
-export const BOT_WIN_STREAK_TO_BUMP = 3;
-export const BOT_LOSS_STREAK_TO_EASE = 2;